@@ -1,18 +1,31 @@
 import React, { createContext, useContext, useReducer, useCallback, useMemo, useEffect } from 'react';
-import { TableProps, SpreadsheetState, CellData, keyOf } from './types/spreadsheet';
+import { TableProps, SpreadsheetState, CellData, ComputedValueGetter, keyOf } from './types/spreadsheet';
 import { SpreadsheetAction } from './types/actions';
 import { spreadsheetReducer } from './reducers/spreadsheetReducer';
-import { useUndoRedo } from './hooks/useUndoRedo';
+import { useUndoRedo, UndoHistory } from './hooks/useUndoRedo';
+import { useFormulaEngine, FormulaEvaluator } from './hooks/useFormulaEngine';
+import { FormulaEngine } from './utils/hyperformulaEngine';
+import { SpillRanges } from './utils/spillUtils';
+import { createSheet, applySheets, DEFAULT_SHEET_ID, DEFAULT_SHEET_NAME } from './utils/sheetUtils';
 
 interface SpreadsheetContextValue {
   state: SpreadsheetState;
   dispatch: React.Dispatch<SpreadsheetAction>;
   getCell: (r: number, c: number) => CellData | undefined;
   setCell: (r: number, c: number, data: Partial<CellData>) => void;
-  undo: () => void;
-  redo: () => void;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
   canUndo: boolean;
   canRedo: boolean;
+  history: UndoHistory;
+  formulaEngine: FormulaEngine | null;
+  getComputedValue: ComputedValueGetter;
+  // Changes each time the formula engine recalculates
+  recalculation: number;
+  // Evaluates formulas on the engine; a new one after each recalculation
+  evaluator: FormulaEvaluator | null;
+  // Where array formulas on the active sheet spill their results
+  spills: SpillRanges;
 }
 
 const SpreadsheetContext = createContext<SpreadsheetContextValue | null>(null);
@@ -34,31 +47,40 @@ const enhancedReducer = (state: SpreadsheetState, action: SpreadsheetAction): Sp
 
 export const SpreadsheetProviderEnhanced: React.FC<React.PropsWithChildren<TableProps>> = ({
   initialData,
+  initialSheets,
   maxRows = 1000,
   maxCols = 100,
   readOnly = false,
+  customFunctions,
   onCellChange,
   onSelectionChange,
   children,
 }) => {
   // Initialize state with defaults
-  const initialState: SpreadsheetState = useMemo(() => ({
-    data: initialData ?? new Map(),
-    maxRows,
-    maxCols,
-    selection: { ranges: [], active: null },
-    editing: null,
-    formulaInput: '',
-    readOnly,
-    rowHeights: Array(maxRows).fill(28),
-    colWidths: Array(maxCols).fill(100),
-    validation: new Map(),
-  }), [initialData, maxRows, maxCols, readOnly]);
-
-  const [state, dispatch] = useReducer(enhancedReducer, initialState);
-
-  // Undo/Redo support
-  const { undo, redo, canUndo, canRedo } = useUndoRedo(state, dispatch);
+  const initialState: SpreadsheetState = useMemo(() => {
+    const sheets = initialSheets?.length
+      ? initialSheets
+      : [createSheet(DEFAULT_SHEET_NAME, { id: DEFAULT_SHEET_ID, data: initialData ?? new Map(), maxRows, maxCols })];
+
+    return applySheets({
+      data: sheets[0].data,
+      maxRows,
+      maxCols,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+      readOnly,
+      activeSheetId: sheets[0].id,
+    }, sheets, sheets[0].id);
+  }, [initialData, initialSheets, maxRows, maxCols, readOnly]);
+
+  const [state, reducerDispatch] = useReducer(enhancedReducer, initialState);
+
+  // Formula engine owns computed values; every action goes through its dispatch
+  const { dispatch: engineDispatch, formulaEngine, getComputedValue, recalculation, evaluator, spills } = useFormulaEngine(state, reducerDispatch, customFunctions);
+
+  // Undo/Redo support; records the actions components dispatch
+  const { dispatch, undo, redo, canUndo, canRedo, history } = useUndoRedo(state, engineDispatch);
 
   // Memoized getCell function
   const getCell = useCallback((r: number, c: number) => {
@@ -148,7 +170,13 @@ export const SpreadsheetProviderEnhanced: React.FC<React.PropsWithChildren<Table
     redo,
     canUndo,
     canRedo,
-  }), [state, dispatch, getCell, setCell, undo, redo, canUndo, canRedo]);
+    history,
+    formulaEngine,
+    getComputedValue,
+    recalculation,
+    evaluator,
+    spills,
+  }), [state, dispatch, getCell, setCell, undo, redo, canUndo, canRedo, history, formulaEngine, getComputedValue, recalculation, evaluator, spills]);
 
   return (
     <SpreadsheetContext.Provider value={contextValue}>
@@ -1,8 +1,12 @@
 import React, { createContext, useContext, useReducer, useCallback, useMemo, useEffect, useRef } from 'react';
-import { TableProps, SpreadsheetState, CellData, keyOf } from './types/spreadsheet';
+import { TableProps, SpreadsheetState, CellData, ComputedValueGetter, keyOf } from './types/spreadsheet';
 import { SpreadsheetAction } from './types/actions';
 import { spreadsheetReducer } from './reducers/spreadsheetReducer';
-import { useUndoRedo } from './hooks/useUndoRedo';
+import { useUndoRedo, UndoHistory } from './hooks/useUndoRedo';
+import { useFormulaEngine, FormulaEvaluator } from './hooks/useFormulaEngine';
+import { FormulaEngine } from './utils/hyperformulaEngine';
+import { SpillRanges } from './utils/spillUtils';
+import { createSheet, applySheets, DEFAULT_SHEET_ID, DEFAULT_SHEET_NAME } from './utils/sheetUtils';
 import { PersistenceManager, PersistenceMode } from './persistence/PersistenceManager';
 import { SyncStatus, SaveResult } from './persistence/types';
 
@@ -11,10 +15,19 @@ interface SpreadsheetContextValue {
   dispatch: React.Dispatch<SpreadsheetAction>;
   getCell: (r: number, c: number) => CellData | undefined;
   setCell: (r: number, c: number, data: Partial<CellData>) => void;
-  undo: () => void;
-  redo: () => void;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
   canUndo: boolean;
   canRedo: boolean;
+  history: UndoHistory;
+  formulaEngine: FormulaEngine | null;
+  getComputedValue: ComputedValueGetter;
+  // Changes each time the formula engine recalculates
+  recalculation: number;
+  // Evaluates formulas on the engine; a new one after each recalculation
+  evaluator: FormulaEvaluator | null;
+  // Where array formulas on the active sheet spill their results
+  spills: SpillRanges;
   save: () => Promise<SaveResult>;
   load: () => Promise<void>;
   saveVersion: (label?: string) => Promise<void>;
@@ -56,8 +69,16 @@ const enhancedReducer = (state: SpreadsheetState, action: SpreadsheetAction): Sp
   // Handle load from persistence
   if (action.type === 'LOAD_STATE') {
     const loadedState = action.payload;
+    if (loadedState.sheets?.length) {
+      return applySheets(
+        { ...state, namedRanges: loadedState.namedRanges },
+        loadedState.sheets,
+        loadedState.activeSheetId
+      );
+    }
     return {
       ...state,
+      namedRanges: loadedState.namedRanges,
       data: loadedState.data,
       rowHeights: loadedState.rowHeights || state.rowHeights,
       colWidths: loadedState.colWidths || state.colWidths,
@@ -75,9 +96,11 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
   autoSaveInterval = 5000,
   apiConfig,
   initialData,
+  initialSheets,
   maxRows = 1000,
   maxCols = 100,
   readOnly = false,
+  customFunctions,
   onCellChange,
   onSelectionChange,
   onSyncStatusChange,
@@ -86,20 +109,30 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
   children,
 }) => {
   // Initialize state with defaults
-  const initialState: SpreadsheetState = useMemo(() => ({
-    data: initialData ?? new Map(),
-    maxRows,
-    maxCols,
-    selection: { ranges: [], active: null },
-    editing: null,
-    formulaInput: '',
-    readOnly,
-    rowHeights: Array(maxRows).fill(28),
-    colWidths: Array(maxCols).fill(100),
-    validation: new Map(),
-  }), [initialData, maxRows, maxCols, readOnly]);
-
-  const [state, dispatch] = useReducer(enhancedReducer, initialState);
+  const initialState: SpreadsheetState = useMemo(() => {
+    const sheets = initialSheets?.length
+      ? initialSheets
+      : [createSheet(DEFAULT_SHEET_NAME, { id: DEFAULT_SHEET_ID, data: initialData ?? new Map(), maxRows, maxCols })];
+
+    return applySheets({
+      data: sheets[0].data,
+      maxRows,
+      maxCols,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+      readOnly,
+      activeSheetId: sheets[0].id,
+    }, sheets, sheets[0].id);
+  }, [initialData, initialSheets, maxRows, maxCols, readOnly]);
+
+  const [state, reducerDispatch] = useReducer(enhancedReducer, initialState);
+
+  // Formula engine owns computed values; every action goes through its dispatch
+  const { dispatch: engineDispatch, formulaEngine, getComputedValue, recalculation, evaluator, spills } = useFormulaEngine(state, reducerDispatch, customFunctions);
+
+  // Undo/Redo support; records the actions components dispatch
+  const { dispatch, undo, redo, canUndo, canRedo, history } = useUndoRedo(state, engineDispatch);
   
   // Sync status
   const [syncStatus, setSyncStatus] = React.useState<SyncStatus>({
@@ -114,6 +147,8 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
   const autoSaveTimer = useRef<NodeJS.Timeout | null>(null);
   const hasUnsavedChanges = useRef(false);
   const lastSavedState = useRef<string>('');
+  // The saved parts of the state as of the last change seen
+  const lastSeenFields = useRef<unknown[]>();
 
   // Initialize persistence manager
   useEffect(() => {
@@ -137,9 +172,6 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
     };
   }, [spreadsheetId, persistenceMode]);
 
-  // Undo/Redo support
-  const { undo, redo, canUndo, canRedo } = useUndoRedo(state, dispatch);
-
   // Load data from persistence
   const loadData = async () => {
     if (!persistenceManager.current) return;
@@ -191,9 +223,37 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
     }
   };
 
+  // Saves the state as it is when a timer or unload handler runs
+  const saveLatest = useRef(saveData);
+  saveLatest.current = saveData;
+
   // Auto-save functionality
   useEffect(() => {
-    if (!autoSave) return;
+    // Everything that is saved: the active sheet's live fields, the other
+    // sheets and the workbook's names. A change to any of them needs a save.
+    const fields = [
+      state.data,
+      state.maxRows,
+      state.maxCols,
+      state.rowHeights,
+      state.colWidths,
+      state.validation,
+      state.sheetFormatting,
+      state.filterState,
+      state.filterViews,
+      state.merges,
+      state.conditionalFormats,
+      state.pivotTables,
+      state.charts,
+      state.tables,
+      state.sheets,
+      state.activeSheetId,
+      state.namedRanges,
+    ];
+    if (lastSeenFields.current?.some((field, i) => field !== fields[i])) {
+      hasUnsavedChanges.current = true;
+    }
+    lastSeenFields.current = fields;
 
     // Check if state has changed
     const currentStateStr = JSON.stringify(state.data);
@@ -201,6 +261,8 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
       hasUnsavedChanges.current = true;
     }
 
+    if (!autoSave) return;
+
     // Clear existing timer
     if (autoSaveTimer.current) {
       clearTimeout(autoSaveTimer.current);
@@ -209,7 +271,7 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
     // Set new timer
     if (hasUnsavedChanges.current && !state.editing) {
       autoSaveTimer.current = setTimeout(() => {
-        saveData();
+        saveLatest.current();
       }, autoSaveInterval);
     }
 
@@ -218,7 +280,28 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
         clearTimeout(autoSaveTimer.current);
       }
     };
-  }, [state.data, state.editing, autoSave, autoSaveInterval]);
+  }, [
+    state.data,
+    state.maxRows,
+    state.maxCols,
+    state.rowHeights,
+    state.colWidths,
+    state.validation,
+    state.sheetFormatting,
+    state.filterState,
+    state.filterViews,
+    state.merges,
+    state.conditionalFormats,
+    state.pivotTables,
+    state.charts,
+    state.tables,
+    state.sheets,
+    state.activeSheetId,
+    state.namedRanges,
+    state.editing,
+    autoSave,
+    autoSaveInterval,
+  ]);
 
   // Save on window unload
   useEffect(() => {
@@ -228,7 +311,7 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
         e.returnValue = 'You have unsaved changes. Are you sure you want to leave?';
         
         // Try to save
-        saveData();
+        saveLatest.current();
       }
     };
 
@@ -320,13 +403,19 @@ export const SpreadsheetProviderPersisted: React.FC<React.PropsWithChildren<Pers
     redo,
     canUndo,
     canRedo,
+    history,
+    formulaEngine,
+    getComputedValue,
+    recalculation,
+    evaluator,
+    spills,
     save: saveData,
     load: loadData,
     saveVersion,
     loadVersion,
     syncStatus,
     persistenceMode,
-  }), [state, dispatch, getCell, setCell, undo, redo, canUndo, canRedo, syncStatus, persistenceMode]);
+  }), [state, dispatch, getCell, setCell, undo, redo, canUndo, canRedo, history, formulaEngine, getComputedValue, recalculation, evaluator, spills, syncStatus, persistenceMode]);
 
   return (
     <SpreadsheetContext.Provider value={contextValue}>
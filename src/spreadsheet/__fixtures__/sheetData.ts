@@ -0,0 +1,30 @@
+import { CellData, SparseMatrix, SpreadsheetState, keyOf } from '../types/spreadsheet';
+
+// What a test types into a cell
+export type FixtureValue = string | number | boolean | null;
+
+/**
+ * Cells holding rows of values, the first row at A1. Empty strings leave
+ * their cells empty.
+ */
+export function createSheetData(rows: FixtureValue[][]): SparseMatrix<CellData> {
+  const data: SparseMatrix<CellData> = new Map();
+  rows.forEach((values, row) => values.forEach((value, col) => {
+    if (value !== '') data.set(keyOf(row, col), { value });
+  }));
+  return data;
+}
+
+/**
+ * A single-sheet workbook holding rows of values, with nothing selected
+ */
+export function createSheetState(rows: FixtureValue[][], maxRows = 20, maxCols = 10): SpreadsheetState {
+  return {
+    data: createSheetData(rows),
+    maxRows,
+    maxCols,
+    selection: { ranges: [], active: null },
+    editing: null,
+    formulaInput: '',
+  };
+}
@@ -0,0 +1,84 @@
+import {
+  applySuggestion,
+  formatSignature,
+  getActiveArgument,
+  getFormulaContext,
+  getFunctionSignature,
+  getSuggestions,
+} from '../utils/autocompleteUtils';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+
+describe('Autocomplete Utils', () => {
+  it('finds the name being typed and the call around the caret', () => {
+    expect(getFormulaContext('=VLO', 4)).toEqual({ prefix: { text: 'VLO', start: 1 } });
+    expect(getFormulaContext('=SUM(A1, MA', 11)).toEqual({
+      prefix: { text: 'MA', start: 9 },
+      call: { name: 'SUM', argIndex: 1 },
+    });
+    expect(getFormulaContext('=VLOOKUP(A1, IF(B1, 1, 2), ', 27)).toEqual({
+      call: { name: 'VLOOKUP', argIndex: 2 },
+    });
+    // Closed calls, grouping brackets and array constants
+    expect(getFormulaContext('=SUM(1)+', 8)).toEqual({});
+    expect(getFormulaContext('=IF((A1+1', 9).call).toEqual({ name: 'IF', argIndex: 0 });
+    expect(getFormulaContext('=SUM({1,2,3}, ', 14).call).toEqual({ name: 'SUM', argIndex: 1 });
+    // Only what's before the caret counts
+    expect(getFormulaContext('=ROUND(A1, 2)', 7).call).toEqual({ name: 'ROUND', argIndex: 0 });
+    expect(getFormulaContext('plain text', 5)).toEqual({});
+  });
+
+  it('suggests names, tables and functions by prefix', () => {
+    const sources = {
+      functions: ['VLOOKUP', 'VALUE', 'VAR', 'SUM'],
+      names: ['Variance', 'Total'],
+      tables: ['Vendors'],
+    };
+    expect(getSuggestions('va', sources)).toEqual([
+      { kind: 'name', label: 'Variance' },
+      { kind: 'function', label: 'VALUE' },
+      { kind: 'function', label: 'VAR' },
+    ]);
+    expect(getSuggestions('v', sources, 2)).toHaveLength(2);
+    // Fully typed already
+    expect(getSuggestions('sum', sources)).toEqual([]);
+  });
+
+  it('inserts a suggestion at the caret', () => {
+    expect(applySuggestion('=VLO', 1, 4, { kind: 'function', label: 'VLOOKUP' }))
+      .toEqual({ formula: '=VLOOKUP(', caret: 9 });
+    expect(applySuggestion('=SUM(Sal)', 5, 8, { kind: 'table', label: 'Sales' }))
+      .toEqual({ formula: '=SUM(Sales[)', caret: 11 });
+    expect(applySuggestion('=Tot+1', 1, 4, { kind: 'name', label: 'Total' }))
+      .toEqual({ formula: '=Total+1', caret: 6 });
+    // An existing bracket isn't doubled
+    expect(applySuggestion('=SU(A1)', 1, 3, { kind: 'function', label: 'SUM' }))
+      .toEqual({ formula: '=SUM(A1)', caret: 5 });
+  });
+
+  it('describes function signatures', () => {
+    const vlookup = getFunctionSignature('vlookup')!;
+    expect(formatSignature(vlookup)).toBe('VLOOKUP(lookup_value, table_array, col_index, [range_lookup])');
+    expect(getActiveArgument(vlookup, 3)).toBe(3);
+    expect(getActiveArgument(vlookup, 4)).toBe(-1);
+    // Repeating arguments
+    expect(getActiveArgument(getFunctionSignature('SUM')!, 5)).toBe(1);
+    expect(getFunctionSignature('NOSUCHFUNCTION')).toBeNull();
+
+    const custom = getFunctionSignature('riskscore', [{
+      name: 'RISKSCORE',
+      description: 'Scores an asset',
+      args: [{ name: 'asset' }, { name: 'weight', optional: true }],
+      implementation: () => 0,
+    }]);
+    expect(custom).toEqual({ name: 'RISKSCORE', args: ['asset', '[weight]'], description: 'Scores an asset' });
+  });
+
+  it('checks formula syntax without evaluating', () => {
+    const engine = new FormulaEngine();
+    expect(engine.validateFormula('=SUM(A1:A3)', false)).toEqual({ valid: true });
+    expect(engine.validateFormula('=SUM(A1', false)).toEqual({ valid: false, error: '#ERROR!', message: 'Syntax error' });
+    expect(engine.validateFormula('=VLOKUP(1)', false))
+      .toEqual({ valid: false, error: '#NAME?', message: 'Unknown function VLOKUP' });
+    engine.destroy();
+  });
+});
@@ -0,0 +1,158 @@
+import * as XLSX from 'xlsx';
+import { TextDecoder, TextEncoder } from 'util';
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { CellData, Chart, SparseMatrix, keyOf } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { addChartsToXlsx } from '../utils/excelUtils';
+import { getAxisTicks, getChartData, getHistogramBins, shiftCharts } from '../utils/chartUtils';
+import { FixtureValue, createSheetData, createSheetState } from '../__fixtures__/sheetData';
+
+const alerts: FixtureValue[][] = [
+  ['host', 'high', 'low'],
+  ['web-01', 5, 2],
+  ['db-01', 3, ''],
+  ['mail-01', '7', 'n/a'],
+];
+
+const createData = () => createSheetData(alerts);
+
+const bySeverity: Chart = {
+  id: 'chart_1',
+  type: 'bar',
+  title: 'Alerts by host',
+  range: { startRow: 0, startCol: 0, endRow: 3, endCol: 2 },
+  hasHeader: true,
+  anchor: { row: 0, col: 4 },
+  width: 480,
+  height: 300,
+};
+
+const getValue = (data: SparseMatrix<CellData>) => (row: number, col: number) => data.get(keyOf(row, col))?.value;
+
+describe('Chart Utils', () => {
+  it('reads categories and series from the range', () => {
+    expect(getChartData(bySeverity, getValue(createData()))).toEqual({
+      categories: ['web-01', 'db-01', 'mail-01'],
+      xValues: [null, null, null],
+      series: [
+        { name: 'high', values: [5, 3, 7] },
+        // Blanks and text aren't plotted
+        { name: 'low', values: [2, null, null] },
+      ],
+    });
+
+    // A single column is numbered along the x axis
+    const single = { ...bySeverity, range: { startRow: 1, startCol: 1, endRow: 3, endCol: 1 }, hasHeader: false };
+    expect(getChartData(single, getValue(createData()))).toEqual({
+      categories: ['1', '2', '3'],
+      xValues: [1, 2, 3],
+      series: [{ name: 'Series 1', values: [5, 3, 7] }],
+    });
+  });
+
+  it('counts values into histogram bins', () => {
+    expect(getHistogramBins([1, 2, 2, 3, 4, 5, 9, 10], 3).map(bin => bin.count)).toEqual([4, 2, 2]);
+    // The last bin includes its end
+    expect(getHistogramBins([0, 10], 2)).toEqual([
+      { start: 0, end: 5, count: 1 },
+      { start: 5, end: 10, count: 1 },
+    ]);
+    expect(getHistogramBins([4, 4, 4])).toEqual([{ start: 4, end: 5, count: 3 }]);
+    expect(getHistogramBins([])).toEqual([]);
+
+    const histogram = { ...bySeverity, type: 'histogram' as const, bins: 2 };
+    expect(getChartData(histogram, getValue(createData()))).toEqual({
+      categories: ['2–4.5', '4.5–7'],
+      xValues: [2, 4.5],
+      series: [{ name: 'Frequency', values: [2, 2] }],
+    });
+  });
+
+  it('picks round axis ticks', () => {
+    expect(getAxisTicks(0, 97)).toEqual([0, 20, 40, 60, 80, 100]);
+    expect(getAxisTicks(-3, 0.4)).toEqual([-3, -2, -1, 0, 1]);
+    expect(getAxisTicks(0.1, 0.3)).toEqual([0.1, 0.15, 0.2, 0.25, 0.3]);
+    expect(getAxisTicks(5, 5)).toEqual([0, 2, 4, 6, 8, 10]);
+  });
+
+  it('moves charts with inserted and deleted rows', () => {
+    const [inserted] = shiftCharts([bySeverity], 'row', 2, 2)!;
+    expect(inserted.range).toEqual({ startRow: 0, startCol: 0, endRow: 5, endCol: 2 });
+    expect(inserted.anchor).toEqual({ row: 0, col: 4 });
+
+    const [moved] = shiftCharts([bySeverity], 'col', 3, 1)!;
+    expect(moved.anchor).toEqual({ row: 0, col: 5 });
+
+    // Deleting the whole range drops the chart
+    expect(shiftCharts([bySeverity], 'col', 0, -3)).toBeUndefined();
+  });
+});
+
+describe('Charts', () => {
+  const createState = () => createSheetState(alerts);
+
+  const add: SpreadsheetAction = { type: 'ADD_CHART', payload: { chart: bySeverity } };
+
+  it('adds, moves and deletes charts as undoable steps', () => {
+    const before = createState();
+    const added = spreadsheetReducer(before, add);
+    expect(added.charts).toEqual([bySeverity]);
+    expect(spreadsheetReducer(added, add)).toBe(added);
+
+    const command = createCommand(before, added, [add])!;
+    expect(command.description).toBe('Insert bar chart');
+    expect(spreadsheetReducer(added, command.undo).charts).toBeUndefined();
+
+    const move: SpreadsheetAction = { type: 'UPDATE_CHART', payload: { chart: { ...bySeverity, anchor: { row: 5, col: 0 } } } };
+    const moved = spreadsheetReducer(added, move);
+    expect(moved.charts?.[0].anchor).toEqual({ row: 5, col: 0 });
+    expect(spreadsheetReducer(before, move)).toBe(before);
+
+    const deleted = spreadsheetReducer(moved, { type: 'DELETE_CHART', payload: { id: 'chart_1' } });
+    expect(deleted.charts).toBeUndefined();
+  });
+
+  it('keeps its range on the data when rows are inserted', () => {
+    const added = spreadsheetReducer(createState(), add);
+    const inserted = spreadsheetReducer(added, { type: 'INSERT_ROW', payload: { index: 1, count: 1 } });
+    expect(inserted.charts?.[0].range).toEqual({ startRow: 0, startCol: 0, endRow: 4, endCol: 2 });
+  });
+
+  it('exports charts as Excel charts', () => {
+    Object.assign(global, { TextDecoder, TextEncoder });
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(alerts), 'Alert Triage');
+    const bytes = new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+
+    const written = addChartsToXlsx(bytes, [{
+      name: 'Alert Triage',
+      data: createData(),
+      charts: [bySeverity, { ...bySeverity, id: 'chart_2', type: 'histogram', title: undefined, bins: 2 }],
+    }]);
+    const zip = XLSX.CFB.read(written, { type: 'array' });
+    const read = (path: string) => new TextDecoder().decode(XLSX.CFB.find(zip, path)!.content as Uint8Array);
+
+    const chart = read('/xl/charts/chart1.xml');
+    expect(chart).toContain('<c:barChart><c:barDir val="col"/>');
+    expect(chart).toContain('<a:t>Alerts by host</a:t>');
+    expect(chart).toContain("<c:cat><c:strRef><c:f>'Alert Triage'!$A$2:$A$4</c:f></c:strRef></c:cat>");
+    expect(chart).toContain("<c:val><c:numRef><c:f>'Alert Triage'!$C$2:$C$4</c:f></c:numRef></c:val>");
+
+    // Histogram bins are counted on export
+    expect(read('/xl/charts/chart2.xml')).toContain(
+      '<c:numLit><c:ptCount val="2"/><c:pt idx="0"><c:v>2</c:v></c:pt><c:pt idx="1"><c:v>2</c:v></c:pt></c:numLit>'
+    );
+
+    expect(read('/xl/drawings/drawing1.xml')).toContain(
+      '<xdr:from><xdr:col>4</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>0</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>'
+      + '<xdr:ext cx="4572000" cy="2857500"/>'
+    );
+    expect(read('/xl/worksheets/sheet1.xml')).toContain('<drawing r:id="rIdDrawing1"/></worksheet>');
+    expect(read('/xl/worksheets/_rels/sheet1.xml.rels')).toContain('Target="../drawings/drawing1.xml"');
+    expect(read('/[Content_Types].xml')).toContain('<Override PartName="/xl/charts/chart2.xml"');
+
+    // The cells are unchanged
+    expect(XLSX.read(written, { type: 'array' }).Sheets['Alert Triage'].A2.v).toBe('web-01');
+  });
+});
@@ -0,0 +1,275 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { applySheets, createSheet, getSheets } from '../utils/sheetUtils';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import { SpillRanges } from '../utils/spillUtils';
+import {
+  copyRange,
+  clipboardToText,
+  clipboardToHtml,
+  parseClipboardHtml,
+  parseClipboardText,
+  createPasteAction,
+  readClipboard,
+  OPENSHEETS_CLIPBOARD_TYPE,
+  PasteOptions,
+} from '../utils/clipboardUtils';
+
+describe('Clipboard Utils', () => {
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    data.set(keyOf(0, 0), { value: 2, format: { bold: true, backgroundColor: '#ffeeaa' } });
+    data.set(keyOf(0, 1), { value: '=A1*$A$1', formula: '=A1*$A$1' });
+    data.set(keyOf(1, 0), { value: 'note' });
+
+    return {
+      data,
+      maxRows: 20,
+      maxCols: 10,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+      validation: new Map([[keyOf(1, 0), { type: 'list', list: ['note', 'todo'] } as any]]),
+    };
+  };
+
+  const select = (state: SpreadsheetState, row: number, col: number, endRow = row, endCol = col): SpreadsheetState => ({
+    ...state,
+    selection: { ranges: [{ startRow: row, startCol: col, endRow, endCol }], active: { row, col } },
+  });
+
+  const paste = (state: SpreadsheetState, clipboard: ReturnType<typeof copyRange>): SpreadsheetState =>
+    spreadsheetReducer(state, createPasteAction(state, clipboard)!);
+
+  it('copies computed values alongside formulas', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 0, startCol: 0, endRow: 1, endCol: 1 }, () => 4);
+
+    expect(clipboard.cells[0][1]).toEqual({ value: 4, formula: '=A1*$A$1' });
+    expect(clipboard.cells[1][1]).toBeNull();
+    expect(clipboardToText(clipboard)).toBe('2\t4\nnote\t');
+  });
+
+  it('pastes formulas with relative references adjusted, plus formats and validation', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 0, startCol: 0, endRow: 1, endCol: 1 });
+    const pasted = paste(select(state, 4, 2), clipboard);
+
+    expect(pasted.data.get(keyOf(4, 3))).toEqual(expect.objectContaining({ formula: '=C5*$A$1' }));
+    expect(pasted.data.get(keyOf(4, 2))).toEqual(expect.objectContaining({
+      value: 2,
+      format: { bold: true, backgroundColor: '#ffeeaa' },
+    }));
+    expect(pasted.validation?.get(keyOf(5, 2))).toEqual({ type: 'list', list: ['note', 'todo'] });
+    expect(pasted.selection.ranges[0]).toEqual({ startRow: 4, startCol: 2, endRow: 5, endCol: 3 });
+  });
+
+  it('replaces the target cell contents and formats', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 1, startCol: 0, endRow: 1, endCol: 1 });
+    const pasted = paste(select(state, 0, 0), clipboard);
+
+    expect(pasted.data.get(keyOf(0, 0))).toEqual(expect.objectContaining({ value: 'note', format: undefined }));
+    expect(pasted.data.has(keyOf(0, 1))).toBe(false);
+  });
+
+  it('repeats the block across a selection that is a multiple of it', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 0, startCol: 1, endRow: 0, endCol: 1 });
+    const action = createPasteAction(select(state, 3, 1, 5, 1), clipboard)!;
+    const pasted = spreadsheetReducer(state, action);
+
+    expect(action.type === 'BATCH' && action.label).toBe('Paste 3 cells');
+    expect(pasted.data.get(keyOf(5, 1))?.formula).toBe('=A6*$A$1');
+  });
+
+  it('moves cut cells within the sheet', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 0, startCol: 0, endRow: 0, endCol: 0 }, undefined, true);
+    const pasted = paste({ ...select(state, 3, 0), clipboardData: clipboard }, clipboard);
+
+    expect(pasted.data.has(keyOf(0, 0))).toBe(false);
+    expect(pasted.data.get(keyOf(3, 0))?.value).toBe(2);
+    expect(pasted.data.get(keyOf(0, 1))?.formula).toBe('=A4*$A$4');
+    expect(pasted.clipboardData).toBeUndefined();
+  });
+
+  it('removes cells cut from another sheet', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 1, startCol: 0, endRow: 1, endCol: 0 }, undefined, true);
+    const other = createSheet('Other', { id: 'other' });
+    const switched = applySheets(state, [...getSheets(state), other], other.id);
+    const pasted = paste(select(switched, 0, 0), clipboard);
+
+    expect(pasted.data.get(keyOf(0, 0))?.value).toBe('note');
+    expect(getSheets(pasted)[0].data.has(keyOf(1, 0))).toBe(false);
+  });
+
+  it('round-trips through HTML between instances', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 0, startCol: 0, endRow: 1, endCol: 1 });
+    const html = clipboardToHtml(clipboard);
+
+    expect(html).toContain('font-weight:bold');
+    expect(parseClipboardHtml(html)).toEqual(clipboard);
+  });
+
+  it('reads tables copied from other spreadsheets', () => {
+    const html = `
+      <style>.xl65 { font-weight: 700; color: windowtext; background: #FFFF00; }</style>
+      <table>
+        <tr><td class="xl65">Host</td><td colspan="2" style="text-align:center">Seen</td></tr>
+        <tr><td rowspan="2">web-01</td><td>3</td><td><i>=B2+1</i></td></tr>
+        <tr><td style="font-size:12pt">4.5</td><td></td></tr>
+      </table>`;
+    const clipboard = parseClipboardHtml(html)!;
+
+    expect(clipboard.cells).toEqual([
+      [{ value: 'Host', format: { bold: true, backgroundColor: '#FFFF00' } }, { value: 'Seen', format: { textAlign: 'center' } }, null],
+      [{ value: 'web-01' }, { value: 3 }, { value: '=B2+1', formula: '=B2+1', format: { italic: true } }],
+      [null, { value: 4.5, format: { fontSize: 16 } }, null],
+    ]);
+    expect(parseClipboardHtml('<p>no table</p>')).toBeNull();
+  });
+
+  it('falls back to the other formats when the copied payload is malformed', () => {
+    const transfer = (formats: Record<string, string>) =>
+      ({ getData: (type: string) => formats[type] ?? '' }) as unknown as DataTransfer;
+    const clipboard = copyRange(createState(), { startRow: 0, startCol: 0, endRow: 1, endCol: 1 });
+
+    expect(readClipboard(transfer({ [OPENSHEETS_CLIPBOARD_TYPE]: JSON.stringify(clipboard) }))).toEqual(clipboard);
+    ['{"cells":[]}', '{"cells":[1]}', '{"cells":[[]]}', '{"cells":[[null]]}', 'null', '{'].forEach(json => {
+      expect(readClipboard(transfer({ [OPENSHEETS_CLIPBOARD_TYPE]: json, 'text/plain': 'a\t1' }))!.cells)
+        .toEqual([[{ value: 'a' }, { value: 1 }]]);
+    });
+
+    const html = `<table data-opensheets='{"cells":"x"}'><tr><td>b</td></tr></table>`;
+    expect(parseClipboardHtml(html)!.cells).toEqual([[{ value: 'b' }]]);
+  });
+
+  it('parses plain text into numbers, formulas and text', () => {
+    const clipboard = parseClipboardText('1\t=A1\r\nabc\n');
+
+    expect(clipboard.cells).toEqual([
+      [{ value: 1 }, { value: '=A1', formula: '=A1' }],
+      [{ value: 'abc' }, null],
+    ]);
+  });
+});
+
+describe('Paste Special', () => {
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    data.set(keyOf(0, 0), { value: 10, format: { bold: true } });
+    data.set(keyOf(1, 0), { value: '=A1*2', formula: '=A1*2' });
+    data.set(keyOf(2, 0), { value: '' });
+    data.set(keyOf(0, 2), { value: 5, format: { italic: true } });
+    data.set(keyOf(1, 2), { value: 'text' });
+    data.set(keyOf(2, 2), { value: '=B1+1', formula: '=B1+1' });
+
+    return {
+      data,
+      maxRows: 20,
+      maxCols: 10,
+      selection: { ranges: [{ startRow: 0, startCol: 2, endRow: 0, endCol: 2 }], active: { row: 0, col: 2 } },
+      editing: null,
+      formulaInput: '',
+      validation: new Map([[keyOf(0, 0), { type: 'number', min: 0 } as any]]),
+    };
+  };
+
+  const column = (state: SpreadsheetState) =>
+    copyRange(state, { startRow: 0, startCol: 0, endRow: 2, endCol: 0 }, (r) => (r === 1 ? 20 : undefined));
+
+  const pasteSpecial = (state: SpreadsheetState, options: PasteOptions) =>
+    spreadsheetReducer(state, createPasteAction(state, column(state), options)!);
+
+  it('pastes values only, keeping the target formats', () => {
+    const pasted = pasteSpecial(createState(), { paste: 'values' });
+
+    expect(pasted.data.get(keyOf(0, 2))).toEqual({ value: 10, format: { italic: true } });
+    expect(pasted.data.get(keyOf(1, 2))).toEqual({ value: 20 });
+    expect(pasted.validation?.has(keyOf(0, 2))).toBe(false);
+  });
+
+  it('pastes formulas only, or formats only', () => {
+    const formulas = pasteSpecial(createState(), { paste: 'formulas' });
+    expect(formulas.data.get(keyOf(1, 2))?.formula).toBe('=C1*2');
+    expect(formulas.data.get(keyOf(0, 2))?.format).toEqual({ italic: true });
+
+    const formats = pasteSpecial(createState(), { paste: 'formats' });
+    expect(formats.data.get(keyOf(0, 2))).toEqual({ value: 5, format: { bold: true } });
+    expect(formats.data.get(keyOf(1, 2))?.value).toBe('text');
+  });
+
+  it('pastes validation only', () => {
+    const pasted = pasteSpecial(createState(), { paste: 'validation' });
+
+    expect(pasted.validation?.get(keyOf(0, 2))).toEqual({ type: 'number', min: 0 });
+    expect(pasted.data.get(keyOf(0, 2))?.value).toBe(5);
+  });
+
+  it('skips blank cells', () => {
+    const pasted = pasteSpecial(createState(), { paste: 'values', skipBlanks: true });
+
+    expect(pasted.data.get(keyOf(2, 2))?.formula).toBe('=B1+1');
+  });
+
+  it('combines numbers with the target, leaving text alone', () => {
+    const state = createState();
+    const added = pasteSpecial(state, { paste: 'values', operation: 'add' });
+    expect(added.data.get(keyOf(0, 2))).toEqual({ value: 15, format: { italic: true } });
+    expect(added.data.get(keyOf(1, 2))?.value).toBe('text');
+    expect(added.data.get(keyOf(2, 2))?.formula).toBe('=(B1+1)+0');
+
+    const divided = pasteSpecial(state, { paste: 'values', operation: 'divide' });
+    expect(divided.data.get(keyOf(0, 2))?.value).toBe(0.5);
+    expect(divided.data.get(keyOf(2, 2))?.formula).toBe('=(B1+1)/0');
+
+    const multiplied = pasteSpecial(state, { operation: 'multiply' });
+    expect(multiplied.data.get(keyOf(1, 2))?.value).toBe('text');
+    expect(multiplied.data.get(keyOf(0, 2))).toEqual({ value: 50, format: { bold: true } });
+  });
+
+  it('transposes a column into a row with formulas adjusted', () => {
+    const state = { ...createState(), selection: { ranges: [], active: { row: 5, col: 1 } } };
+    const action = createPasteAction(state, column(state), { transpose: true })!;
+    const pasted = spreadsheetReducer(state, action);
+
+    expect(action.type === 'BATCH' && action.label).toBe('Paste special');
+    expect(pasted.data.get(keyOf(5, 1))?.value).toBe(10);
+    expect(pasted.data.get(keyOf(5, 2))?.formula).toBe('=C5*2');
+    expect(pasted.selection.ranges[0]).toEqual({ startRow: 5, startCol: 1, endRow: 5, endCol: 3 });
+  });
+
+  it('pastes cut cells as a copy', () => {
+    const state = createState();
+    const clipboard = copyRange(state, { startRow: 0, startCol: 0, endRow: 0, endCol: 0 }, undefined, true);
+    const pasted = spreadsheetReducer(state, createPasteAction(state, clipboard, { paste: 'values' })!);
+
+    expect(pasted.data.get(keyOf(0, 0))?.value).toBe(10);
+    expect(pasted.data.get(keyOf(0, 2))?.value).toBe(10);
+  });
+
+  it('copies the values an array formula spills', () => {
+    const data = new Map();
+    ['web-01', 'db-01', 'web-01', 'mail-01'].forEach((value, row) => data.set(keyOf(row, 0), { value }));
+    data.set(keyOf(0, 1), { value: '=UNIQUE(A1:A4)', formula: '=UNIQUE(A1:A4)' });
+    const state = { ...createState(), data, validation: new Map() };
+
+    const engine = new FormulaEngine();
+    engine.initializeWorkbook([{ name: 'Sheet1', data, maxRows: 20, maxCols: 10 }]);
+    const spills: SpillRanges = new Map([[keyOf(0, 1), engine.getSpillRange(0, 1)!]]);
+    const getComputedValue = (row: number, col: number) => engine.getCellValue(row, col);
+
+    const clipboard = copyRange(state, { startRow: 0, startCol: 1, endRow: 2, endCol: 1 }, getComputedValue, false, spills);
+    expect(clipboardToText(clipboard)).toBe('web-01\ndb-01\nmail-01');
+
+    const pasted = spreadsheetReducer(state, createPasteAction(state, clipboard, { paste: 'values' })!);
+    expect([0, 1, 2].map(row => pasted.data.get(keyOf(row, 2))?.value)).toEqual(['web-01', 'db-01', 'mail-01']);
+
+    // Cut cells spill again from the moved formula, so nothing is taken for them
+    expect(copyRange(state, { startRow: 0, startCol: 1, endRow: 2, endCol: 1 }, getComputedValue, true, spills).cells[1][0]).toBeNull();
+    engine.destroy();
+  });
+});
@@ -0,0 +1,420 @@
+import * as XLSX from 'xlsx';
+import { TextDecoder, TextEncoder } from 'util';
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { ConditionalFormatRule, SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { duplicateSheet, sheetFromState } from '../utils/sheetUtils';
+import { addConditionalFormatsToXlsx, importFromExcel } from '../utils/excelUtils';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import {
+  applyConditionalFormatRules,
+  createColorScale,
+  createDataBar,
+  createIconSet,
+  evaluateConditionalFormat,
+  formatAppliesTo,
+  parseAppliesTo,
+  resolveConditionalFormatting,
+  resolveThreshold,
+  shiftConditionalFormats,
+} from '../utils/conditionalFormattingUtils';
+
+describe('Conditional formatting rules', () => {
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    data.set(keyOf(0, 0), { value: 'Critical' });
+    return {
+      data,
+      maxRows: 20,
+      maxCols: 5,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    };
+  };
+
+  const critical: ConditionalFormatRule = {
+    id: 'cf_critical',
+    ranges: [{ startRow: 0, startCol: 0, endRow: 9, endCol: 0 }],
+    type: 'textContains',
+    condition: 'contains',
+    value1: 'critical',
+    format: { backgroundColor: '#ff0000', bold: true },
+  };
+
+  const anySeverity: ConditionalFormatRule = {
+    id: 'cf_any',
+    ranges: [{ startRow: 0, startCol: 0, endRow: 9, endCol: 1 }],
+    type: 'textContains',
+    condition: 'contains',
+    value1: 'critical,low',
+    format: { backgroundColor: '#ffff00', italic: true },
+  };
+
+  const formatAt = (rules: ConditionalFormatRule[], value: any, row: number, col: number) =>
+    applyConditionalFormatRules({ color: '#333333' }, rules, value, row, col, new Map());
+
+  it('applies matching rules inside their ranges, higher priority winning', () => {
+    expect(formatAt([critical, anySeverity], 'Critical', 0, 0)).toEqual({
+      color: '#333333',
+      backgroundColor: '#ff0000',
+      bold: true,
+      italic: true,
+    });
+    // Column B is outside the first rule's range
+    expect(formatAt([critical, anySeverity], 'Critical', 0, 1)).toMatchObject({ backgroundColor: '#ffff00' });
+    expect(formatAt([critical, anySeverity], 'Critical', 10, 0)).toEqual({ color: '#333333' });
+  });
+
+  it('stops at a matching rule with stop if true', () => {
+    const stopping = { ...critical, stopIfTrue: true };
+    expect(formatAt([stopping, anySeverity], 'Critical', 0, 0).italic).toBeUndefined();
+    // Rules that don't match never stop evaluation
+    expect(formatAt([stopping, anySeverity], 'Low', 0, 0)).toMatchObject({ backgroundColor: '#ffff00' });
+  });
+
+  it('grows, moves and drops ranges with inserted and deleted rows and columns', () => {
+    expect(shiftConditionalFormats([critical], 'row', 5, 2)![0].ranges).toEqual([
+      { startRow: 0, startCol: 0, endRow: 11, endCol: 0 },
+    ]);
+    expect(shiftConditionalFormats([critical, anySeverity], 'col', 0, -1)).toEqual([
+      { ...anySeverity, ranges: [{ startRow: 0, startCol: 0, endRow: 9, endCol: 0 }] },
+    ]);
+    expect(shiftConditionalFormats([critical], 'col', 0, -1)).toBeUndefined();
+  });
+
+  it('reads and writes applies-to ranges', () => {
+    const state = createState();
+    expect(formatAppliesTo([{ startRow: 4, startCol: 2, endRow: 0, endCol: 0 }, { startRow: 1, startCol: 3, endRow: 1, endCol: 3 }]))
+      .toBe('A1:C5, D2');
+    expect(parseAppliesTo(state, 'A1:C5, D2')).toEqual([
+      { startRow: 0, startCol: 0, endRow: 4, endCol: 2 },
+      { startRow: 1, startCol: 3, endRow: 1, endCol: 3 },
+    ]);
+    expect(parseAppliesTo(state, 'B:B')).toEqual([{ startRow: 0, startCol: 1, endRow: 19, endCol: 1 }]);
+    expect(parseAppliesTo(state, 'A1, nope')).toBeNull();
+    expect(parseAppliesTo(state, 'Other!A1')).toBeNull();
+  });
+
+  it('adds rules at the highest priority, reorders, edits and deletes them', () => {
+    const add = (rule: ConditionalFormatRule): SpreadsheetAction => ({ type: 'ADD_CONDITIONAL_FORMAT', payload: { rule } });
+    const state = spreadsheetReducer(spreadsheetReducer(createState(), add(critical)), add(anySeverity));
+    expect(state.conditionalFormats!.map(rule => rule.id)).toEqual(['cf_any', 'cf_critical']);
+    expect(spreadsheetReducer(state, add(critical))).toBe(state);
+
+    const moved = spreadsheetReducer(state, { type: 'MOVE_CONDITIONAL_FORMAT', payload: { id: 'cf_critical', toIndex: 0 } });
+    expect(moved.conditionalFormats!.map(rule => rule.id)).toEqual(['cf_critical', 'cf_any']);
+
+    const edited = spreadsheetReducer(moved, {
+      type: 'UPDATE_CONDITIONAL_FORMAT',
+      payload: { rule: { ...critical, stopIfTrue: true } },
+    });
+    expect(edited.conditionalFormats![0].stopIfTrue).toBe(true);
+
+    const deleted = spreadsheetReducer(
+      spreadsheetReducer(edited, { type: 'DELETE_CONDITIONAL_FORMAT', payload: { id: 'cf_critical' } }),
+      { type: 'DELETE_CONDITIONAL_FORMAT', payload: { id: 'cf_any' } }
+    );
+    expect(deleted.conditionalFormats).toBeUndefined();
+  });
+
+  it('undoes rule changes and keeps rules with the sheet', () => {
+    const add: SpreadsheetAction = { type: 'ADD_CONDITIONAL_FORMAT', payload: { rule: critical } };
+    const before = createState();
+    const after = spreadsheetReducer(before, add);
+    const command = createCommand(before, after, [add])!;
+
+    expect(command.description).toBe('Add conditional formatting to A1:A10');
+    expect(spreadsheetReducer(after, command.undo).conditionalFormats).toBeUndefined();
+
+    const inserted = spreadsheetReducer(after, { type: 'INSERT_ROW', payload: { index: 0 } });
+    expect(inserted.conditionalFormats![0].ranges).toEqual([{ startRow: 1, startCol: 0, endRow: 10, endCol: 0 }]);
+
+    const copy = duplicateSheet(sheetFromState(after), 'Copy');
+    expect(copy.conditionalFormats).toEqual(after.conditionalFormats);
+    expect(copy.conditionalFormats![0].ranges).not.toBe(critical.ranges);
+  });
+});
+
+describe('Color scales, data bars and icon sets', () => {
+  // A1:A5 holding -10, 0, 10, 20, 30
+  const data = new Map();
+  [-10, 0, 10, 20, 30].forEach((value, row) => data.set(keyOf(row, 0), { value }));
+  const ranges = [{ startRow: 0, startCol: 0, endRow: 4, endCol: 0 }];
+
+  const resolve = (rule: Omit<ConditionalFormatRule, 'id' | 'ranges'>, value: any) =>
+    resolveConditionalFormatting(undefined, [{ ...rule, id: 'cf_visual', ranges }], value, 0, 0, data);
+
+  it('resolves thresholds against the values in range', () => {
+    const sorted = [-10, 0, 10, 20, 30];
+    expect(resolveThreshold({ type: 'min' }, sorted)).toBe(-10);
+    expect(resolveThreshold({ type: 'percent', value: 25 }, sorted)).toBe(0);
+    expect(resolveThreshold({ type: 'percentile', value: 90 }, sorted)).toBe(26);
+    expect(resolveThreshold({ type: 'number', value: 7 }, sorted)).toBe(7);
+  });
+
+  it('shades numbers along a color scale', () => {
+    const scale = createColorScale(['#000000', '#ffffff']);
+    expect(resolve(scale, -10).format.backgroundColor).toBe('#000000');
+    expect(resolve(scale, 10).format.backgroundColor).toBe('#808080');
+    expect(resolve(scale, '30').format.backgroundColor).toBe('#ffffff');
+    expect(resolve(scale, 'n/a').format.backgroundColor).toBeUndefined();
+
+    // The midpoint is the 50th percentile, 10
+    const threeColor = createColorScale(['#ff0000', '#00ff00', '#0000ff']);
+    expect(resolve(threeColor, 10).format.backgroundColor).toBe('#00ff00');
+  });
+
+  it('draws data bars both ways from zero', () => {
+    const bar = createDataBar('#638ec6', { negativeColor: '#ff0000' });
+    expect(resolve(bar, 30).dataBar).toEqual({ left: 25, width: 75, color: '#638ec6', gradient: true, negative: false, axis: 25 });
+    expect(resolve(bar, -10).dataBar).toMatchObject({ left: 0, width: 25, color: '#ff0000', negative: true });
+    expect(resolve({ ...bar, dataBar: { ...bar.dataBar!, showValue: false } }, 10).hideValue).toBe(true);
+  });
+
+  it('picks icons by threshold, optionally reversed', () => {
+    // 33% and 67% of the way from -10 to 30
+    const arrows = createIconSet('3Arrows');
+    expect(resolve(arrows, -10).icon?.symbol).toBe('↓');
+    expect(resolve(arrows, 10).icon?.symbol).toBe('→');
+    expect(resolve(arrows, 30).icon?.symbol).toBe('↑');
+    expect(resolve(createIconSet('3Arrows', { reverse: true }), 30).icon?.symbol).toBe('↓');
+  });
+
+  it('keeps applying lower rules below a visualization', () => {
+    const result = resolveConditionalFormatting(
+      undefined,
+      [
+        { ...createColorScale(['#000000', '#ffffff']), id: 'cf_scale', ranges },
+        { id: 'cf_bold', ranges, type: 'cellValue', condition: 'greaterThan', value1: '0', format: { bold: true }, stopIfTrue: true },
+      ],
+      30, 0, 0, data
+    );
+    expect(result.format).toEqual({ backgroundColor: '#ffffff', bold: true });
+  });
+
+  it('writes them into the worksheet XML of an .xlsx file', () => {
+    // jsdom doesn't provide these
+    Object.assign(global, { TextDecoder, TextEncoder });
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([[1], [2], [3]]), 'Alerts');
+    const bytes = new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+
+    const written = addConditionalFormatsToXlsx(bytes, [[
+      { ...createIconSet('3TrafficLights1', { reverse: true }), id: 'cf_lights', ranges },
+      { ...createColorScale(['#f8696b', '#63be7b']), id: 'cf_scale', ranges: [...ranges, { startRow: 0, startCol: 2, endRow: 4, endCol: 2 }] },
+    ]]);
+    const zip = XLSX.CFB.read(written, { type: 'array' });
+    const xml = new TextDecoder().decode(XLSX.CFB.find(zip, '/xl/worksheets/sheet1.xml')!.content as Uint8Array);
+
+    expect(xml).toContain(
+      '</sheetData><conditionalFormatting sqref="A1:A5"><cfRule type="iconSet" priority="1">'
+      + '<iconSet iconSet="3TrafficLights1" reverse="1"><cfvo type="percent" val="0"/><cfvo type="percent" val="33"/>'
+      + '<cfvo type="percent" val="67"/></iconSet></cfRule></conditionalFormatting>'
+    );
+    expect(xml).toContain(
+      '<conditionalFormatting sqref="A1:A5 C1:C5"><cfRule type="colorScale" priority="2"><colorScale>'
+      + '<cfvo type="min"/><cfvo type="max"/><color rgb="FFF8696B"/><color rgb="FF63BE7B"/></colorScale></cfRule>'
+    );
+    // Still a workbook the library reads
+    expect(XLSX.read(written, { type: 'array' }).Sheets.Alerts.A3.v).toBe(3);
+  });
+});
+
+describe('Formula rules', () => {
+  // Alert, host, severity over A1:C4; the rule covers A2:C4
+  const rows = [
+    ['Alert', 'Host', 'Severity'],
+    ['Beacon', 'web-01', 'High'],
+    ['Logon', 'db-01', 'High'],
+    ['Beacon', 'web-01', 'Low'],
+  ];
+  let engine: FormulaEngine;
+  const data = new Map();
+  rows.forEach((values, row) => values.forEach((value, col) => data.set(keyOf(row, col), { value })));
+
+  const rule: ConditionalFormatRule = {
+    id: 'cf_formula',
+    ranges: [{ startRow: 1, startCol: 0, endRow: 3, endCol: 2 }],
+    type: 'formula',
+    value1: '=AND($C2="High", COUNTIF($B:$B,$B2)>1)',
+    format: { backgroundColor: '#ff0000' },
+  };
+
+  beforeEach(() => {
+    engine = new FormulaEngine();
+    engine.initializeWithData(data, 10, 5);
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  const matches = (row: number, col: number, target: ConditionalFormatRule = rule) =>
+    evaluateConditionalFormat(data.get(keyOf(row, col))?.value, target, row, col, data, undefined, engine);
+
+  it('moves relative references from the top-left of the range', () => {
+    // Row 2: High on a repeated host; every column of the row matches
+    expect([0, 1, 2].map(col => matches(1, col))).toEqual([true, true, true]);
+    // Row 3: High, but db-01 appears once; row 4: web-01 repeats, but Low
+    expect(matches(2, 0)).toBe(false);
+    expect(matches(3, 1)).toBe(false);
+
+    // Without $ the column moves too: B2 for A2, C2 for B2
+    const relative = { ...rule, id: 'cf_relative', value1: '=B2="web-01"' };
+    expect(matches(1, 0, relative)).toBe(true);
+    expect(matches(1, 1, relative)).toBe(false);
+  });
+
+  it('treats non-zero numbers as true and errors as false', () => {
+    expect(matches(1, 0, { ...rule, id: 'cf_number', value1: 'COUNTIF($B:$B,$B2)' })).toBe(true);
+    expect(matches(1, 0, { ...rule, id: 'cf_error', value1: '=1/0' })).toBe(false);
+    expect(matches(1, 0, { ...rule, id: 'cf_text', value1: '="yes"' })).toBe(false);
+  });
+
+  it('reuses results until the engine recalculates', () => {
+    const calculate = jest.spyOn(engine, 'calculateFormula');
+    matches(1, 0);
+    matches(1, 0);
+    expect(calculate).toHaveBeenCalledTimes(1);
+
+    engine.setCell(1, 2, 'Low');
+    expect(matches(1, 0)).toBe(false);
+    expect(calculate).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Conditional formatting in Excel files', () => {
+  const ranges = [{ startRow: 0, startCol: 0, endRow: 9, endCol: 0 }];
+
+  const workbookBytes = () => {
+    // jsdom doesn't provide these
+    Object.assign(global, { TextDecoder, TextEncoder });
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([[5], [12], ['critical']]), 'Alerts');
+    return new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+  };
+
+  const readPart = (bytes: Uint8Array, path: string) =>
+    new TextDecoder().decode(XLSX.CFB.find(XLSX.CFB.read(bytes, { type: 'array' }), path)!.content as Uint8Array);
+
+  const replacePart = (bytes: Uint8Array, path: string, replace: (xml: string) => string) => {
+    const zip = XLSX.CFB.read(bytes, { type: 'array' });
+    const entry = XLSX.CFB.find(zip, path)!;
+    entry.content = new TextEncoder().encode(replace(new TextDecoder().decode(entry.content as Uint8Array)));
+    entry.size = entry.content.length;
+    return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }));
+  };
+
+  const importRules = async (bytes: Uint8Array) => {
+    const { sheets } = await importFromExcel(new File([bytes as BlobPart], 'alerts.xlsx'));
+    return sheets[0].conditionalFormats;
+  };
+
+  const rules: ConditionalFormatRule[] = [
+    { id: 'cf_high', ranges, type: 'cellValue', condition: 'greaterThan', value1: 10, format: { backgroundColor: '#ff0000', bold: true }, stopIfTrue: true },
+    { id: 'cf_critical', ranges, type: 'textContains', condition: 'contains', value1: 'critical', format: { color: '#9c0006' } },
+    { id: 'cf_formula', ranges, type: 'formula', value1: '=$A1>MAX($B$1:$B$3)', format: { italic: true } },
+  ];
+
+  it('writes cell value, text and formula rules as Excel rules with their formats', () => {
+    const written = addConditionalFormatsToXlsx(workbookBytes(), [rules]);
+    const sheetXml = readPart(written, '/xl/worksheets/sheet1.xml');
+
+    expect(sheetXml).toContain(
+      '<conditionalFormatting sqref="A1:A10"><cfRule type="cellIs" dxfId="0" priority="1" stopIfTrue="1" operator="greaterThan">'
+      + '<formula>10</formula></cfRule></conditionalFormatting>'
+    );
+    expect(sheetXml).toContain(
+      '<cfRule type="containsText" dxfId="1" priority="2" operator="containsText" text="critical">'
+      + '<formula>NOT(ISERROR(SEARCH(&quot;critical&quot;,A1)))</formula></cfRule>'
+    );
+    expect(sheetXml).toContain('<cfRule type="expression" dxfId="2" priority="3"><formula>$A1&gt;MAX($B$1:$B$3)</formula></cfRule>');
+    expect(readPart(written, '/xl/styles.xml')).toContain(
+      '<dxfs count="3"><dxf><font><b/></font><fill><patternFill patternType="solid"><bgColor rgb="FFFF0000"/></patternFill></fill></dxf>'
+      + '<dxf><font><color rgb="FF9C0006"/></font></dxf><dxf><font><i/></font></dxf></dxfs>'
+    );
+  });
+
+  it('writes rules Excel has no type for as formula rules', () => {
+    const written = addConditionalFormatsToXlsx(workbookBytes(), [[
+      { id: 'cf_any', ranges, type: 'textContains', condition: 'contains', value1: 'critical,high', format: { bold: true } },
+      { id: 'cf_recent', ranges, type: 'dateOccurring', condition: 'greaterThan', value1: 'TODAY()-7', format: { bold: true } },
+    ]]);
+    const sheetXml = readPart(written, '/xl/worksheets/sheet1.xml');
+
+    expect(sheetXml).toContain(
+      '<formula>OR(NOT(ISERROR(SEARCH(&quot;critical&quot;,A1))),NOT(ISERROR(SEARCH(&quot;high&quot;,A1))))</formula>'
+    );
+    expect(sheetXml).toContain('<formula>A1&gt;TODAY()-7</formula>');
+  });
+
+  it('puts the rules where Excel expects them among the other worksheet parts', () => {
+    Object.assign(global, { TextDecoder, TextEncoder });
+    const ws = XLSX.utils.aoa_to_sheet([[5], [12], ['critical']]);
+    ws['!autofilter'] = { ref: 'A1:A3' };
+    ws['!margins'] = { left: 0.7, right: 0.7, top: 0.75, bottom: 0.75, header: 0.3, footer: 0.3 };
+    ws.A3.l = { Target: 'https://example.com' };
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Alerts');
+    const bytes = replacePart(
+      new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' })),
+      '/xl/worksheets/sheet1.xml',
+      xml => xml.replace('<hyperlinks>', '<phoneticPr fontId="1"/>'
+        + '<conditionalFormatting sqref="B1:B3"><cfRule type="expression" dxfId="0" priority="1"><formula>TRUE</formula></cfRule></conditionalFormatting>'
+        + '<dataValidations count="1"><dataValidation type="list" sqref="A1:A3"><formula1>"a,b"</formula1></dataValidation></dataValidations>'
+        + '<hyperlinks>')
+    );
+
+    const sheetXml = readPart(addConditionalFormatsToXlsx(bytes, [rules.slice(0, 1)]), '/xl/worksheets/sheet1.xml');
+    const order = [
+      '</sheetData>', '<autoFilter', '<phoneticPr', '<conditionalFormatting sqref="B1:B3"', '<conditionalFormatting sqref="A1:A10"',
+      '<dataValidations', '<hyperlinks', '<pageMargins', '<ignoredErrors',
+    ].map(tag => sheetXml.indexOf(tag));
+    expect(order.every(index => index >= 0)).toBe(true);
+    expect(order).toEqual([...order].sort((a, b) => a - b));
+  });
+
+  it('reads the rules back on import, in priority order', async () => {
+    const imported = await importRules(addConditionalFormatsToXlsx(workbookBytes(), [[
+      ...rules,
+      { ...createDataBar('#638ec6', { showValue: false }), id: 'cf_bar', ranges },
+      { ...createIconSet('3Arrows', { reverse: true }), id: 'cf_arrows', ranges },
+    ]]));
+
+    expect(imported).toEqual([
+      ...rules.map(rule => ({ ...rule, id: expect.any(String) })),
+      { id: expect.any(String), ranges, type: 'dataBar', format: {}, dataBar: { color: '#638ec6', min: { type: 'min' }, max: { type: 'max' }, showValue: false } },
+      { ...createIconSet('3Arrows', { reverse: true }), id: expect.any(String), ranges },
+    ]);
+  });
+
+  it('reads rules written by Excel', async () => {
+    const bytes = replacePart(
+      replacePart(workbookBytes(), '/xl/styles.xml', xml => xml.replace(
+        '<dxfs count="0"/>',
+        '<dxfs count="1"><dxf><font><color rgb="FF9C0006"/></font><fill><patternFill><bgColor rgb="FFFFC7CE"/></patternFill></fill></dxf></dxfs>'
+      )),
+      '/xl/worksheets/sheet1.xml',
+      xml => xml.replace('</sheetData>', '</sheetData>'
+        + '<conditionalFormatting sqref="A1:A3 C1:C3"><cfRule type="cellIs" dxfId="0" priority="2" operator="greaterThanOrEqual"><formula>$B$1</formula></cfRule>'
+        + '<cfRule type="top10" dxfId="0" priority="3" rank="10"/></conditionalFormatting>'
+        + '<conditionalFormatting sqref="A1:A3"><cfRule type="beginsWith" dxfId="0" priority="1" operator="beginsWith" text="crit">'
+        + '<formula>LEFT(A1,LEN("crit"))="crit"</formula></cfRule></conditionalFormatting>')
+    );
+    const format = { color: '#9c0006', backgroundColor: '#ffc7ce' };
+
+    expect(await importRules(bytes)).toEqual([
+      { id: expect.any(String), ranges: [{ startRow: 0, startCol: 0, endRow: 2, endCol: 0 }], type: 'textContains', condition: 'startsWith', value1: 'crit', format },
+      // No cell value rule compares with a cell, or for at least; top 10 isn't supported
+      {
+        id: expect.any(String),
+        ranges: [{ startRow: 0, startCol: 0, endRow: 2, endCol: 0 }, { startRow: 0, startCol: 2, endRow: 2, endCol: 2 }],
+        type: 'formula',
+        value1: '=A1>=$B$1',
+        format,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { keyOf } from '../types/spreadsheet';
+import { cidrMatch, defang, formatUTCTimestamp, refang } from '../utils/dfirUtils';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+
+describe('DFIR Utils', () => {
+  it('matches IPv4 addresses against CIDR blocks', () => {
+    expect(cidrMatch('10.20.30.40', '10.0.0.0/8')).toBe(true);
+    expect(cidrMatch('172.32.0.1', '172.16.0.0/12')).toBe(false);
+    expect(cidrMatch('192.168.1.7', '192.168.1.7')).toBe(true);
+    expect(cidrMatch('8.8.8.8', '0.0.0.0/0')).toBe(true);
+    expect(cidrMatch('not an ip', '10.0.0.0/8')).toBe(false);
+
+    // Blocks that aren't IPv4 CIDR notation
+    expect(cidrMatch('10.0.0.1', '10.0.0.0/33')).toBeNull();
+    expect(cidrMatch('10.0.0.1', '10.0.0/8')).toBeNull();
+  });
+
+  it('defangs and refangs indicators', () => {
+    expect(defang('https://evil.example/payload.exe')).toBe('hxxps[://]evil[.]example/payload[.]exe');
+    expect(defang('analyst@corp.com')).toBe('analyst[@]corp[.]com');
+    // Already defanged text is left alone
+    expect(defang('evil[.]example')).toBe('evil[.]example');
+
+    expect(refang('hxxps[://]evil[.]example/payload[.]exe')).toBe('https://evil.example/payload.exe');
+    expect(refang('evil(.)example[dot]com and analyst[at]corp[.]com')).toBe('evil.example.com and analyst@corp.com');
+  });
+
+  it('writes timestamps in UTC', () => {
+    expect(formatUTCTimestamp(new Date('2024-01-15T10:30:00+02:00'))).toBe('2024-01-15T08:30:00Z');
+    expect(formatUTCTimestamp(new Date(Date.UTC(2024, 0, 15, 8, 30, 0, 250)))).toBe('2024-01-15T08:30:00.250Z');
+    expect(formatUTCTimestamp(new Date(8.64e15))).toBeNull();
+  });
+});
+
+describe('DFIR formula functions', () => {
+  const createEngine = () => {
+    const engine = new FormulaEngine();
+    const cells = ['8.8.8.8', '10.1.2.3', 'hxxp[://]evil[.]example', 1705307400];
+    engine.initializeWorkbook([{
+      name: 'Triage',
+      data: new Map(cells.map((value, row) => [keyOf(row, 0), { value }])),
+      maxRows: 10,
+      maxCols: 5,
+    }]);
+    return engine;
+  };
+
+  it('classifies indicators and addresses', () => {
+    const engine = createEngine();
+    const calc = (formula: string) => engine.calculateFormula(formula);
+
+    expect(calc('=IOCTYPE(A1)')).toBe('IPv4');
+    expect(calc('=IOCTYPE("d41d8cd98f00b204e9800998ecf8427e")')).toBe('MD5');
+    expect(calc('=IOCTYPE("not an indicator!")')).toBe('');
+    expect(calc('=ISEXTERNALIP(A1)')).toBe(true);
+    expect(calc('=ISEXTERNALIP(A2)')).toBe(false);
+    expect(calc('=ISEXTERNALIP("web-01")')).toBe(false);
+    expect(calc('=CIDRMATCH(A2, "10.0.0.0/8")')).toBe(true);
+    expect(calc('=CIDRMATCH(A2, "10.0.0.0/99")')).toBe('#VALUE!');
+    engine.destroy();
+  });
+
+  it('rewrites text with defanging and regular expressions', () => {
+    const engine = createEngine();
+    const calc = (formula: string) => engine.calculateFormula(formula);
+
+    expect(calc('=REFANG(A3)')).toBe('http://evil.example');
+    expect(calc('=DEFANG(REFANG(A3))')).toBe('hxxp[://]evil[.]example');
+    expect(calc('=REGEXMATCH(A2, "^10\\.")')).toBe(true);
+    expect(calc('=REGEXEXTRACT("user=alice id=7", "user=(\\w+)")')).toBe('alice');
+    expect(calc('=REGEXEXTRACT("user=alice", "\\w+")')).toBe('user');
+    expect(calc('=REGEXEXTRACT("user=alice", "bob")')).toBe('#N/A');
+    expect(calc('=REGEXMATCH("x", "(")')).toBe('#VALUE!');
+    engine.destroy();
+  });
+
+  it('converts timestamps to UTC', () => {
+    const engine = createEngine();
+    const calc = (formula: string) => engine.calculateFormula(formula);
+
+    expect(calc('=TOUTC("2024-01-15T10:30:00+02:00")')).toBe('2024-01-15T08:30:00Z');
+    expect(calc('=TOUTC(A4)')).toBe('2024-01-15T08:30:00Z');
+    expect(calc('=TOUTC("133500000000000000")')).toBe('2024-01-17T21:20:00Z');
+    expect(calc('=TOUTC("yesterday")')).toBe('#VALUE!');
+    expect(calc('=EPOCHTODATE(A4)')).toBe('2024-01-15T08:30:00Z');
+    expect(calc('=EPOCHTODATE(1705307400250, 2)')).toBe('2024-01-15T08:30:00.250Z');
+    expect(calc('=EPOCHTODATE(A4, 4)')).toBe('#NUM!');
+    engine.destroy();
+  });
+
+  it('lists and validates the functions', () => {
+    const engine = createEngine();
+    expect(engine.getAvailableFunctions()).toEqual(expect.arrayContaining([
+      'IOCTYPE', 'ISEXTERNALIP', 'CIDRMATCH', 'DEFANG', 'REFANG', 'REGEXEXTRACT', 'REGEXMATCH', 'TOUTC', 'EPOCHTODATE',
+    ]));
+    expect(engine.validateFormula('=CIDRMATCH(A1, "8.8.0.0/16")')).toEqual({ valid: true });
+    expect(engine.validateFormula('=CIDRMATCH(A1)').valid).toBe(false);
+    engine.destroy();
+  });
+});
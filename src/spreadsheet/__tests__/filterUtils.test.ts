@@ -0,0 +1,279 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { FilterState, FilterView, SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { copyRange, createPasteAction } from '../utils/clipboardUtils';
+import { DFIR_FILTERS } from '../utils/dfirUtils';
+import {
+  applyFilters,
+  createDFIRFilter,
+  createFilterGroup,
+  createFilterRule,
+  deserializeFilterRules,
+  deserializeFilterView,
+  isRowFiltered,
+  serializeFilterRules,
+  serializeFilterView,
+  shiftFilterState,
+} from '../utils/filterUtils';
+
+describe('Filter Utils', () => {
+  const filterState: FilterState = {
+    rules: [createFilterRule(1, 'equals', 'x'), createFilterRule(3, 'contains', 'y')],
+    hiddenRows: new Set([2, 5, 6]),
+    sortColumn: 3,
+  };
+
+  it('moves hidden rows with inserted and deleted rows', () => {
+    expect(shiftFilterState(filterState, 'row', 3, 2)!.hiddenRows).toEqual(new Set([2, 7, 8]));
+    expect(shiftFilterState(filterState, 'row', 5, -1)!.hiddenRows).toEqual(new Set([2, 5]));
+  });
+
+  it('moves rule columns, dropping rules on deleted columns', () => {
+    const inserted = shiftFilterState(filterState, 'col', 2, 1)!;
+    expect(inserted.rules.map(rule => rule.column)).toEqual([1, 4]);
+    expect(inserted.sortColumn).toBe(4);
+
+    const deleted = shiftFilterState(filterState, 'col', 1, -1)!;
+    expect(deleted.rules.map(rule => rule.column)).toEqual([2]);
+    expect(deleted.sortColumn).toBe(2);
+  });
+
+  it('saves DFIR preset rules by name and drops other custom functions', () => {
+    const rules = [
+      createFilterRule(0, 'equals', 'a'),
+      createDFIRFilter('validMD5', 1),
+      { column: 2, type: 'custom' as const, condition: 'equals' as const, customFunction: () => true },
+    ];
+    const saved = JSON.parse(JSON.stringify(serializeFilterRules(rules)));
+
+    expect(saved).toHaveLength(2);
+    expect(saved[1].customFunction).toBeUndefined();
+
+    const restored = deserializeFilterRules(saved);
+    expect(restored[1].customFunction!('d41d8cd98f00b204e9800998ecf8427e')).toBe(true);
+    expect(restored[1].customFunction!('nope')).toBe(false);
+  });
+});
+
+describe('Filtered rows', () => {
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    ['host', 'ip', 'host', 'file', 'host'].forEach((type, row) => {
+      data.set(keyOf(row, 0), { value: type });
+      data.set(keyOf(row, 1), { value: row + 1 });
+    });
+    data.set(keyOf(4, 2), { value: '=B5*2', formula: '=B5*2' });
+
+    return {
+      data,
+      maxRows: 20,
+      maxCols: 10,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    };
+  };
+
+  const filterHosts: SpreadsheetAction = {
+    type: 'SET_FILTER_RULES',
+    payload: { rules: [createFilterRule(0, 'equals', 'host')], showFilterHeaders: true },
+  };
+
+  const filtered = () => spreadsheetReducer(createState(), filterHosts);
+
+  it('hides rows failing the rules until the filters are removed', () => {
+    const state = filtered();
+    expect(state.filterState!.hiddenRows).toEqual(new Set([1, 3, ...Array.from({ length: 15 }, (_, i) => i + 5)]));
+    expect(state.filterState!.showFilterHeaders).toBe(true);
+
+    const cleared = spreadsheetReducer(state, { type: 'CLEAR_FILTERS' });
+    expect(cleared.filterState).toBeUndefined();
+  });
+
+  it('undoes filtering', () => {
+    const before = createState();
+    const after = spreadsheetReducer(before, filterHosts);
+    const command = createCommand(before, after, [filterHosts])!;
+
+    expect(command.description).toBe('Filter rows');
+    expect(spreadsheetReducer(after, command.undo).filterState).toBeUndefined();
+  });
+
+  it('clears, formats and fills only visible rows', () => {
+    const state = { ...filtered(), selection: { ranges: [{ startRow: 0, startCol: 1, endRow: 4, endCol: 1 }], active: { row: 0, col: 1 } } };
+    const range = state.selection.ranges[0];
+
+    const cleared = spreadsheetReducer(state, { type: 'CLEAR_RANGE', payload: { range } });
+    expect(cleared.data.has(keyOf(0, 1))).toBe(false);
+    expect(cleared.data.get(keyOf(1, 1))?.value).toBe(2);
+
+    const bold = spreadsheetReducer(state, { type: 'APPLY_FORMAT_TO_SELECTION', payload: { bold: true } });
+    expect(bold.data.get(keyOf(2, 1))?.format).toEqual({ bold: true });
+    expect(bold.data.get(keyOf(3, 1))?.format).toBeUndefined();
+
+    const series = spreadsheetReducer(state, { type: 'FILL_RANGE', payload: { range, direction: 'down', type: 'series' } });
+    expect([0, 1, 2, 3, 4].map(row => series.data.get(keyOf(row, 1))?.value)).toEqual([1, 2, 2, 4, 3]);
+  });
+
+  it('copies visible rows only, adjusting formulas from their own rows', () => {
+    const state = filtered();
+    const clipboard = copyRange(state, { startRow: 2, startCol: 0, endRow: 4, endCol: 2 });
+    expect(clipboard.cells.map(row => row[0]?.value)).toEqual(['host', 'host']);
+    expect(clipboard.sourceRows).toEqual([2, 4]);
+
+    const target = { ...state, selection: { ranges: [], active: { row: 10, col: 0 } } };
+    const pasted = spreadsheetReducer(target, createPasteAction(target, clipboard)!);
+    expect(pasted.data.get(keyOf(11, 2))?.formula).toBe('=B12*2');
+
+    const cut = copyRange(state, { startRow: 2, startCol: 0, endRow: 4, endCol: 2 }, undefined, true);
+    expect(cut.cells).toHaveLength(3);
+  });
+
+  it('filters formulas by their results, again as the results change', () => {
+    const state = createState();
+    const results = new Map([[keyOf(4, 2), 10]]);
+    const getComputedValue = (row: number, col: number) => {
+      const key = keyOf(row, col);
+      return results.has(key) ? results.get(key) : state.data.get(key)?.value;
+    };
+    const overFive = spreadsheetReducer(state, {
+      type: 'SET_FILTER_RULES',
+      payload: { rules: [createFilterRule(2, 'greaterThan', 5, 'number')], getComputedValue },
+    });
+    expect(isRowFiltered(overFive, 4)).toBe(false);
+    expect(isRowFiltered(overFive, 3)).toBe(true);
+
+    // Unchanged results keep the state
+    expect(spreadsheetReducer(overFive, { type: 'REFRESH_FILTERS', payload: { getComputedValue } })).toBe(overFive);
+
+    results.set(keyOf(4, 2), 4);
+    const refreshed = spreadsheetReducer(overFive, { type: 'REFRESH_FILTERS', payload: { getComputedValue } });
+    expect(isRowFiltered(refreshed, 4)).toBe(true);
+    expect(refreshed.filterState!.rules).toBe(overFive.filterState!.rules);
+  });
+
+  it('moves hidden rows and rules with inserted rows and columns', () => {
+    const rows = spreadsheetReducer(filtered(), { type: 'INSERT_ROW', payload: { index: 0 } });
+    expect(rows.filterState!.hiddenRows.has(2)).toBe(true);
+    expect(rows.filterState!.hiddenRows.has(1)).toBe(false);
+
+    const cols = spreadsheetReducer(filtered(), { type: 'INSERT_COLUMN', payload: { index: 0 } });
+    expect(cols.filterState!.rules[0].column).toBe(1);
+  });
+});
+
+describe('Filter views', () => {
+  // Destination IP and severity of each alert
+  const alerts: Array<[string, string]> = [
+    ['8.8.8.8', 'High'],
+    ['10.0.0.5', 'Critical'],
+    ['1.1.1.1', 'Low'],
+    ['9.9.9.9', 'Critical'],
+  ];
+
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    alerts.forEach(([ip, severity], row) => {
+      data.set(keyOf(row, 0), { value: ip });
+      data.set(keyOf(row, 1), { value: severity });
+    });
+
+    return {
+      data,
+      maxRows: 4,
+      maxCols: 5,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    };
+  };
+
+  // "External IP AND (severity is High OR Critical)"
+  const criticalExternal = createFilterGroup('and', [
+    DFIR_FILTERS.externalIPs(0),
+    createFilterGroup('or', [
+      createFilterRule(1, 'equals', 'high'),
+      createFilterRule(1, 'equals', 'critical'),
+    ]),
+  ]);
+
+  const view: FilterView = { id: 'view_1', name: 'Critical external traffic', filter: criticalExternal };
+
+  it('combines nested groups with AND, OR and NOT', () => {
+    const { data, maxRows, maxCols } = createState();
+
+    expect(applyFilters(data, [criticalExternal], maxRows, maxCols)).toEqual(new Set([1, 2]));
+    expect(applyFilters(data, [{ ...criticalExternal, negate: true }], maxRows, maxCols)).toEqual(new Set([0, 3]));
+    expect(applyFilters(data, [createFilterGroup('or', [])], maxRows, maxCols)).toEqual(new Set());
+  });
+
+  it('saves DFIR building blocks inside groups', () => {
+    const withRecent = { ...view, filter: createFilterGroup('or', [criticalExternal, DFIR_FILTERS.recentActivity(2, 6)]) };
+    const saved = JSON.parse(JSON.stringify(serializeFilterView(withRecent)));
+    const restored = deserializeFilterView(saved);
+
+    const { data, maxRows, maxCols } = createState();
+    expect(applyFilters(data, [restored.filter], maxRows, maxCols)).toEqual(new Set([1, 2]));
+    expect(restored.filter.conditions[1]).toMatchObject({ dfirFilter: { name: 'recentActivity', args: [6] } });
+  });
+
+  it('opens a view for the local user without touching the sheet filter', () => {
+    const filtered = spreadsheetReducer(createState(), {
+      type: 'SET_FILTER_RULES',
+      payload: { rules: [createFilterRule(1, 'equals', 'low')] },
+    });
+    const saved = spreadsheetReducer(filtered, { type: 'SAVE_FILTER_VIEW', payload: { view } });
+    const opened = spreadsheetReducer(saved, { type: 'OPEN_FILTER_VIEW', payload: { id: 'view_1' } });
+
+    expect(opened.filterState).toBe(filtered.filterState);
+    expect(isRowFiltered(opened, 2)).toBe(true);
+    expect(isRowFiltered(opened, 3)).toBe(false);
+
+    const closed = spreadsheetReducer(opened, { type: 'OPEN_FILTER_VIEW', payload: { id: null } });
+    expect(isRowFiltered(closed, 2)).toBe(false);
+    expect(isRowFiltered(closed, 3)).toBe(true);
+  });
+
+  it('reapplies the open view when it is saved, and closes it when deleted', () => {
+    const opened = spreadsheetReducer(
+      spreadsheetReducer(createState(), { type: 'SAVE_FILTER_VIEW', payload: { view } }),
+      { type: 'OPEN_FILTER_VIEW', payload: { id: 'view_1' } }
+    );
+    const lowOnly = { ...view, filter: createFilterGroup('and', [createFilterRule(1, 'equals', 'low')]) };
+    const resaved = spreadsheetReducer(opened, { type: 'SAVE_FILTER_VIEW', payload: { view: lowOnly } });
+
+    expect(resaved.filterViews).toEqual([lowOnly]);
+    expect(resaved.activeFilterView!.hiddenRows).toEqual(new Set([0, 1, 3]));
+
+    const deleted = spreadsheetReducer(resaved, { type: 'DELETE_FILTER_VIEW', payload: { id: 'view_1' } });
+    expect(deleted.filterViews).toBeUndefined();
+    expect(deleted.activeFilterView).toBeUndefined();
+  });
+
+  it('undoes saving a view but not opening one', () => {
+    const save = { type: 'SAVE_FILTER_VIEW' as const, payload: { view } };
+    const before = createState();
+    const after = spreadsheetReducer(before, save);
+    const command = createCommand(before, after, [save])!;
+    expect(command.description).toBe('Save filter view Critical external traffic');
+
+    const open = { type: 'OPEN_FILTER_VIEW' as const, payload: { id: 'view_1' } };
+    expect(createCommand(after, spreadsheetReducer(after, open), [open])).toBeNull();
+  });
+
+  it('moves view rules with inserted columns and hidden rows with inserted rows', () => {
+    const opened = spreadsheetReducer(
+      spreadsheetReducer(createState(), { type: 'SAVE_FILTER_VIEW', payload: { view } }),
+      { type: 'OPEN_FILTER_VIEW', payload: { id: 'view_1' } }
+    );
+
+    const cols = spreadsheetReducer(opened, { type: 'INSERT_COLUMN', payload: { index: 1 } });
+    expect(cols.filterViews![0].filter.conditions[1]).toMatchObject({
+      conditions: [{ column: 2 }, { column: 2 }],
+    });
+
+    const rows = spreadsheetReducer(opened, { type: 'INSERT_ROW', payload: { index: 0 } });
+    expect(rows.activeFilterView!.hiddenRows).toEqual(new Set([2, 3]));
+  });
+});
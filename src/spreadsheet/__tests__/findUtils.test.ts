@@ -0,0 +1,123 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { createReplaceAction, findMatches, nextMatch, FindOptions } from '../utils/findUtils';
+
+describe('Find Utils', () => {
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    data.set(keyOf(0, 0), { value: 'Host web-01' });
+    data.set(keyOf(0, 1), { value: '10.0.0.5' });
+    data.set(keyOf(1, 0), { value: 'host' });
+    data.set(keyOf(1, 1), { value: '8.8.8.8' });
+    data.set(keyOf(2, 0), { value: '=A2&"-02"', formula: '=A2&"-02"' });
+    data.set(keyOf(2, 1), { value: 'd41d8cd98f00b204e9800998ecf8427e' });
+    data.set(keyOf(3, 1), { value: 12 });
+
+    return {
+      data,
+      maxRows: 20,
+      maxCols: 10,
+      selection: { ranges: [{ startRow: 1, startCol: 0, endRow: 3, endCol: 0 }], active: { row: 1, col: 0 } },
+      editing: null,
+      formulaInput: '',
+    };
+  };
+
+  const computed = (row: number, col: number) => (row === 2 && col === 0 ? 'host-02' : undefined);
+
+  const find = (options: Partial<FindOptions>) =>
+    findMatches(createState(), { query: '', ...options }, computed);
+
+  it('finds text in row-major order, ignoring case by default', () => {
+    expect(find({ query: 'host' })).toEqual([
+      { row: 0, col: 0 },
+      { row: 1, col: 0 },
+      { row: 2, col: 0 },
+    ]);
+    expect(find({ query: 'host', matchCase: true })).toHaveLength(2);
+    expect(find({ query: 'host', wholeCell: true })).toEqual([{ row: 1, col: 0 }]);
+    expect(find({ query: '' })).toEqual([]);
+  });
+
+  it('looks in computed values, formulas or both', () => {
+    expect(find({ query: '-02' })).toEqual([{ row: 2, col: 0 }]);
+    expect(find({ query: 'A2', lookIn: 'values' })).toEqual([]);
+    expect(find({ query: 'A2', lookIn: 'formulas' })).toEqual([{ row: 2, col: 0 }]);
+    expect(find({ query: '-02', lookIn: 'formulas' })).toEqual([{ row: 2, col: 0 }]);
+    expect(find({ query: 'host-', lookIn: 'formulas' })).toEqual([]);
+    expect(find({ query: 'host-', lookIn: 'both' })).toEqual([{ row: 2, col: 0 }]);
+  });
+
+  it('matches regular expressions and rejects invalid ones', () => {
+    expect(find({ query: '^\\d+$', regex: true })).toEqual([{ row: 3, col: 1 }]);
+    expect(find({ query: '8.8', regex: false })).toEqual([{ row: 1, col: 1 }]);
+    expect(() => find({ query: '(', regex: true })).toThrow(SyntaxError);
+  });
+
+  it('searches within the selection', () => {
+    expect(find({ query: 'host', scope: 'selection' })).toEqual([
+      { row: 1, col: 0 },
+      { row: 2, col: 0 },
+    ]);
+  });
+
+  it('finds indicators of compromise by type', () => {
+    expect(find({ iocType: 'IPv4' })).toEqual([{ row: 0, col: 1 }, { row: 1, col: 1 }]);
+    expect(find({ iocType: 'MD5' })).toEqual([{ row: 2, col: 1 }]);
+    expect(find({ iocType: 'any' })).toEqual(expect.arrayContaining([{ row: 0, col: 1 }, { row: 2, col: 1 }]));
+  });
+
+  it('steps to the next or previous match, wrapping around', () => {
+    const matches = find({ query: 'host' });
+
+    expect(nextMatch(matches, { row: 0, col: 5 })).toBe(1);
+    expect(nextMatch(matches, { row: 2, col: 0 })).toBe(0);
+    expect(nextMatch(matches, { row: 1, col: 0 }, true)).toBe(0);
+    expect(nextMatch(matches, { row: 0, col: 0 }, true)).toBe(2);
+    expect(nextMatch([], null)).toBe(-1);
+  });
+
+  it('replaces all matches as one undoable step', () => {
+    const state = createState();
+    const options: FindOptions = { query: 'host', lookIn: 'both' };
+    const action = createReplaceAction(state, findMatches(state, options, computed), options, 'server')!;
+    const replaced = spreadsheetReducer(state, action);
+
+    expect(action.type === 'BATCH' && action.label).toBe('Replace 2 cells');
+    expect(replaced.data.get(keyOf(0, 0))?.value).toBe('server web-01');
+    expect(replaced.data.get(keyOf(1, 0))?.value).toBe('server');
+    // Only the computed value matched, so the formula is left alone
+    expect(replaced.data.get(keyOf(2, 0))?.formula).toBe('=A2&"-02"');
+
+    const command = createCommand(state, replaced, [action])!;
+    expect(command.description).toBe('Replace 2 cells');
+    expect(spreadsheetReducer(replaced, command.undo).data.get(keyOf(0, 0))?.value).toBe('Host web-01');
+  });
+
+  it('replaces in formulas, with regex groups and number parsing', () => {
+    const state = createState();
+    const formulas: FindOptions = { query: 'A2', lookIn: 'formulas' };
+    const inFormula = spreadsheetReducer(state, createReplaceAction(state, [{ row: 2, col: 0 }], formulas, 'B2')!);
+    expect(inFormula.data.get(keyOf(2, 0))).toEqual({ value: '=B2&"-02"', formula: '=B2&"-02"' });
+
+    const octets: FindOptions = { query: '^(\\d+)\\.(\\d+)\\..*$', regex: true };
+    const dotted = spreadsheetReducer(state, createReplaceAction(state, [{ row: 1, col: 1 }], octets, '$1$2')!);
+    expect(dotted.data.get(keyOf(1, 1))?.value).toBe(88);
+
+    const literal: FindOptions = { query: 'host', wholeCell: true };
+    const dollars = spreadsheetReducer(state, createReplaceAction(state, [{ row: 1, col: 0 }], literal, '$1')!);
+    expect(dollars.data.get(keyOf(1, 0))?.value).toBe('$1');
+  });
+
+  it('defangs indicators by replacing the whole value', () => {
+    const state = createState();
+    const options: FindOptions = { query: '', iocType: 'IPv4' };
+    const action = createReplaceAction(state, findMatches(state, options), options, '[redacted]')!;
+    const replaced = spreadsheetReducer(state, action);
+
+    expect(replaced.data.get(keyOf(0, 1))?.value).toBe('[redacted]');
+    expect(replaced.data.get(keyOf(1, 1))?.value).toBe('[redacted]');
+    expect(createReplaceAction(state, [{ row: 1, col: 0 }], options, 'x')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { tokenizeFormula, joinTokens } from '../utils/formulaTokenizer';
+
+describe('tokenizeFormula', () => {
+  const types = (formula: string) =>
+    tokenizeFormula(formula)
+      .filter(token => token.type !== 'whitespace')
+      .map(token => [token.type, token.text]);
+
+  it('should round-trip the original text', () => {
+    const formula = "=SUM('IOC List'!B:B, A1:$C$3) & \"A1\" <> #REF!";
+    expect(joinTokens(tokenizeFormula(formula))).toBe(formula);
+  });
+
+  it('should classify references, functions and names', () => {
+    expect(types('=LOG10(A1)+A1B+TRUE')).toEqual([
+      ['operator', '='],
+      ['function', 'LOG10'],
+      ['paren', '('],
+      ['reference', 'A1'],
+      ['paren', ')'],
+      ['operator', '+'],
+      ['name', 'A1B'],
+      ['operator', '+'],
+      ['boolean', 'TRUE'],
+    ]);
+  });
+
+  it('should not find references inside strings', () => {
+    expect(types('="B2"&B2')).toEqual([
+      ['operator', '='],
+      ['string', '"B2"'],
+      ['operator', '&'],
+      ['reference', 'B2'],
+    ]);
+  });
+
+  it('should parse every reference shape', () => {
+    const refs = tokenizeFormula("=A1+$B$2:C3+D:$E+3:5+'My Sheet'!A1+Sheet2!Rate")
+      .filter(token => token.ref || token.sheet)
+      .map(token => token.ref ? [token.ref.kind, token.ref.sheet] : ['name', token.sheet]);
+
+    expect(refs).toEqual([
+      ['cell', undefined],
+      ['range', undefined],
+      ['column', undefined],
+      ['row', undefined],
+      ['cell', 'My Sheet'],
+      ['name', 'Sheet2'],
+    ]);
+  });
+
+  it('should read sheet-qualified errors as errors', () => {
+    const [, error] = tokenizeFormula("='Host List'!#REF!+1");
+    expect(error).toMatchObject({ type: 'error', text: "'Host List'!#REF!", sheet: 'Host List' });
+  });
+
+  it('should treat columns beyond XFD as names', () => {
+    expect(types('=XFE1')).toEqual([
+      ['operator', '='],
+      ['name', 'XFE1'],
+    ]);
+  });
+});
@@ -4,7 +4,9 @@ import {
   isAbsoluteRef,
   cellsInRange,
   evaluateFormula,
-  updateFormulaReferences
+  updateFormulaReferences,
+  moveFormulaReferences,
+  offsetFormulaReferences
 } from '../utils/formulaUtils';
 
 describe('Formula Utils', () => {
@@ -162,11 +164,48 @@ describe('Formula Utils', () => {
         .toBe('=#REF!');
     });
 
-    it('should not update absolute references', () => {
+    it('should shift absolute references like Excel', () => {
       expect(updateFormulaReferences('=$A$1+A2', 'insertRow', 0, 1))
-        .toBe('=$A$1+A3');
-      expect(updateFormulaReferences('=$A$1+$A2', 'insertRow', 0, 1))
-        .toBe('=$A$1+$A2');
+        .toBe('=$A$2+A3');
+      expect(updateFormulaReferences('=$A$1+$A2', 'insertRow', 1, 1))
+        .toBe('=$A$1+$A3');
+      expect(updateFormulaReferences('=$C$1', 'deleteColumn', 0, 1))
+        .toBe('=$B$1');
+    });
+
+    it('should grow and shrink ranges', () => {
+      expect(updateFormulaReferences('=SUM(A2:A5)', 'insertRow', 2, 1))
+        .toBe('=SUM(A2:A6)');
+      expect(updateFormulaReferences('=SUM(A2:A5)', 'deleteRow', 3, 5))
+        .toBe('=SUM(A2:A3)');
+      expect(updateFormulaReferences('=SUM(A2:A5)', 'deleteRow', 0, 2))
+        .toBe('=SUM(A1:A3)');
+      expect(updateFormulaReferences('=SUM(A2:A5)', 'deleteRow', 1, 4))
+        .toBe('=SUM(#REF!)');
+    });
+
+    it('should handle whole-column and whole-row references', () => {
+      expect(updateFormulaReferences('=SUM(B:B)', 'insertRow', 0, 1))
+        .toBe('=SUM(B:B)');
+      expect(updateFormulaReferences('=SUM(B:C)', 'insertColumn', 0, 2))
+        .toBe('=SUM(D:E)');
+      expect(updateFormulaReferences('=SUM(3:3)', 'insertRow', 1, 1))
+        .toBe('=SUM(4:4)');
+    });
+
+    it('should leave strings, functions and names alone', () => {
+      expect(updateFormulaReferences('=IF(A2>0,"A2",LOG10(A2))', 'insertRow', 0, 1))
+        .toBe('=IF(A3>0,"A2",LOG10(A3))');
+      expect(updateFormulaReferences('=TaxRate*A2', 'insertRow', 0, 1))
+        .toBe('=TaxRate*A3');
+    });
+
+    it('should only shift references to the edited sheet', () => {
+      const scope = { sheetName: 'Data', formulaSheet: 'Summary' };
+      expect(updateFormulaReferences("=A2+Data!A2+'My Data'!A2", 'insertRow', 0, 1, scope))
+        .toBe("=A2+Data!A3+'My Data'!A2");
+      expect(updateFormulaReferences('=A2+Summary!A2', 'insertRow', 0, 1, { sheetName: 'Summary', formulaSheet: 'Summary' }))
+        .toBe('=A3+Summary!A3');
     });
 
     it('should return #REF! for deleted cell references', () => {
@@ -175,5 +214,54 @@ describe('Formula Utils', () => {
       expect(updateFormulaReferences('=B1', 'deleteColumn', 1, 1))
         .toBe('=#REF!');
     });
+
+    it('should keep the sheet of deleted references', () => {
+      expect(updateFormulaReferences("=SUM(Sheet2!A2:A5)+'Host List'!A3", 'deleteRow', 1, 4))
+        .toBe("=SUM(Sheet2!#REF!)+'Host List'!#REF!");
+    });
+
+    it('should return #REF! for references pushed past the last row or column', () => {
+      expect(updateFormulaReferences('=A1048575+A1048576', 'insertRow', 0, 1))
+        .toBe('=A1048576+#REF!');
+      expect(updateFormulaReferences('=SUM(A2:A1048576)', 'insertRow', 5, 1))
+        .toBe('=SUM(#REF!)');
+      expect(updateFormulaReferences('=XFC1+Sheet2!XFD1', 'insertColumn', 0, 1))
+        .toBe('=XFD1+Sheet2!#REF!');
+      expect(updateFormulaReferences('=SUM(A:XFD)', 'insertColumn', 3, 1))
+        .toBe('=SUM(#REF!)');
+    });
+  });
+
+  describe('moveFormulaReferences', () => {
+    const source = { startRow: 0, startCol: 0, endRow: 1, endCol: 0 };
+
+    it('should follow cells that were moved', () => {
+      expect(moveFormulaReferences('=SUM(A1:A2)+A1+B1', source, 0, 2))
+        .toBe('=SUM(C1:C2)+C1+B1');
+    });
+
+    it('should leave partially moved ranges unchanged', () => {
+      expect(moveFormulaReferences('=SUM(A1:A3)', source, 0, 2))
+        .toBe('=SUM(A1:A3)');
+    });
+
+    it('should turn references to overwritten cells into #REF!', () => {
+      expect(moveFormulaReferences('=C2', source, 0, 2))
+        .toBe('=#REF!');
+    });
+  });
+
+  describe('offsetFormulaReferences', () => {
+    it('should offset relative parts only', () => {
+      expect(offsetFormulaReferences('=A1+$A1+A$1+$A$1', 2, 1))
+        .toBe('=B3+$A3+B$1+$A$1');
+    });
+
+    it('should return #REF! for references pushed off the grid', () => {
+      expect(offsetFormulaReferences('=A1', -1, 0))
+        .toBe('=#REF!');
+      expect(offsetFormulaReferences('=Sheet2!A1048576', 1, 0))
+        .toBe('=Sheet2!#REF!');
+    });
   });
 });
\ No newline at end of file
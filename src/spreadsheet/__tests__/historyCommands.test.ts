@@ -0,0 +1,131 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand, describeAction } from '../reducers/historyCommands';
+import { SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { applySheets, createSheet, getSheets } from '../utils/sheetUtils';
+
+describe('History Commands', () => {
+  const createState = (): SpreadsheetState => {
+    const sheet = createSheet('Sheet1', { id: 'first', maxRows: 20, maxCols: 10 });
+    sheet.data.set(keyOf(0, 0), { value: 1 });
+    sheet.data.set(keyOf(1, 0), { value: 2 });
+    sheet.data.set(keyOf(2, 0), { value: '=A1+A2', formula: '=A1+A2' });
+    const other = createSheet('Other', { id: 'other', maxRows: 20, maxCols: 10 });
+    other.data.set(keyOf(0, 0), { value: '=Sheet1!A2', formula: '=Sheet1!A2' });
+
+    return applySheets({
+      data: sheet.data,
+      maxRows: 20,
+      maxCols: 10,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    }, [sheet, other], sheet.id);
+  };
+
+  // Apply actions as one history step and return the states around it
+  const record = (state: SpreadsheetState, ...actions: SpreadsheetAction[]) => {
+    const after = actions.reduce(spreadsheetReducer, state);
+    const command = createCommand(state, after, actions)!;
+    expect(command).not.toBeNull();
+    return { after, command };
+  };
+
+  const contents = (state: SpreadsheetState) =>
+    getSheets(state).map(sheet => ({
+      name: sheet.name,
+      cells: Array.from(sheet.data.entries()).sort(([a], [b]) => a.localeCompare(b)),
+      rowHeights: sheet.rowHeights,
+      maxRows: sheet.maxRows,
+    }));
+
+  it('should undo and redo cell edits', () => {
+    const before = createState();
+    const { after, command } = record(before,
+      { type: 'SET_CELL', payload: { row: 0, col: 0, data: { value: 5 } } },
+      { type: 'CLEAR_CELL', payload: { row: 1, col: 0 } }
+    );
+
+    const undone = spreadsheetReducer(after, command.undo);
+    expect(contents(undone)).toEqual(contents(before));
+    expect(contents(spreadsheetReducer(undone, command.redo))).toEqual(contents(after));
+  });
+
+  it('should only hold the cells that changed', () => {
+    const before = createState();
+    const { command } = record(before, { type: 'SET_CELL', payload: { row: 5, col: 5, data: { value: 'x' } } });
+
+    expect(command.undo).toEqual({
+      type: 'RESTORE_SHEET',
+      payload: { sheetId: 'first', cells: [{ row: 5, col: 5, data: null }], layout: {} },
+    });
+  });
+
+  it('should restore deleted rows and the references they broke', () => {
+    const before = createState();
+    const { after, command } = record(before, { type: 'DELETE_ROW', payload: { index: 1 } });
+    expect(getSheets(after)[1].data.get(keyOf(0, 0))?.formula).toBe('=Sheet1!#REF!');
+
+    const undone = spreadsheetReducer(after, command.undo);
+    expect(contents(undone)).toEqual(contents(before));
+    expect(contents(spreadsheetReducer(undone, command.redo))).toEqual(contents(after));
+  });
+
+  it('should undo row edits on their own sheet when another sheet is active', () => {
+    const before = createState();
+    const { after, command } = record(before, { type: 'INSERT_ROW', payload: { index: 0, count: 2 } });
+
+    const elsewhere = spreadsheetReducer(after, { type: 'SET_ACTIVE_SHEET', payload: { sheetId: 'other' } });
+    const undone = spreadsheetReducer(elsewhere, command.undo);
+    expect(undone.activeSheetId).toBe('first');
+    expect(contents(undone)).toEqual(contents(before));
+  });
+
+  it('should restore deleted sheets', () => {
+    const before = createState();
+    const { after, command } = record(before, { type: 'DELETE_SHEET', payload: { sheetId: 'first' } });
+
+    const undone = spreadsheetReducer(after, command.undo);
+    expect(undone.activeSheetId).toBe('first');
+    expect(contents(undone)).toEqual(contents(before));
+  });
+
+  it('should undo named range changes', () => {
+    const before = createState();
+    const { after, command } = record(before, {
+      type: 'ADD_NAMED_RANGE', payload: { name: 'Totals', reference: 'A1:A2' },
+    });
+
+    expect(spreadsheetReducer(after, command.undo).namedRanges).toEqual([]);
+    expect(spreadsheetReducer(before, command.redo).namedRanges).toEqual(after.namedRanges);
+  });
+
+  it('should ignore selection and editing changes', () => {
+    const before = createState();
+    const action: SpreadsheetAction = { type: 'SET_SELECTION', payload: { ranges: [], active: { row: 1, col: 1 } } };
+    expect(createCommand(before, spreadsheetReducer(before, action), [action])).toBeNull();
+  });
+
+  describe('describeAction', () => {
+    it('should label history entries', () => {
+      expect(describeAction({ type: 'SORT_RANGE', payload: { range: { startRow: 0, startCol: 0, endRow: 9, endCol: 3 }, column: 2, ascending: true } }))
+        .toBe('Sort by column C');
+      expect(describeAction({ type: 'CLEAR_RANGE', payload: { range: { startRow: 4, startCol: 1, endRow: 0, endCol: 0 } } }))
+        .toBe('Clear A1:B5');
+      expect(describeAction({ type: 'DELETE_ROW', payload: { index: 0, count: 3 } })).toBe('Delete 3 rows');
+      expect(describeAction({ type: 'BATCH', payload: [], label: 'Paste 120 cells' })).toBe('Paste 120 cells');
+    });
+
+    it('should label actions dispatched together', () => {
+      const before = createState();
+      const { command } = record(before,
+        { type: 'SET_CELL', payload: { row: 5, col: 0, data: { value: 1 } } },
+        { type: 'SET_CELLS', payload: { updates: [
+          { row: 6, col: 0, data: { value: 2 } },
+          { row: 7, col: 0, data: { value: 3 } },
+        ] } }
+      );
+      expect(command.description).toBe('Edit 3 cells');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { SpreadsheetState, keyOf } from '../types/spreadsheet';
+import {
+  createMerges,
+  expandToMerges,
+  findMerge,
+  isMergeCovered,
+  shiftMerges,
+  snapSelectionToMerges,
+} from '../utils/mergeUtils';
+import { exportToExcelBytes, importFromExcel } from '../utils/excelUtils';
+
+describe('Merge Utils', () => {
+  const merges = [
+    { startRow: 1, startCol: 1, endRow: 2, endCol: 3 },
+    { startRow: 5, startCol: 0, endRow: 6, endCol: 0 },
+  ];
+
+  it('finds the merge covering a cell', () => {
+    expect(findMerge(merges, 2, 3)).toBe(merges[0]);
+    expect(findMerge(merges, 3, 3)).toBeUndefined();
+    expect(isMergeCovered(merges, 1, 1)).toBe(false);
+    expect(isMergeCovered(merges, 2, 2)).toBe(true);
+  });
+
+  it('creates one region per row or column, skipping single cells', () => {
+    const range = { startRow: 2, startCol: 2, endRow: 0, endCol: 0 };
+
+    expect(createMerges(range)).toEqual([{ startRow: 0, startCol: 0, endRow: 2, endCol: 2 }]);
+    expect(createMerges(range, 'horizontal')).toHaveLength(3);
+    expect(createMerges(range, 'vertical')[1]).toEqual({ startRow: 0, startCol: 1, endRow: 2, endCol: 1 });
+    expect(createMerges({ startRow: 0, startCol: 0, endRow: 2, endCol: 0 }, 'horizontal')).toEqual([]);
+  });
+
+  it('expands ranges to whole merges, including merges reached through others', () => {
+    const chained = [...merges, { startRow: 3, startCol: 3, endRow: 4, endCol: 4 }, { startRow: 0, startCol: 3, endRow: 3, endCol: 4 }];
+
+    expect(expandToMerges({ startRow: 2, startCol: 2, endRow: 2, endCol: 2 }, merges))
+      .toEqual({ startRow: 1, startCol: 1, endRow: 2, endCol: 3 });
+    expect(expandToMerges({ startRow: 2, startCol: 3, endRow: 2, endCol: 3 }, chained))
+      .toEqual({ startRow: 0, startCol: 1, endRow: 4, endCol: 4 });
+  });
+
+  it('snaps selections to merges, keeping their direction', () => {
+    const snapped = snapSelectionToMerges({
+      ranges: [{ startRow: 4, startCol: 2, endRow: 2, endCol: 2 }],
+      active: { row: 2, col: 2 },
+    }, merges);
+
+    expect(snapped.ranges[0]).toEqual({ startRow: 4, startCol: 1, endRow: 1, endCol: 3 });
+    expect(snapped.active).toEqual({ row: 1, col: 1 });
+  });
+
+  it('shifts merges for inserted and deleted rows and columns', () => {
+    expect(shiftMerges(merges, 'row', 2, 2)).toEqual([
+      { startRow: 1, startCol: 1, endRow: 4, endCol: 3 },
+      { startRow: 7, startCol: 0, endRow: 8, endCol: 0 },
+    ]);
+    expect(shiftMerges(merges, 'row', 5, -1)).toEqual([merges[0]]);
+    expect(shiftMerges(merges, 'col', 0, -2)).toEqual([{ startRow: 1, startCol: 0, endRow: 2, endCol: 1 }]);
+  });
+});
+
+describe('Merged cells', () => {
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    data.set(keyOf(0, 0), { value: 'Title' });
+    data.set(keyOf(0, 1), { value: 'lost' });
+    data.set(keyOf(1, 1), { value: 'kept' });
+
+    return {
+      data,
+      maxRows: 20,
+      maxCols: 10,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    };
+  };
+
+  const range = { startRow: 0, startCol: 0, endRow: 1, endCol: 2 };
+
+  it('keeps only the top-left content of each merged region', () => {
+    const merged = spreadsheetReducer(createState(), { type: 'MERGE_CELLS', payload: { range } });
+    expect(merged.merges).toEqual([range]);
+    expect(merged.data.get(keyOf(0, 0))?.value).toBe('Title');
+    expect(merged.data.has(keyOf(0, 1))).toBe(false);
+    expect(merged.data.has(keyOf(1, 1))).toBe(false);
+
+    const rows = spreadsheetReducer(createState(), { type: 'MERGE_CELLS', payload: { range, direction: 'horizontal' } });
+    expect(rows.merges).toHaveLength(2);
+    expect(rows.data.get(keyOf(1, 0))).toBeUndefined();
+    expect(rows.data.has(keyOf(1, 1))).toBe(false);
+  });
+
+  it('replaces overlapping merges and unmerges', () => {
+    const state = spreadsheetReducer(createState(), { type: 'MERGE_CELLS', payload: { range, direction: 'vertical' } });
+    const remerged = spreadsheetReducer(state, {
+      type: 'MERGE_CELLS',
+      payload: { range: { startRow: 1, startCol: 1, endRow: 3, endCol: 1 } },
+    });
+    expect(remerged.merges).toEqual([
+      { startRow: 0, startCol: 0, endRow: 1, endCol: 0 },
+      { startRow: 0, startCol: 2, endRow: 1, endCol: 2 },
+      { startRow: 0, startCol: 1, endRow: 3, endCol: 1 },
+    ]);
+
+    const unmerged = spreadsheetReducer(remerged, { type: 'UNMERGE_CELLS', payload: { range: { startRow: 0, startCol: 0, endRow: 0, endCol: 2 } } });
+    expect(unmerged.merges).toBeUndefined();
+  });
+
+  it('snaps the selection and moves merges with inserted rows', () => {
+    const merged = spreadsheetReducer(createState(), { type: 'MERGE_CELLS', payload: { range } });
+    const selected = spreadsheetReducer(merged, {
+      type: 'SET_SELECTION',
+      payload: { ranges: [{ startRow: 1, startCol: 1, endRow: 1, endCol: 1 }], active: { row: 1, col: 1 } },
+    });
+    expect(selected.selection).toEqual({ ranges: [range], active: { row: 0, col: 0 } });
+
+    const inserted = spreadsheetReducer(merged, { type: 'INSERT_ROW', payload: { index: 0 } });
+    expect(inserted.merges).toEqual([{ startRow: 1, startCol: 0, endRow: 2, endCol: 2 }]);
+  });
+
+  it('undoes a merge, restoring the hidden cells', () => {
+    const state = createState();
+    const action = { type: 'MERGE_CELLS' as const, payload: { range } };
+    const merged = spreadsheetReducer(state, action);
+    const command = createCommand(state, merged, [action])!;
+    const undone = spreadsheetReducer(merged, command.undo);
+
+    expect(command.description).toBe('Merge A1:C2');
+    expect(undone.merges).toBeUndefined();
+    expect(undone.data.get(keyOf(0, 1))?.value).toBe('lost');
+  });
+});
+
+describe('Merged cells in Excel files', () => {
+  it('keeps merges through export and import', async () => {
+    // jsdom doesn't provide these
+    Object.assign(global, { TextDecoder, TextEncoder });
+    const merges = [
+      { startRow: 0, startCol: 0, endRow: 0, endCol: 2 },
+      { startRow: 2, startCol: 1, endRow: 4, endCol: 1 },
+    ];
+    const data = new Map([[keyOf(0, 0), { value: 'Incident 42' }], [keyOf(2, 1), { value: 'web-01' }]]);
+
+    const bytes = exportToExcelBytes(data, { sheetName: 'Triage', merges });
+    const imported = await importFromExcel(new File([bytes as BlobPart], 'triage.xlsx'));
+
+    expect(imported.merges).toEqual(merges);
+    expect(imported.sheets[0].merges).toEqual(merges);
+    expect(imported.data.get(keyOf(0, 0))?.value).toBe('Incident 42');
+  });
+});
@@ -0,0 +1,178 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { applySheets, createSheet, getSheets } from '../utils/sheetUtils';
+import {
+  isValidRangeName,
+  normalizeRangeReference,
+  resolveRange,
+  getRangeValues,
+  renameNameReferences,
+} from '../utils/namedRangeUtils';
+import { evaluateFilterRule, applyFilters } from '../utils/filterUtils';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+
+describe('Named Range Utils', () => {
+  const createState = (): SpreadsheetState => {
+    const hosts = createSheet('Hosts', { id: 'hosts', maxRows: 20, maxCols: 5 });
+    hosts.data.set(keyOf(1, 2), { value: '10.0.0.5' });
+    hosts.data.set(keyOf(2, 2), { value: '10.0.0.9' });
+    const iocs = createSheet('IOC List', { id: 'iocs', maxRows: 20, maxCols: 5 });
+    iocs.data.set(keyOf(0, 0), { value: 'evil.example' });
+
+    return applySheets({
+      data: hosts.data,
+      maxRows: 20,
+      maxCols: 5,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    }, [hosts, iocs], hosts.id);
+  };
+
+  describe('isValidRangeName', () => {
+    it('should accept Excel-style names', () => {
+      expect(isValidRangeName('Suspicious_IPs')).toBe(true);
+      expect(isValidRangeName('_tax.rate')).toBe(true);
+      expect(isValidRangeName('Analysts2024')).toBe(true);
+    });
+
+    it('should reject names that read as references or contain spaces', () => {
+      expect(isValidRangeName('A1')).toBe(false);
+      expect(isValidRangeName('XFD100')).toBe(false);
+      expect(isValidRangeName('R1C1')).toBe(false);
+      expect(isValidRangeName('c')).toBe(false);
+      expect(isValidRangeName('Bad Name')).toBe(false);
+      expect(isValidRangeName('1st')).toBe(false);
+      expect(isValidRangeName('TRUE')).toBe(false);
+    });
+  });
+
+  describe('normalizeRangeReference', () => {
+    it('should make references absolute and sheet-qualified', () => {
+      expect(normalizeRangeReference('C2:C500', 'Hosts')).toBe('Hosts!$C$2:$C$500');
+      expect(normalizeRangeReference("='IOC List'!A:A", 'Hosts')).toBe("'IOC List'!$A:$A");
+      expect(normalizeRangeReference('SUM(A1)', 'Hosts')).toBeNull();
+    });
+  });
+
+  describe('resolveRange', () => {
+    it('should resolve names and references to a sheet and rectangle', () => {
+      const state = { ...createState(), namedRanges: [{ name: 'Bad_Domains', reference: "'IOC List'!$A:$A" }] };
+
+      expect(resolveRange(state, 'bad_domains')).toEqual({
+        sheetId: 'iocs',
+        sheetName: 'IOC List',
+        rect: { startRow: 0, startCol: 0, endRow: 19, endCol: 0 },
+      });
+      expect(resolveRange(state, 'B3:A1')?.rect).toEqual({ startRow: 0, startCol: 0, endRow: 2, endCol: 1 });
+      expect(resolveRange(state, 'Missing!A1')).toBeNull();
+      expect(resolveRange(state, 'Unknown_Name')).toBeNull();
+    });
+
+    it('should read the non-empty values of a range', () => {
+      const state = { ...createState(), namedRanges: [{ name: 'Suspicious_IPs', reference: 'Hosts!$C$1:$C$10' }] };
+      expect(getRangeValues(state, 'Suspicious_IPs')).toEqual(['10.0.0.5', '10.0.0.9']);
+    });
+  });
+
+  describe('named range actions', () => {
+    it('should add names in their stored form and reject invalid or duplicate ones', () => {
+      let state = spreadsheetReducer(createState(), {
+        type: 'ADD_NAMED_RANGE', payload: { name: 'Suspicious_IPs', reference: 'C2:C500' },
+      });
+      expect(state.namedRanges).toEqual([{ name: 'Suspicious_IPs', reference: 'Hosts!$C$2:$C$500' }]);
+
+      const unchanged = spreadsheetReducer(state, {
+        type: 'ADD_NAMED_RANGE', payload: { name: 'suspicious_ips', reference: 'A1' },
+      });
+      expect(unchanged).toBe(state);
+      expect(spreadsheetReducer(state, {
+        type: 'ADD_NAMED_RANGE', payload: { name: 'B2', reference: 'A1' },
+      })).toBe(state);
+
+      state = spreadsheetReducer(state, { type: 'DELETE_NAMED_RANGE', payload: { name: 'SUSPICIOUS_IPS' } });
+      expect(state.namedRanges).toEqual([]);
+    });
+
+    it('should rewrite formulas when a name is renamed', () => {
+      let state = spreadsheetReducer(createState(), {
+        type: 'ADD_NAMED_RANGE', payload: { name: 'Suspicious_IPs', reference: 'C2:C3' },
+      });
+      state = spreadsheetReducer(state, {
+        type: 'SET_CELL',
+        payload: { row: 0, col: 0, data: { value: '=COUNTA(Suspicious_IPs)', formula: '=COUNTA(Suspicious_IPs)' } },
+      });
+      state = spreadsheetReducer(state, {
+        type: 'UPDATE_NAMED_RANGE',
+        payload: { name: 'Suspicious_IPs', namedRange: { name: 'Bad_IPs', reference: 'Hosts!$C$2:$C$4' } },
+      });
+
+      expect(state.namedRanges).toEqual([{ name: 'Bad_IPs', reference: 'Hosts!$C$2:$C$4' }]);
+      expect(state.data.get(keyOf(0, 0))?.formula).toBe('=COUNTA(Bad_IPs)');
+    });
+
+    it('should keep names pointing at their cells after rows are inserted', () => {
+      let state = spreadsheetReducer(createState(), {
+        type: 'ADD_NAMED_RANGE', payload: { name: 'Suspicious_IPs', reference: 'C2:C3' },
+      });
+      state = spreadsheetReducer(state, { type: 'INSERT_ROW', payload: { index: 0, count: 2 } });
+      expect(state.namedRanges![0].reference).toBe('Hosts!$C$4:$C$5');
+
+      // Edits to another sheet leave the name alone
+      state = spreadsheetReducer(state, { type: 'SET_ACTIVE_SHEET', payload: { sheetId: 'iocs' } });
+      state = spreadsheetReducer(state, { type: 'DELETE_ROW', payload: { index: 0 } });
+      expect(state.namedRanges![0].reference).toBe('Hosts!$C$4:$C$5');
+      expect(getSheets(state)).toHaveLength(2);
+    });
+  });
+
+  describe('renameNameReferences', () => {
+    it('should only replace unqualified name tokens', () => {
+      expect(renameNameReferences('=SUM(Rate)*rate+"Rate"', 'Rate', 'TaxRate')).toBe('=SUM(TaxRate)*TaxRate+"Rate"');
+      expect(renameNameReferences('=Sheet2!Rate+RATE(1,2,3)', 'Rate', 'TaxRate')).toBe('=Sheet2!Rate+RATE(1,2,3)');
+    });
+  });
+
+  describe('FormulaEngine named expressions', () => {
+    let engine: FormulaEngine;
+
+    beforeEach(() => {
+      engine = new FormulaEngine();
+    });
+
+    afterEach(() => {
+      engine.destroy();
+    });
+
+    it('should evaluate formulas that use names and follow name changes', () => {
+      const sheet = createSheet('Sheet1');
+      sheet.data.set(keyOf(0, 0), { value: 2 });
+      sheet.data.set(keyOf(1, 0), { value: 3 });
+      sheet.data.set(keyOf(0, 1), { value: '=SUM(Totals)', formula: '=SUM(Totals)' });
+      engine.initializeWorkbook([sheet], 'Sheet1', [{ name: 'Totals', reference: 'Sheet1!$A$1:$A$2' }]);
+      expect(engine.getCellValue(0, 1)).toBe(5);
+
+      engine.setNamedRanges([{ name: 'Totals', reference: 'Sheet1!$A$1' }]);
+      expect(engine.getCellValue(0, 1)).toBe(2);
+
+      engine.setNamedRanges([]);
+      expect(engine.getCellValue(0, 1)).toBe('#NAME?');
+    });
+  });
+
+  describe('filter source ranges', () => {
+    it('should test membership in the source range for equals and notEquals', () => {
+      const rule = { column: 0, type: 'text' as const, condition: 'equals' as const, sourceRange: 'Suspicious_IPs' };
+      expect(evaluateFilterRule('10.0.0.5', rule, ['10.0.0.5', '10.0.0.9'])).toBe(true);
+      expect(evaluateFilterRule('10.0.0.7', rule, ['10.0.0.5', '10.0.0.9'])).toBe(false);
+      expect(evaluateFilterRule('10.0.0.7', { ...rule, condition: 'notEquals' }, ['10.0.0.5'])).toBe(true);
+
+      const data = new Map([
+        [keyOf(0, 0), { value: '10.0.0.5' }],
+        [keyOf(1, 0), { value: '10.0.0.7' }],
+      ]);
+      const hidden = applyFilters(data, [rule], 2, 1, reference => reference === 'Suspicious_IPs' ? ['10.0.0.5'] : []);
+      expect(Array.from(hidden)).toEqual([1]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { render, act } from '@testing-library/react';
+import { SpreadsheetProviderPersisted, useSpreadsheetPersisted } from '../SpreadsheetContextPersisted';
+import { PersistenceManager } from '../persistence/PersistenceManager';
+
+jest.mock('../persistence/PersistenceManager', () => ({
+  PersistenceManager: jest.fn().mockImplementation(() => ({
+    load: jest.fn().mockResolvedValue(null),
+    save: jest.fn().mockResolvedValue({ success: true, timestamp: 0 }),
+    destroy: jest.fn(),
+  })),
+}));
+
+describe('Persisted spreadsheet auto-save', () => {
+  let context: ReturnType<typeof useSpreadsheetPersisted>;
+  const Capture = () => {
+    context = useSpreadsheetPersisted();
+    return null;
+  };
+
+  const renderProvider = async () => {
+    render(
+      <SpreadsheetProviderPersisted spreadsheetId="autosave" autoSaveInterval={1000}>
+        <Capture />
+      </SpreadsheetProviderPersisted>
+    );
+    // Let the initial load finish and the first save go out
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+    const manager = (PersistenceManager as jest.Mock).mock.results[0].value;
+    manager.save.mockClear();
+    return manager;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (PersistenceManager as jest.Mock).mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('saves changes outside the cells', async () => {
+    const manager = await renderProvider();
+
+    act(() => {
+      context.dispatch({ type: 'ADD_NAMED_RANGE', payload: { name: 'Hosts', reference: 'Sheet1!$A$1:$A$10' } });
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(manager.save).toHaveBeenCalledTimes(1);
+    expect(manager.save.mock.calls[0][0].namedRanges).toEqual([{ name: 'Hosts', reference: 'Sheet1!$A$1:$A$10' }]);
+
+    act(() => {
+      context.dispatch({ type: 'MERGE_CELLS', payload: { range: { startRow: 0, startCol: 0, endRow: 1, endCol: 1 } } });
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(manager.save).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not save when only the selection moves', async () => {
+    const manager = await renderProvider();
+
+    act(() => {
+      context.dispatch({ type: 'SET_SELECTION', payload: { ranges: [], active: { row: 3, col: 3 } } });
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(1000);
+    });
+    expect(manager.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { PivotTable, keyOf, parseKey } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { getSheets } from '../utils/sheetUtils';
+import { FixtureValue, createSheetData, createSheetState } from '../__fixtures__/sheetData';
+import {
+  aggregateValues,
+  buildPivotTable,
+  findPivotTableAt,
+  getPivotGroupLabel,
+  shiftPivotTables,
+} from '../utils/pivotUtils';
+
+const alerts: FixtureValue[][] = [
+  ['timestamp', 'host', 'attackTechniques', 'score'],
+  ['2024-01-01T08:15:00Z', 'web-01', 'T1059', 5],
+  ['2024-01-01T09:40:00Z', 'web-01', 'T1059', 7],
+  ['2024-01-01T23:59:00Z', 'db-01', 'T1003', 9],
+  ['2024-01-02T00:05:00Z', 'web-01', 'T1003', 3],
+  ['2024-01-02T10:00:00Z', 'web-01', '', ''],
+];
+
+const source = { startRow: 0, startCol: 0, endRow: 5, endCol: 3 };
+
+const createData = () => createSheetData(alerts);
+
+const byTechnique: PivotTable = {
+  id: 'pivot_1',
+  name: 'PivotTable1',
+  sourceSheetId: 'sheet_default',
+  source,
+  rows: [{ column: 1 }, { column: 0, dateGrouping: 'day' }],
+  columns: [{ column: 2 }],
+  values: [{ column: 2, aggregation: 'count' }],
+  filters: [],
+  target: { row: 0, col: 6 },
+};
+
+const values = (cells: ReturnType<typeof buildPivotTable>) => cells.map(row => row.map(cell => cell?.value ?? ''));
+
+describe('Pivot Utils', () => {
+  it('groups timestamps by hour, day and week in UTC', () => {
+    expect(getPivotGroupLabel('2024-01-03T13:45:00Z', 'hour')).toBe('2024-01-03 13:00');
+    expect(getPivotGroupLabel('2024-01-03T13:45:00Z', 'day')).toBe('2024-01-03');
+    // Weeks start on Monday
+    expect(getPivotGroupLabel('2024-01-07T13:45:00Z', 'week')).toBe('Week of 2024-01-01');
+    expect(getPivotGroupLabel('n/a', 'day')).toBe('n/a');
+    expect(getPivotGroupLabel('', 'day')).toBe('(blank)');
+  });
+
+  it('aggregates values', () => {
+    const scores = [5, '7', '', 'n/a', 5];
+    expect(aggregateValues(scores, 'count')).toBe(4);
+    expect(aggregateValues(scores, 'countDistinct')).toBe(3);
+    expect(aggregateValues(scores, 'sum')).toBe(17);
+    expect(aggregateValues(scores, 'average')).toBeCloseTo(17 / 3);
+    expect(aggregateValues(scores, 'min')).toBe(5);
+    expect(aggregateValues(scores, 'max')).toBe(7);
+    expect(aggregateValues(['n/a'], 'max')).toBe('');
+    expect(aggregateValues([], 'sum')).toBe(0);
+  });
+
+  it('counts alerts by technique per host per day', () => {
+    expect(values(buildPivotTable(byTechnique, createData()))).toEqual([
+      ['host', 'timestamp', 'T1003', 'T1059', '(blank)', 'Grand Total'],
+      ['db-01', '2024-01-01', 1, '', '', 1],
+      ['web-01', '2024-01-01', '', 2, '', 2],
+      // The alert without a technique isn't counted
+      ['web-01', '2024-01-02', 1, '', 0, 1],
+      ['Grand Total', '', 2, 2, 0, 4],
+    ]);
+  });
+
+  it('applies filters and summarizes several value fields', () => {
+    const pivot: PivotTable = {
+      ...byTechnique,
+      rows: [{ column: 1 }],
+      columns: [],
+      values: [{ column: 3, aggregation: 'sum' }, { column: 3, aggregation: 'max' }],
+      filters: [{ column: 2, values: ['T1059'] }],
+    };
+    expect(values(buildPivotTable(pivot, createData()))).toEqual([
+      ['attackTechniques', 'T1059', ''],
+      ['', '', ''],
+      ['host', 'Sum of score', 'Max of score'],
+      ['web-01', 12, 7],
+      ['Grand Total', 12, 7],
+    ]);
+  });
+
+  it('finds and shifts pivot tables', () => {
+    const pivot = { ...byTechnique, output: { startRow: 0, startCol: 6, endRow: 4, endCol: 11 } };
+    expect(findPivotTableAt([pivot], 4, 11)).toBe(pivot);
+    expect(findPivotTableAt([pivot], 5, 11)).toBeUndefined();
+
+    const [shifted] = shiftPivotTables([pivot], 'sheet_default', 'col', 4, 1)!;
+    expect(shifted.source).toEqual({ ...source, endCol: 3 });
+    expect(shifted.output).toEqual({ startRow: 0, startCol: 7, endRow: 4, endCol: 12 });
+    expect(shifted.target).toEqual({ row: 0, col: 7 });
+
+    // Deleting the whole output drops the pivot table
+    expect(shiftPivotTables([pivot], 'sheet_default', 'col', 6, -6)).toBeUndefined();
+  });
+});
+
+describe('Pivot tables', () => {
+  const createState = () => createSheetState(alerts, 20, 15);
+
+  const add: SpreadsheetAction = { type: 'ADD_PIVOT_TABLE', payload: { pivot: byTechnique } };
+
+  it('writes its output beside the data, as one undo step', () => {
+    const before = createState();
+    const after = spreadsheetReducer(before, add);
+
+    expect(after.data.get(keyOf(1, 6))?.value).toBe('db-01');
+    expect(after.data.get(keyOf(4, 11))?.value).toBe(4);
+    expect(after.pivotTables?.[0].output).toEqual({ startRow: 0, startCol: 6, endRow: 4, endCol: 11 });
+
+    const command = createCommand(before, after, [add])!;
+    expect(command.description).toBe('Insert pivot table');
+    const undone = spreadsheetReducer(after, command.undo);
+    expect(undone.data.has(keyOf(1, 6))).toBe(false);
+    expect(undone.pivotTables).toBeUndefined();
+  });
+
+  it('rewrites its output when refreshed', () => {
+    const added = spreadsheetReducer(createState(), add);
+    // A new host gets a row, and the old output is cleared first
+    const edited = spreadsheetReducer(added, {
+      type: 'SET_CELLS',
+      payload: { updates: [5, 1, 0].map(col => ({ row: 5, col, data: { value: col === 0 ? '2024-01-02T10:00:00Z' : 'mail-01' } })) },
+    });
+    const refreshed = spreadsheetReducer(edited, { type: 'REFRESH_PIVOT_TABLE', payload: { id: 'pivot_1' } });
+
+    expect(refreshed.data.get(keyOf(2, 6))?.value).toBe('mail-01');
+    expect(refreshed.data.get(keyOf(5, 6))?.value).toBe('Grand Total');
+    expect(refreshed.pivotTables?.[0].output).toEqual({ startRow: 0, startCol: 6, endRow: 5, endCol: 11 });
+
+    const deleted = spreadsheetReducer(refreshed, { type: 'DELETE_PIVOT_TABLE', payload: { id: 'pivot_1' } });
+    expect(Array.from(deleted.data.keys()).some(key => parseKey(key)[1] >= 6)).toBe(false);
+    expect(deleted.pivotTables).toBeUndefined();
+  });
+
+  it('summarizes formulas by their results on the source sheet', () => {
+    const state = createState();
+    // Scores worked out by formulas, whose cells hold the formula text
+    [1, 2, 3, 4].forEach(row => state.data.set(keyOf(row, 3), { value: `=SCORE(B${row + 1})`, formula: `=SCORE(B${row + 1})` }));
+    const sheetIds = new Set<string | undefined>();
+    const getComputedValue = (row: number, col: number, sheetId?: string) => {
+      sheetIds.add(sheetId);
+      return col === 3 && row >= 1 && row <= 4 ? 10 : state.data.get(keyOf(row, col))?.value;
+    };
+    const byHost: PivotTable = { ...byTechnique, rows: [{ column: 1 }], columns: [], values: [{ column: 3, aggregation: 'sum' }] };
+
+    const added = spreadsheetReducer(state, { type: 'ADD_PIVOT_TABLE', payload: { pivot: byHost, getComputedValue } });
+    expect([1, 2, 3].map(row => added.data.get(keyOf(row, 7))?.value)).toEqual([10, 30, 40]);
+    expect(Array.from(sheetIds)).toEqual(['sheet_default']);
+  });
+
+  it('refuses outputs that overlap the source or leave the sheet', () => {
+    const state = createState();
+    const onSource = { ...byTechnique, target: { row: 2, col: 2 } };
+    expect(spreadsheetReducer(state, { type: 'ADD_PIVOT_TABLE', payload: { pivot: onSource } })).toBe(state);
+
+    const offSheet = { ...byTechnique, target: { row: 0, col: 12 } };
+    expect(spreadsheetReducer(state, { type: 'ADD_PIVOT_TABLE', payload: { pivot: offSheet } })).toBe(state);
+  });
+
+  it('summarizes data on another sheet from a new sheet', () => {
+    const state = spreadsheetReducer(createState(), {
+      type: 'BATCH',
+      payload: [
+        { type: 'ADD_SHEET', payload: { name: 'Pivot', activate: true } },
+        { type: 'ADD_PIVOT_TABLE', payload: { pivot: { ...byTechnique, target: { row: 0, col: 0 } } } },
+      ],
+    });
+
+    expect(getSheets(state).map(sheet => sheet.name)).toEqual(['Sheet1', 'Pivot']);
+    expect(state.data.get(keyOf(0, 0))?.value).toBe('host');
+    expect(getSheets(state)[0].pivotTables).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { SpreadsheetState } from '../types/spreadsheet';
+import {
+  REFERENCE_COLORS,
+  canInsertReference,
+  cycleReferenceMode,
+  formatPointedReference,
+  getReferenceHighlights,
+} from '../utils/referenceEntryUtils';
+
+describe('Reference Entry Utils', () => {
+  it('tells where a reference can be entered', () => {
+    expect(canInsertReference('=', 1)).toBe(true);
+    expect(canInsertReference('=SUM(', 5)).toBe(true);
+    expect(canInsertReference('=SUM(A1, ', 9)).toBe(true);
+    expect(canInsertReference('=A1*', 4)).toBe(true);
+    expect(canInsertReference('=SUM()', 5)).toBe(true);
+
+    expect(canInsertReference('=A1', 3)).toBe(false);
+    expect(canInsertReference('=SUM(A1)', 8)).toBe(false);
+    expect(canInsertReference('=SU', 3)).toBe(false);
+    expect(canInsertReference('="a,', 4)).toBe(false);
+    expect(canInsertReference('={1,', 4)).toBe(false);
+    // Against text after the caret
+    expect(canInsertReference('=(A1)', 2)).toBe(false);
+    expect(canInsertReference('A1+', 3)).toBe(false);
+  });
+
+  it('formats the cells pointed at', () => {
+    expect(formatPointedReference({ startRow: 1, startCol: 1, endRow: 1, endCol: 1 })).toBe('B2');
+    expect(formatPointedReference({ startRow: 9, startCol: 3, endRow: 1, endCol: 1 })).toBe('B2:D10');
+  });
+
+  it('cycles absolute and relative references with F4', () => {
+    const cycle = (formula: string) => cycleReferenceMode(formula, formula.indexOf('A1') + 1)!.formula;
+
+    expect(cycle('=SUM(A1)')).toBe('=SUM($A$1)');
+    expect(cycleReferenceMode('=SUM($A$1)', 5)).toEqual({ formula: '=SUM(A$1)', caret: 8 });
+    expect(cycleReferenceMode('=SUM(A$1)', 8)).toEqual({ formula: '=SUM($A1)', caret: 8 });
+    expect(cycleReferenceMode('=SUM($A1)', 8)).toEqual({ formula: '=SUM(A1)', caret: 7 });
+
+    // Ranges and other sheets keep their shape
+    expect(cycle('=A1:B$2+1')).toBe('=$A$1:$B$2+1');
+    expect(cycle("='Raw Logs'!A1")).toBe("='Raw Logs'!$A$1");
+    expect(cycleReferenceMode('=SUM(1, 2)', 6)).toBeNull();
+  });
+
+  it('colors the references on the sheet', () => {
+    const highlights = getReferenceHighlights('=A1+SUM(B2:C3)*$a$1+Other!D4+Sheet1!E:E', 'Sheet1', 100, 10);
+    const [blue, red] = REFERENCE_COLORS;
+
+    expect(highlights).toEqual([
+      { rect: { startRow: 0, startCol: 0, endRow: 0, endCol: 0 }, color: blue },
+      { rect: { startRow: 1, startCol: 1, endRow: 2, endCol: 2 }, color: red },
+      // The same cell as the first
+      { rect: { startRow: 0, startCol: 0, endRow: 0, endCol: 0 }, color: blue },
+      { rect: { startRow: 0, startCol: 4, endRow: 99, endCol: 4 }, color: REFERENCE_COLORS[3] },
+    ]);
+    expect(getReferenceHighlights('A1+B2', 'Sheet1', 100, 10)).toEqual([]);
+  });
+
+  it('only takes pointers while a formula is typed', () => {
+    const state: SpreadsheetState = {
+      data: new Map(),
+      maxRows: 20,
+      maxCols: 10,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    };
+    const pointer = { startRow: 1, startCol: 1, endRow: 4, endCol: 2 };
+
+    expect(spreadsheetReducer(state, { type: 'POINT_FORMULA_REFERENCE', payload: pointer })).toBe(state);
+
+    const editing = spreadsheetReducer(state, {
+      type: 'SET_FORMULA_EDIT',
+      payload: { formula: '=SUM(', acceptsReference: true },
+    });
+    expect(spreadsheetReducer(editing, { type: 'POINT_FORMULA_REFERENCE', payload: pointer }).formulaEdit)
+      .toEqual({ formula: '=SUM(', acceptsReference: true, pointer });
+    expect(spreadsheetReducer(editing, { type: 'SET_FORMULA_EDIT', payload: null }).formulaEdit).toBeUndefined();
+  });
+});
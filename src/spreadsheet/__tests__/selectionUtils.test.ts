@@ -1,7 +1,8 @@
 import { 
   normalizeRect, 
   isCellInSelection, 
-  singleCellSelection 
+  singleCellSelection,
+  intersectRects,
 } from '../utils/selectionUtils';
 import { Selection, SelectionRect } from '../types/spreadsheet';
 
@@ -118,4 +119,25 @@ describe('Selection Utils', () => {
       expect(selection.active).toEqual({ row: 0, col: 0 });
     });
   });
-});
\ No newline at end of file
+
+  describe('intersectRects', () => {
+    it('should clip a rectangle to bounds', () => {
+      const rect: SelectionRect = { startRow: 6, startCol: 4, endRow: 1, endCol: 0 };
+      const bounds: SelectionRect = { startRow: 0, startCol: 2, endRow: 2, endCol: 99 };
+
+      expect(intersectRects(rect, bounds)).toEqual({
+        startRow: 1,
+        startCol: 2,
+        endRow: 2,
+        endCol: 4,
+      });
+    });
+
+    it('should return null when there is no overlap', () => {
+      const rect: SelectionRect = { startRow: 3, startCol: 0, endRow: 5, endCol: 1 };
+      const bounds: SelectionRect = { startRow: 0, startCol: 0, endRow: 2, endCol: 1 };
+
+      expect(intersectRects(rect, bounds)).toBeNull();
+    });
+  });
+});
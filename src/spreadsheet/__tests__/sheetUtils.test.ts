@@ -0,0 +1,355 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { SelectionRect, SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { getSheets, getActiveSheetId, applySheets, createSheet, getUniqueSheetName } from '../utils/sheetUtils';
+import { renameSheetReferences, deleteSheetReferences, quoteSheetName } from '../utils/formulaUtils';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import { exportToExcelBytes, importFromExcel } from '../utils/excelUtils';
+
+describe('Sheet Utils', () => {
+  const createState = (): SpreadsheetState => {
+    const sheet = createSheet('Sheet1', { id: 'first', maxRows: 10, maxCols: 10 });
+    sheet.data.set(keyOf(0, 0), { value: 1 });
+    return applySheets({
+      data: sheet.data,
+      maxRows: 10,
+      maxCols: 10,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+      activeSheetId: sheet.id,
+    }, [sheet], sheet.id);
+  };
+
+  describe('getSheets', () => {
+    it('should treat a state without sheets as a single-sheet workbook', () => {
+      const state: SpreadsheetState = {
+        data: new Map([[keyOf(0, 0), { value: 'x' }]]),
+        maxRows: 10,
+        maxCols: 10,
+        selection: { ranges: [], active: null },
+        editing: null,
+        formulaInput: '',
+      };
+      const sheets = getSheets(state);
+      expect(sheets).toHaveLength(1);
+      expect(sheets[0].name).toBe('Sheet1');
+      expect(sheets[0].data).toBe(state.data);
+    });
+
+    it('should refresh the active sheet from live state', () => {
+      const state = spreadsheetReducer(createState(), {
+        type: 'SET_CELL', payload: { row: 1, col: 1, data: { value: 'live' } },
+      });
+      expect(getSheets(state)[0].data.get(keyOf(1, 1))?.value).toBe('live');
+    });
+  });
+
+  describe('getUniqueSheetName', () => {
+    it('should generate unused names', () => {
+      const sheets = [createSheet('Sheet1'), createSheet('Sheet2'), createSheet('Alerts')];
+      expect(getUniqueSheetName(sheets)).toBe('Sheet3');
+      expect(getUniqueSheetName(sheets, 'Alerts')).toBe('Alerts (2)');
+      expect(getUniqueSheetName(sheets, 'Hosts')).toBe('Hosts');
+    });
+  });
+
+  describe('sheet actions', () => {
+    it('should add and switch sheets while keeping each sheet\'s data', () => {
+      let state = spreadsheetReducer(createState(), { type: 'ADD_SHEET', payload: { name: 'IOC List' } });
+      expect(getSheets(state).map(s => s.name)).toEqual(['Sheet1', 'IOC List']);
+      expect(state.data.size).toBe(0);
+
+      state = spreadsheetReducer(state, { type: 'SET_CELL', payload: { row: 0, col: 0, data: { value: 'ioc' } } });
+      state = spreadsheetReducer(state, { type: 'SET_ACTIVE_SHEET', payload: { sheetId: 'first' } });
+      expect(state.data.get(keyOf(0, 0))?.value).toBe(1);
+      expect(getSheets(state)[1].data.get(keyOf(0, 0))?.value).toBe('ioc');
+    });
+
+    it('should reject duplicate and invalid names', () => {
+      const state = createState();
+      expect(spreadsheetReducer(state, { type: 'ADD_SHEET', payload: { name: 'sheet1' } })).toBe(state);
+      expect(spreadsheetReducer(state, { type: 'ADD_SHEET', payload: { name: 'a/b' } })).toBe(state);
+    });
+
+    it('should rename a sheet and rewrite formulas that reference it', () => {
+      let state = spreadsheetReducer(createState(), { type: 'ADD_SHEET', payload: { name: 'Data' } });
+      const dataId = getActiveSheetId(state);
+      state = spreadsheetReducer(state, { type: 'SET_ACTIVE_SHEET', payload: { sheetId: 'first' } });
+      state = spreadsheetReducer(state, {
+        type: 'SET_CELL', payload: { row: 0, col: 1, data: { formula: '=SUM(Data!A1:A3)', value: '' } },
+      });
+      state = spreadsheetReducer(state, { type: 'RENAME_SHEET', payload: { sheetId: dataId, name: 'IOC List' } });
+
+      expect(state.data.get(keyOf(0, 1))?.formula).toBe("=SUM('IOC List'!A1:A3)");
+      expect(getSheets(state)[1].name).toBe('IOC List');
+    });
+
+    describe('renaming a sheet referenced outside cell formulas', () => {
+      const renameData = (setup: (state: SpreadsheetState) => SpreadsheetState) => {
+        let state = spreadsheetReducer(createState(), { type: 'ADD_SHEET', payload: { name: 'Data' } });
+        const dataId = getActiveSheetId(state);
+        state = setup(spreadsheetReducer(state, { type: 'SET_ACTIVE_SHEET', payload: { sheetId: 'first' } }));
+        return spreadsheetReducer(state, { type: 'RENAME_SHEET', payload: { sheetId: dataId, name: 'IOC List' } });
+      };
+
+      it('should rewrite sparkline data', () => {
+        const state = renameData(state => spreadsheetReducer(state, {
+          type: 'SET_CELL', payload: { row: 0, col: 1, data: { value: '', sparkline: { data: 'Data!A1:A5' } } },
+        }));
+        expect(state.data.get(keyOf(0, 1))?.sparkline?.data).toBe("'IOC List'!A1:A5");
+      });
+
+      it('should rewrite formula conditional formatting rules', () => {
+        const state = renameData(state => spreadsheetReducer(state, {
+          type: 'ADD_CONDITIONAL_FORMAT',
+          payload: {
+            rule: {
+              id: 'known-ioc',
+              type: 'formula',
+              value1: '=COUNTIF(Data!$A$1:$A$50,A1)>0',
+              format: { backgroundColor: '#fee2e2' },
+              ranges: [{ startRow: 0, startCol: 0, endRow: 9, endCol: 0 }],
+            },
+          },
+        }));
+        expect(state.conditionalFormats![0].value1).toBe("=COUNTIF('IOC List'!$A$1:$A$50,A1)>0");
+      });
+
+      it('should rewrite validation list sources', () => {
+        const state = renameData(state => spreadsheetReducer(state, {
+          type: 'SET_VALIDATION',
+          payload: { row: 0, col: 2, validation: { type: 'list', sourceRange: 'Data!A1:A5' } },
+        }));
+        expect(state.validation!.get(keyOf(0, 2))?.sourceRange).toBe("'IOC List'!A1:A5");
+      });
+
+      it('should leave chart ranges, which point at their own sheet, alone', () => {
+        const chart = {
+          id: 'by-host', type: 'bar' as const, hasHeader: true,
+          range: { startRow: 0, startCol: 0, endRow: 4, endCol: 1 },
+          anchor: { row: 0, col: 3 }, width: 400, height: 300,
+        };
+        const state = renameData(state => spreadsheetReducer(state, { type: 'ADD_CHART', payload: { chart } }));
+        expect(state.charts).toEqual([chart]);
+      });
+    });
+
+    it('should shift references held on other sheets when rows are inserted', () => {
+      let state = spreadsheetReducer(createState(), { type: 'ADD_SHEET', payload: { name: 'Summary' } });
+      state = spreadsheetReducer(state, {
+        type: 'SET_CELL', payload: { row: 0, col: 0, data: { formula: '=Sheet1!A1+A1', value: '' } },
+      });
+      state = spreadsheetReducer(state, { type: 'SET_ACTIVE_SHEET', payload: { sheetId: 'first' } });
+      state = spreadsheetReducer(state, { type: 'INSERT_ROW', payload: { index: 0 } });
+
+      expect(state.data.get(keyOf(1, 0))?.value).toBe(1);
+      expect(getSheets(state)[1].data.get(keyOf(0, 0))?.formula).toBe('=Sheet1!A2+A1');
+    });
+
+    it('should move cells and the references that point at them', () => {
+      let state = spreadsheetReducer(createState(), {
+        type: 'SET_CELL', payload: { row: 0, col: 2, data: { formula: '=A1*2', value: '' } },
+      });
+      state = spreadsheetReducer(state, {
+        type: 'MOVE_RANGE', payload: { source: { startRow: 0, startCol: 0, endRow: 0, endCol: 0 }, target: { row: 4, col: 1 } },
+      });
+
+      expect(state.data.has(keyOf(0, 0))).toBe(false);
+      expect(state.data.get(keyOf(4, 1))?.value).toBe(1);
+      expect(state.data.get(keyOf(0, 2))?.formula).toBe('=B5*2');
+    });
+
+    describe('moving cells with what is attached to them', () => {
+      const source = { startRow: 0, startCol: 0, endRow: 3, endCol: 1 };
+      const moveToF5 = (state: SpreadsheetState) =>
+        spreadsheetReducer(state, { type: 'MOVE_RANGE', payload: { source, target: { row: 4, col: 5 } } });
+
+      it('should move validation and replace it where the cells land', () => {
+        let state = spreadsheetReducer(createState(), {
+          type: 'SET_VALIDATION', payload: { row: 1, col: 0, validation: { type: 'list', list: ['open', 'closed'] } },
+        });
+        state = spreadsheetReducer(state, {
+          type: 'SET_VALIDATION', payload: { row: 5, col: 6, validation: { type: 'number', min: 0 } },
+        });
+        state = moveToF5(state);
+
+        expect(Array.from(state.validation!.keys())).toEqual([keyOf(5, 5)]);
+        expect(state.validation!.get(keyOf(5, 5))?.list).toEqual(['open', 'closed']);
+      });
+
+      it('should move conditional formatting ranges inside the moved cells', () => {
+        const rule = (id: string, ranges: SelectionRect[]) => ({
+          id, type: 'formula' as const, value1: '=$B1>5', format: { bold: true }, ranges,
+        });
+        let state = spreadsheetReducer(createState(), {
+          type: 'ADD_CONDITIONAL_FORMAT', payload: { rule: rule('inside', [{ startRow: 0, startCol: 0, endRow: 3, endCol: 0 }]) },
+        });
+        state = spreadsheetReducer(state, {
+          type: 'ADD_CONDITIONAL_FORMAT', payload: { rule: rule('across', [{ startRow: 0, startCol: 0, endRow: 9, endCol: 0 }]) },
+        });
+        state = moveToF5(state);
+
+        // Newer rules come first
+        expect(state.conditionalFormats!.map(r => [r.id, r.ranges[0], r.value1])).toEqual([
+          ['across', { startRow: 0, startCol: 0, endRow: 9, endCol: 0 }, '=$G5>5'],
+          ['inside', { startRow: 4, startCol: 5, endRow: 7, endCol: 5 }, '=$G5>5'],
+        ]);
+      });
+
+      it('should move tables inside the moved cells with their filters', () => {
+        const table = {
+          id: 'alerts', name: 'Alerts', range: source, bandedRows: true, showTotalRow: false,
+          filters: [{ column: 1, type: 'number' as const, condition: 'greaterThan' as const, value: 2 }],
+          hiddenRows: [2],
+        };
+        const state = moveToF5({ ...createState(), tables: [table] });
+
+        expect(state.tables).toEqual([{
+          ...table,
+          range: { startRow: 4, startCol: 5, endRow: 7, endCol: 6 },
+          filters: [{ ...table.filters[0], column: 6 }],
+          hiddenRows: [6],
+        }]);
+      });
+
+      it('should move charts anchored on, or plotting, the moved cells', () => {
+        const chart = (id: string, anchor: { row: number; col: number }, range: SelectionRect) => ({
+          id, type: 'bar' as const, hasHeader: true, range, anchor, width: 400, height: 300,
+        });
+        const state = moveToF5({
+          ...createState(),
+          charts: [
+            chart('on', { row: 2, col: 1 }, { startRow: 0, startCol: 0, endRow: 3, endCol: 1 }),
+            chart('beside', { row: 0, col: 3 }, { startRow: 0, startCol: 0, endRow: 9, endCol: 1 }),
+          ],
+        });
+
+        expect(state.charts!.map(c => [c.anchor, c.range])).toEqual([
+          [{ row: 6, col: 6 }, { startRow: 4, startCol: 5, endRow: 7, endCol: 6 }],
+          [{ row: 0, col: 3 }, { startRow: 0, startCol: 0, endRow: 9, endCol: 1 }],
+        ]);
+      });
+    });
+
+    it('should reorder, duplicate and delete sheets', () => {
+      let state = spreadsheetReducer(createState(), { type: 'ADD_SHEET', payload: { name: 'B' } });
+      state = spreadsheetReducer(state, { type: 'MOVE_SHEET', payload: { sheetId: getActiveSheetId(state), toIndex: 0 } });
+      expect(getSheets(state).map(s => s.name)).toEqual(['B', 'Sheet1']);
+
+      state = spreadsheetReducer(state, { type: 'DUPLICATE_SHEET', payload: { sheetId: 'first' } });
+      expect(getSheets(state).map(s => s.name)).toEqual(['B', 'Sheet1', 'Sheet1 (2)']);
+      expect(state.data.get(keyOf(0, 0))?.value).toBe(1);
+      expect(state.data).not.toBe(getSheets(state)[1].data);
+
+      state = spreadsheetReducer(state, { type: 'DELETE_SHEET', payload: { sheetId: getActiveSheetId(state) } });
+      expect(getSheets(state).map(s => s.name)).toEqual(['B', 'Sheet1']);
+      expect(getActiveSheetId(state)).toBe('first');
+    });
+
+    it('should turn references to a deleted sheet into #REF!', () => {
+      let state = spreadsheetReducer(createState(), { type: 'ADD_SHEET', payload: { name: 'Data' } });
+      const dataId = getActiveSheetId(state);
+      state = spreadsheetReducer(state, {
+        type: 'ADD_NAMED_RANGE', payload: { name: 'Hosts', reference: 'Data!A1:A3' },
+      });
+      state = spreadsheetReducer(state, {
+        type: 'ADD_NAMED_RANGE', payload: { name: 'Firsts', reference: 'Sheet1!A1:A3' },
+      });
+      state = spreadsheetReducer(state, { type: 'SET_ACTIVE_SHEET', payload: { sheetId: 'first' } });
+      state = spreadsheetReducer(state, {
+        type: 'SET_CELL', payload: { row: 0, col: 1, data: { formula: '=SUM(Data!A1:A3)+A1', value: '' } },
+      });
+      state = spreadsheetReducer(state, { type: 'DELETE_SHEET', payload: { sheetId: dataId } });
+
+      expect(state.data.get(keyOf(0, 1))?.formula).toBe('=SUM(#REF!)+A1');
+      expect(state.namedRanges).toEqual([
+        { name: 'Hosts', reference: '#REF!' },
+        { name: 'Firsts', reference: 'Sheet1!$A$1:$A$3' },
+      ]);
+    });
+
+    it('should never delete the last sheet', () => {
+      const state = createState();
+      expect(spreadsheetReducer(state, { type: 'DELETE_SHEET', payload: { sheetId: 'first' } })).toBe(state);
+    });
+  });
+
+  describe('sheet references in formulas', () => {
+    it('should quote names that need it', () => {
+      expect(quoteSheetName('Sheet2')).toBe('Sheet2');
+      expect(quoteSheetName('IOC List')).toBe("'IOC List'");
+      expect(quoteSheetName("Bob's")).toBe("'Bob''s'");
+    });
+
+    it('should only rename matching sheet prefixes', () => {
+      expect(renameSheetReferences("=Sheet2!A1+'Sheet 2'!B1", 'Sheet2', 'Hosts'))
+        .toBe("=Hosts!A1+'Sheet 2'!B1");
+      expect(renameSheetReferences('=SUM(Sheet2!#REF!)', 'Sheet2', 'Host List'))
+        .toBe("=SUM('Host List'!#REF!)");
+    });
+
+    it('should only invalidate references to the deleted sheet', () => {
+      expect(deleteSheetReferences("=Sheet2!A1+'Sheet 2'!B1+sheet2!TaxRate+C3", 'Sheet2'))
+        .toBe("=#REF!+'Sheet 2'!B1+#REF!+C3");
+      expect(deleteSheetReferences('="Sheet2!A1"', 'Sheet2')).toBe('="Sheet2!A1"');
+    });
+  });
+
+  describe('FormulaEngine workbooks', () => {
+    it('should resolve cross-sheet references', () => {
+      const engine = new FormulaEngine();
+      const sheet1 = createSheet('Sheet1', { maxRows: 10, maxCols: 10 });
+      const sheet2 = createSheet('Sheet2', { maxRows: 10, maxCols: 10 });
+      const iocList = createSheet('IOC List', { maxRows: 10, maxCols: 10 });
+      sheet1.data.set(keyOf(0, 0), { value: '', formula: '=Sheet2!A1' });
+      sheet1.data.set(keyOf(0, 1), { value: '', formula: "=SUM('IOC List'!B:B)" });
+      sheet2.data.set(keyOf(0, 0), { value: 42 });
+      iocList.data.set(keyOf(0, 1), { value: 3 });
+      iocList.data.set(keyOf(4, 1), { value: 4 });
+
+      engine.initializeWorkbook([sheet1, sheet2, iocList]);
+      expect(engine.getCellValue(0, 0)).toBe(42);
+      expect(engine.getCellValue(0, 1)).toBe(7);
+
+      engine.setActiveSheet('Sheet2');
+      engine.setCell(0, 0, 8);
+      engine.setActiveSheet('Sheet1');
+      expect(engine.getCellValue(0, 0)).toBe(8);
+      engine.destroy();
+    });
+
+    it('should show #REF! for references to deleted cells of another sheet', () => {
+      const engine = new FormulaEngine();
+      const sheet1 = createSheet('Sheet1', { maxRows: 10, maxCols: 10 });
+      sheet1.data.set(keyOf(0, 0), { value: '', formula: "=SUM('IOC List'!#REF!)" });
+      engine.initializeWorkbook([sheet1, createSheet('IOC List', { maxRows: 10, maxCols: 10 })]);
+
+      expect(engine.getCellValue(0, 0)).toBe('#REF!');
+      engine.setCell(0, 1, '=Sheet1!#REF!+1');
+      expect(engine.getCellValue(0, 1)).toBe('#REF!');
+      engine.destroy();
+    });
+  });
+
+  describe('Excel files', () => {
+    it('should keep sheet order, names and cross-sheet formulas through export and import', async () => {
+      // jsdom doesn't provide these
+      Object.assign(global, { TextDecoder, TextEncoder });
+      const summary = createSheet('Summary', { maxRows: 10, maxCols: 10 });
+      const iocList = createSheet('IOC List', { maxRows: 10, maxCols: 10 });
+      const hosts = createSheet('Hosts', { maxRows: 10, maxCols: 10 });
+      summary.data.set(keyOf(0, 0), { value: 7, formula: "=SUM('IOC List'!B1:B2)+Hosts!A1" });
+      iocList.data.set(keyOf(0, 1), { value: 3 });
+      iocList.data.set(keyOf(1, 1), { value: 4 });
+      hosts.data.set(keyOf(0, 0), { value: 0 });
+
+      const bytes = exportToExcelBytes([summary, iocList, hosts], { includeFormulas: true });
+      const { sheets } = await importFromExcel(new File([bytes as BlobPart], 'workbook.xlsx'));
+
+      expect(sheets.map(sheet => sheet.name)).toEqual(['Summary', 'IOC List', 'Hosts']);
+      expect(sheets[0].data.get(keyOf(0, 0))?.formula).toBe("=SUM('IOC List'!B1:B2)+Hosts!A1");
+      expect(sheets[1].data.get(keyOf(1, 1))?.value).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { SortKey, SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { createFilterRule } from '../utils/filterUtils';
+import {
+  SEVERITY_SORT_ORDER,
+  detectHeaderRow,
+  getSortRange,
+  parseIPAddress,
+  sortRows,
+} from '../utils/sortUtils';
+
+describe('Sort Utils', () => {
+  const sortValues = (values: any[], key: Omit<SortKey, 'column'>) =>
+    sortRows(values.map((_, i) => i), [{ column: 0, ...key }], row => values[row]).map(row => values[row]);
+
+  it('puts numbers before text and blanks last in either direction', () => {
+    expect(sortValues(['b', 10, '', 'A', 9], { ascending: true })).toEqual([9, 10, 'A', 'b', '']);
+    expect(sortValues(['b', 10, '', 'A', 9], { ascending: false })).toEqual(['b', 'A', 10, 9, '']);
+  });
+
+  it('sorts hostnames naturally', () => {
+    expect(sortValues(['web-10', 'web-2', 'Web-1'], { ascending: true, order: 'natural' }))
+      .toEqual(['Web-1', 'web-2', 'web-10']);
+  });
+
+  it('sorts IPv4 before IPv6 addresses, in address order', () => {
+    expect(sortValues(['10.0.0.10', 'fe80::1', '10.0.0.9', 'n/a', '2001:db8::1'], { ascending: true, order: 'ip' }))
+      .toEqual(['10.0.0.9', '10.0.0.10', '2001:db8::1', 'fe80::1', 'n/a']);
+    expect(parseIPAddress('::1')).toEqual([6, 0, 0, 0, 0, 0, 0, 0, 1]);
+    expect(parseIPAddress('1::2::3')).toBeNull();
+  });
+
+  it('sorts timestamps in any format parseTimestamp reads', () => {
+    expect(sortValues(['2024-01-02T00:00:00Z', '1704067200', 'soon'], { ascending: true, order: 'timestamp' }))
+      .toEqual(['1704067200', '2024-01-02T00:00:00Z', 'soon']);
+  });
+
+  it('follows a custom order, ignoring case', () => {
+    expect(SEVERITY_SORT_ORDER).toEqual(['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO']);
+
+    const severities = ['low', 'CRITICAL', 'Unknown', 'info', 'High'];
+    expect(sortValues(severities, { ascending: true, order: 'custom', customOrder: SEVERITY_SORT_ORDER }))
+      .toEqual(['CRITICAL', 'High', 'low', 'info', 'Unknown']);
+    expect(sortValues(severities, { ascending: false, order: 'custom', customOrder: SEVERITY_SORT_ORDER }))
+      .toEqual(['info', 'low', 'High', 'CRITICAL', 'Unknown']);
+  });
+
+  it('detects header rows', () => {
+    const data = new Map();
+    data.set(keyOf(0, 0), { value: 'Host' });
+    data.set(keyOf(0, 1), { value: 'Source IP' });
+    data.set(keyOf(1, 0), { value: 'web-01' });
+    data.set(keyOf(1, 1), { value: '10.0.0.1' });
+    const range = { startRow: 0, startCol: 0, endRow: 1, endCol: 1 };
+
+    expect(detectHeaderRow(data, range)).toBe(true);
+    expect(detectHeaderRow(data, { ...range, endCol: 0 })).toBe(false);
+
+    data.set(keyOf(0, 0), { value: 'Host', format: { bold: true } });
+    expect(detectHeaderRow(data, { ...range, endCol: 0 })).toBe(true);
+  });
+});
+
+describe('Multi-level sort', () => {
+  const alerts: Array<[string, string, string]> = [
+    ['Severity', 'Timestamp', 'Host'],
+    ['LOW', '2024-01-01T10:00:00Z', 'web-2'],
+    ['CRITICAL', '2024-01-01T12:00:00Z', 'web-10'],
+    ['LOW', '2024-01-01T09:00:00Z', 'web-1'],
+    ['CRITICAL', '2024-01-01T08:00:00Z', 'db-1'],
+  ];
+
+  const createState = (): SpreadsheetState => {
+    const data = new Map();
+    alerts.forEach((values, row) => values.forEach((value, col) => data.set(keyOf(row, col), { value })));
+    data.set(keyOf(1, 3), { value: '=C2', formula: '=C2' });
+
+    return {
+      data,
+      maxRows: 10,
+      maxCols: 5,
+      selection: { ranges: [{ startRow: 2, startCol: 1, endRow: 2, endCol: 1 }], active: { row: 2, col: 1 } },
+      editing: null,
+      formulaInput: '',
+    };
+  };
+
+  const sortAlerts: SpreadsheetAction = {
+    type: 'SORT_RANGE_BY',
+    payload: {
+      range: { startRow: 0, startCol: 0, endRow: 4, endCol: 3 },
+      keys: [
+        { column: 0, ascending: true, order: 'custom', customOrder: SEVERITY_SORT_ORDER },
+        { column: 1, ascending: true, order: 'timestamp' },
+      ],
+      hasHeader: true,
+    },
+  };
+
+  const hosts = (state: SpreadsheetState) => [0, 1, 2, 3, 4].map(row => state.data.get(keyOf(row, 2))?.value);
+
+  it('sorts by each key in turn below the header, as one undo step', () => {
+    const before = createState();
+    const after = spreadsheetReducer(before, sortAlerts);
+
+    expect(hosts(after)).toEqual(['Host', 'db-1', 'web-10', 'web-1', 'web-2']);
+    // The formula moved with its row and still refers to it
+    expect(after.data.get(keyOf(4, 3))?.formula).toBe('=C5');
+
+    const command = createCommand(before, after, [sortAlerts])!;
+    expect(command.description).toBe('Sort by columns A, B');
+    expect(hosts(spreadsheetReducer(after, command.undo))).toEqual(hosts(before));
+  });
+
+  it('sorts only the rows left visible by filters', () => {
+    const filtered = spreadsheetReducer(createState(), {
+      type: 'SET_FILTER_RULES',
+      payload: { rules: [createFilterRule(2, 'notEquals', 'web-10')] },
+    });
+    const sorted = spreadsheetReducer(filtered, sortAlerts);
+
+    expect(hosts(sorted)).toEqual(['Host', 'db-1', 'web-10', 'web-1', 'web-2']);
+    expect(sorted.filterState).toMatchObject({ sortColumn: 0, sortDirection: 'asc', sortKeys: sortAlerts.payload.keys });
+
+    const byHost = spreadsheetReducer(filtered, {
+      type: 'SORT_RANGE_BY',
+      payload: { range: { startRow: 1, startCol: 0, endRow: 4, endCol: 2 }, keys: [{ column: 2, ascending: false, order: 'natural' }] },
+    });
+    // Row 3 (web-10) is hidden and stays put
+    expect(hosts(byHost)).toEqual(['Host', 'web-2', 'web-10', 'web-1', 'db-1']);
+  });
+
+  it('sorts formulas by their results', () => {
+    const state = createState();
+    // Scores worked out by formulas, whose cells hold the formula text
+    const scores = [7, 30, 2, 15];
+    scores.forEach((_, i) => state.data.set(keyOf(i + 1, 3), { value: `=SCORE(C${i + 2})`, formula: `=SCORE(C${i + 2})` }));
+    const getComputedValue = (row: number, col: number) =>
+      col === 3 ? scores[row - 1] : state.data.get(keyOf(row, col))?.value;
+
+    const sorted = spreadsheetReducer(state, {
+      type: 'SORT_RANGE_BY',
+      payload: { range: { startRow: 1, startCol: 0, endRow: 4, endCol: 3 }, keys: [{ column: 3, ascending: false }], getComputedValue },
+    });
+    expect(hosts(sorted)).toEqual(['Host', 'web-10', 'db-1', 'web-2', 'web-1']);
+  });
+
+  it('leaves ranges with merged cells alone', () => {
+    const state = { ...createState(), merges: [{ startRow: 4, startCol: 2, endRow: 5, endCol: 2 }] };
+    expect(spreadsheetReducer(state, sortAlerts)).toBe(state);
+  });
+
+  it('sorts the whole of the data when a single cell is selected', () => {
+    expect(getSortRange(createState())).toEqual({ startRow: 0, startCol: 0, endRow: 4, endCol: 3 });
+  });
+});
@@ -0,0 +1,110 @@
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { SpreadsheetState, keyOf } from '../types/spreadsheet';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import {
+  getSparklineDomain,
+  parseSparklineFormula,
+  parseSparklineOptions,
+  resolveSparkline,
+} from '../utils/sparklineUtils';
+
+describe('Sparkline Utils', () => {
+  it('reads the arguments of a SPARKLINE formula', () => {
+    expect(parseSparklineFormula('=SPARKLINE(B2:M2)')).toEqual({ data: 'B2:M2' });
+    expect(parseSparklineFormula('= sparkline( Events!B2:M2 , {"charttype","column";"color","red"} ) ')).toEqual({
+      data: 'Events!B2:M2',
+      options: '{"charttype","column";"color","red"}',
+    });
+    expect(parseSparklineFormula('=SPARKLINE(OFFSET(A1,0,1,1,12),"winloss")')).toEqual({
+      data: 'OFFSET(A1,0,1,1,12)',
+      options: '"winloss"',
+    });
+    // Only formulas that are a single SPARKLINE call
+    expect(parseSparklineFormula('=SUM(B2:M2)')).toBeNull();
+    expect(parseSparklineFormula('=SPARKLINE(B2:M2)+1')).toBeNull();
+    expect(parseSparklineFormula('=SPARKLINE()')).toBeNull();
+  });
+
+  it('reads options as names and values, or a chart type', () => {
+    expect(parseSparklineOptions([['charttype', 'Column'], ['color', 'red'], ['negcolor', '#000'], ['ymin', 0], ['ymax', 'high']]))
+      .toEqual({ type: 'column', color: 'red', negativeColor: '#000', min: 0 });
+    expect(parseSparklineOptions([['charttype', 'line', 'linewidth', 2]])).toEqual({ type: 'line', lineWidth: 2 });
+    expect(parseSparklineOptions([['winloss']])).toEqual({ type: 'winloss' });
+    expect(parseSparklineOptions([['pie']])).toEqual({});
+  });
+
+  it('spans the data, with columns reaching zero', () => {
+    const line = { type: 'line' as const, color: 'blue', negativeColor: 'red', lineWidth: 1, values: [3, null, 7, 5] };
+    expect(getSparklineDomain(line)).toEqual([3, 7]);
+    expect(getSparklineDomain({ ...line, type: 'column' })).toEqual([0, 7]);
+    expect(getSparklineDomain({ ...line, min: 1, max: 10 })).toEqual([1, 10]);
+    expect(getSparklineDomain({ ...line, values: [null] })).toBeNull();
+  });
+});
+
+describe('Sparklines', () => {
+  const events = [['web-01', 4, 8, '', 15, 'n/a', 16]];
+
+  const createEngine = () => {
+    const engine = new FormulaEngine();
+    engine.initializeWorkbook([{
+      name: 'Events',
+      data: new Map(events[0].map((value, col) => [keyOf(0, col), { value }])),
+      maxRows: 10,
+      maxCols: 10,
+    }]);
+    return engine;
+  };
+
+  it('evaluates SPARKLINE as a blank cell the engine accepts', () => {
+    const engine = createEngine();
+    engine.setCell(0, 7, '=SPARKLINE(B1:G1, {"charttype","column"})');
+    expect(engine.getCellValue(0, 7)).toBeNull();
+    engine.destroy();
+  });
+
+  it('draws a formula or a cell type from the engine values', () => {
+    const engine = createEngine();
+    const evaluate = (formula: string) => engine.calculateArray(formula);
+
+    expect(resolveSparkline({ value: '', formula: '=SPARKLINE(B1:G1, {"charttype","column";"ymin",0})' }, evaluate)).toEqual({
+      type: 'column',
+      color: '#4285f4',
+      negativeColor: '#ea4335',
+      lineWidth: 1.5,
+      min: 0,
+      // Blanks and text are gaps
+      values: [4, 8, null, 15, null, 16],
+    });
+    expect(resolveSparkline({ value: '', sparkline: { data: 'Events!B1:C1', options: { type: 'winloss' } } }, evaluate))
+      .toMatchObject({ type: 'winloss', values: [4, 8] });
+
+    // Source edits show on the next read
+    engine.setCell(0, 1, -2);
+    expect(resolveSparkline({ value: '', formula: '=SPARKLINE(B1:C1)' }, evaluate)?.values).toEqual([-2, 8]);
+
+    expect(resolveSparkline({ value: 'web-01' }, evaluate)).toBeNull();
+    expect(resolveSparkline({ value: '', formula: '=SUM(B1:G1)' }, evaluate)).toBeNull();
+    engine.destroy();
+  });
+
+  it('keeps a cell type sparkline on its data as rows are inserted', () => {
+    const state: SpreadsheetState = {
+      data: new Map(),
+      maxRows: 10,
+      maxCols: 10,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+    };
+    const set = spreadsheetReducer(state, {
+      type: 'SET_CELL',
+      payload: { row: 2, col: 0, data: { sparkline: { data: 'B3:M3', options: { type: 'column' } } } },
+    });
+    // A sparkline alone keeps its cell
+    expect(set.data.get(keyOf(2, 0))?.sparkline?.data).toBe('B3:M3');
+
+    const inserted = spreadsheetReducer(set, { type: 'INSERT_ROW', payload: { index: 1, count: 2 } });
+    expect(inserted.data.get(keyOf(4, 0))?.sparkline).toEqual({ data: 'B5:M5', options: { type: 'column' } });
+  });
+});
@@ -0,0 +1,115 @@
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import { SpillRanges, getSpillAt, isSpilledCell, sameSpills } from '../utils/spillUtils';
+import { FixtureValue, createSheetData } from '../__fixtures__/sheetData';
+
+const hosts: FixtureValue[][] = [
+  ['Host', 'Events'],
+  ['web-01', 5],
+  ['db-01', 3],
+  ['WEB-01', 7],
+  ['mail-01', 1],
+];
+
+const createEngine = () => {
+  const engine = new FormulaEngine();
+  engine.initializeWorkbook([{ name: 'Sheet1', data: createSheetData(hosts), maxRows: 20, maxCols: 10 }]);
+  return engine;
+};
+
+describe('Spill Utils', () => {
+  const spills: SpillRanges = new Map([['1:3', { startRow: 1, startCol: 3, endRow: 4, endCol: 4 }]]);
+
+  it('finds the spill range covering a cell', () => {
+    expect(getSpillAt(spills, 2, 4)).toEqual({ startRow: 1, startCol: 3, endRow: 4, endCol: 4 });
+    expect(getSpillAt(spills, 5, 3)).toBeUndefined();
+    expect(getSpillAt(undefined, 1, 3)).toBeUndefined();
+
+    // The formula's own cell isn't spilled into
+    expect(isSpilledCell(spills, 1, 3)).toBe(false);
+    expect(isSpilledCell(spills, 1, 4)).toBe(true);
+  });
+
+  it('compares spill ranges', () => {
+    expect(sameSpills(spills, new Map([['1:3', { startRow: 1, startCol: 3, endRow: 4, endCol: 4 }]]))).toBe(true);
+    expect(sameSpills(spills, new Map([['1:3', { startRow: 1, startCol: 3, endRow: 5, endCol: 4 }]]))).toBe(false);
+    expect(sameSpills(spills, new Map())).toBe(false);
+  });
+});
+
+describe('Dynamic Arrays', () => {
+  it('spills UNIQUE, SORT and SEQUENCE into neighbouring cells', () => {
+    const engine = createEngine();
+
+    // UNIQUE ignores case, like Excel
+    engine.setCell(1, 3, '=UNIQUE(A2:A5)');
+    expect([1, 2, 3, 4].map(row => engine.getCellValue(row, 3))).toEqual(['web-01', 'db-01', 'mail-01', null]);
+
+    engine.setCell(1, 5, '=SORT(A2:B5,2,-1)');
+    expect([1, 2, 3, 4].map(row => engine.getCellValue(row, 6))).toEqual([7, 5, 3, 1]);
+    expect(engine.getCellValue(1, 5)).toBe('WEB-01');
+
+    engine.setCell(10, 0, '=SEQUENCE(2,3,10,5)');
+    expect([0, 1, 2].map(col => engine.getCellValue(11, col))).toEqual([25, 30, 35]);
+    engine.destroy();
+  });
+
+  it('reports where a formula spills', () => {
+    const engine = createEngine();
+    engine.setCell(1, 3, '=SORT(A2:B5)');
+    expect(engine.getSpillRange(1, 3)).toEqual({ startRow: 1, startCol: 3, endRow: 4, endCol: 4 });
+
+    // Spilled cells and single values have none
+    expect(engine.getSpillRange(2, 3)).toBeNull();
+    engine.setCell(0, 5, '=SUM(B2:B5)');
+    expect(engine.getSpillRange(0, 5)).toBeNull();
+    engine.destroy();
+  });
+
+  it('shows #SPILL! while blocked and spills again once cleared', () => {
+    const engine = createEngine();
+    engine.setCell(3, 3, 'in the way');
+    engine.setCell(1, 3, '=SEQUENCE(3)');
+    expect(engine.getCellValue(1, 3)).toBe('#SPILL!');
+    expect(engine.getSpillRange(1, 3)).toBeNull();
+
+    engine.setCell(3, 3, null);
+    expect([1, 2, 3].map(row => engine.getCellValue(row, 3))).toEqual([1, 2, 3]);
+    expect(engine.getSpillRange(1, 3)).toEqual({ startRow: 1, startCol: 3, endRow: 3, endCol: 3 });
+    engine.destroy();
+  });
+
+  it('follows a blocked formula as rows are inserted', () => {
+    const engine = createEngine();
+    engine.setCell(3, 3, 'in the way');
+    engine.setCell(1, 3, '=SEQUENCE(3)');
+    engine.insertRows(0, 1);
+    expect(engine.getCellValue(2, 3)).toBe('#SPILL!');
+
+    engine.setCell(4, 3, null);
+    expect(engine.getCellValue(4, 3)).toBe(3);
+    engine.destroy();
+  });
+
+  it('sizes SEQUENCE from numbers worked out in the formula, and says why it cannot read them from cells', () => {
+    const engine = createEngine();
+    engine.setCell(1, 3, '=SEQUENCE(2*2, (1+1), 5)');
+    expect(engine.getSpillRange(1, 3)).toEqual({ startRow: 1, startCol: 3, endRow: 4, endCol: 4 });
+    expect(engine.getCellValue(4, 4)).toBe(12);
+
+    engine.setCell(0, 5, '=SEQUENCE(B3)');
+    expect(engine.getCellValue(0, 5)).toBe('#VALUE!');
+    expect(engine.validateFormula('=SEQUENCE(B3, 2)')).toEqual({
+      valid: false,
+      error: '#VALUE!',
+      message: expect.stringContaining('typed into the formula'),
+    });
+    engine.destroy();
+  });
+
+  it('accepts the array functions', () => {
+    const engine = createEngine();
+    expect(engine.validateFormula('=UNIQUE(A2:A5)')).toEqual({ valid: true });
+    expect(engine.getAvailableFunctions()).toEqual(expect.arrayContaining(['FILTER', 'UNIQUE', 'SORT', 'SEQUENCE']));
+    engine.destroy();
+  });
+});
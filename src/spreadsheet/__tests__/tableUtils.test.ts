@@ -0,0 +1,246 @@
+import * as XLSX from 'xlsx';
+import { TextDecoder, TextEncoder } from 'util';
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { createCommand } from '../reducers/historyCommands';
+import { Table, keyOf } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { addTablesToXlsx } from '../utils/excelUtils';
+import { isRowFiltered } from '../utils/filterUtils';
+import { tokenizeFormula } from '../utils/formulaTokenizer';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import {
+  TableReference,
+  expandStructuredReferences,
+  getTableHeaderUpdates,
+  getTableReferences,
+  parseStructuredReference,
+  qualifyStructuredReferences,
+  renameTableReferences,
+  shiftTables,
+} from '../utils/tableUtils';
+import { FixtureValue, createSheetData, createSheetState } from '../__fixtures__/sheetData';
+
+const alerts: FixtureValue[][] = [
+  ['Host', 'Severity', 'Count'],
+  ['web-01', 'high', 5],
+  ['db-01', 'low', 3],
+  ['mail-01', 'high', 7],
+];
+
+const createData = () => createSheetData(alerts);
+
+const table: Table = {
+  id: 'table_1',
+  name: 'Alerts',
+  range: { startRow: 0, startCol: 0, endRow: 3, endCol: 2 },
+  bandedRows: true,
+  showTotalRow: false,
+};
+
+const reference: TableReference = {
+  name: 'Alerts',
+  sheetName: 'Triage',
+  range: table.range,
+  showTotalRow: false,
+  columns: ['Host', 'Severity', 'Count'],
+};
+
+describe('Table Utils', () => {
+  it('tokenizes structured references', () => {
+    const tokens = tokenizeFormula('=SUM(Alerts[Count])+[@[Event Count]]');
+    expect(tokens.filter(token => token.type === 'structured').map(token => [token.text, token.table])).toEqual([
+      ['Alerts[Count]', 'Alerts'],
+      ['[@[Event Count]]', ''],
+    ]);
+  });
+
+  it('parses structured references', () => {
+    expect(parseStructuredReference('Alerts[Count]')).toEqual({ table: 'Alerts', items: [], columns: ['Count', 'Count'] });
+    expect(parseStructuredReference('[@Severity]')).toEqual({ table: '', items: ['#this row'], columns: ['Severity', 'Severity'] });
+    expect(parseStructuredReference('Alerts[[#Headers],[Host]:[Count]]')).toEqual({
+      table: 'Alerts',
+      items: ['#headers'],
+      columns: ['Host', 'Count'],
+    });
+    expect(parseStructuredReference("Alerts[Rate '[%']]")).toEqual({ table: 'Alerts', items: [], columns: ['Rate [%]', 'Rate [%]'] });
+    expect(parseStructuredReference('Alerts[#Everything]')).toBeNull();
+  });
+
+  it('expands structured references to A1 references', () => {
+    const expand = (formula: string, cell?: { row: number; col: number }, sheetName = 'Triage') =>
+      expandStructuredReferences(formula, [reference], sheetName, cell);
+
+    expect(expand('=SUM(Alerts[Count])')).toBe('=SUM($C$2:$C$4)');
+    expect(expand('=COUNTA(alerts[#All])')).toBe('=COUNTA($A$1:$C$4)');
+    expect(expand('=Alerts[[#Headers],[Severity]]')).toBe('=$B$1');
+    expect(expand('=SUM(Alerts[Count])', undefined, 'Summary')).toBe('=SUM(Triage!$C$2:$C$4)');
+    expect(expand('=[@Severity]', { row: 2, col: 2 })).toBe('=$B$3');
+
+    // This row outside the data rows, and unknown names
+    expect(expand('=[@Severity]', { row: 0, col: 2 })).toBe('=#VALUE!');
+    expect(expand('=[@Severity]', { row: 2, col: 3 })).toBe('=#REF!');
+    expect(expand('=Alerts[Missing]')).toBe('=#REF!');
+    expect(expand('=Other[Count]')).toBe('=#REF!');
+  });
+
+  it('qualifies and renames structured references', () => {
+    expect(qualifyStructuredReferences('=[@Count]*2', [reference], 'Triage', { row: 1, col: 2 }))
+      .toBe('=Alerts[[#This Row],[Count]]*2');
+    expect(renameTableReferences('=SUM(alerts[Count])+Other[Count]', 'Alerts', 'Incidents'))
+      .toBe('=SUM(Incidents[Count])+Other[Count]');
+  });
+
+  it('names blank and repeated header cells', () => {
+    const data = createData();
+    data.delete(keyOf(0, 1));
+    data.set(keyOf(0, 2), { value: 'host' });
+    expect(getTableHeaderUpdates(data, table.range).map(update => update.data.value)).toEqual(['Column2', 'host2']);
+  });
+
+  it('moves tables with inserted and deleted rows', () => {
+    const [inserted] = shiftTables([{ ...table, hiddenRows: [2] }], 'row', 2, 1)!;
+    expect(inserted.range).toEqual({ startRow: 0, startCol: 0, endRow: 4, endCol: 2 });
+    expect(inserted.hiddenRows).toEqual([3]);
+
+    // Deleting the header or all the data drops the table
+    expect(shiftTables([table], 'row', 0, -1)).toBeUndefined();
+    expect(shiftTables([table], 'row', 1, -3)).toBeUndefined();
+  });
+});
+
+describe('Tables', () => {
+  const createState = () => createSheetState(alerts);
+
+  const add: SpreadsheetAction = { type: 'ADD_TABLE', payload: { table } };
+
+  it('creates tables as undoable steps', () => {
+    const before = createState();
+    const added = spreadsheetReducer(before, add);
+    expect(added.tables).toEqual([table]);
+
+    // Names are unique and tables don't overlap
+    expect(spreadsheetReducer(added, add)).toBe(added);
+    expect(spreadsheetReducer(added, { type: 'ADD_TABLE', payload: { table: { ...table, id: 'table_2', name: 'Other' } } }))
+      .toBe(added);
+
+    const command = createCommand(before, added, [add])!;
+    expect(command.description).toBe('Create table Alerts');
+    expect(spreadsheetReducer(added, command.undo).tables).toBeUndefined();
+  });
+
+  it('grows as rows are added below it', () => {
+    const added = spreadsheetReducer(createState(), add);
+    const appended = spreadsheetReducer(added, { type: 'SET_CELL', payload: { row: 4, col: 1, data: { value: 'low' } } });
+    expect(appended.tables?.[0].range.endRow).toBe(4);
+
+    // Not past a gap or beside the table
+    const gap = spreadsheetReducer(added, { type: 'SET_CELL', payload: { row: 5, col: 0, data: { value: 'x' } } });
+    expect(gap.tables).toBe(added.tables);
+    const beside = spreadsheetReducer(added, { type: 'SET_CELL', payload: { row: 4, col: 3, data: { value: 'x' } } });
+    expect(beside.tables).toBe(added.tables);
+  });
+
+  it('adds and removes a total row', () => {
+    const added = spreadsheetReducer(createState(), add);
+    const totals = spreadsheetReducer(added, { type: 'UPDATE_TABLE', payload: { table: { ...table, showTotalRow: true } } });
+    expect(totals.tables?.[0].range.endRow).toBe(4);
+    expect(totals.data.get(keyOf(4, 0))?.value).toBe('Total');
+    expect(totals.data.get(keyOf(4, 2))?.formula).toBe('=SUBTOTAL(109,Alerts[Count])');
+
+    const hidden = spreadsheetReducer(totals, {
+      type: 'UPDATE_TABLE',
+      payload: { table: { ...totals.tables![0], showTotalRow: false } },
+    });
+    expect(hidden.tables?.[0].range.endRow).toBe(3);
+    expect(hidden.data.has(keyOf(4, 2))).toBe(false);
+  });
+
+  it('rewrites formulas when renamed or converted to a range', () => {
+    const added = spreadsheetReducer(createState(), add);
+    const withFormula = spreadsheetReducer(added, {
+      type: 'SET_CELL',
+      payload: { row: 6, col: 4, data: { formula: '=SUM(Alerts[Count])', value: '' } },
+    });
+
+    const renamed = spreadsheetReducer(withFormula, {
+      type: 'UPDATE_TABLE',
+      payload: { table: { ...table, name: 'Incidents' } },
+    });
+    expect(renamed.data.get(keyOf(6, 4))?.formula).toBe('=SUM(Incidents[Count])');
+
+    const converted = spreadsheetReducer(renamed, { type: 'DELETE_TABLE', payload: { id: 'table_1' } });
+    expect(converted.tables).toBeUndefined();
+    expect(converted.data.get(keyOf(6, 4))?.formula).toBe('=SUM($C$2:$C$4)');
+  });
+
+  it('filters its rows with its own rules', () => {
+    const added = spreadsheetReducer(createState(), add);
+    const filtered = spreadsheetReducer(added, {
+      type: 'SET_TABLE_FILTERS',
+      payload: { id: 'table_1', rules: [{ column: 1, type: 'text', condition: 'equals', value: 'high' }] },
+    });
+    expect(filtered.tables?.[0].hiddenRows).toEqual([2]);
+    expect(isRowFiltered(filtered, 2)).toBe(true);
+    expect(isRowFiltered(filtered, 1)).toBe(false);
+
+    const cleared = spreadsheetReducer(filtered, { type: 'SET_TABLE_FILTERS', payload: { id: 'table_1', rules: [] } });
+    expect(cleared.tables?.[0].hiddenRows).toBeUndefined();
+  });
+
+  it('filters on formula results, again as they change', () => {
+    const added = spreadsheetReducer(createState(), add);
+    // Severity worked out by a formula in every row
+    let severity = 'high';
+    const getComputedValue = (row: number, col: number) =>
+      col === 1 && row > 0 ? severity : added.data.get(keyOf(row, col))?.value;
+    const rules = [{ column: 1, type: 'text' as const, condition: 'equals' as const, value: 'high' }];
+
+    const filtered = spreadsheetReducer(added, { type: 'SET_TABLE_FILTERS', payload: { id: 'table_1', rules, getComputedValue } });
+    expect(filtered.tables?.[0].hiddenRows).toBeUndefined();
+
+    severity = 'low';
+    const refreshed = spreadsheetReducer(filtered, { type: 'REFRESH_FILTERS', payload: { getComputedValue } });
+    expect(refreshed.tables?.[0].hiddenRows).toEqual([1, 2, 3]);
+  });
+
+  it('evaluates structured references in the engine', () => {
+    // A column of formulas beside the data
+    const labelled = { ...createState(), data: createData().set(keyOf(0, 3), { value: 'Label' }) };
+    const state = spreadsheetReducer(labelled, {
+      type: 'ADD_TABLE',
+      payload: { table: { ...table, range: { ...table.range, endCol: 3 } } },
+    });
+    const engine = new FormulaEngine();
+    engine.initializeWorkbook([{ name: 'Sheet1', data: state.data, maxRows: 20, maxCols: 10 }]);
+    engine.setTables(getTableReferences(state));
+
+    engine.setCell(6, 4, '=SUM(Alerts[Count])');
+    engine.setCell(2, 3, '=[@Severity]&"!"');
+    expect(engine.getCellValue(6, 4)).toBe(15);
+    expect(engine.getCellValue(2, 3)).toBe('low!');
+    expect(engine.calculateFormula('=SUBTOTAL(103,Alerts[Host])')).toBe(3);
+    engine.destroy();
+  });
+
+  it('exports tables as Excel tables', () => {
+    Object.assign(global, { TextDecoder, TextEncoder });
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(alerts), 'Triage');
+    const bytes = new Uint8Array(XLSX.write(wb, { type: 'array', bookType: 'xlsx' }));
+
+    const written = addTablesToXlsx(bytes, [{ name: 'Triage', data: createData(), tables: [table] }]);
+    const zip = XLSX.CFB.read(written, { type: 'array' });
+    const read = (path: string) => new TextDecoder().decode(XLSX.CFB.find(zip, path)!.content as Uint8Array);
+
+    const part = read('/xl/tables/table1.xml');
+    expect(part).toContain('id="1" name="Alerts" displayName="Alerts" ref="A1:C4" totalsRowShown="0"');
+    expect(part).toContain('<autoFilter ref="A1:C4"/>');
+    expect(part).toContain('<tableColumn id="2" name="Severity"/>');
+    expect(read('/xl/worksheets/sheet1.xml')).toContain('<tableParts count="1"><tablePart r:id="rIdTable1"/></tableParts></worksheet>');
+    expect(read('/xl/worksheets/_rels/sheet1.xml.rels')).toContain('Target="../tables/table1.xml"');
+    expect(read('/[Content_Types].xml')).toContain('<Override PartName="/xl/tables/table1.xml"');
+
+    // The cells are unchanged
+    expect(XLSX.read(written, { type: 'array' }).Sheets.Triage.A2.v).toBe('web-01');
+  });
+});
@@ -0,0 +1,293 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { SpreadsheetProviderEnhanced, useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import { CellData, CustomFunction } from '../types/spreadsheet';
+import { createFilterRule, isRowFiltered } from '../utils/filterUtils';
+
+const inventory: Record<string, string> = { 'web-01': 'Web team', 'db-01': 'DBA team' };
+
+const assetOwner: CustomFunction = {
+  name: 'ASSETOWNER',
+  description: 'Team that owns a host',
+  args: [{ name: 'hostname', type: 'text' }],
+  implementation: (hostname: string) => inventory[hostname] ?? null,
+};
+
+// Resolves when the test says so
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('FormulaEngine change tracking', () => {
+  let engine: FormulaEngine;
+
+  beforeEach(() => {
+    engine = new FormulaEngine();
+  });
+
+  afterEach(() => {
+    engine.destroy();
+  });
+
+  it('reports dependents recalculated by an edit', () => {
+    engine.setCells([
+      { row: 0, col: 0, value: 1 },
+      { row: 1, col: 0, value: '=A1*2' },
+      { row: 2, col: 0, value: '=A2+1' },
+    ]);
+    engine.getChangedCells();
+
+    engine.setCell(0, 0, 5);
+    const changes = engine.getChangedCells();
+
+    expect(changes).toEqual(expect.arrayContaining([
+      { sheet: 'Sheet1', row: 0, col: 0, value: 5 },
+      { sheet: 'Sheet1', row: 1, col: 0, value: 10 },
+      { sheet: 'Sheet1', row: 2, col: 0, value: 11 },
+    ]));
+    expect(engine.getChangedCells()).toEqual([]);
+  });
+
+  it('formats errors in reported changes', () => {
+    engine.setCell(0, 0, '=1/0');
+    expect(engine.getChangedCells()).toEqual([{ sheet: 'Sheet1', row: 0, col: 0, value: '#DIV/0!' }]);
+  });
+});
+
+describe('useFormulaEngine', () => {
+  const wrapper: React.FC<React.PropsWithChildren> = ({ children }) => {
+    const initialData = React.useMemo(() => new Map<string, CellData>([
+      ['0:0', { value: 2 }],
+      ['0:1', { value: 3 }],
+      ['1:0', { value: '=A1+B1', formula: '=A1+B1' }],
+    ]), []);
+
+    return <SpreadsheetProviderEnhanced initialData={initialData}>{children}</SpreadsheetProviderEnhanced>;
+  };
+
+  it('computes formulas from the initial data', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    expect(result.current.formulaEngine).not.toBeNull();
+    expect(result.current.getComputedValue(1, 0)).toBe(5);
+    expect(result.current.getComputedValue(0, 0)).toBe(2);
+  });
+
+  it('recalculates dependents after SET_CELL', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    act(() => {
+      result.current.dispatch({ type: 'SET_CELL', payload: { row: 0, col: 1, data: { value: 10 } } });
+    });
+
+    expect(result.current.getComputedValue(1, 0)).toBe(12);
+  });
+
+  it('follows formulas shifted by INSERT_ROW', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    act(() => {
+      result.current.dispatch({ type: 'INSERT_ROW', payload: { index: 0 } });
+    });
+    act(() => {
+      result.current.dispatch({ type: 'SET_CELL', payload: { row: 1, col: 0, data: { value: 7 } } });
+    });
+
+    expect(result.current.state.data.get('2:0')?.formula).toBe('=A2+B2');
+    expect(result.current.getComputedValue(2, 0)).toBe(10);
+  });
+
+  it('recalculates after SORT_RANGE moves cells', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    act(() => {
+      result.current.dispatch({
+        type: 'SET_CELLS',
+        payload: {
+          updates: [
+            { row: 0, col: 3, data: { value: 30 } },
+            { row: 1, col: 3, data: { value: 10 } },
+            { row: 2, col: 3, data: { value: '=D1', formula: '=D1' } },
+          ],
+        },
+      });
+    });
+    act(() => {
+      result.current.dispatch({
+        type: 'SORT_RANGE',
+        payload: { range: { startRow: 0, startCol: 3, endRow: 1, endCol: 3 }, column: 3, ascending: true },
+      });
+    });
+
+    expect(result.current.getComputedValue(2, 3)).toBe(10);
+  });
+
+  it('filters rows again when formula results change', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    act(() => {
+      result.current.dispatch({
+        type: 'SET_FILTER_RULES',
+        payload: { rules: [createFilterRule(0, 'greaterThan', 4, 'number')], getComputedValue: result.current.getComputedValue },
+      });
+    });
+    expect(isRowFiltered(result.current.state, 1)).toBe(false);
+
+    // A2 is =A1+B1, now 3
+    act(() => {
+      result.current.dispatch({ type: 'SET_CELL', payload: { row: 0, col: 1, data: { value: 1 } } });
+    });
+    expect(isRowFiltered(result.current.state, 1)).toBe(true);
+  });
+
+  it('evaluates formulas that use a named range added later', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    act(() => {
+      result.current.dispatch({ type: 'ADD_NAMED_RANGE', payload: { name: 'Inputs', reference: 'A1:B1' } });
+    });
+    act(() => {
+      result.current.dispatch({
+        type: 'SET_CELL',
+        payload: { row: 2, col: 0, data: { value: '=SUM(Inputs)', formula: '=SUM(Inputs)' } },
+      });
+    });
+    expect(result.current.getComputedValue(2, 0)).toBe(5);
+
+    act(() => {
+      result.current.dispatch({
+        type: 'UPDATE_NAMED_RANGE',
+        payload: { name: 'Inputs', namedRange: { name: 'Inputs', reference: 'A1' } },
+      });
+    });
+    expect(result.current.getComputedValue(2, 0)).toBe(2);
+  });
+});
+
+describe('Custom functions', () => {
+  let engine: FormulaEngine;
+
+  beforeEach(() => {
+    engine = new FormulaEngine();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engine.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('calls registered functions from formulas', () => {
+    engine.setCells([
+      { row: 0, col: 0, value: 'web-01' },
+      { row: 0, col: 1, value: '=ASSETOWNER(A1)' },
+    ]);
+    expect(engine.getCellValue(0, 1)).toBe('#NAME?');
+
+    // Formulas already in the sheet pick the function up
+    expect(engine.registerFunction(assetOwner)).toBe(true);
+    expect(engine.getCellValue(0, 1)).toBe('Web team');
+    expect(engine.calculateFormula('=assetowner("mail-01")')).toBeNull();
+    expect(engine.getAvailableFunctions()).toContain('ASSETOWNER');
+    expect(engine.getCustomFunctions()).toEqual([assetOwner]);
+
+    engine.unregisterFunction('assetowner');
+    expect(engine.getCellValue(0, 1)).toBe('#NAME?');
+  });
+
+  it('passes ranges as rows of values and checks results', () => {
+    engine.setCells([
+      { row: 0, col: 0, value: 2 },
+      { row: 1, col: 0, value: 3 },
+    ]);
+    engine.registerFunction({
+      name: 'SUMSQ.RANGE',
+      args: [{ name: 'values', type: 'range' }, { name: 'fail', type: 'boolean', optional: true }],
+      implementation: (rows: number[][], fail?: boolean) => {
+        if (fail) throw new Error('Inventory unavailable');
+        return rows.flat().reduce((sum, value) => sum + value * value, 0);
+      },
+    });
+
+    expect(engine.calculateFormula('=SUMSQ.RANGE(A1:A2)')).toBe(13);
+    expect(engine.calculateFormula('=SUMSQ.RANGE(A1:A2, 1=1)')).toBe('#VALUE!');
+  });
+
+  it('refuses names that are invalid or built in', () => {
+    expect(engine.registerFunction({ ...assetOwner, name: 'SUM' })).toBe(false);
+    expect(engine.registerFunction({ ...assetOwner, name: '1OWNER' })).toBe(false);
+    expect(engine.getCustomFunctions()).toEqual([]);
+  });
+
+  it('runs volatile functions on every recalculation', () => {
+    let calls = 0;
+    engine.registerFunction({ name: 'TICK', args: [], volatile: true, implementation: () => ++calls });
+    engine.setCell(0, 0, '=TICK()');
+    const first = engine.getCellValue(0, 0);
+
+    engine.setCell(1, 0, 'edit');
+    expect(engine.getCellValue(0, 0)).toBeGreaterThan(first);
+  });
+
+  it('shows #LOADING until an async result arrives', async () => {
+    const lookup = deferred<string>();
+    const implementation = jest.fn(() => lookup.promise);
+    const listener = jest.fn();
+    engine.subscribe(listener);
+    engine.registerFunction({ ...assetOwner, implementation });
+
+    engine.setCells([
+      { row: 0, col: 0, value: '=ASSETOWNER("web-01")' },
+      { row: 0, col: 1, value: '=A1&"!"' },
+    ]);
+    expect(engine.getCellValue(0, 0)).toBe('#LOADING');
+    expect(engine.getCellValue(0, 1)).toBe('#LOADING');
+    expect(engine.validateFormula('=ASSETOWNER("web-01")')).toEqual({ valid: true });
+
+    listener.mockClear();
+    await act(async () => lookup.resolve('Web team'));
+    expect(engine.getCellValue(0, 0)).toBe('Web team');
+    expect(engine.getCellValue(0, 1)).toBe('Web team!');
+    expect(listener).toHaveBeenCalled();
+
+    // Kept for the same arguments
+    engine.setCell(1, 0, '=ASSETOWNER("web-01")');
+    expect(engine.getCellValue(1, 0)).toBe('Web team');
+    expect(implementation).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows #VALUE! when an async function fails', async () => {
+    const lookup = deferred<string>();
+    engine.registerFunction({ ...assetOwner, implementation: () => lookup.promise });
+    engine.setCell(0, 0, '=ASSETOWNER("web-01")');
+
+    await act(async () => lookup.reject(new Error('Inventory unavailable')));
+    expect(engine.getCellValue(0, 0)).toBe('#VALUE!');
+  });
+
+  it('updates computed values when async results arrive', async () => {
+    const lookup = deferred<string>();
+    const customFunctions = [{ ...assetOwner, implementation: () => lookup.promise }];
+    const initialData = new Map<string, CellData>([
+      ['0:0', { value: '=ASSETOWNER("db-01")', formula: '=ASSETOWNER("db-01")' }],
+    ]);
+    const wrapper: React.FC<React.PropsWithChildren> = ({ children }) => (
+      <SpreadsheetProviderEnhanced initialData={initialData} customFunctions={customFunctions}>
+        {children}
+      </SpreadsheetProviderEnhanced>
+    );
+
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+    expect(result.current.getComputedValue(0, 0)).toBe('#LOADING');
+
+    await act(async () => lookup.resolve('DBA team'));
+    expect(result.current.getComputedValue(0, 0)).toBe('DBA team');
+  });
+});
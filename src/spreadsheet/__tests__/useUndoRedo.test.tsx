@@ -0,0 +1,96 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { SpreadsheetProviderEnhanced, useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { CellData } from '../types/spreadsheet';
+
+describe('useUndoRedo', () => {
+  const wrapper: React.FC<React.PropsWithChildren> = ({ children }) => {
+    const initialData = React.useMemo(() => new Map<string, CellData>([
+      ['0:0', { value: 2 }],
+      ['1:0', { value: '=A1*10', formula: '=A1*10' }],
+    ]), []);
+
+    return <SpreadsheetProviderEnhanced initialData={initialData}>{children}</SpreadsheetProviderEnhanced>;
+  };
+
+  const setCell = (result: { current: ReturnType<typeof useSpreadsheetEnhanced> }, value: number) => {
+    act(() => {
+      result.current.dispatch({ type: 'SET_CELL', payload: { row: 0, col: 0, data: { value } } });
+    });
+  };
+
+  it('undoes and redoes edits, recalculating formulas', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    setCell(result, 3);
+    expect(result.current.getComputedValue(1, 0)).toBe(30);
+    expect(result.current.history.past.map(command => command.description)).toEqual(['Edit A1']);
+
+    act(() => result.current.undo());
+    expect(result.current.state.data.get('0:0')?.value).toBe(2);
+    expect(result.current.getComputedValue(1, 0)).toBe(20);
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+    expect(result.current.getComputedValue(1, 0)).toBe(30);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('records a BATCH as one labelled step and ignores selection changes', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    act(() => {
+      result.current.dispatch({
+        type: 'BATCH',
+        label: 'Paste 2 cells',
+        payload: [
+          { type: 'SET_CELL', payload: { row: 0, col: 1, data: { value: 'a' } } },
+          { type: 'SET_CELL', payload: { row: 0, col: 2, data: { value: 'b' } } },
+        ],
+      });
+    });
+    act(() => {
+      result.current.dispatch({ type: 'SET_SELECTION', payload: { ranges: [], active: { row: 3, col: 3 } } });
+    });
+
+    expect(result.current.history.past.map(command => command.description)).toEqual(['Paste 2 cells']);
+
+    act(() => {
+      result.current.dispatch({ type: 'UNDO' });
+    });
+    expect(result.current.state.data.has('0:1')).toBe(false);
+    expect(result.current.state.data.has('0:2')).toBe(false);
+  });
+
+  it('jumps several steps and drops redo history on a new edit', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    setCell(result, 3);
+    setCell(result, 4);
+    setCell(result, 5);
+
+    act(() => result.current.undo(3));
+    expect(result.current.state.data.get('0:0')?.value).toBe(2);
+    expect(result.current.history.future).toHaveLength(3);
+
+    act(() => result.current.redo(2));
+    expect(result.current.state.data.get('0:0')?.value).toBe(4);
+
+    setCell(result, 9);
+    expect(result.current.history.past).toHaveLength(3);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('undoes row deletes along with the formulas they rewrote', () => {
+    const { result } = renderHook(() => useSpreadsheetEnhanced(), { wrapper });
+
+    act(() => {
+      result.current.dispatch({ type: 'DELETE_ROW', payload: { index: 0 } });
+    });
+    expect(result.current.state.data.get('0:0')?.formula).toBe('=#REF!*10');
+
+    act(() => result.current.undo());
+    expect(result.current.state.data.get('1:0')?.formula).toBe('=A1*10');
+    expect(result.current.getComputedValue(1, 0)).toBe(20);
+  });
+});
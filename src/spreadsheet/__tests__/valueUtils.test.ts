@@ -0,0 +1,26 @@
+import { isBlankValue, toNumber } from '../utils/valueUtils';
+
+describe('Value Utils', () => {
+  it('tells blank values apart', () => {
+    expect(isBlankValue(null)).toBe(true);
+    expect(isBlankValue(undefined)).toBe(true);
+    expect(isBlankValue('')).toBe(true);
+    expect(isBlankValue(0)).toBe(false);
+    expect(isBlankValue(' ')).toBe(false);
+    expect(isBlankValue(false)).toBe(false);
+  });
+
+  it('reads numbers and numeric text only', () => {
+    expect(toNumber(42)).toBe(42);
+    expect(toNumber(' 3.5 ')).toBe(3.5);
+    expect(toNumber('1e3')).toBe(1000);
+
+    expect(toNumber('')).toBeNull();
+    expect(toNumber('abc')).toBeNull();
+    expect(toNumber('Infinity')).toBeNull();
+    expect(toNumber(NaN)).toBeNull();
+    expect(toNumber(true)).toBeNull();
+    expect(toNumber(false)).toBeNull();
+    expect(toNumber(null)).toBeNull();
+  });
+});
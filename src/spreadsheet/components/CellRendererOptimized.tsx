@@ -1,11 +1,22 @@
-import React, { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
-import { useSpreadsheet } from '../SpreadsheetContext';
-import { evaluateFormula } from '../utils/formulaUtils';
-import { isCellInSelection } from '../utils/selectionUtils';
+import React, { useState, useRef, useEffect, useCallback, useMemo, useContext, memo } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { SpreadsheetAction } from '../types/actions';
+import { FilterRule } from '../types/spreadsheet';
+import { isCellInSelection, normalizeRect, singleCellSelection } from '../utils/selectionUtils';
 import { formatCellValue } from '../utils/formatUtils';
-import { evaluateConditionalFormat, combineConditionalFormats } from '../utils/conditionalFormattingUtils';
+import { getRangeValues } from '../utils/namedRangeUtils';
+import { evaluateConditionalFormat, combineConditionalFormats, resolveConditionalFormatting } from '../utils/conditionalFormattingUtils';
+import { resolveSparkline } from '../utils/sparklineUtils';
+import { isSpilledCell } from '../utils/spillUtils';
+import { getTableAt, getTableCellFormat, getTableDataRows } from '../utils/tableUtils';
+import { useFormulaAutocomplete } from '../hooks/useFormulaAutocomplete';
+import { useReferenceEntry } from '../hooks/useReferenceEntry';
 import { CellDropdown } from './CellDropdown';
 import { DropdownArrow } from './DropdownArrow';
+import { FilterButton } from './FilterButton';
+import { FormulaAssist } from './FormulaAssist';
+import { Sparkline } from './Sparkline';
 import styles from './CellRenderer.module.css';
 
 interface Props {
@@ -15,12 +26,22 @@ interface Props {
 
 // Memoized cell renderer for performance
 export const CellRendererOptimized: React.FC<Props> = memo(({ row, col }) => {
-  const { state, setState, getCell, setCell } = useSpreadsheet();
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch, getCell, setCell, getComputedValue, formulaEngine, evaluator, spills } = (persistedContext || enhancedContext)!;
   const cellData = getCell(row, col);
+  // Filled by an array formula elsewhere; read-only, with nothing of its own stored
+  const spilled = isSpilledCell(spills, row, col);
+  // Formula and spilled cells show the value computed by the formula engine
+  const computedValue = cellData?.formula || spilled ? getComputedValue(row, col) : cellData?.value;
   const isEditing =
     state.editing && state.editing.row === row && state.editing.col === col;
   const isSelected = isCellInSelection(row, col, state.selection);
   const isActive = state.selection.active?.row === row && state.selection.active?.col === col;
+  const findKey = `${row}:${col}`;
+  const isFindMatch = !!state.findHighlights?.matches.has(findKey);
+  const isFindCurrent = state.findHighlights?.current === findKey;
 
   const [tempValue, setTempValue] = useState(
     cellData?.formula ?? cellData?.value ?? ''
@@ -45,90 +66,141 @@ export const CellRendererOptimized: React.FC<Props> = memo(({ row, col }) => {
   }, [isEditing, state.formulaInput, cellData]);
 
   const handleDoubleClick = useCallback(() => {
-    if (!state.readOnly) {
-      setState((prev) => ({
-        ...prev,
-        editing: { row, col },
-        formulaInput: cellData?.formula ?? cellData?.value ?? '',
-      }));
+    if (!state.readOnly && !spilled) {
+      dispatch({
+        type: 'BATCH',
+        payload: [
+          { type: 'SET_EDITING', payload: { row, col } },
+          { type: 'SET_FORMULA_INPUT', payload: cellData?.formula ?? cellData?.value ?? '' },
+        ],
+      });
       setTempValue(cellData?.formula ?? cellData?.value ?? '');
     }
-  }, [state.readOnly, setState, row, col, cellData]);
+  }, [state.readOnly, spilled, dispatch, row, col, cellData]);
 
-  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+  // Write the edited value and move the active cell
+  const commitEdit = useCallback((nextRow: number, nextCol: number) => {
+    const newValue = tempValue;
+    const cellUpdate: SpreadsheetAction =
+      typeof newValue === 'string' && newValue.startsWith('=')
+        ? { type: 'SET_CELL', payload: { row, col, data: { formula: newValue, value: newValue } } }
+        : { type: 'SET_CELL', payload: { row, col, data: { value: newValue, formula: undefined } } };
+
+    dispatch({
+      type: 'BATCH',
+      payload: [
+        cellUpdate,
+        { type: 'SET_EDITING', payload: null },
+        { type: 'SET_FORMULA_INPUT', payload: '' },
+        { type: 'SET_SELECTION', payload: singleCellSelection(Math.max(0, nextRow), Math.max(0, nextCol)) },
+      ],
+    });
+  }, [tempValue, dispatch, row, col]);
+
+  // Only the cell being edited looks at its text
+  const autocomplete = useFormulaAutocomplete({
+    value: isEditing ? String(tempValue) : '',
+    inputRef,
+    formulaEngine,
+    state,
+    onChange: setTempValue,
+  });
+
+  const references = useReferenceEntry({
+    value: isEditing ? String(tempValue) : '',
+    inputRef,
+    state,
+    dispatch,
+    cell: { row, col },
+    onChange: setTempValue,
+  });
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    autocomplete.handleSelect(e);
+    references.handleSelect(e);
+  };
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (autocomplete.handleKeyDown(e) || references.handleKeyDown(e)) return;
     if (e.key === 'Enter') {
-      const newValue = tempValue;
-      if (typeof newValue === 'string' && newValue.startsWith('=')) {
-        setCell(row, col, { formula: newValue, value: newValue });
-      } else {
-        setCell(row, col, { value: newValue });
-      }
-      setState((prev) => ({ 
-        ...prev, 
-        editing: null, 
-        formulaInput: '',
-        selection: {
-          ...prev.selection,
-          active: { row: row + 1, col }
-        }
-      }));
+      commitEdit(row + 1, col);
     } else if (e.key === 'Tab') {
       e.preventDefault();
-      const newValue = tempValue;
-      if (typeof newValue === 'string' && newValue.startsWith('=')) {
-        setCell(row, col, { formula: newValue, value: newValue });
-      } else {
-        setCell(row, col, { value: newValue });
-      }
-      setState((prev) => ({ 
-        ...prev, 
-        editing: null, 
-        formulaInput: '',
-        selection: {
-          ...prev.selection,
-          active: { row, col: col + (e.shiftKey ? -1 : 1) }
-        }
-      }));
+      commitEdit(row, col + (e.shiftKey ? -1 : 1));
     } else if (e.key === 'Escape') {
-      setState((prev) => ({ ...prev, editing: null, formulaInput: '' }));
+      dispatch({
+        type: 'BATCH',
+        payload: [
+          { type: 'SET_EDITING', payload: null },
+          { type: 'SET_FORMULA_INPUT', payload: '' },
+        ],
+      });
     }
-  }, [tempValue, setCell, setState, row, col]);
+  }, [autocomplete, references, commitEdit, dispatch, row, col]);
 
   // Memoize expensive calculations
   const displayValue = useMemo(() => {
-    if (!cellData) return '';
-    
-    let value: any;
-    if (cellData.formula && cellData.formula.startsWith('=')) {
-      value = evaluateFormula(cellData.formula, getCell);
-    } else {
-      value = cellData.value;
-    }
+    if (!cellData && !spilled) return '';
     
     // Apply formatting to the value
-    return formatCellValue(value, cellData.format);
-  }, [cellData, getCell]);
+    return formatCellValue(computedValue, cellData?.format);
+  }, [cellData, spilled, computedValue]);
 
-  const cellStyle = useMemo(() => {
-    let baseFormat = cellData?.format || {};
+  // Sparklines read their data through the engine, so they follow its cells
+  // as it recalculates rather than cellData
+  const sparkline = useMemo(
+    () => evaluator && resolveSparkline(cellData, evaluator.calculateArray),
+    [cellData, evaluator]
+  );
+
+  // The table the cell belongs to, whose header row carries the column filters
+  const table = useMemo(() => getTableAt(state.tables, row, col), [state.tables, row, col]);
+  const isTableHeader = !!table && normalizeRect(table.range).startRow === row;
+
+  const handleTableFilterChange = useCallback((rules: FilterRule[]) => {
+    if (table) dispatch({ type: 'SET_TABLE_FILTERS', payload: { id: table.id, rules, getComputedValue } });
+  }, [dispatch, table, getComputedValue]);
+
+  // Apply conditional formatting: the cell's own rule, then the sheet's rules over it
+  const conditional = useMemo(() => {
+    // The table's style sits under the cell's own format
+    const tableFormat = getTableCellFormat(table, row);
+    let baseFormat = tableFormat ? { ...tableFormat, ...cellData?.format } : cellData?.format || {};
+    const blank = computedValue === undefined || computedValue === '';
     
-    // Apply conditional formatting if present
-    if (cellData?.format?.conditionalFormat && cellData.value !== undefined && cellData.value !== '') {
-      const shouldApplyConditional = evaluateConditionalFormat(
-        cellData.value,
-        cellData.format.conditionalFormat,
-        row,
-        col,
-        state.data,
-        getCell
-      );
-      
-      if (shouldApplyConditional) {
-        baseFormat = combineConditionalFormats(baseFormat, [cellData.format.conditionalFormat.format]);
-      }
+    if (!blank && cellData?.format?.conditionalFormat && evaluateConditionalFormat(
+      computedValue,
+      cellData.format.conditionalFormat,
+      row,
+      col,
+      state.data,
+      getCell,
+      evaluator ?? undefined
+    )) {
+      baseFormat = combineConditionalFormats(baseFormat, [cellData.format.conditionalFormat.format]);
     }
+
+    // Blank cells only take formula rules, which look at other cells
+    const rules = blank
+      ? state.conditionalFormats?.filter(rule => rule.type === 'formula')
+      : state.conditionalFormats;
+    if (!rules?.length) return { format: baseFormat };
     
-    const format = baseFormat;
+    return resolveConditionalFormatting(
+      baseFormat,
+      rules,
+      computedValue,
+      row,
+      col,
+      state.data,
+      getCell,
+      getComputedValue,
+      evaluator ?? undefined
+    );
+  }, [cellData?.format, computedValue, state.conditionalFormats, state.data, row, col, table, getCell, getComputedValue, evaluator]);
+
+  const cellStyle = useMemo(() => {
+    const format = conditional.format;
     const style: React.CSSProperties = {
       // Font styling
       fontFamily: format.fontFamily,
@@ -168,12 +240,16 @@ export const CellRendererOptimized: React.FC<Props> = memo(({ row, col }) => {
     }
 
     return style;
-  }, [cellData?.format, isSelected, isActive]);
+  }, [conditional, isSelected, isActive]);
 
-  // Get validation rule for this cell
+  // Get validation rule for this cell; list items come from sourceRange when set
   const validation = useMemo(() => {
-    return state.validation?.get(`${row}:${col}`) || null;
-  }, [state.validation, row, col]);
+    const rule = state.validation?.get(`${row}:${col}`) || null;
+    if (rule?.type !== 'list' || !rule.sourceRange) return rule;
+
+    const list = Array.from(new Set(getRangeValues(state, rule.sourceRange, getComputedValue).map(String)));
+    return { ...rule, list };
+  }, [state, getComputedValue, row, col]);
 
   // Check if cell has dropdown (list validation)
   const hasDropdown = useMemo(() => {
@@ -231,23 +307,39 @@ export const CellRendererOptimized: React.FC<Props> = memo(({ row, col }) => {
 
   // Handle cell click - show dropdown if has validation
   const handleCellClick = useCallback((e: React.MouseEvent) => {
-    if (hasDropdown && !isEditing && !state.readOnly) {
+    // Clicks while typing a formula point at the cell instead
+    if (hasDropdown && !isEditing && !state.readOnly && !state.formulaEdit?.acceptsReference) {
       handleDropdownClick(e);
     }
-  }, [hasDropdown, isEditing, state.readOnly, handleDropdownClick]);
+  }, [hasDropdown, isEditing, state.readOnly, state.formulaEdit?.acceptsReference, handleDropdownClick]);
 
   if (isEditing) {
     return (
-      <input
-        ref={inputRef}
-        className={styles.input}
-        value={tempValue}
-        onChange={(e) => setTempValue(e.target.value)}
-        onKeyDown={handleKeyDown}
-        aria-label={`Cell ${col}${row + 1} editor`}
-        aria-invalid={!!validationError}
-        aria-errormessage={validationError || undefined}
-      />
+      <>
+        <input
+          ref={inputRef}
+          className={styles.input}
+          value={tempValue}
+          onSelect={handleSelect}
+          onFocus={() => {
+            autocomplete.inputProps.onFocus();
+            references.handleFocus();
+          }}
+          onBlur={() => {
+            autocomplete.inputProps.onBlur();
+            references.handleBlur();
+          }}
+          onChange={(e) => {
+            setTempValue(e.target.value);
+            handleSelect(e);
+          }}
+          onKeyDown={handleKeyDown}
+          aria-label={`Cell ${col}${row + 1} editor`}
+          aria-invalid={!!validationError}
+          aria-errormessage={validationError || undefined}
+        />
+        {autocomplete.assist && <FormulaAssist assist={autocomplete.assist} inputRef={inputRef} />}
+      </>
     );
   }
 
@@ -255,7 +347,11 @@ export const CellRendererOptimized: React.FC<Props> = memo(({ row, col }) => {
     <>
       <div 
         ref={cellRef}
-        className={`${styles.cell} ${hasDropdown ? styles.cellWithDropdown : ''} ${validationError ? styles.error : ''}`}
+        className={`${styles.cell} ${hasDropdown ? styles.cellWithDropdown : ''} ${
+          isTableHeader ? styles.cellWithTableFilter : ''
+        } ${validationError ? styles.error : ''} ${
+          isFindCurrent ? styles.findCurrent : isFindMatch ? styles.findMatch : ''
+        }`}
         onDoubleClick={handleDoubleClick}
         onClick={handleCellClick}
         style={cellStyle}
@@ -268,7 +364,44 @@ export const CellRendererOptimized: React.FC<Props> = memo(({ row, col }) => {
         aria-haspopup={hasDropdown ? 'listbox' : undefined}
         aria-expanded={hasDropdown ? showDropdown : undefined}
       >
-        {displayValue}
+        {conditional.dataBar && (
+          <span
+            className={styles.dataBar}
+            style={{
+              left: `${conditional.dataBar.left}%`,
+              width: `${conditional.dataBar.width}%`,
+              background: conditional.dataBar.gradient
+                ? `linear-gradient(to ${conditional.dataBar.negative ? 'left' : 'right'}, ${conditional.dataBar.color}, transparent)`
+                : conditional.dataBar.color,
+            }}
+          />
+        )}
+        {conditional.dataBar?.axis !== undefined && (
+          <span className={styles.dataBarAxis} style={{ left: `${conditional.dataBar.axis}%` }} />
+        )}
+        {conditional.icon && (
+          <span className={styles.conditionalIcon} style={{ color: conditional.icon.color }} aria-hidden="true">
+            {conditional.icon.symbol}
+          </span>
+        )}
+        {sparkline ? (
+          <Sparkline sparkline={sparkline} />
+        ) : conditional.dataBar || conditional.icon
+          ? !conditional.hideValue && <span className={styles.value}>{displayValue}</span>
+          : displayValue}
+        {table && isTableHeader && (
+          <span className={styles.tableFilter}>
+            <FilterButton
+              column={col}
+              data={state.data}
+              startRow={getTableDataRows(table).start}
+              maxRows={getTableDataRows(table).end + 1}
+              existingFilters={table.filters ?? []}
+              onFilterChange={handleTableFilterChange}
+              hasActiveFilter={!!table.filters?.some(rule => rule.column === col)}
+            />
+          </span>
+        )}
         {hasDropdown && validation?.showDropdownArrow !== false && (
           <DropdownArrow 
             onClick={handleDropdownClick}
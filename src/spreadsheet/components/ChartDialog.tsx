@@ -0,0 +1,178 @@
+import React, { useContext, useState, useMemo, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { Chart, ChartType } from '../types/spreadsheet';
+import { cellRefToString } from '../utils/formulaUtils';
+import { resolveRange } from '../utils/namedRangeUtils';
+import { getActiveSheetId } from '../utils/sheetUtils';
+import { detectHeaderRow, getSortRange } from '../utils/sortUtils';
+import { CHART_TYPE_LABELS, createChart, getChartData } from '../utils/chartUtils';
+import { ChartView } from './ChartView';
+import styles from './ChartDialog.module.css';
+
+interface Props {
+  // The chart to edit; a new one is inserted when omitted
+  chart?: Chart;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = { width: 400, height: 220 };
+
+export const ChartDialog: React.FC<Props> = ({ chart, onClose }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch, getComputedValue } = (persistedContext || enhancedContext)!;
+
+  // Fixed when the dialog opens
+  const [initial] = useState(() => {
+    const selected = getSortRange(state);
+    return chart ?? (selected && createChart(selected, state.maxCols));
+  });
+  const [type, setType] = useState<ChartType>(initial?.type ?? 'bar');
+  const [title, setTitle] = useState(initial?.title ?? '');
+  const [rangeText, setRangeText] = useState(() => {
+    if (!initial) return '';
+    const { range } = initial;
+    return `${cellRefToString(range.startRow, range.startCol)}:${cellRefToString(range.endRow, range.endCol)}`;
+  });
+  const [hasHeader, setHasHeader] = useState(() =>
+    chart ? chart.hasHeader : !!initial && detectHeaderRow(state.data, initial.range)
+  );
+  const [bins, setBins] = useState(initial?.bins ? String(initial.bins) : '');
+
+  // Charts plot cells of their own sheet
+  const resolved = useMemo(() => resolveRange(state, rangeText), [state, rangeText]);
+  const range = resolved?.sheetId === getActiveSheetId(state) ? resolved.rect : null;
+  const binCount = bins.trim() === '' ? undefined : Math.round(Number(bins));
+
+  const error = !range
+    ? 'Enter a range on this sheet, e.g. A1:C20.'
+    : type === 'histogram' && binCount !== undefined && !(binCount >= 1 && binCount <= 100)
+      ? 'Enter between 1 and 100 bins, or leave it empty to choose automatically.'
+      : null;
+
+  const built = useMemo<Chart | null>(() => {
+    if (!range || error) return null;
+    const base = initial ?? createChart(range, state.maxCols);
+    return {
+      id: base.id,
+      anchor: base.anchor,
+      width: base.width,
+      height: base.height,
+      type,
+      title: title.trim() || undefined,
+      range,
+      hasHeader,
+      bins: type === 'histogram' ? binCount : undefined,
+    };
+  }, [range, error, initial, state.maxCols, type, title, hasHeader, binCount]);
+
+  const preview = useMemo(() => built && getChartData(built, getComputedValue), [built, getComputedValue]);
+
+  const handleSave = useCallback(() => {
+    if (!built) return;
+    dispatch(chart
+      ? { type: 'UPDATE_CHART', payload: { chart: built } }
+      : { type: 'ADD_CHART', payload: { chart: built } });
+    onClose();
+  }, [built, chart, dispatch, onClose]);
+
+  return (
+    <div className={styles.container} role="dialog" aria-label={chart ? 'Edit chart' : 'Insert chart'}>
+      <div className={styles.header}>
+        <h3>{chart ? 'Edit Chart' : 'Insert Chart'}</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <div className={styles.types} role="radiogroup" aria-label="Chart type">
+          {(Object.keys(CHART_TYPE_LABELS) as ChartType[]).map(option => (
+            <button
+              key={option}
+              className={`${styles.typeButton} ${option === type ? styles.activeType : ''}`}
+              onClick={() => setType(option)}
+              role="radio"
+              aria-checked={option === type}
+            >
+              {CHART_TYPE_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        <div className={styles.row}>
+          <label className={styles.rowLabel} htmlFor="chart-range">Data range</label>
+          <input
+            id="chart-range"
+            className={styles.input}
+            type="text"
+            value={rangeText}
+            onChange={(e) => setRangeText(e.target.value)}
+            placeholder="A1:C20"
+          />
+        </div>
+
+        <div className={styles.row}>
+          <label className={styles.rowLabel} htmlFor="chart-title">Title</label>
+          <input
+            id="chart-title"
+            className={styles.input}
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+        </div>
+
+        {type === 'histogram' && (
+          <div className={styles.row}>
+            <label className={styles.rowLabel} htmlFor="chart-bins">Bins</label>
+            <input
+              id="chart-bins"
+              className={styles.input}
+              type="number"
+              min={1}
+              max={100}
+              value={bins}
+              onChange={(e) => setBins(e.target.value)}
+              placeholder="Automatic"
+            />
+          </div>
+        )}
+
+        <label className={styles.optionLabel}>
+          <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+          First row names the series
+        </label>
+
+        <p className={styles.hint}>
+          {type === 'histogram'
+            ? 'Counts the numbers in the range into bins.'
+            : type === 'scatter'
+              ? 'The first column holds the x values; each other column is plotted against it.'
+              : 'The first column holds the labels; each other column is a series.'}
+        </p>
+
+        {error ? (
+          <div className={styles.error} role="alert">{error}</div>
+        ) : built && preview && (
+          <div className={styles.preview}>
+            <ChartView chart={built} data={preview} {...PREVIEW_SIZE} />
+          </div>
+        )}
+      </div>
+
+      <div className={styles.footer}>
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button className={styles.applyButton} onClick={handleSave} disabled={!built || state.readOnly}>
+            {chart ? 'Update' : 'Insert'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useContext, useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { Chart } from '../types/spreadsheet';
+import { getChartData } from '../utils/chartUtils';
+import { ChartView } from './ChartView';
+import styles from './ChartOverlay.module.css';
+
+interface Props {
+  // Offsets of the rows and columns, the headers first, as the grid lays them out
+  rowStarts: number[];
+  colStarts: number[];
+  onEdit: (chart: Chart) => void;
+}
+
+const MIN_WIDTH = 160;
+const MIN_HEIGHT = 120;
+
+// Index of the row or column an offset falls in
+function indexAt(starts: number[], offset: number): number {
+  let low = 1;
+  let high = starts.length - 2;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (starts[mid] <= offset) low = mid;
+    else high = mid - 1;
+  }
+  return low - 1;
+}
+
+interface Drag {
+  mode: 'move' | 'resize';
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+}
+
+interface FrameProps extends Props {
+  chart: Chart;
+  selected: boolean;
+  onSelect: (id: string | null) => void;
+}
+
+const ChartFrame: React.FC<FrameProps> = ({ chart, rowStarts, colStarts, selected, onSelect, onEdit }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch, getComputedValue } = (persistedContext || enhancedContext)!;
+
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  // Redrawn whenever the cells or their computed values change
+  const data = useMemo(() => getChartData(chart, getComputedValue), [chart, getComputedValue]);
+
+  const left = colStarts[chart.anchor.col + 1] ?? 0;
+  const top = rowStarts[chart.anchor.row + 1] ?? 0;
+  const moving = drag?.mode === 'move';
+  const resizing = drag?.mode === 'resize';
+  const width = resizing ? Math.max(chart.width + drag!.dx, MIN_WIDTH) : chart.width;
+  const height = resizing ? Math.max(chart.height + drag!.dy, MIN_HEIGHT) : chart.height;
+
+  const startDrag = useCallback((mode: Drag['mode'], e: React.MouseEvent) => {
+    // Keeps the grid from starting a selection underneath
+    e.stopPropagation();
+    onSelect(chart.id);
+    if (e.button !== 0 || state.readOnly) return;
+    e.preventDefault();
+    setDrag({ mode, x: e.clientX, y: e.clientY, dx: 0, dy: 0 });
+    frameRef.current?.focus();
+  }, [chart.id, onSelect, state.readOnly]);
+
+  // Snap to a cell when the button is released. The listeners below only
+  // follow a drag starting and ending, so they read this through a ref.
+  const drop = useRef<(e: MouseEvent) => void>();
+  drop.current = (e) => {
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    setDrag(null);
+    if (dx === 0 && dy === 0) return;
+
+    if (drag.mode === 'move') {
+      const row = indexAt(rowStarts, Math.max(top + dy, rowStarts[1]));
+      const col = indexAt(colStarts, Math.max(left + dx, colStarts[1]));
+      if (row !== chart.anchor.row || col !== chart.anchor.col) {
+        dispatch({ type: 'UPDATE_CHART', payload: { chart: { ...chart, anchor: { row, col } } } });
+      }
+    } else {
+      dispatch({
+        type: 'UPDATE_CHART',
+        payload: {
+          chart: {
+            ...chart,
+            width: Math.round(Math.max(chart.width + dx, MIN_WIDTH)),
+            height: Math.round(Math.max(chart.height + dy, MIN_HEIGHT)),
+          },
+        },
+      });
+    }
+  };
+
+  // Follow the pointer until the button is released
+  const dragging = drag !== null;
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMove = (e: MouseEvent) => {
+      setDrag(current => current && { ...current, dx: e.clientX - current.x, dy: e.clientY - current.y });
+    };
+    const handleUp = (e: MouseEvent) => drop.current?.(e);
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [dragging]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if ((e.key === 'Delete' || e.key === 'Backspace') && !state.readOnly) {
+      e.preventDefault();
+      e.stopPropagation();
+      dispatch({ type: 'DELETE_CHART', payload: { id: chart.id } });
+    } else if (e.key === 'Escape') {
+      onSelect(null);
+    }
+  }, [chart.id, dispatch, onSelect, state.readOnly]);
+
+  return (
+    <div
+      ref={frameRef}
+      className={`${styles.chart} ${selected ? styles.selected : ''}`}
+      style={{
+        left: left + (moving ? drag!.dx : 0),
+        top: top + (moving ? drag!.dy : 0),
+        width,
+        height,
+      }}
+      tabIndex={0}
+      onMouseDown={(e) => startDrag('move', e)}
+      onDoubleClick={() => !state.readOnly && onEdit(chart)}
+      onKeyDown={handleKeyDown}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) onSelect(null);
+      }}
+      aria-label={chart.title || 'Chart'}
+    >
+      <ChartView chart={chart} data={data} width={width} height={height} />
+
+      {selected && !state.readOnly && (
+        <>
+          <div className={styles.toolbar} onMouseDown={(e) => e.stopPropagation()}>
+            <button className={styles.toolButton} onClick={() => onEdit(chart)} aria-label="Edit chart">
+              ✎
+            </button>
+            <button
+              className={styles.toolButton}
+              onClick={() => dispatch({ type: 'DELETE_CHART', payload: { id: chart.id } })}
+              aria-label="Delete chart"
+            >
+              ×
+            </button>
+          </div>
+          <div
+            className={styles.resizeHandle}
+            onMouseDown={(e) => startDrag('resize', e)}
+            aria-label="Resize chart"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The active sheet's charts, floating over the grid at their anchor cells.
+ * Drag a chart to move it, or its corner to resize it; double-click to edit.
+ */
+export const ChartOverlay: React.FC<Props> = (props) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state } = (persistedContext || enhancedContext)!;
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!state.charts?.length) return null;
+
+  return (
+    <>
+      {state.charts.map(chart => (
+        <ChartFrame
+          key={chart.id}
+          {...props}
+          chart={chart}
+          selected={chart.id === selectedId}
+          onSelect={setSelectedId}
+        />
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,281 @@
+import React from 'react';
+import { Chart } from '../types/spreadsheet';
+import { CHART_COLORS, CHART_TYPE_LABELS, ChartData, formatChartNumber, getAxisTicks } from '../utils/chartUtils';
+
+interface Props {
+  chart: Chart;
+  data: ChartData;
+  width: number;
+  height: number;
+}
+
+const TEXT = '#5f6368';
+const GRID = '#e0e0e0';
+const FONT_SIZE = 11;
+
+const color = (index: number) => CHART_COLORS[index % CHART_COLORS.length];
+
+// Without spreading, which large ranges would overflow
+const lowest = (values: number[]) => values.reduce((a, b) => Math.min(a, b));
+const highest = (values: number[]) => values.reduce((a, b) => Math.max(a, b));
+
+// Long labels are cut short rather than overlapping their neighbours
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+interface Plot {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function Legend({ labels, x, y }: { labels: string[]; x: number; y: number }) {
+  return (
+    <g>
+      {labels.map((label, i) => (
+        <g key={i} transform={`translate(${x}, ${y + i * 18})`}>
+          <rect width={10} height={10} y={-9} fill={color(i)} rx={2} />
+          <text x={14} fontSize={FONT_SIZE} fill={TEXT}>{truncate(label, 14)}</text>
+        </g>
+      ))}
+    </g>
+  );
+}
+
+// Horizontal gridlines labelled with their values
+function ValueAxis({ plot, ticks }: { plot: Plot; ticks: number[] }) {
+  const min = ticks[0];
+  const max = ticks[ticks.length - 1];
+  return (
+    <g>
+      {ticks.map(tick => {
+        const y = plot.top + plot.height - ((tick - min) / (max - min)) * plot.height;
+        return (
+          <g key={tick}>
+            <line x1={plot.left} x2={plot.left + plot.width} y1={y} y2={y} stroke={GRID} />
+            <text x={plot.left - 6} y={y + 4} fontSize={FONT_SIZE} fill={TEXT} textAnchor="end">
+              {formatChartNumber(tick)}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+// Category labels under evenly spaced bands, skipping some when crowded
+function CategoryAxis({ plot, categories }: { plot: Plot; categories: string[] }) {
+  const band = plot.width / categories.length;
+  const every = Math.max(1, Math.ceil(60 / band));
+  return (
+    <g>
+      {categories.map((category, i) => (i % every === 0 ? (
+        <text
+          key={i}
+          x={plot.left + band * (i + 0.5)}
+          y={plot.top + plot.height + 16}
+          fontSize={FONT_SIZE}
+          fill={TEXT}
+          textAnchor="middle"
+        >
+          {truncate(category, Math.max(4, Math.floor((band * every) / 7)))}
+        </text>
+      ) : null))}
+    </g>
+  );
+}
+
+function PieChart({ data, plot }: { data: ChartData; plot: Plot }) {
+  const values = data.series[0]?.values ?? [];
+  const slices = values
+    .map((value, i) => ({ value: value ?? 0, label: data.categories[i], index: i }))
+    .filter(slice => slice.value > 0);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const radius = Math.min(plot.width, plot.height) / 2;
+  const cx = plot.left + plot.width / 2;
+  const cy = plot.top + plot.height / 2;
+
+  let angle = -Math.PI / 2;
+  return (
+    <g>
+      {slices.map(slice => {
+        const sweep = (slice.value / total) * Math.PI * 2;
+        const start = angle;
+        angle += sweep;
+        const title = <title>{`${slice.label}: ${formatChartNumber(slice.value)}`}</title>;
+        if (slices.length === 1) {
+          return <circle key={slice.index} cx={cx} cy={cy} r={radius} fill={color(slice.index)}>{title}</circle>;
+        }
+        const x1 = cx + radius * Math.cos(start);
+        const y1 = cy + radius * Math.sin(start);
+        const x2 = cx + radius * Math.cos(angle);
+        const y2 = cy + radius * Math.sin(angle);
+        const path = `M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${sweep > Math.PI ? 1 : 0} 1 ${x2} ${y2} Z`;
+        return <path key={slice.index} d={path} fill={color(slice.index)} stroke="white">{title}</path>;
+      })}
+    </g>
+  );
+}
+
+function ScatterChart({ data, plot }: { data: ChartData; plot: Plot }) {
+  const points = data.series.flatMap((series, s) =>
+    series.values.flatMap((y, i) => {
+      const x = data.xValues[i];
+      return x === null || y === null ? [] : [{ x, y, s }];
+    })
+  );
+  if (points.length === 0) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const xTicks = getAxisTicks(lowest(xs), highest(xs));
+  const yTicks = getAxisTicks(lowest(ys), highest(ys));
+  const xOf = (x: number) => plot.left + ((x - xTicks[0]) / (xTicks[xTicks.length - 1] - xTicks[0])) * plot.width;
+  const yOf = (y: number) => plot.top + plot.height - ((y - yTicks[0]) / (yTicks[yTicks.length - 1] - yTicks[0])) * plot.height;
+
+  return (
+    <g>
+      <ValueAxis plot={plot} ticks={yTicks} />
+      {xTicks.map(tick => (
+        <text key={tick} x={xOf(tick)} y={plot.top + plot.height + 16} fontSize={FONT_SIZE} fill={TEXT} textAnchor="middle">
+          {formatChartNumber(tick)}
+        </text>
+      ))}
+      {points.map((point, i) => (
+        <circle key={i} cx={xOf(point.x)} cy={yOf(point.y)} r={3.5} fill={color(point.s)}>
+          <title>{`${data.series[point.s].name}: (${formatChartNumber(point.x)}, ${formatChartNumber(point.y)})`}</title>
+        </circle>
+      ))}
+    </g>
+  );
+}
+
+// Bar, line, area and histogram charts: values over categories
+function CategoryChart({ chart, data, plot }: { chart: Chart; data: ChartData; plot: Plot }) {
+  const values = data.series.flatMap(series => series.values.filter((v): v is number => v !== null));
+  if (values.length === 0) return null;
+
+  // Bars and areas start from zero; lines fit the data
+  const fromZero = chart.type !== 'line';
+  const low = fromZero ? Math.min(lowest(values), 0) : lowest(values);
+  const high = fromZero ? Math.max(highest(values), 0) : highest(values);
+  const ticks = getAxisTicks(low, high);
+  const min = ticks[0];
+  const max = ticks[ticks.length - 1];
+  const yOf = (value: number) => plot.top + plot.height - ((value - min) / (max - min)) * plot.height;
+  const baseline = yOf(Math.max(min, Math.min(0, max)));
+  const band = plot.width / data.categories.length;
+  const centerOf = (i: number) => plot.left + band * (i + 0.5);
+
+  const label = (s: number, i: number, value: number) =>
+    `${data.categories[i]}${data.series.length > 1 ? ` (${data.series[s].name})` : ''}: ${formatChartNumber(value)}`;
+
+  let marks: React.ReactNode;
+  if (chart.type === 'bar' || chart.type === 'histogram') {
+    // Histogram bins touch; bars of a category sit side by side
+    const groupWidth = chart.type === 'histogram' ? band - 1 : band * 0.8;
+    const barWidth = groupWidth / data.series.length;
+    marks = data.series.map((series, s) => series.values.map((value, i) => {
+      if (value === null) return null;
+      const y = yOf(value);
+      return (
+        <rect
+          key={`${s}-${i}`}
+          x={centerOf(i) - groupWidth / 2 + s * barWidth}
+          y={Math.min(y, baseline)}
+          width={Math.max(barWidth, 1)}
+          height={Math.abs(baseline - y)}
+          fill={color(s)}
+        >
+          <title>{label(s, i, value)}</title>
+        </rect>
+      );
+    }));
+  } else {
+    marks = data.series.map((series, s) => {
+      // Blank cells break the line
+      const segments: Array<Array<[number, number]>> = [[]];
+      series.values.forEach((value, i) => {
+        if (value === null) {
+          segments.push([]);
+        } else {
+          segments[segments.length - 1].push([centerOf(i), yOf(value)]);
+        }
+      });
+      return (
+        <g key={s}>
+          {segments.filter(points => points.length).map((points, j) => {
+            const line = points.map(([x, y], k) => `${k ? 'L' : 'M'} ${x} ${y}`).join(' ');
+            return (
+              <g key={j}>
+                {chart.type === 'area' && (
+                  <path
+                    d={`${line} L ${points[points.length - 1][0]} ${baseline} L ${points[0][0]} ${baseline} Z`}
+                    fill={color(s)}
+                    fillOpacity={0.3}
+                  />
+                )}
+                <path d={line} fill="none" stroke={color(s)} strokeWidth={2} />
+              </g>
+            );
+          })}
+          {chart.type === 'line' && series.values.map((value, i) => (value === null ? null : (
+            <circle key={i} cx={centerOf(i)} cy={yOf(value)} r={3} fill={color(s)}>
+              <title>{label(s, i, value)}</title>
+            </circle>
+          )))}
+        </g>
+      );
+    });
+  }
+
+  return (
+    <g>
+      <ValueAxis plot={plot} ticks={ticks} />
+      <CategoryAxis plot={plot} categories={data.categories} />
+      {marks}
+    </g>
+  );
+}
+
+/**
+ * A chart drawn as SVG from its data
+ */
+export const ChartView: React.FC<Props> = ({ chart, data, width, height }) => {
+  const isPie = chart.type === 'pie';
+  const legend = isPie ? data.categories : data.series.length > 1 ? data.series.map(series => series.name) : [];
+  const legendWidth = legend.length ? 110 : 0;
+  const top = chart.title ? 32 : 12;
+  const plot: Plot = isPie
+    ? { left: 12, top, width: width - legendWidth - 24, height: height - top - 12 }
+    : { left: 48, top, width: width - legendWidth - 60, height: height - top - 32 };
+  const hasData = data.categories.length > 0 && data.series.some(series => series.values.some(value => value !== null));
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={chart.title || `${CHART_TYPE_LABELS[chart.type]} chart`}
+      fontFamily="inherit"
+    >
+      <rect width={width} height={height} fill="white" />
+      {chart.title && (
+        <text x={width / 2} y={20} fontSize={14} fontWeight={500} fill="#202124" textAnchor="middle">
+          {chart.title}
+        </text>
+      )}
+      {!hasData || plot.width <= 0 || plot.height <= 0 ? (
+        <text x={width / 2} y={height / 2} fontSize={12} fill={TEXT} textAnchor="middle">No data</text>
+      ) : isPie ? (
+        <PieChart data={data} plot={plot} />
+      ) : chart.type === 'scatter' ? (
+        <ScatterChart data={data} plot={plot} />
+      ) : (
+        <CategoryChart chart={chart} data={data} plot={plot} />
+      )}
+      {hasData && legend.length > 0 && <Legend labels={legend} x={width - legendWidth + 8} y={top + 12} />}
+    </svg>
+  );
+};
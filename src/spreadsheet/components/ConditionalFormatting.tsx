@@ -1,7 +1,23 @@
-import React, { useState, useContext } from 'react';
+import React, { useState, useContext, useEffect, useRef } from 'react';
 import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
 import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
-import { ConditionalFormat, SelectionRect } from '../types/spreadsheet';
+import { CellFormat, ConditionalFormat, ConditionalFormatRule, SelectionRect } from '../types/spreadsheet';
+import { offsetFormulaReferences } from '../utils/formulaUtils';
+import { normalizeRect } from '../utils/selectionUtils';
+import {
+  createColorScale,
+  createConditionalFormatId,
+  createDataBar,
+  createIconSet,
+  formatAppliesTo,
+  isVisualizationRule,
+  parseAppliesTo,
+} from '../utils/conditionalFormattingUtils';
+import {
+  ConditionalVisualizationEditor,
+  ConditionalVisualizationPreview,
+  ICON_SET_LABELS,
+} from './ConditionalVisualizationEditor';
 import styles from './ConditionalFormatting.module.css';
 
 interface ConditionalFormattingProps {
@@ -10,12 +26,70 @@ interface ConditionalFormattingProps {
   selectedRange?: SelectionRect;
 }
 
+const TYPE_LABELS: Record<ConditionalFormat['type'], string> = {
+  cellValue: 'Cell value',
+  textContains: 'Text',
+  dateOccurring: 'Date',
+  formula: 'Formula',
+  colorScale: 'Color scale',
+  dataBar: 'Data bar',
+  iconSet: 'Icon set',
+};
+
+const CONDITION_LABELS: Record<NonNullable<ConditionalFormat['condition']>, string> = {
+  greaterThan: 'greater than',
+  lessThan: 'less than',
+  between: 'between',
+  notBetween: 'not between',
+  equal: 'equal to',
+  notEqual: 'not equal to',
+  contains: 'contains',
+  notContains: 'does not contain',
+  startsWith: 'starts with',
+  endsWith: 'ends with',
+};
+
+// e.g. "Cell value between 1 and 10"
+function describeRule(rule: ConditionalFormat): string {
+  if (rule.colorScale) return `Color scale (${rule.colorScale.mid ? 3 : 2} colors)`;
+  if (rule.iconSet) return `Icon set: ${ICON_SET_LABELS[rule.iconSet.name]}`;
+  if (rule.type === 'formula') return `Formula: ${rule.value1 ?? ''}`;
+  if (!rule.condition) return TYPE_LABELS[rule.type];
+  const text = `${TYPE_LABELS[rule.type]} ${CONDITION_LABELS[rule.condition]} ${rule.value1 ?? ''}`;
+  return rule.condition === 'between' || rule.condition === 'notBetween' ? `${text} and ${rule.value2 ?? ''}` : text;
+}
+
+// The rule the builder switches to when another type is picked
+function ruleOfType(type: ConditionalFormat['type'], current: ConditionalFormat): ConditionalFormat {
+  switch (type) {
+    case 'colorScale':
+      return createColorScale(['#f8696b', '#ffeb84', '#63be7b']);
+    case 'dataBar':
+      return createDataBar('#638ec6', { negativeColor: '#ff0000' });
+    case 'iconSet':
+      return createIconSet('3Arrows');
+    default:
+      return isVisualizationRule(current)
+        ? { type, condition: 'greaterThan', value1: '', format: { backgroundColor: '#ff9999', color: '#000000' } }
+        : { ...current, type };
+  }
+}
+
+const previewStyle = (format: CellFormat): React.CSSProperties => ({
+  backgroundColor: format.backgroundColor,
+  color: format.color,
+  fontWeight: format.bold ? 'bold' : 'normal',
+  fontStyle: format.italic ? 'italic' : 'normal',
+  textDecoration: format.underline ? 'underline' : 'none',
+  fontFamily: format.fontFamily,
+});
+
 export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> = ({
   isVisible,
   onClose,
   selectedRange,
 }) => {
-  const [activeTab, setActiveTab] = useState<'rules' | 'templates' | 'dfir'>('rules');
+  const [activeTab, setActiveTab] = useState<'rules' | 'templates' | 'dfir' | 'manage'>('rules');
   const [currentRule, setCurrentRule] = useState<ConditionalFormat>({
     type: 'cellValue',
     condition: 'greaterThan',
@@ -25,52 +99,103 @@ export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> =
       color: '#000000',
     }
   });
+  const [stopIfTrue, setStopIfTrue] = useState(false);
+  const [appliesTo, setAppliesTo] = useState('');
+  // The sheet rule loaded into Custom Rules for editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
   // Try persisted context first, fall back to enhanced
   const persistedContext = useContext(SpreadsheetContext);
   const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
   const context = persistedContext || enhancedContext;
+  const state = context?.state;
+
+  // New rules apply to the selection the panel was opened on; selecting
+  // other cells while it's open leaves "Applies to" alone
+  const selection = useRef(state?.selection.ranges);
+  selection.current = state?.selection.ranges;
+  useEffect(() => {
+    if (!isVisible || !selection.current) return;
+    setAppliesTo(formatAppliesTo(selectedRange ? [selectedRange] : selection.current));
+    setEditingId(null);
+    setError(null);
+  }, [isVisible, selectedRange]);
 
-  if (!context || !isVisible) {
+  if (!context || !state || !isVisible) {
     return null;
   }
 
-  const { state, setCell } = context;
-
-  const applyConditionalFormat = (rule: ConditionalFormat, range?: SelectionRect) => {
-    const targetRange = range || selectedRange || {
-      startRow: 0,
-      startCol: 0,
-      endRow: Math.min(state.maxRows - 1, 100),
-      endCol: Math.min(state.maxCols - 1, 10)
-    };
-
-    for (let row = targetRange.startRow; row <= targetRange.endRow; row++) {
-      for (let col = targetRange.startCol; col <= targetRange.endCol; col++) {
-        const cellKey = `${row}:${col}`;
-        const existingCell = state.data.get(cellKey);
-        
-        setCell(row, col, {
-          value: existingCell?.value || '',
-          format: {
-            ...existingCell?.format,
-            conditionalFormat: rule
-          }
-        });
-      }
+  const { dispatch } = context;
+  const rules = state.conditionalFormats ?? [];
+
+  const parseRanges = (): SelectionRect[] | null => {
+    const ranges = parseAppliesTo(state, appliesTo);
+    setError(ranges ? null : 'Enter ranges on this sheet, e.g. A1:A20, C1:C20');
+    return ranges;
+  };
+
+  // Add a rule over the "Applies to" ranges, at the highest priority
+  const addRule = (rule: ConditionalFormat, stop = false) => {
+    const ranges = parseRanges();
+    if (!ranges) return;
+    dispatch({
+      type: 'ADD_CONDITIONAL_FORMAT',
+      payload: {
+        rule: { ...rule, id: createConditionalFormatId(), ranges, stopIfTrue: (stop && !isVisualizationRule(rule)) || undefined },
+      },
+    });
+    setActiveTab('manage');
+  };
+
+  // Template formulas are written for A1; move them to the first range's top-left cell
+  const addTemplate = (rule: ConditionalFormat) => {
+    const anchor = parseAppliesTo(state, appliesTo)?.[0];
+    if (rule.type !== 'formula' || !rule.value1 || !anchor) {
+      addRule(rule);
+      return;
     }
-    
-    onClose();
+    const { startRow, startCol } = normalizeRect(anchor);
+    addRule({ ...rule, value1: offsetFormulaReferences(`=${rule.value1}`, startRow, startCol) });
+  };
+
+  const saveRule = () => {
+    const ranges = parseRanges();
+    if (!editingId || !ranges) return;
+    dispatch({
+      type: 'UPDATE_CONDITIONAL_FORMAT',
+      payload: {
+        rule: { ...currentRule, id: editingId, ranges, stopIfTrue: (stopIfTrue && !isVisualizationRule(currentRule)) || undefined },
+      },
+    });
+    setEditingId(null);
+    setActiveTab('manage');
+  };
+
+  const editRule = (rule: ConditionalFormatRule) => {
+    const { id, ranges, stopIfTrue: stop, ...conditionalFormat } = rule;
+    setCurrentRule(conditionalFormat);
+    setStopIfTrue(!!stop);
+    setAppliesTo(formatAppliesTo(ranges));
+    setEditingId(id);
+    setError(null);
+    setActiveTab('rules');
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setError(null);
+    setActiveTab('manage');
   };
 
   const predefinedRules = [
     {
       name: 'Highlight Duplicates',
-      description: 'Highlight duplicate values in red',
+      description: 'Highlight values repeated in their column in red',
       rule: {
         type: 'formula' as const,
         condition: 'equal' as const,
-        value1: 'COUNTIF(range, value) > 1',
+        value1: 'COUNTIF(A:A, A1) > 1',
         format: { backgroundColor: '#ff9999', color: '#000000' }
       }
     },
@@ -103,6 +228,21 @@ export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> =
         value1: 'AVERAGE(range)',
         format: { backgroundColor: '#cce5ff', color: '#000000' }
       }
+    },
+    {
+      name: 'Color Scale',
+      description: 'Shade numbers from red (lowest) through yellow to green (highest)',
+      rule: createColorScale(['#f8696b', '#ffeb84', '#63be7b'])
+    },
+    {
+      name: 'Data Bars',
+      description: 'Bars sized by each number, red below zero',
+      rule: createDataBar('#638ec6', { negativeColor: '#ff0000' })
+    },
+    {
+      name: 'Traffic Lights',
+      description: 'Red, yellow and green lights for the lowest, middle and highest thirds',
+      rule: createIconSet('3TrafficLights1')
     }
   ];
 
@@ -208,9 +348,30 @@ export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> =
           >
             DFIR Rules
           </button>
+          <button 
+            className={`${styles.tab} ${activeTab === 'manage' ? styles.active : ''}`}
+            onClick={() => setActiveTab('manage')}
+          >
+            Manage Rules ({rules.length})
+          </button>
         </div>
 
         <div className={styles.content}>
+          {activeTab !== 'manage' && (
+            <div className={`${styles.formGroup} ${styles.appliesTo}`}>
+              <label htmlFor="conditional-format-applies-to">Applies to:</label>
+              <input
+                id="conditional-format-applies-to"
+                type="text"
+                value={appliesTo}
+                onChange={(e) => setAppliesTo(e.target.value)}
+                className={styles.input}
+                placeholder="A1:A20, C1:C20"
+              />
+              {error && <div className={styles.error} role="alert">{error}</div>}
+            </div>
+          )}
+
           {activeTab === 'rules' && (
             <div className={styles.rulesTab}>
               <div className={styles.ruleBuilder}>
@@ -218,152 +379,182 @@ export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> =
                   <label>Rule Type:</label>
                   <select 
                     value={currentRule.type}
-                    onChange={(e) => setCurrentRule({
-                      ...currentRule, 
-                      type: e.target.value as ConditionalFormat['type']
-                    })}
+                    onChange={(e) => setCurrentRule(ruleOfType(e.target.value as ConditionalFormat['type'], currentRule))}
                     className={styles.select}
                   >
                     <option value="cellValue">Cell Value</option>
                     <option value="textContains">Text Contains</option>
                     <option value="dateOccurring">Date Occurring</option>
                     <option value="formula">Custom Formula</option>
+                    <option value="colorScale">Color Scale</option>
+                    <option value="dataBar">Data Bar</option>
+                    <option value="iconSet">Icon Set</option>
                   </select>
                 </div>
 
-                <div className={styles.formGroup}>
-                  <label>Condition:</label>
-                  <select 
-                    value={currentRule.condition}
-                    onChange={(e) => setCurrentRule({
-                      ...currentRule, 
-                      condition: e.target.value as ConditionalFormat['condition']
-                    })}
-                    className={styles.select}
-                  >
-                    <option value="greaterThan">Greater Than</option>
-                    <option value="lessThan">Less Than</option>
-                    <option value="between">Between</option>
-                    <option value="equal">Equal To</option>
-                    <option value="notEqual">Not Equal To</option>
-                    <option value="contains">Contains</option>
-                    <option value="startsWith">Starts With</option>
-                    <option value="endsWith">Ends With</option>
-                  </select>
-                </div>
-
-                <div className={styles.formGroup}>
-                  <label>Value:</label>
-                  <input
-                    type="text"
-                    value={currentRule.value1 || ''}
-                    onChange={(e) => setCurrentRule({...currentRule, value1: e.target.value})}
-                    className={styles.input}
-                    placeholder="Enter value or formula..."
-                  />
-                </div>
-
-                {currentRule.condition === 'between' && (
-                  <div className={styles.formGroup}>
-                    <label>And:</label>
-                    <input
-                      type="text"
-                      value={currentRule.value2 || ''}
-                      onChange={(e) => setCurrentRule({...currentRule, value2: e.target.value})}
-                      className={styles.input}
-                      placeholder="Enter second value..."
-                    />
-                  </div>
-                )}
+                {isVisualizationRule(currentRule) ? (
+                  <ConditionalVisualizationEditor rule={currentRule} onChange={setCurrentRule} />
+                ) : (
+                  <>
+                    {currentRule.type !== 'formula' && (
+                      <div className={styles.formGroup}>
+                        <label>Condition:</label>
+                        <select 
+                          value={currentRule.condition}
+                          onChange={(e) => setCurrentRule({
+                            ...currentRule, 
+                            condition: e.target.value as ConditionalFormat['condition']
+                          })}
+                          className={styles.select}
+                        >
+                          <option value="greaterThan">Greater Than</option>
+                          <option value="lessThan">Less Than</option>
+                          <option value="between">Between</option>
+                          <option value="equal">Equal To</option>
+                          <option value="notEqual">Not Equal To</option>
+                          <option value="contains">Contains</option>
+                          <option value="startsWith">Starts With</option>
+                          <option value="endsWith">Ends With</option>
+                        </select>
+                      </div>
+                    )}
 
-                <div className={styles.formatSection}>
-                  <h4>Format Options</h4>
-                  <div className={styles.formatGrid}>
                     <div className={styles.formGroup}>
-                      <label>Background:</label>
+                      <label>{currentRule.type === 'formula' ? 'Format cells where this formula is true:' : 'Value:'}</label>
                       <input
-                        type="color"
-                        value={currentRule.format.backgroundColor || '#ffffff'}
-                        onChange={(e) => setCurrentRule({
-                          ...currentRule,
-                          format: { ...currentRule.format, backgroundColor: e.target.value }
-                        })}
-                        className={styles.colorInput}
+                        type="text"
+                        value={currentRule.value1 || ''}
+                        onChange={(e) => setCurrentRule({...currentRule, value1: e.target.value})}
+                        className={styles.input}
+                        placeholder={currentRule.type === 'formula' ? '=AND($E2="High", COUNTIF($C:$C,$C2)>1)' : 'Enter value or formula...'}
                       />
+                      {currentRule.type === 'formula' && (
+                        <span className={styles.hint}>
+                          Write the formula for the top-left cell of the first range. Relative references move with each cell; $ keeps a column or row fixed.
+                        </span>
+                      )}
                     </div>
-                    <div className={styles.formGroup}>
-                      <label>Text Color:</label>
-                      <input
-                        type="color"
-                        value={currentRule.format.color || '#000000'}
-                        onChange={(e) => setCurrentRule({
-                          ...currentRule,
-                          format: { ...currentRule.format, color: e.target.value }
-                        })}
-                        className={styles.colorInput}
-                      />
+
+                    {currentRule.type !== 'formula' && currentRule.condition === 'between' && (
+                      <div className={styles.formGroup}>
+                        <label>And:</label>
+                        <input
+                          type="text"
+                          value={currentRule.value2 || ''}
+                          onChange={(e) => setCurrentRule({...currentRule, value2: e.target.value})}
+                          className={styles.input}
+                          placeholder="Enter second value..."
+                        />
+                      </div>
+                    )}
+
+                    <div className={styles.formatSection}>
+                      <h4>Format Options</h4>
+                      <div className={styles.formatGrid}>
+                        <div className={styles.formGroup}>
+                          <label>Background:</label>
+                          <input
+                            type="color"
+                            value={currentRule.format.backgroundColor || '#ffffff'}
+                            onChange={(e) => setCurrentRule({
+                              ...currentRule,
+                              format: { ...currentRule.format, backgroundColor: e.target.value }
+                            })}
+                            className={styles.colorInput}
+                          />
+                        </div>
+                        <div className={styles.formGroup}>
+                          <label>Text Color:</label>
+                          <input
+                            type="color"
+                            value={currentRule.format.color || '#000000'}
+                            onChange={(e) => setCurrentRule({
+                              ...currentRule,
+                              format: { ...currentRule.format, color: e.target.value }
+                            })}
+                            className={styles.colorInput}
+                          />
+                        </div>
+                      </div>
+
+                      <div className={styles.styleOptions}>
+                        <label className={styles.checkboxLabel}>
+                          <input
+                            type="checkbox"
+                            checked={currentRule.format.bold || false}
+                            onChange={(e) => setCurrentRule({
+                              ...currentRule,
+                              format: { ...currentRule.format, bold: e.target.checked }
+                            })}
+                          />
+                          Bold
+                        </label>
+                        <label className={styles.checkboxLabel}>
+                          <input
+                            type="checkbox"
+                            checked={currentRule.format.italic || false}
+                            onChange={(e) => setCurrentRule({
+                              ...currentRule,
+                              format: { ...currentRule.format, italic: e.target.checked }
+                            })}
+                          />
+                          Italic
+                        </label>
+                        <label className={styles.checkboxLabel}>
+                          <input
+                            type="checkbox"
+                            checked={currentRule.format.underline || false}
+                            onChange={(e) => setCurrentRule({
+                              ...currentRule,
+                              format: { ...currentRule.format, underline: e.target.checked }
+                            })}
+                          />
+                          Underline
+                        </label>
+                      </div>
                     </div>
-                  </div>
 
-                  <div className={styles.styleOptions}>
-                    <label className={styles.checkboxLabel}>
-                      <input
-                        type="checkbox"
-                        checked={currentRule.format.bold || false}
-                        onChange={(e) => setCurrentRule({
-                          ...currentRule,
-                          format: { ...currentRule.format, bold: e.target.checked }
-                        })}
-                      />
-                      Bold
-                    </label>
-                    <label className={styles.checkboxLabel}>
-                      <input
-                        type="checkbox"
-                        checked={currentRule.format.italic || false}
-                        onChange={(e) => setCurrentRule({
-                          ...currentRule,
-                          format: { ...currentRule.format, italic: e.target.checked }
-                        })}
-                      />
-                      Italic
-                    </label>
-                    <label className={styles.checkboxLabel}>
-                      <input
-                        type="checkbox"
-                        checked={currentRule.format.underline || false}
-                        onChange={(e) => setCurrentRule({
-                          ...currentRule,
-                          format: { ...currentRule.format, underline: e.target.checked }
-                        })}
-                      />
-                      Underline
-                    </label>
-                  </div>
-                </div>
+                    <div className={styles.preview}>
+                      <label>Preview:</label>
+                      <div 
+                        className={styles.previewCell}
+                        style={previewStyle(currentRule.format)}
+                      >
+                        Sample Text
+                      </div>
+                    </div>
+                  </>
+                )}
 
-                <div className={styles.preview}>
-                  <label>Preview:</label>
-                  <div 
-                    className={styles.previewCell}
-                    style={{
-                      backgroundColor: currentRule.format.backgroundColor,
-                      color: currentRule.format.color,
-                      fontWeight: currentRule.format.bold ? 'bold' : 'normal',
-                      fontStyle: currentRule.format.italic ? 'italic' : 'normal',
-                      textDecoration: currentRule.format.underline ? 'underline' : 'none',
-                    }}
-                  >
-                    Sample Text
-                  </div>
-                </div>
+                {!isVisualizationRule(currentRule) && (
+                  <label className={styles.checkboxLabel}>
+                    <input
+                      type="checkbox"
+                      checked={stopIfTrue}
+                      onChange={(e) => setStopIfTrue(e.target.checked)}
+                    />
+                    Stop if true (skip lower rules when this one matches)
+                  </label>
+                )}
 
-                <button 
-                  className={styles.applyButton}
-                  onClick={() => applyConditionalFormat(currentRule)}
-                >
-                  Apply Rule
-                </button>
+                {editingId ? (
+                  <div className={styles.editActions}>
+                    <button className={styles.applyButton} onClick={saveRule} disabled={state.readOnly}>
+                      Save Rule
+                    </button>
+                    <button className={styles.templateButton} onClick={cancelEdit}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button 
+                    className={styles.applyButton}
+                    onClick={() => addRule(currentRule, stopIfTrue)}
+                    disabled={state.readOnly}
+                  >
+                    Apply Rule
+                  </button>
+                )}
               </div>
             </div>
           )}
@@ -379,18 +570,23 @@ export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> =
                   <div key={index} className={styles.templateCard}>
                     <div className={styles.templateHeader}>
                       <h4>{template.name}</h4>
-                      <div 
-                        className={styles.templatePreview}
-                        style={{
-                          backgroundColor: template.rule.format.backgroundColor,
-                          color: template.rule.format.color
-                        }}
-                      />
+                      {isVisualizationRule(template.rule) ? (
+                        <ConditionalVisualizationPreview rule={template.rule} className={styles.templatePreview} />
+                      ) : (
+                        <div 
+                          className={styles.templatePreview}
+                          style={{
+                            backgroundColor: template.rule.format.backgroundColor,
+                            color: template.rule.format.color
+                          }}
+                        />
+                      )}
                     </div>
                     <p className={styles.templateDescription}>{template.description}</p>
                     <button 
                       className={styles.templateButton}
-                      onClick={() => applyConditionalFormat(template.rule)}
+                      onClick={() => addTemplate(template.rule)}
+                      disabled={state.readOnly}
                     >
                       Apply Template
                     </button>
@@ -426,7 +622,8 @@ export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> =
                     <p className={styles.dfirRuleDescription}>{rule.description}</p>
                     <button 
                       className={styles.dfirRuleButton}
-                      onClick={() => applyConditionalFormat(rule.rule)}
+                      onClick={() => addTemplate(rule.rule)}
+                      disabled={state.readOnly}
                     >
                       Apply DFIR Rule
                     </button>
@@ -435,6 +632,79 @@ export const ConditionalFormattingPanel: React.FC<ConditionalFormattingProps> =
               </div>
             </div>
           )}
+
+          {activeTab === 'manage' && (
+            <div className={styles.manageTab}>
+              <p className={styles.description}>
+                Rules apply from the top of the list down. Where matching rules set the same
+                format, the higher rule wins.
+              </p>
+
+              {rules.length === 0 ? (
+                <p className={styles.emptyMessage}>No conditional formatting rules on this sheet.</p>
+              ) : (
+                <ul className={styles.ruleList}>
+                  {rules.map((rule, index) => (
+                    <li key={rule.id} className={styles.ruleItem}>
+                      {isVisualizationRule(rule) ? (
+                        <ConditionalVisualizationPreview rule={rule} className={styles.rulePreview} />
+                      ) : (
+                        <div className={styles.rulePreview} style={previewStyle(rule.format)}>
+                          Sample
+                        </div>
+                      )}
+                      <div className={styles.ruleSummary}>
+                        <span>{describeRule(rule)}</span>
+                        <span className={styles.ruleRange}>{formatAppliesTo(rule.ranges)}</span>
+                      </div>
+                      {!isVisualizationRule(rule) && (
+                        <label className={styles.checkboxLabel}>
+                          <input
+                            type="checkbox"
+                            checked={!!rule.stopIfTrue}
+                            onChange={(e) => dispatch({
+                              type: 'UPDATE_CONDITIONAL_FORMAT',
+                              payload: { rule: { ...rule, stopIfTrue: e.target.checked || undefined } },
+                            })}
+                            disabled={state.readOnly}
+                          />
+                          Stop if true
+                        </label>
+                      )}
+                      <div className={styles.ruleActions}>
+                        <button
+                          className={styles.iconButton}
+                          onClick={() => dispatch({ type: 'MOVE_CONDITIONAL_FORMAT', payload: { id: rule.id, toIndex: index - 1 } })}
+                          disabled={state.readOnly || index === 0}
+                          aria-label="Move up"
+                        >
+                          ↑
+                        </button>
+                        <button
+                          className={styles.iconButton}
+                          onClick={() => dispatch({ type: 'MOVE_CONDITIONAL_FORMAT', payload: { id: rule.id, toIndex: index + 1 } })}
+                          disabled={state.readOnly || index === rules.length - 1}
+                          aria-label="Move down"
+                        >
+                          ↓
+                        </button>
+                        <button className={styles.iconButton} onClick={() => editRule(rule)} disabled={state.readOnly}>
+                          Edit
+                        </button>
+                        <button
+                          className={styles.iconButton}
+                          onClick={() => dispatch({ type: 'DELETE_CONDITIONAL_FORMAT', payload: { id: rule.id } })}
+                          disabled={state.readOnly}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
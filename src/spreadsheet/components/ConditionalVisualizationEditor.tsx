@@ -0,0 +1,279 @@
+import React from 'react';
+import { ColorScale, ConditionalFormat, ConditionalFormatThreshold, DataBar, IconSet, IconSetName } from '../types/spreadsheet';
+import { ICON_SETS, createIconSet } from '../utils/conditionalFormattingUtils';
+import styles from './ConditionalFormatting.module.css';
+
+type ThresholdType = ConditionalFormatThreshold['type'];
+
+const THRESHOLD_LABELS: Record<ThresholdType, string> = {
+  min: 'Lowest value',
+  max: 'Highest value',
+  number: 'Number',
+  percent: 'Percent',
+  percentile: 'Percentile',
+};
+
+export const ICON_SET_LABELS: Record<IconSetName, string> = {
+  '3Arrows': '3 arrows',
+  '4Arrows': '4 arrows',
+  '5Arrows': '5 arrows',
+  '3TrafficLights1': '3 traffic lights',
+  '4TrafficLights': '4 traffic lights',
+  '3Flags': '3 flags',
+};
+
+interface ThresholdEditorProps {
+  label: string;
+  // Undefined when automatic is offered and chosen
+  threshold: ConditionalFormatThreshold | undefined;
+  types: ThresholdType[];
+  automatic?: boolean;
+  onChange: (threshold: ConditionalFormatThreshold | undefined) => void;
+}
+
+const ThresholdEditor: React.FC<ThresholdEditorProps> = ({ label, threshold, types, automatic, onChange }) => {
+  const hasValue = !!threshold && threshold.type !== 'min' && threshold.type !== 'max';
+
+  return (
+    <div className={styles.thresholdRow}>
+      <span className={styles.thresholdLabel}>{label}</span>
+      <select
+        className={styles.select}
+        value={threshold?.type ?? 'auto'}
+        onChange={(e) => {
+          const type = e.target.value as ThresholdType | 'auto';
+          if (type === 'auto') {
+            onChange(undefined);
+          } else if (type === 'min' || type === 'max') {
+            onChange({ type });
+          } else {
+            onChange({ type, value: threshold?.value ?? (type === 'number' ? 0 : 50) });
+          }
+        }}
+        aria-label={`${label} type`}
+      >
+        {automatic && <option value="auto">Automatic</option>}
+        {types.map(type => (
+          <option key={type} value={type}>{THRESHOLD_LABELS[type]}</option>
+        ))}
+      </select>
+      {hasValue && (
+        <input
+          type="number"
+          className={`${styles.input} ${styles.thresholdValue}`}
+          value={threshold!.value ?? 0}
+          onChange={(e) => onChange({ ...threshold!, value: Number(e.target.value) })}
+          aria-label={`${label} value`}
+        />
+      )}
+    </div>
+  );
+};
+
+const ColorScaleEditor: React.FC<{ scale: ColorScale; onChange: (scale: ColorScale) => void }> = ({ scale, onChange }) => {
+  const points = [
+    { key: 'min' as const, label: 'Minpoint', types: ['min', 'number', 'percent', 'percentile'] as ThresholdType[] },
+    { key: 'mid' as const, label: 'Midpoint', types: ['number', 'percent', 'percentile'] as ThresholdType[] },
+    { key: 'max' as const, label: 'Maxpoint', types: ['max', 'number', 'percent', 'percentile'] as ThresholdType[] },
+  ];
+
+  return (
+    <>
+      <label className={styles.checkboxLabel}>
+        <input
+          type="checkbox"
+          checked={!!scale.mid}
+          onChange={(e) => onChange({
+            ...scale,
+            mid: e.target.checked ? { threshold: { type: 'percentile', value: 50 }, color: '#ffeb84' } : undefined,
+          })}
+        />
+        3-color scale
+      </label>
+      {points.map(({ key, label, types }) => {
+        const point = scale[key];
+        if (!point) return null;
+        return (
+          <div key={key} className={styles.scalePoint}>
+            <ThresholdEditor
+              label={label}
+              threshold={point.threshold}
+              types={types}
+              onChange={(threshold) => threshold && onChange({ ...scale, [key]: { ...point, threshold } })}
+            />
+            <input
+              type="color"
+              className={styles.colorInput}
+              value={point.color}
+              onChange={(e) => onChange({ ...scale, [key]: { ...point, color: e.target.value } })}
+              aria-label={`${label} color`}
+            />
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+const DataBarEditor: React.FC<{ bar: DataBar; onChange: (bar: DataBar) => void }> = ({ bar, onChange }) => (
+  <>
+    <div className={styles.formatGrid}>
+      <div className={styles.formGroup}>
+        <label>Bar color:</label>
+        <input
+          type="color"
+          className={styles.colorInput}
+          value={bar.color}
+          onChange={(e) => onChange({ ...bar, color: e.target.value })}
+        />
+      </div>
+      <div className={styles.formGroup}>
+        <label>Negative bar color:</label>
+        <input
+          type="color"
+          className={styles.colorInput}
+          value={bar.negativeColor ?? bar.color}
+          onChange={(e) => onChange({ ...bar, negativeColor: e.target.value })}
+        />
+      </div>
+    </div>
+    <ThresholdEditor
+      label="Shortest bar"
+      threshold={bar.min}
+      types={['min', 'number', 'percent', 'percentile']}
+      automatic
+      onChange={(min) => onChange({ ...bar, min })}
+    />
+    <ThresholdEditor
+      label="Longest bar"
+      threshold={bar.max}
+      types={['max', 'number', 'percent', 'percentile']}
+      automatic
+      onChange={(max) => onChange({ ...bar, max })}
+    />
+    <div className={styles.styleOptions}>
+      <label className={styles.checkboxLabel}>
+        <input
+          type="checkbox"
+          checked={!!bar.gradient}
+          onChange={(e) => onChange({ ...bar, gradient: e.target.checked })}
+        />
+        Gradient fill
+      </label>
+      <label className={styles.checkboxLabel}>
+        <input
+          type="checkbox"
+          checked={bar.showValue === false}
+          onChange={(e) => onChange({ ...bar, showValue: e.target.checked ? false : undefined })}
+        />
+        Show bar only
+      </label>
+    </div>
+  </>
+);
+
+const IconSetEditor: React.FC<{ iconSet: IconSet; onChange: (iconSet: IconSet) => void }> = ({ iconSet, onChange }) => {
+  const icons = ICON_SETS[iconSet.name];
+  const ordered = iconSet.reverse ? [...icons].reverse() : icons;
+
+  return (
+    <>
+      <div className={styles.formGroup}>
+        <label>Icon style:</label>
+        <select
+          className={styles.select}
+          value={iconSet.name}
+          onChange={(e) => {
+            const name = e.target.value as IconSetName;
+            // A set with a different number of icons needs new thresholds
+            const thresholds = ICON_SETS[name].length === icons.length
+              ? iconSet.thresholds
+              : createIconSet(name).iconSet!.thresholds;
+            onChange({ ...iconSet, name, thresholds });
+          }}
+        >
+          {(Object.keys(ICON_SETS) as IconSetName[]).map(name => (
+            <option key={name} value={name}>{ICON_SET_LABELS[name]}</option>
+          ))}
+        </select>
+      </div>
+      {iconSet.thresholds.map((threshold, i) => (
+        <div key={i} className={styles.scalePoint}>
+          <span className={styles.iconSample} style={{ color: ordered[i + 1].color }} aria-hidden="true">
+            {ordered[i + 1].symbol}
+          </span>
+          <ThresholdEditor
+            label="when value ≥"
+            threshold={threshold}
+            types={['number', 'percent', 'percentile']}
+            onChange={(next) => next && onChange({
+              ...iconSet,
+              thresholds: iconSet.thresholds.map((t, j) => (j === i ? next : t)),
+            })}
+          />
+        </div>
+      ))}
+      <div className={styles.styleOptions}>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={!!iconSet.reverse}
+            onChange={(e) => onChange({ ...iconSet, reverse: e.target.checked || undefined })}
+          />
+          Reverse icon order
+        </label>
+        <label className={styles.checkboxLabel}>
+          <input
+            type="checkbox"
+            checked={iconSet.showValue === false}
+            onChange={(e) => onChange({ ...iconSet, showValue: e.target.checked ? false : undefined })}
+          />
+          Show icon only
+        </label>
+      </div>
+    </>
+  );
+};
+
+interface Props {
+  rule: ConditionalFormat;
+  onChange: (rule: ConditionalFormat) => void;
+}
+
+// Settings of a color scale, data bar or icon set rule
+export const ConditionalVisualizationEditor: React.FC<Props> = ({ rule, onChange }) => {
+  if (rule.colorScale) {
+    return <ColorScaleEditor scale={rule.colorScale} onChange={(colorScale) => onChange({ ...rule, colorScale })} />;
+  }
+  if (rule.dataBar) {
+    return <DataBarEditor bar={rule.dataBar} onChange={(dataBar) => onChange({ ...rule, dataBar })} />;
+  }
+  if (rule.iconSet) {
+    return <IconSetEditor iconSet={rule.iconSet} onChange={(iconSet) => onChange({ ...rule, iconSet })} />;
+  }
+  return null;
+};
+
+// A sample of a color scale, data bar or icon set for rule lists and templates
+export const ConditionalVisualizationPreview: React.FC<{ rule: ConditionalFormat; className?: string }> = ({ rule, className }) => {
+  if (rule.colorScale) {
+    const { min, mid, max } = rule.colorScale;
+    const colors = [min.color, ...(mid ? [mid.color] : []), max.color];
+    return <div className={className} style={{ background: `linear-gradient(to right, ${colors.join(', ')})` }} />;
+  }
+  if (rule.dataBar) {
+    const { color, gradient } = rule.dataBar;
+    const fill = gradient ? `linear-gradient(to right, ${color}, transparent 60%)` : `linear-gradient(to right, ${color} 60%, transparent 60%)`;
+    return <div className={className} style={{ background: fill }} />;
+  }
+  if (rule.iconSet) {
+    return (
+      <div className={className}>
+        {ICON_SETS[rule.iconSet.name].map((icon, i) => (
+          <span key={i} style={{ color: icon.color }}>{icon.symbol}</span>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
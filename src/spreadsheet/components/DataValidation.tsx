@@ -21,6 +21,9 @@ export const DataValidation: React.FC<Props> = ({ row, col, onClose }) => {
   const [listItems, setListItems] = useState<string>(
     existingRule?.list?.join(', ') || ''
   );
+  const [sourceRange, setSourceRange] = useState<string>(
+    existingRule?.sourceRange || ''
+  );
   const [errorMessage, setErrorMessage] = useState<string>(
     existingRule?.errorMessage || ''
   );
@@ -46,6 +49,7 @@ export const DataValidation: React.FC<Props> = ({ row, col, onClose }) => {
         break;
       case 'list':
         rule.list = listItems.split(',').map(item => item.trim()).filter(Boolean);
+        if (sourceRange.trim()) rule.sourceRange = sourceRange.trim();
         break;
     }
 
@@ -55,7 +59,7 @@ export const DataValidation: React.FC<Props> = ({ row, col, onClose }) => {
     });
 
     onClose();
-  }, [validationType, min, max, listItems, errorMessage, showError, row, col, dispatch, onClose]);
+  }, [validationType, min, max, listItems, sourceRange, errorMessage, showError, row, col, dispatch, onClose]);
 
   const handleRemove = useCallback(() => {
     dispatch({
@@ -128,6 +132,19 @@ export const DataValidation: React.FC<Props> = ({ row, col, onClose }) => {
           </div>
         )}
 
+        {validationType === 'list' && (
+          <div className={styles.field}>
+            <label htmlFor="source-range">Source Range or Name:</label>
+            <input
+              id="source-range"
+              type="text"
+              value={sourceRange}
+              onChange={(e) => setSourceRange(e.target.value)}
+              placeholder="Analysts or Sheet2!$A$1:$A$20"
+            />
+          </div>
+        )}
+
         <div className={styles.field}>
           <label htmlFor="error-message">Error Message:</label>
           <input
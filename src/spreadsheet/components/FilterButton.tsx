@@ -8,6 +8,8 @@ interface FilterButtonProps {
   column: number;
   data: SparseMatrix<CellData>;
   maxRows: number;
+  // First row whose values are offered, e.g. below a table's header
+  startRow?: number;
   existingFilters: FilterRule[];
   onFilterChange: (filters: FilterRule[]) => void;
   hasActiveFilter?: boolean;
@@ -17,6 +19,7 @@ export const FilterButton: React.FC<FilterButtonProps> = ({
   column,
   data,
   maxRows,
+  startRow = 0,
   existingFilters,
   onFilterChange,
   hasActiveFilter = false,
@@ -44,7 +47,7 @@ export const FilterButton: React.FC<FilterButtonProps> = ({
     setShowFilter(false);
   };
 
-  const columnData = getColumnUniqueValues(data, column, maxRows);
+  const columnData = getColumnUniqueValues(data, column, maxRows, startRow);
 
   return (
     <>
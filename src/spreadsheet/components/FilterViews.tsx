@@ -0,0 +1,376 @@
+import React, { useContext, useState, useMemo, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { FilterCondition, FilterGroup, FilterRule, FilterView, keyOf } from '../types/spreadsheet';
+import { columnToLetter } from '../utils/columnUtils';
+import { DFIR_FILTERS } from '../utils/dfirUtils';
+import {
+  DFIR_FILTER_PRESETS,
+  createDFIRFilter,
+  createFilterGroup,
+  createFilterRule,
+  createFilterViewId,
+  isFilterGroup,
+} from '../utils/filterUtils';
+import styles from './FilterViews.module.css';
+
+interface Props {
+  onClose: () => void;
+}
+
+interface ColumnOption {
+  index: number;
+  label: string;
+}
+
+const CONDITIONS: Array<{ value: FilterRule['condition']; label: string }> = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'notEquals', label: 'Not Equals' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'notContains', label: 'Not Contains' },
+  { value: 'startsWith', label: 'Starts With' },
+  { value: 'endsWith', label: 'Ends With' },
+  { value: 'greaterThan', label: 'Greater Than' },
+  { value: 'lessThan', label: 'Less Than' },
+  { value: 'greaterEqual', label: 'Greater or Equal' },
+  { value: 'lessEqual', label: 'Less or Equal' },
+  { value: 'between', label: 'Between' },
+  { value: 'notBetween', label: 'Not Between' },
+  { value: 'isEmpty', label: 'Is Empty' },
+  { value: 'isNotEmpty', label: 'Is Not Empty' },
+];
+
+const NO_VALUE: Array<FilterRule['condition']> = ['isEmpty', 'isNotEmpty', 'isTrue', 'isFalse'];
+const TWO_VALUES: Array<FilterRule['condition']> = ['between', 'notBetween'];
+
+// "externalIPs" -> "External IPs"
+const presetLabel = (name: string): string => {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// What a rule tests, as a value of the condition select: a condition, or a
+// DFIR building block prefixed with where it comes from
+const ruleKind = (rule: FilterRule): string =>
+  rule.preset ? `preset:${rule.preset}` : rule.dfirFilter ? `dfir:${rule.dfirFilter.name}` : rule.condition;
+
+function ruleOfKind(kind: string, rule: FilterRule): FilterRule {
+  if (kind.startsWith('preset:')) {
+    return createDFIRFilter(kind.slice('preset:'.length) as keyof typeof DFIR_FILTER_PRESETS, rule.column);
+  }
+  if (kind.startsWith('dfir:')) {
+    const factory = DFIR_FILTERS[kind.slice('dfir:'.length) as keyof typeof DFIR_FILTERS] as (column: number) => FilterRule;
+    return factory(rule.column);
+  }
+  const custom = rule.type === 'custom';
+  return custom
+    ? createFilterRule(rule.column, kind as FilterRule['condition'], '')
+    : { ...rule, condition: kind as FilterRule['condition'] };
+}
+
+const emptyView = (): FilterView => ({ id: createFilterViewId(), name: '', filter: createFilterGroup('and', []) });
+
+// Views compared as saved, functions aside
+const sameView = (a: FilterView | undefined, b: FilterView): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const RuleEditor: React.FC<{
+  rule: FilterRule;
+  columns: ColumnOption[];
+  onChange: (rule: FilterRule) => void;
+  onRemove: () => void;
+}> = ({ rule, columns, onChange, onRemove }) => {
+  const custom = rule.type === 'custom';
+  const inputType = rule.type === 'number' ? 'number' : rule.type === 'date' ? 'date' : 'text';
+
+  return (
+    <div className={styles.rule}>
+      <select
+        value={rule.column}
+        onChange={(e) => onChange({ ...rule, column: Number(e.target.value) })}
+        aria-label="Column"
+      >
+        {columns.map(column => (
+          <option key={column.index} value={column.index}>{column.label}</option>
+        ))}
+      </select>
+
+      <select value={ruleKind(rule)} onChange={(e) => onChange(ruleOfKind(e.target.value, rule))} aria-label="Condition">
+        {CONDITIONS.map(condition => (
+          <option key={condition.value} value={condition.value}>{condition.label}</option>
+        ))}
+        <optgroup label="DFIR presets">
+          {Object.keys(DFIR_FILTER_PRESETS).map(name => (
+            <option key={name} value={`preset:${name}`}>{presetLabel(name)}</option>
+          ))}
+        </optgroup>
+        <optgroup label="DFIR filters">
+          {Object.keys(DFIR_FILTERS).map(name => (
+            <option key={name} value={`dfir:${name}`}>{presetLabel(name)}</option>
+          ))}
+        </optgroup>
+      </select>
+
+      {!custom && (
+        <select
+          value={rule.type}
+          onChange={(e) => onChange({ ...rule, type: e.target.value as FilterRule['type'] })}
+          aria-label="Data type"
+        >
+          <option value="text">Text</option>
+          <option value="number">Number</option>
+          <option value="date">Date</option>
+        </select>
+      )}
+
+      {!custom && !NO_VALUE.includes(rule.condition) && (
+        <input
+          type={inputType}
+          value={rule.value ?? ''}
+          onChange={(e) => onChange({ ...rule, value: e.target.value })}
+          aria-label="Value"
+        />
+      )}
+
+      {!custom && TWO_VALUES.includes(rule.condition) && (
+        <input
+          type={inputType}
+          value={rule.value2 ?? ''}
+          onChange={(e) => onChange({ ...rule, value2: e.target.value })}
+          aria-label="And"
+        />
+      )}
+
+      <button className={styles.removeCondition} onClick={onRemove} aria-label="Remove rule">
+        ×
+      </button>
+    </div>
+  );
+};
+
+const GroupEditor: React.FC<{
+  group: FilterGroup;
+  columns: ColumnOption[];
+  onChange: (group: FilterGroup) => void;
+  // Missing for the view's top-level group
+  onRemove?: () => void;
+}> = ({ group, columns, onChange, onRemove }) => {
+  const setCondition = (index: number, condition: FilterCondition) =>
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? condition : c)) });
+  const removeCondition = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  const addCondition = (condition: FilterCondition) =>
+    onChange({ ...group, conditions: [...group.conditions, condition] });
+
+  return (
+    <div className={styles.group}>
+      <div className={styles.groupHeader}>
+        <label className={styles.optionLabel}>
+          <input
+            type="checkbox"
+            checked={!!group.negate}
+            onChange={(e) => onChange({ ...group, negate: e.target.checked || undefined })}
+          />
+          NOT
+        </label>
+        <select
+          value={group.operator}
+          onChange={(e) => onChange({ ...group, operator: e.target.value as FilterGroup['operator'] })}
+          aria-label="Combine with"
+        >
+          <option value="and">All of (AND)</option>
+          <option value="or">Any of (OR)</option>
+        </select>
+        {onRemove && (
+          <button className={styles.removeCondition} onClick={onRemove} aria-label="Remove group">
+            ×
+          </button>
+        )}
+      </div>
+
+      {group.conditions.map((condition, index) =>
+        isFilterGroup(condition) ? (
+          <GroupEditor
+            key={index}
+            group={condition}
+            columns={columns}
+            onChange={(updated) => setCondition(index, updated)}
+            onRemove={() => removeCondition(index)}
+          />
+        ) : (
+          <RuleEditor
+            key={index}
+            rule={condition}
+            columns={columns}
+            onChange={(updated) => setCondition(index, updated)}
+            onRemove={() => removeCondition(index)}
+          />
+        )
+      )}
+
+      <div className={styles.groupActions}>
+        <button className={styles.addButton} onClick={() => addCondition(createFilterRule(0, 'equals', ''))}>
+          + Rule
+        </button>
+        {/* Nested groups default to the other operator, the usual reason to nest */}
+        <button
+          className={styles.addButton}
+          onClick={() => addCondition(createFilterGroup(group.operator === 'and' ? 'or' : 'and', []))}
+        >
+          + Group
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const FilterViews: React.FC<Props> = ({ onClose }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch, getComputedValue } = (persistedContext || enhancedContext)!;
+
+  const views = useMemo(() => state.filterViews ?? [], [state.filterViews]);
+  const openId = state.activeFilterView?.id ?? null;
+
+  // View being edited, the open one to begin with
+  const [draft, setDraft] = useState<FilterView>(() => views.find(view => view.id === openId) ?? emptyView());
+  const [error, setError] = useState<string | null>(null);
+  const saved = views.find(view => view.id === draft.id);
+
+  // Columns labelled with their header text, e.g. "C (src_ip)"
+  const columns = useMemo(() => Array.from({ length: state.maxCols }, (_, index) => {
+    const header = state.data.get(keyOf(0, index))?.value;
+    const letter = columnToLetter(index);
+    return { index, label: header !== undefined && header !== '' ? `${letter} (${header})` : letter };
+  }), [state.data, state.maxCols]);
+
+  const startNew = useCallback(() => {
+    setDraft(emptyView());
+    setError(null);
+  }, []);
+
+  const startEdit = useCallback((view: FilterView) => {
+    setDraft(view);
+    setError(null);
+  }, []);
+
+  // Returns whether the draft is saved
+  const save = useCallback((): boolean => {
+    const name = draft.name.trim();
+    if (!name) {
+      setError('Give the filter view a name.');
+      return false;
+    }
+
+    const clash = views.find(view => view.id !== draft.id && view.name.toLowerCase() === name.toLowerCase());
+    if (clash) {
+      setError(`A filter view named "${clash.name}" already exists.`);
+      return false;
+    }
+
+    const view = { ...draft, name };
+    if (!sameView(saved, view)) {
+      dispatch({ type: 'SAVE_FILTER_VIEW', payload: { view, getComputedValue } });
+    }
+    setDraft(view);
+    setError(null);
+    return true;
+  }, [draft, views, saved, dispatch, getComputedValue]);
+
+  const handleOpen = useCallback(() => {
+    if (state.readOnly || save()) {
+      dispatch({ type: 'OPEN_FILTER_VIEW', payload: { id: draft.id, getComputedValue } });
+    }
+  }, [state.readOnly, save, dispatch, getComputedValue, draft.id]);
+
+  const handleDelete = useCallback(() => {
+    if (!saved) return;
+    dispatch({ type: 'DELETE_FILTER_VIEW', payload: { id: saved.id } });
+    startNew();
+  }, [saved, dispatch, startNew]);
+
+  return (
+    <div className={styles.container} role="dialog" aria-label="Filter views">
+      <div className={styles.header}>
+        <h3>Filter Views</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <table className={styles.views}>
+          <tbody>
+            {views.length === 0 && (
+              <tr>
+                <td className={styles.empty}>No saved filter views</td>
+              </tr>
+            )}
+            {views.map(view => (
+              <tr
+                key={view.id}
+                className={view.id === draft.id ? styles.selected : undefined}
+                onClick={() => startEdit(view)}
+              >
+                <td>{view.name}</td>
+                <td className={styles.status}>{view.id === openId ? 'Open' : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className={styles.field}>
+          <label htmlFor="filter-view-name">Name:</label>
+          <input
+            id="filter-view-name"
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Critical external traffic"
+            disabled={state.readOnly}
+          />
+        </div>
+
+        <div className={styles.field}>
+          <label>Show rows matching:</label>
+          <GroupEditor
+            group={draft.filter}
+            columns={columns}
+            onChange={(filter) => setDraft({ ...draft, filter })}
+          />
+        </div>
+
+        {error && <div className={styles.error} role="alert">{error}</div>}
+      </div>
+
+      <div className={styles.footer}>
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={startNew}>
+            New
+          </button>
+          <button className={styles.removeButton} onClick={handleDelete} disabled={!saved || state.readOnly}>
+            Delete
+          </button>
+        </div>
+        <div className={styles.actions}>
+          {openId && (
+            <button
+              className={styles.cancelButton}
+              onClick={() => dispatch({ type: 'OPEN_FILTER_VIEW', payload: { id: null } })}
+            >
+              Close view
+            </button>
+          )}
+          {!state.readOnly && (
+            <button className={styles.cancelButton} onClick={save}>
+              Save
+            </button>
+          )}
+          <button className={styles.applyButton} onClick={handleOpen} disabled={state.readOnly && !saved}>
+            {state.readOnly ? 'Open' : 'Save and open'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
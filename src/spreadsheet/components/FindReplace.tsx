@@ -0,0 +1,287 @@
+import React, { useContext, useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { keyOf } from '../types/spreadsheet';
+import { singleCellSelection } from '../utils/selectionUtils';
+import { IOC_TYPES } from '../utils/dfirUtils';
+import {
+  FindLookIn,
+  FindMatch,
+  FindOptions,
+  FindScope,
+  createReplaceAction,
+  findMatches,
+  nextMatch,
+} from '../utils/findUtils';
+import styles from './FindReplace.module.css';
+
+export type FindReplaceMode = 'find' | 'replace';
+
+interface Props {
+  mode: FindReplaceMode;
+  onModeChange: (mode: FindReplaceMode) => void;
+  onClose: () => void;
+}
+
+const LOOK_IN: Array<{ value: FindLookIn; label: string }> = [
+  { value: 'values', label: 'Values' },
+  { value: 'formulas', label: 'Formulas' },
+  { value: 'both', label: 'Values and formulas' },
+];
+
+export const FindReplace: React.FC<Props> = ({ mode, onModeChange, onClose }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch, getComputedValue } = (persistedContext || enhancedContext)!;
+
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [lookIn, setLookIn] = useState<FindLookIn>('values');
+  const [scope, setScope] = useState<FindScope>('sheet');
+  const [matchCase, setMatchCase] = useState(false);
+  const [wholeCell, setWholeCell] = useState(false);
+  const [regex, setRegex] = useState(false);
+  // Empty to search for the query text
+  const [iocType, setIocType] = useState('');
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    queryRef.current?.focus();
+  }, [mode]);
+
+  const options: FindOptions = useMemo(() => ({
+    query,
+    lookIn,
+    scope,
+    matchCase,
+    wholeCell,
+    regex,
+    iocType: iocType || undefined,
+  }), [query, lookIn, scope, matchCase, wholeCell, regex, iocType]);
+
+  // Matches follow edits to the sheet while the panel is open
+  const { data } = state;
+  const { ranges } = state.selection;
+  const { matches, error } = useMemo(() => {
+    try {
+      return { matches: findMatches({ data, selection: { ranges } }, options, getComputedValue), error: null };
+    } catch (e) {
+      return { matches: [] as FindMatch[], error: 'Invalid regular expression' };
+    }
+  }, [data, ranges, options, getComputedValue]);
+
+  const active = state.selection.active;
+  const currentIndex = active ? matches.findIndex(m => m.row === active.row && m.col === active.col) : -1;
+
+  useEffect(() => {
+    dispatch({
+      type: 'SET_FIND_HIGHLIGHTS',
+      payload: matches.length
+        ? {
+            matches: new Set(matches.map(m => keyOf(m.row, m.col))),
+            current: currentIndex === -1 ? null : keyOf(matches[currentIndex].row, matches[currentIndex].col),
+          }
+        : null,
+    });
+  }, [matches, currentIndex, dispatch]);
+
+  // Highlights go when the panel does
+  useEffect(() => () => dispatch({ type: 'SET_FIND_HIGHLIGHTS', payload: null }), [dispatch]);
+
+  // Selecting a match scrolls the grid to it. Searches within the selection
+  // keep it and only move the active cell.
+  const goTo = useCallback((match: FindMatch) => {
+    dispatch({
+      type: 'SET_SELECTION',
+      payload: scope === 'selection'
+        ? { ranges: state.selection.ranges, active: { row: match.row, col: match.col } }
+        : singleCellSelection(match.row, match.col),
+    });
+  }, [dispatch, scope, state.selection.ranges]);
+
+  const findNext = useCallback((backwards: boolean = false) => {
+    const index = nextMatch(matches, active, backwards);
+    if (index !== -1) goTo(matches[index]);
+  }, [matches, active, goTo]);
+
+  const replace = useCallback(() => {
+    if (currentIndex === -1) {
+      findNext();
+      return;
+    }
+    const action = createReplaceAction(state, [matches[currentIndex]], options, replacement);
+    if (action) dispatch(action);
+    if (matches.length > 1) {
+      goTo(matches[(currentIndex + 1) % matches.length]);
+    }
+  }, [currentIndex, findNext, state, matches, options, replacement, dispatch, goTo]);
+
+  const replaceAll = useCallback(() => {
+    const action = createReplaceAction(state, matches, options, replacement);
+    if (action) dispatch(action);
+  }, [state, matches, options, replacement, dispatch]);
+
+  // Keys typed here are not grid navigation
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && (key === 'f' || key === 'h')) {
+      e.preventDefault();
+      onModeChange(key === 'f' ? 'find' : 'replace');
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      findNext(e.shiftKey);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const canReplace = !state.readOnly && matches.length > 0;
+  const status = error
+    ? error
+    : matches.length === 0
+      ? (query || iocType ? 'No matches' : '')
+      : currentIndex === -1
+        ? `${matches.length} ${matches.length === 1 ? 'match' : 'matches'}`
+        : `${currentIndex + 1} of ${matches.length}`;
+
+  return (
+    <div className={styles.container} role="dialog" aria-label="Find and replace" onKeyDown={handleKeyDown}>
+      <div className={styles.header}>
+        <div className={styles.tabs} role="tablist">
+          <button
+            role="tab"
+            aria-selected={mode === 'find'}
+            className={mode === 'find' ? styles.activeTab : styles.tab}
+            onClick={() => onModeChange('find')}
+          >
+            Find
+          </button>
+          <button
+            role="tab"
+            aria-selected={mode === 'replace'}
+            className={mode === 'replace' ? styles.activeTab : styles.tab}
+            onClick={() => onModeChange('replace')}
+          >
+            Replace
+          </button>
+        </div>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <label className={styles.field}>
+          <span>Search for</span>
+          <select value={iocType} onChange={(e) => setIocType(e.target.value)}>
+            <option value="">Text</option>
+            <option value="any">Any IOC</option>
+            {IOC_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className={styles.field}>
+          <span>Find</span>
+          <input
+            ref={queryRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            disabled={!!iocType}
+            placeholder={iocType ? `${iocType === 'any' ? 'Any IOC' : iocType} values` : undefined}
+          />
+        </label>
+
+        {mode === 'replace' && (
+          <label className={styles.field}>
+            <span>Replace with</span>
+            <input
+              type="text"
+              value={replacement}
+              onChange={(e) => setReplacement(e.target.value)}
+            />
+          </label>
+        )}
+
+        <div className={styles.fieldRow}>
+          <label className={styles.field}>
+            <span>Look in</span>
+            <select
+              value={lookIn}
+              onChange={(e) => setLookIn(e.target.value as FindLookIn)}
+              disabled={!!iocType}
+            >
+              {LOOK_IN.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.field}>
+            <span>Within</span>
+            <select value={scope} onChange={(e) => setScope(e.target.value as FindScope)}>
+              <option value="sheet">Sheet</option>
+              <option value="selection">Selection</option>
+            </select>
+          </label>
+        </div>
+
+        <div className={styles.toggles}>
+          <label className={styles.optionLabel}>
+            <input
+              type="checkbox"
+              checked={matchCase}
+              onChange={(e) => setMatchCase(e.target.checked)}
+              disabled={!!iocType}
+            />
+            Match case
+          </label>
+          <label className={styles.optionLabel}>
+            <input
+              type="checkbox"
+              checked={wholeCell}
+              onChange={(e) => setWholeCell(e.target.checked)}
+              disabled={!!iocType}
+            />
+            Whole cell
+          </label>
+          <label className={styles.optionLabel}>
+            <input
+              type="checkbox"
+              checked={regex}
+              onChange={(e) => setRegex(e.target.checked)}
+              disabled={!!iocType}
+            />
+            Regular expression
+          </label>
+        </div>
+
+        <div className={error ? styles.error : styles.status} role="status">
+          {status}
+        </div>
+      </div>
+
+      <div className={styles.footer}>
+        {mode === 'replace' && (
+          <>
+            <button className={styles.cancelButton} onClick={replaceAll} disabled={!canReplace}>
+              Replace all
+            </button>
+            <button className={styles.cancelButton} onClick={replace} disabled={!canReplace}>
+              Replace
+            </button>
+          </>
+        )}
+        <button className={styles.cancelButton} onClick={() => findNext(true)} disabled={matches.length === 0}>
+          Previous
+        </button>
+        <button className={styles.applyButton} onClick={() => findNext()} disabled={matches.length === 0}>
+          Next
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { FormulaAssistState } from '../hooks/useFormulaAutocomplete';
+import styles from './FormulaAssist.module.css';
+
+interface Props {
+  assist: FormulaAssistState;
+  // The field the formula is typed in; the panel opens below it
+  inputRef: React.RefObject<HTMLInputElement>;
+}
+
+const KIND_LABELS = { function: 'Function', name: 'Name', table: 'Table' };
+
+/**
+ * Suggestions, the signature of the function being typed and syntax errors,
+ * shown under a formula field
+ */
+export const FormulaAssist: React.FC<Props> = ({ assist, inputRef }) => {
+  const { items, activeIndex, signature, argIndex, error, onPick } = assist;
+  const rect = inputRef.current?.getBoundingClientRect();
+  if (!rect || (!items.length && !signature && !error)) return null;
+
+  return (
+    <div className={styles.panel} style={{ top: rect.bottom + 2, left: rect.left }}>
+      {items.length > 0 && (
+        <ul className={styles.list} role="listbox" aria-label="Formula suggestions">
+          {items.map(({ suggestion, detail }, i) => (
+            <li
+              key={`${suggestion.kind}:${suggestion.label}`}
+              className={`${styles.item} ${i === activeIndex ? styles.active : ''}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // Keep the focus in the formula field
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onPick(suggestion);
+              }}
+            >
+              <span className={styles.label}>{suggestion.label}</span>
+              <span className={styles.kind}>{KIND_LABELS[suggestion.kind]}</span>
+              {detail && <span className={styles.detail}>{detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!items.length && signature && (
+        <div className={styles.signature} role="tooltip">
+          <span>{signature.name}(</span>
+          {signature.args.map((arg, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && ', '}
+              <span className={i === argIndex ? styles.currentArg : undefined}>{arg}</span>
+            </React.Fragment>
+          ))}
+          <span>)</span>
+          {signature.description && <div className={styles.detail}>{signature.description}</div>}
+        </div>
+      )}
+
+      {!items.length && error && (
+        <div className={styles.error} role="alert">{error}</div>
+      )}
+    </div>
+  );
+};
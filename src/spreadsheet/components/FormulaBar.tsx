@@ -1,15 +1,32 @@
-import React, { ChangeEvent, useEffect, useState } from 'react';
+import React, { ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
 import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { SpreadsheetAction } from '../types/actions';
 import { columnToLetter } from '../utils/columnUtils';
+import { getActiveSheetId } from '../utils/sheetUtils';
+import { normalizeRect } from '../utils/selectionUtils';
+import { resolveRange } from '../utils/namedRangeUtils';
+import { getSpillAt, isSpilledCell } from '../utils/spillUtils';
+import { useFormulaAutocomplete } from '../hooks/useFormulaAutocomplete';
+import { useReferenceEntry } from '../hooks/useReferenceEntry';
+import { FormulaAssist } from './FormulaAssist';
 import styles from './FormulaBar.module.css';
 
 export const FormulaBar: React.FC = () => {
-  const { state, dispatch, getCell, setCell } = useSpreadsheetEnhanced();
+  const { state, dispatch, getCell, setCell, spills, formulaEngine } = useSpreadsheetEnhanced();
   const active = state.selection.active;
   const [localValue, setLocalValue] = useState('');
+  const [nameBoxValue, setNameBoxValue] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Spilled cells show their array formula, which is only edited in its own cell
+  const spill = active && isSpilledCell(spills, active.row, active.col)
+    ? getSpillAt(spills, active.row, active.col)
+    : undefined;
 
   useEffect(() => {
-    if (active) {
+    if (spill) {
+      setLocalValue(getCell(spill.startRow, spill.startCol)?.formula || '');
+    } else if (active) {
       const cellData = getCell(active.row, active.col);
       setLocalValue(
         state.formulaInput || 
@@ -20,15 +37,44 @@ export const FormulaBar: React.FC = () => {
     } else {
       setLocalValue('');
     }
-  }, [active, state.formulaInput, getCell]);
+  }, [active, spill, state.formulaInput, getCell]);
+
+  const updateValue = useCallback((value: string) => {
+    setLocalValue(value);
+    dispatch({ type: 'SET_FORMULA_INPUT', payload: value });
+  }, [dispatch]);
+
+  const autocomplete = useFormulaAutocomplete({
+    value: localValue,
+    inputRef,
+    formulaEngine,
+    state,
+    onChange: updateValue,
+  });
+
+  // Clicking cells while typing a formula enters their references
+  const references = useReferenceEntry({
+    value: localValue,
+    inputRef,
+    state,
+    dispatch,
+    cell: active,
+    onChange: updateValue,
+  });
+
+  const handleSelect = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    autocomplete.handleSelect(e);
+    references.handleSelect(e);
+  };
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
-    setLocalValue(e.target.value);
-    dispatch({ type: 'SET_FORMULA_INPUT', payload: e.target.value });
+    updateValue(e.target.value);
+    handleSelect(e);
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && active) {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!spill && (autocomplete.handleKeyDown(e) || references.handleKeyDown(e))) return;
+    if (e.key === 'Enter' && active && !spill) {
       const newValue = localValue;
       if (newValue.startsWith('=')) {
         setCell(active.row, active.col, { formula: newValue, value: newValue });
@@ -39,23 +85,85 @@ export const FormulaBar: React.FC = () => {
     }
   };
 
-  const cellRef = active 
-    ? `${columnToLetter(active.col)}${active.row + 1}`
-    : '';
+  // Name box: typing a name or reference jumps to it and selects it
+  const handleNameBoxKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setNameBoxValue(null);
+      e.currentTarget.blur();
+      return;
+    }
+    if (e.key !== 'Enter' || nameBoxValue === null) return;
+
+    const resolved = resolveRange(state, nameBoxValue);
+    if (!resolved) return;
+
+    const { rect } = resolved;
+    const actions: SpreadsheetAction[] = [];
+    if (resolved.sheetId !== getActiveSheetId(state)) {
+      actions.push({ type: 'SET_ACTIVE_SHEET', payload: { sheetId: resolved.sheetId } });
+    }
+    actions.push({
+      type: 'SET_SELECTION',
+      payload: { ranges: [rect], active: { row: rect.startRow, col: rect.startCol } },
+    });
+    dispatch({ type: 'BATCH', payload: actions });
+
+    setNameBoxValue(null);
+    e.currentTarget.blur();
+  };
+
+  // Show a name when the selection is exactly its range
+  const selectedRange = state.selection.ranges.length === 1 ? normalizeRect(state.selection.ranges[0]) : null;
+  const selectedName = selectedRange && state.namedRanges?.find(namedRange => {
+    const resolved = resolveRange(state, namedRange.name);
+    return resolved?.sheetId === getActiveSheetId(state) &&
+      resolved.rect.startRow === selectedRange.startRow &&
+      resolved.rect.startCol === selectedRange.startCol &&
+      resolved.rect.endRow === selectedRange.endRow &&
+      resolved.rect.endCol === selectedRange.endCol;
+  });
+
+  const cellRef = selectedName
+    ? selectedName.name
+    : active
+      ? `${columnToLetter(active.col)}${active.row + 1}`
+      : '';
 
   return (
     <div className={styles.container}>
-      <span className={styles.cellRef}>{cellRef}</span>
+      <input
+        className={styles.cellRef}
+        type="text"
+        aria-label="Name box"
+        value={nameBoxValue ?? cellRef}
+        onChange={(e) => setNameBoxValue(e.target.value)}
+        onFocus={(e) => e.target.select()}
+        onBlur={() => setNameBoxValue(null)}
+        onKeyDown={handleNameBoxKeyDown}
+      />
       <span className={styles.label}>fx</span>
       <input
+        ref={inputRef}
         className={styles.input}
         type="text"
         value={localValue}
+        onSelect={handleSelect}
+        onFocus={() => {
+          autocomplete.inputProps.onFocus();
+          references.handleFocus();
+        }}
+        onBlur={() => {
+          autocomplete.inputProps.onBlur();
+          references.handleBlur();
+        }}
         onChange={handleChange}
         onKeyDown={handleKeyDown}
         placeholder={active ? 'Enter value or formula' : 'Select a cell'}
         disabled={!active}
+        readOnly={!!spill}
+        title={spill ? 'Part of an array formula; edit it in its first cell' : undefined}
       />
+      {autocomplete.assist && !spill && <FormulaAssist assist={autocomplete.assist} inputRef={inputRef} />}
     </div>
   );
 };
\ No newline at end of file
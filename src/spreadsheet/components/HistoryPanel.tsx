@@ -0,0 +1,77 @@
+import React, { useContext } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import styles from './HistoryPanel.module.css';
+
+interface Props {
+  onClose?: () => void;
+  className?: string;
+}
+
+// Undo history; clicking an entry undoes or redoes back to the state after it
+export const HistoryPanel: React.FC<Props> = ({ onClose, className }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { history, undo, redo, canUndo, canRedo } = (persistedContext || enhancedContext)!;
+  const { past, future } = history;
+
+  const formatTime = (timestamp: number) =>
+    new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return (
+    <div className={`${styles.container} ${className || ''}`} aria-label="History">
+      <div className={styles.header}>
+        <h3>History</h3>
+        <div className={styles.actions}>
+          <button onClick={() => undo()} disabled={!canUndo} aria-label="Undo" title="Undo (Ctrl+Z)">
+            ↶
+          </button>
+          <button onClick={() => redo()} disabled={!canRedo} aria-label="Redo" title="Redo (Ctrl+Y)">
+            ↷
+          </button>
+          {onClose && (
+            <button onClick={onClose} aria-label="Close">
+              ×
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ol className={styles.list}>
+        <li>
+          <button
+            className={`${styles.entry} ${past.length === 0 ? styles.current : ''}`}
+            onClick={() => undo(past.length)}
+            aria-current={past.length === 0 ? 'step' : undefined}
+          >
+            <span className={styles.label}>Initial state</span>
+          </button>
+        </li>
+        {past.map((command, index) => {
+          const current = index === past.length - 1;
+          return (
+            <li key={`past-${command.timestamp}-${index}`}>
+              <button
+                className={`${styles.entry} ${current ? styles.current : ''}`}
+                onClick={() => undo(past.length - 1 - index)}
+                aria-current={current ? 'step' : undefined}
+              >
+                <span className={styles.label}>{command.description}</span>
+                <span className={styles.time}>{formatTime(command.timestamp)}</span>
+              </button>
+            </li>
+          );
+        })}
+        {future.map((command, index) => (
+          <li key={`future-${command.timestamp}-${index}`}>
+            <button className={`${styles.entry} ${styles.undone}`} onClick={() => redo(index + 1)}>
+              <span className={styles.label}>{command.description}</span>
+              <span className={styles.time}>{formatTime(command.timestamp)}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
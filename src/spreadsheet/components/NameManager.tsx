@@ -0,0 +1,194 @@
+import React, { useContext, useState, useMemo, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { NamedRange } from '../types/spreadsheet';
+import { getActiveSheet } from '../utils/sheetUtils';
+import { normalizeRect } from '../utils/selectionUtils';
+import { formatReference } from '../utils/formulaUtils';
+import { findNamedRange, isValidRangeName, normalizeRangeReference } from '../utils/namedRangeUtils';
+import styles from './NameManager.module.css';
+
+interface Props {
+  onClose: () => void;
+}
+
+export const NameManager: React.FC<Props> = ({ onClose }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch } = (persistedContext || enhancedContext)!;
+
+  const namedRanges = useMemo(() => state.namedRanges ?? [], [state.namedRanges]);
+  const sheetName = getActiveSheet(state).name;
+
+  // Name being edited; null while creating a new one
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [reference, setReference] = useState('');
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // New names refer to the current selection by default
+  const selectionReference = useCallback(() => {
+    const rect = state.selection.ranges[0];
+    if (!rect) return '';
+    const r = normalizeRect(rect);
+    const part = (row: number, col: number) => ({ row, col, absRow: true, absCol: true });
+    const single = r.startRow === r.endRow && r.startCol === r.endCol;
+
+    return formatReference({
+      sheet: sheetName,
+      kind: single ? 'cell' : 'range',
+      start: part(r.startRow, r.startCol),
+      end: single ? undefined : part(r.endRow, r.endCol),
+    });
+  }, [state.selection, sheetName]);
+
+  const startNew = useCallback(() => {
+    setEditing(null);
+    setName('');
+    setReference(selectionReference());
+    setComment('');
+    setError(null);
+  }, [selectionReference]);
+
+  const startEdit = useCallback((namedRange: NamedRange) => {
+    setEditing(namedRange.name);
+    setName(namedRange.name);
+    setReference(namedRange.reference);
+    setComment(namedRange.comment || '');
+    setError(null);
+  }, []);
+
+  const handleSave = useCallback(() => {
+    const trimmed = name.trim();
+    if (!isValidRangeName(trimmed)) {
+      setError('Names must start with a letter or underscore, contain no spaces, and not look like a cell reference.');
+      return;
+    }
+
+    const clash = findNamedRange(namedRanges, trimmed);
+    if (clash && clash.name.toLowerCase() !== editing?.toLowerCase()) {
+      setError(`The name "${clash.name}" already exists.`);
+      return;
+    }
+
+    if (!normalizeRangeReference(reference, sheetName)) {
+      setError('Refers to must be a cell or range reference, e.g. Sheet1!$A$1:$A$10.');
+      return;
+    }
+
+    const namedRange: NamedRange = {
+      name: trimmed,
+      reference,
+      ...(comment.trim() ? { comment: comment.trim() } : {}),
+    };
+
+    if (editing) {
+      dispatch({ type: 'UPDATE_NAMED_RANGE', payload: { name: editing, namedRange } });
+    } else {
+      dispatch({ type: 'ADD_NAMED_RANGE', payload: namedRange });
+    }
+    setEditing(trimmed);
+    setName(trimmed);
+    setError(null);
+  }, [name, reference, comment, editing, namedRanges, sheetName, dispatch]);
+
+  const handleDelete = useCallback(() => {
+    if (!editing) return;
+    dispatch({ type: 'DELETE_NAMED_RANGE', payload: { name: editing } });
+    startNew();
+  }, [editing, dispatch, startNew]);
+
+  return (
+    <div className={styles.container} role="dialog" aria-label="Name Manager">
+      <div className={styles.header}>
+        <h3>Name Manager</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <table className={styles.names}>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Refers To</th>
+              <th>Comment</th>
+            </tr>
+          </thead>
+          <tbody>
+            {namedRanges.length === 0 && (
+              <tr>
+                <td colSpan={3} className={styles.empty}>No names defined</td>
+              </tr>
+            )}
+            {namedRanges.map(namedRange => (
+              <tr
+                key={namedRange.name}
+                className={namedRange.name === editing ? styles.selected : undefined}
+                onClick={() => startEdit(namedRange)}
+              >
+                <td>{namedRange.name}</td>
+                <td>{namedRange.reference}</td>
+                <td>{namedRange.comment}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className={styles.field}>
+          <label htmlFor="range-name">Name:</label>
+          <input
+            id="range-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Suspicious_IPs"
+          />
+        </div>
+        <div className={styles.field}>
+          <label htmlFor="range-reference">Refers To:</label>
+          <input
+            id="range-reference"
+            type="text"
+            value={reference}
+            onChange={(e) => setReference(e.target.value)}
+            placeholder={`${sheetName}!$A$1:$A$10`}
+          />
+        </div>
+        <div className={styles.field}>
+          <label htmlFor="range-comment">Comment:</label>
+          <input
+            id="range-comment"
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+
+        {error && <div className={styles.error} role="alert">{error}</div>}
+      </div>
+
+      <div className={styles.footer}>
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={startNew}>
+            New
+          </button>
+          <button className={styles.removeButton} onClick={handleDelete} disabled={!editing}>
+            Delete
+          </button>
+        </div>
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={onClose}>
+            Close
+          </button>
+          <button className={styles.applyButton} onClick={handleSave}>
+            {editing ? 'Save' : 'Add'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { PasteMode, PasteOperation, PasteOptions } from '../utils/clipboardUtils';
+import styles from './PasteSpecial.module.css';
+
+interface Props {
+  onPaste: (options: PasteOptions) => void;
+  onClose: () => void;
+}
+
+const PASTE_MODES: Array<{ value: PasteMode; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'values', label: 'Values only' },
+  { value: 'formulas', label: 'Formulas only' },
+  { value: 'formats', label: 'Formats only' },
+  { value: 'validation', label: 'Validation only' },
+];
+
+const OPERATIONS: Array<{ value: PasteOperation; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'add', label: 'Add' },
+  { value: 'subtract', label: 'Subtract' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'divide', label: 'Divide' },
+];
+
+export const PasteSpecial: React.FC<Props> = ({ onPaste, onClose }) => {
+  const [paste, setPaste] = useState<PasteMode>('all');
+  const [operation, setOperation] = useState<PasteOperation>('none');
+  const [skipBlanks, setSkipBlanks] = useState(false);
+  const [transpose, setTranspose] = useState(false);
+
+  // Operations combine cell contents, so they do not apply to formats or validation
+  const operationsEnabled = paste === 'all' || paste === 'values' || paste === 'formulas';
+
+  const handlePaste = () => {
+    onPaste({ paste, operation: operationsEnabled ? operation : 'none', skipBlanks, transpose });
+    onClose();
+  };
+
+  return (
+    <div className={styles.container} role="dialog" aria-label="Paste Special">
+      <div className={styles.header}>
+        <h3>Paste Special</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <div className={styles.columns}>
+          <fieldset className={styles.group}>
+            <legend>Paste</legend>
+            {PASTE_MODES.map(mode => (
+              <label key={mode.value} className={styles.optionLabel}>
+                <input
+                  type="radio"
+                  name="paste-mode"
+                  value={mode.value}
+                  checked={paste === mode.value}
+                  onChange={() => setPaste(mode.value)}
+                />
+                {mode.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <fieldset className={styles.group} disabled={!operationsEnabled}>
+            <legend>Operation</legend>
+            {OPERATIONS.map(op => (
+              <label key={op.value} className={styles.optionLabel}>
+                <input
+                  type="radio"
+                  name="paste-operation"
+                  value={op.value}
+                  checked={operation === op.value}
+                  onChange={() => setOperation(op.value)}
+                />
+                {op.label}
+              </label>
+            ))}
+          </fieldset>
+        </div>
+
+        <div className={styles.toggles}>
+          <label className={styles.optionLabel}>
+            <input
+              type="checkbox"
+              checked={skipBlanks}
+              onChange={(e) => setSkipBlanks(e.target.checked)}
+            />
+            Skip blanks
+          </label>
+          <label className={styles.optionLabel}>
+            <input
+              type="checkbox"
+              checked={transpose}
+              onChange={(e) => setTranspose(e.target.checked)}
+            />
+            Transpose
+          </label>
+        </div>
+      </div>
+
+      <div className={styles.footer}>
+        <button className={styles.cancelButton} onClick={onClose}>
+          Cancel
+        </button>
+        <button className={styles.applyButton} onClick={handlePaste}>
+          Paste
+        </button>
+      </div>
+    </div>
+  );
+};
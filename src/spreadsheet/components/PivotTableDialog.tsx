@@ -0,0 +1,387 @@
+import React, { useContext, useState, useMemo, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { PivotAggregation, PivotDateGrouping, PivotTable } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { cellRefToString, quoteSheetName } from '../utils/formulaUtils';
+import { resolveRange } from '../utils/namedRangeUtils';
+import { getActiveSheetId, getSheets, getUniqueSheetName } from '../utils/sheetUtils';
+import { getSortRange } from '../utils/sortUtils';
+import {
+  AGGREGATION_LABELS,
+  buildPivotTable,
+  createPivotTableId,
+  getPivotFieldName,
+  getPivotGroupLabel,
+  getPivotOutputRect,
+  getPivotPlacementError,
+} from '../utils/pivotUtils';
+import styles from './PivotTableDialog.module.css';
+
+interface Props {
+  // The pivot table to edit; a new one is created when omitted
+  pivot?: PivotTable;
+  onClose: () => void;
+}
+
+type Area = 'rows' | 'columns' | 'values' | 'filters';
+
+const AREAS: Array<{ area: Area; label: string }> = [
+  { area: 'filters', label: 'Filters' },
+  { area: 'columns', label: 'Columns' },
+  { area: 'rows', label: 'Rows' },
+  { area: 'values', label: 'Values' },
+];
+
+const GROUPINGS: Array<{ value: PivotDateGrouping | ''; label: string }> = [
+  { value: '', label: 'No grouping' },
+  { value: 'hour', label: 'By hour' },
+  { value: 'day', label: 'By day' },
+  { value: 'week', label: 'By week' },
+];
+
+// Filter values offered per field, so a column of unique IDs stays usable
+const MAX_FILTER_VALUES = 200;
+
+type Fields = Pick<PivotTable, Area>;
+
+// A dragged field: from the field list, or from a position in an area
+interface DragSource {
+  column: number;
+  from?: { area: Area; index: number };
+}
+
+function addField(fields: Fields, area: Area, column: number): Fields {
+  switch (area) {
+    case 'values':
+      return { ...fields, values: [...fields.values, { column, aggregation: 'count' }] };
+    case 'filters':
+      return { ...fields, filters: [...fields.filters, { column, values: [] }] };
+    default:
+      return { ...fields, [area]: [...fields[area], { column }] };
+  }
+}
+
+function removeField(fields: Fields, area: Area, index: number): Fields {
+  return { ...fields, [area]: (fields[area] as any[]).filter((_, i) => i !== index) };
+}
+
+export const PivotTableDialog: React.FC<Props> = ({ pivot, onClose }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch, getComputedValue } = (persistedContext || enhancedContext)!;
+
+  const sheets = getSheets(state);
+  const activeId = getActiveSheetId(state);
+
+  const [sourceText, setSourceText] = useState(() => {
+    const sheetId = pivot?.sourceSheetId ?? activeId;
+    const range = pivot?.source ?? getSortRange(state);
+    if (!range) return '';
+    const sheetName = sheets.find(sheet => sheet.id === sheetId)?.name;
+    const prefix = sheetId !== activeId && sheetName ? `${quoteSheetName(sheetName)}!` : '';
+    return `${prefix}${cellRefToString(range.startRow, range.startCol)}:${cellRefToString(range.endRow, range.endCol)}`;
+  });
+  const [fields, setFields] = useState<Fields>(() => ({
+    rows: pivot?.rows ?? [],
+    columns: pivot?.columns ?? [],
+    values: pivot?.values ?? [],
+    filters: pivot?.filters ?? [],
+  }));
+  const [newSheet, setNewSheet] = useState(!pivot);
+  const [locationText, setLocationText] = useState(() => {
+    if (pivot) return cellRefToString(pivot.target.row, pivot.target.col);
+    // Beside the data, leaving a column free
+    const range = getSortRange(state);
+    return cellRefToString(range?.startRow ?? 0, range ? range.endCol + 2 : 0);
+  });
+  const [dragging, setDragging] = useState<DragSource | null>(null);
+
+  const source = useMemo(() => resolveRange(state, sourceText), [state, sourceText]);
+  const sourceData = source && sheets.find(sheet => sheet.id === source.sheetId)!.data;
+  const width = source ? source.rect.endCol - source.rect.startCol + 1 : 0;
+
+  // Fields that no longer exist in a narrower source are dropped
+  const validFields = useMemo<Fields>(() => ({
+    rows: fields.rows.filter(field => field.column < width),
+    columns: fields.columns.filter(field => field.column < width),
+    values: fields.values.filter(field => field.column < width),
+    filters: fields.filters.filter(field => field.column < width),
+  }), [fields, width]);
+
+  const fieldNames = useMemo(() => {
+    if (!source || !sourceData) return [];
+    return Array.from({ length: width }, (_, column) => getPivotFieldName(sourceData, source.rect, column));
+  }, [source, sourceData, width]);
+
+  // Values the records of a column hold, for filter fields
+  const distinctValues = useCallback((column: number): string[] => {
+    if (!source || !sourceData) return [];
+    const values = new Set<string>();
+    for (let row = source.rect.startRow + 1; row <= source.rect.endRow && values.size < MAX_FILTER_VALUES; row++) {
+      const value = getComputedValue(row, source.rect.startCol + column, source.sheetId);
+      values.add(getPivotGroupLabel(value));
+    }
+    return Array.from(values).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }, [source, sourceData, getComputedValue]);
+
+  // The destination sheet and top-left cell
+  const destination = useMemo(() => {
+    if (pivot) return { sheetId: activeId, row: pivot.target.row, col: pivot.target.col };
+    if (newSheet) return { sheetId: null, row: 0, col: 0 };
+    const location = resolveRange(state, locationText);
+    return location && { sheetId: location.sheetId, row: location.rect.startRow, col: location.rect.startCol };
+  }, [pivot, newSheet, state, locationText, activeId]);
+
+  const result = useMemo(() => {
+    if (!source || !sourceData) return { error: 'Enter the source data range, e.g. A1:F500.' };
+    if (source.rect.startRow === source.rect.endRow) return { error: 'The source range needs a header row and data below it.' };
+    if (validFields.values.length === 0) return { error: 'Add at least one field to Values.' };
+    if (!destination) return { error: 'Enter the cell to put the pivot table at, e.g. H1.' };
+
+    const built: PivotTable = {
+      id: pivot?.id ?? createPivotTableId(),
+      name: pivot?.name ?? `PivotTable${(state.pivotTables?.length ?? 0) + 1}`,
+      sourceSheetId: source.sheetId,
+      source: source.rect,
+      ...validFields,
+      target: { row: destination.row, col: destination.col },
+      output: pivot?.output,
+    };
+    const cells = buildPivotTable(built, sourceData, (row, col) => getComputedValue(row, col, source.sheetId));
+    const output = getPivotOutputRect(built, cells);
+    const sheet = destination.sheetId
+      ? sheets.find(s => s.id === destination.sheetId)!
+      : { id: '', maxRows: state.maxRows, maxCols: state.maxCols };
+    const error = getPivotPlacementError(built, output, sheet);
+    return error ? { error: `${error}.` } : { pivot: built, size: `${cells.length} rows × ${cells[0].length} columns` };
+  }, [source, sourceData, validFields, destination, pivot, state, sheets, getComputedValue]);
+
+  const handleDrop = useCallback((area: Area) => {
+    if (!dragging) return;
+    setFields(current => {
+      const moved = dragging.from ? removeField(current, dragging.from.area, dragging.from.index) : current;
+      return addField(moved, area, dragging.column);
+    });
+    setDragging(null);
+  }, [dragging]);
+
+  const handleCreate = useCallback(() => {
+    if (!result.pivot) return;
+    const built = result.pivot;
+
+    if (pivot) {
+      dispatch({ type: 'UPDATE_PIVOT_TABLE', payload: { pivot: built, getComputedValue } });
+    } else if (newSheet) {
+      const name = getUniqueSheetName(sheets, 'Pivot');
+      dispatch({
+        type: 'BATCH',
+        payload: [
+          { type: 'ADD_SHEET', payload: { name, activate: true } },
+          { type: 'ADD_PIVOT_TABLE', payload: { pivot: built, getComputedValue } },
+        ],
+      });
+    } else {
+      const actions: SpreadsheetAction[] = [];
+      if (destination!.sheetId !== activeId) {
+        actions.push({ type: 'SET_ACTIVE_SHEET', payload: { sheetId: destination!.sheetId! } });
+      }
+      actions.push({ type: 'ADD_PIVOT_TABLE', payload: { pivot: built, getComputedValue } });
+      dispatch(actions.length === 1 ? actions[0] : { type: 'BATCH', payload: actions });
+    }
+    onClose();
+  }, [result, pivot, newSheet, sheets, destination, activeId, dispatch, getComputedValue, onClose]);
+
+  const renderField = (area: Area, index: number) => {
+    const field = validFields[area][index];
+    return (
+      <div
+        key={`${field.column}-${index}`}
+        className={styles.field}
+        draggable
+        onDragStart={() => setDragging({ column: field.column, from: { area, index } })}
+        onDragEnd={() => setDragging(null)}
+      >
+        <span className={styles.fieldName}>{fieldNames[field.column]}</span>
+        {(area === 'rows' || area === 'columns') && (
+          <select
+            value={validFields[area][index].dateGrouping ?? ''}
+            onChange={(e) => {
+              const dateGrouping = (e.target.value || undefined) as PivotDateGrouping | undefined;
+              setFields(current => ({
+                ...current,
+                [area]: current[area].map((f, i) => (i === index ? { ...f, dateGrouping } : f)),
+              }));
+            }}
+            aria-label={`Group ${fieldNames[field.column]}`}
+          >
+            {GROUPINGS.map(grouping => (
+              <option key={grouping.value} value={grouping.value}>{grouping.label}</option>
+            ))}
+          </select>
+        )}
+        {area === 'values' && (
+          <select
+            value={validFields.values[index].aggregation}
+            onChange={(e) => {
+              const aggregation = e.target.value as PivotAggregation;
+              setFields(current => ({
+                ...current,
+                values: current.values.map((f, i) => (i === index ? { ...f, aggregation } : f)),
+              }));
+            }}
+            aria-label={`Summarize ${fieldNames[field.column]} by`}
+          >
+            {(Object.keys(AGGREGATION_LABELS) as PivotAggregation[]).map(aggregation => (
+              <option key={aggregation} value={aggregation}>{AGGREGATION_LABELS[aggregation]}</option>
+            ))}
+          </select>
+        )}
+        <button
+          className={styles.removeField}
+          onClick={() => setFields(current => removeField(current, area, index))}
+          aria-label={`Remove ${fieldNames[field.column]}`}
+        >
+          ×
+        </button>
+        {area === 'filters' && (
+          <div className={styles.filterValues}>
+            {distinctValues(field.column).map(value => {
+              const selected = validFields.filters[index].values;
+              return (
+                <label key={value} className={styles.optionLabel}>
+                  <input
+                    type="checkbox"
+                    checked={selected.length === 0 || selected.includes(value)}
+                    onChange={(e) => {
+                      const all = distinctValues(field.column);
+                      const current = selected.length === 0 ? all : selected;
+                      const next = e.target.checked ? [...current, value] : current.filter(v => v !== value);
+                      // Every value checked is the same as no filter
+                      const values = next.length === all.length ? [] : next;
+                      setFields(f => ({
+                        ...f,
+                        filters: f.filters.map((filter, i) => (i === index ? { ...filter, values } : filter)),
+                      }));
+                    }}
+                  />
+                  {value}
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={styles.container} role="dialog" aria-label={pivot ? 'Edit pivot table' : 'Insert pivot table'}>
+      <div className={styles.header}>
+        <h3>{pivot ? 'Edit Pivot Table' : 'Insert Pivot Table'}</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <div className={styles.row}>
+          <label className={styles.rowLabel} htmlFor="pivot-source">Source data</label>
+          <input
+            id="pivot-source"
+            className={styles.input}
+            type="text"
+            value={sourceText}
+            onChange={(e) => setSourceText(e.target.value)}
+            placeholder="Alerts!A1:F500"
+          />
+        </div>
+
+        {!pivot && (
+          <div className={styles.row}>
+            <span className={styles.rowLabel}>Put it on</span>
+            <label className={styles.optionLabel}>
+              <input type="radio" checked={newSheet} onChange={() => setNewSheet(true)} />
+              New sheet
+            </label>
+            <label className={styles.optionLabel}>
+              <input type="radio" checked={!newSheet} onChange={() => setNewSheet(false)} />
+              Existing sheet at
+            </label>
+            <input
+              className={styles.input}
+              type="text"
+              value={locationText}
+              onChange={(e) => setLocationText(e.target.value)}
+              disabled={newSheet}
+              aria-label="Location"
+            />
+          </div>
+        )}
+
+        <div className={styles.layout}>
+          <div className={styles.fieldList}>
+            <div className={styles.areaLabel}>Fields</div>
+            {fieldNames.map((name, column) => (
+              <div
+                key={column}
+                className={styles.sourceField}
+                draggable
+                onDragStart={() => setDragging({ column })}
+                onDragEnd={() => setDragging(null)}
+              >
+                {name}
+              </div>
+            ))}
+          </div>
+
+          <div className={styles.areas}>
+            {AREAS.map(({ area, label }) => (
+              <div
+                key={area}
+                className={`${styles.area} ${dragging ? styles.dropTarget : ''}`}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(area);
+                }}
+                aria-label={label}
+              >
+                <div className={styles.areaLabel}>{label}</div>
+                {validFields[area].map((_, index) => renderField(area, index))}
+                <select
+                  className={styles.addField}
+                  value=""
+                  onChange={(e) => setFields(current => addField(current, area, Number(e.target.value)))}
+                  disabled={fieldNames.length === 0}
+                  aria-label={`Add field to ${label}`}
+                >
+                  <option value="">Add field…</option>
+                  {fieldNames.map((name, column) => (
+                    <option key={column} value={column}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {result.error
+          ? <div className={styles.error} role="alert">{result.error}</div>
+          : <div className={styles.summary}>{result.size}</div>}
+      </div>
+
+      <div className={styles.footer}>
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button className={styles.applyButton} onClick={handleCreate} disabled={!result.pivot || state.readOnly}>
+            {pivot ? 'Update' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
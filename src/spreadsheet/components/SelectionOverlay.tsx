@@ -1,55 +1,84 @@
 import React from 'react';
-import { useSpreadsheet } from '../SpreadsheetContext';
-import { normalizeRect } from '../utils/selectionUtils';
+import { Selection, SelectionRect } from '../types/spreadsheet';
+import { normalizeRect, intersectRects } from '../utils/selectionUtils';
+import { ReferenceHighlight } from '../utils/referenceEntryUtils';
 import styles from './SelectionOverlay.module.css';
 
 interface Props {
+  selection: Selection;
+  // Sizes of every row and column, headers first (index 0)
   rowHeights: number[];
   colWidths: number[];
+  // Only draw the part of the selection inside these cells, e.g. one frozen pane
+  bounds?: SelectionRect;
+  // Position of the pane's container within the grid
+  offset?: { top: number; left: number };
+  // The cells an array formula spills into, outlined around the selection
+  spill?: SelectionRect;
+  // References of the formula being typed, each outlined in its color
+  references?: ReferenceHighlight[];
 }
 
 export const SelectionOverlay: React.FC<Props> = ({
+  selection,
   rowHeights,
   colWidths,
+  bounds,
+  offset = { top: 0, left: 0 },
+  spill,
+  references = [],
 }) => {
-  const { state } = useSpreadsheet();
-
-  if (!state.selection.ranges.length) {
+  if (!selection.ranges.length && !spill && !references.length) {
     return null;
   }
 
-  return (
-    <>
-      {state.selection.ranges.map((rect, i) => {
-        const r = normalizeRect(rect);
+  // Position and size of a range, clipped to the bounds
+  const place = (rect: SelectionRect, key: React.Key, className: string, color?: string) => {
+    const full = normalizeRect(rect);
+    const r = bounds ? intersectRects(full, bounds) : full;
+    if (!r) return null;
 
-        // Calculate position - account for headers (index 0)
-        const top = rowHeights
-          .slice(0, r.startRow + 1)
-          .reduce((a, b) => a + b, 0);
-        const left = colWidths
-          .slice(0, r.startCol + 1)
-          .reduce((a, b) => a + b, 0);
-        const height = rowHeights
-          .slice(r.startRow + 1, r.endRow + 2)
-          .reduce((a, b) => a + b, 0);
-        const width = colWidths
-          .slice(r.startCol + 1, r.endCol + 2)
-          .reduce((a, b) => a + b, 0);
+    // Calculate position - account for headers (index 0)
+    const top = rowHeights
+      .slice(0, r.startRow + 1)
+      .reduce((a, b) => a + b, 0) - offset.top;
+    const left = colWidths
+      .slice(0, r.startCol + 1)
+      .reduce((a, b) => a + b, 0) - offset.left;
+    const height = rowHeights
+      .slice(r.startRow + 1, r.endRow + 2)
+      .reduce((a, b) => a + b, 0);
+    const width = colWidths
+      .slice(r.startCol + 1, r.endCol + 2)
+      .reduce((a, b) => a + b, 0);
 
-        return (
-          <div
-            key={i}
-            className={styles.selection}
-            style={{
-              top,
-              left,
-              height,
-              width,
-            }}
-          />
-        );
-      })}
+    return (
+      <div
+        key={key}
+        className={className}
+        style={{
+          top,
+          left,
+          height,
+          width,
+          borderColor: color,
+          // Tinted with the color at about 8% opacity
+          backgroundColor: color && `${color}14`,
+          // No border where the range continues into the next pane
+          borderTopWidth: r.startRow > full.startRow ? 0 : undefined,
+          borderLeftWidth: r.startCol > full.startCol ? 0 : undefined,
+          borderBottomWidth: r.endRow < full.endRow ? 0 : undefined,
+          borderRightWidth: r.endCol < full.endCol ? 0 : undefined,
+        }}
+      />
+    );
+  };
+
+  return (
+    <>
+      {spill && place(spill, 'spill', styles.spill)}
+      {selection.ranges.map((rect, i) => place(rect, i, styles.selection))}
+      {references.map(({ rect, color }, i) => place(rect, `reference-${i}`, styles.reference, color))}
     </>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,152 @@
+import React, { useContext, useState, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { getSheets, getActiveSheetId, isValidSheetName } from '../utils/sheetUtils';
+import { ContextMenu } from './ContextMenu';
+import styles from './SheetTabs.module.css';
+
+interface SheetTabsProps {
+  className?: string;
+}
+
+export const SheetTabs: React.FC<SheetTabsProps> = ({ className }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [menu, setMenu] = useState<{ x: number; y: number; sheetId: string } | null>(null);
+
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const context = persistedContext || enhancedContext;
+
+  const dispatch = context?.dispatch;
+
+  const startRename = useCallback((sheetId: string, name: string) => {
+    setRenamingId(sheetId);
+    setRenameValue(name);
+  }, []);
+
+  const commitRename = useCallback(() => {
+    if (renamingId && dispatch && isValidSheetName(renameValue)) {
+      dispatch({ type: 'RENAME_SHEET', payload: { sheetId: renamingId, name: renameValue } });
+    }
+    setRenamingId(null);
+  }, [renamingId, renameValue, dispatch]);
+
+  if (!context || !dispatch) {
+    return null;
+  }
+
+  const { state } = context;
+  const sheets = getSheets(state);
+  const activeSheetId = getActiveSheetId(state);
+
+  const handleDrop = (targetIndex: number) => {
+    if (draggedId) {
+      dispatch({ type: 'MOVE_SHEET', payload: { sheetId: draggedId, toIndex: targetIndex } });
+    }
+    setDraggedId(null);
+  };
+
+  const menuActions = menu
+    ? [
+        {
+          label: 'Rename',
+          onClick: () => {
+            const sheet = sheets.find(s => s.id === menu.sheetId);
+            if (sheet) startRename(sheet.id, sheet.name);
+          },
+        },
+        {
+          label: 'Duplicate',
+          onClick: () => dispatch({ type: 'DUPLICATE_SHEET', payload: { sheetId: menu.sheetId } }),
+        },
+        {
+          label: 'Move Left',
+          onClick: () => {
+            const index = sheets.findIndex(s => s.id === menu.sheetId);
+            dispatch({ type: 'MOVE_SHEET', payload: { sheetId: menu.sheetId, toIndex: index - 1 } });
+          },
+        },
+        {
+          label: 'Move Right',
+          onClick: () => {
+            const index = sheets.findIndex(s => s.id === menu.sheetId);
+            dispatch({ type: 'MOVE_SHEET', payload: { sheetId: menu.sheetId, toIndex: index + 1 } });
+          },
+        },
+        ...(sheets.length > 1
+          ? [{
+              label: 'Delete',
+              onClick: () => dispatch({ type: 'DELETE_SHEET', payload: { sheetId: menu.sheetId } }),
+            }]
+          : []),
+      ]
+    : [];
+
+  return (
+    <div className={`${styles.container} ${className || ''}`} role="tablist" aria-label="Sheets">
+      <button
+        className={styles.addButton}
+        onClick={() => dispatch({ type: 'ADD_SHEET', payload: {} })}
+        title="Add Sheet"
+        aria-label="Add sheet"
+        disabled={state.readOnly}
+      >
+        +
+      </button>
+
+      {sheets.map((sheet, index) => {
+        const isActive = sheet.id === activeSheetId;
+
+        return (
+          <div
+            key={sheet.id}
+            className={`${styles.tab} ${isActive ? styles.active : ''} ${draggedId === sheet.id ? styles.dragging : ''}`}
+            role="tab"
+            aria-selected={isActive}
+            draggable={!state.readOnly && renamingId !== sheet.id}
+            onDragStart={() => setDraggedId(sheet.id)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => setDraggedId(null)}
+            onClick={() => !isActive && dispatch({ type: 'SET_ACTIVE_SHEET', payload: { sheetId: sheet.id } })}
+            onDoubleClick={() => !state.readOnly && startRename(sheet.id, sheet.name)}
+            onContextMenu={(e) => {
+              e.preventDefault();
+              if (!state.readOnly) setMenu({ x: e.clientX, y: e.clientY, sheetId: sheet.id });
+            }}
+          >
+            {renamingId === sheet.id ? (
+              <input
+                className={`${styles.renameInput} ${isValidSheetName(renameValue) ? '' : styles.invalid}`}
+                value={renameValue}
+                autoFocus
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                  e.stopPropagation();
+                }}
+                aria-label={`Rename sheet ${sheet.name}`}
+              />
+            ) : (
+              sheet.name
+            )}
+          </div>
+        );
+      })}
+
+      {menu && (
+        <ContextMenu
+          x={menu.x}
+          y={menu.y}
+          actions={menuActions}
+          onClose={() => setMenu(null)}
+        />
+      )}
+    </div>
+  );
+};
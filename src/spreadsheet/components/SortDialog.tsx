@@ -0,0 +1,186 @@
+import React, { useContext, useState, useMemo, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { SortKey, SortOrder, keyOf } from '../types/spreadsheet';
+import { columnToLetter } from '../utils/columnUtils';
+import { intersectRects } from '../utils/selectionUtils';
+import { SEVERITY_SORT_ORDER, detectHeaderRow, getSortRange } from '../utils/sortUtils';
+import styles from './SortDialog.module.css';
+
+interface Props {
+  onClose: () => void;
+}
+
+// Severity is the custom order SEVERITY_SORT_ORDER
+type OrderOption = SortOrder | 'severity';
+
+const ORDERS: Array<{ value: OrderOption; label: string }> = [
+  { value: 'auto', label: 'Values' },
+  { value: 'natural', label: 'Natural (hostnames)' },
+  { value: 'ip', label: 'IP address' },
+  { value: 'timestamp', label: 'Timestamp' },
+  { value: 'severity', label: 'Severity' },
+  { value: 'custom', label: 'Custom list' },
+];
+
+const isSeverityOrder = (key: SortKey): boolean =>
+  key.order === 'custom' && key.customOrder?.join(',') === SEVERITY_SORT_ORDER.join(',');
+
+const orderOption = (key: SortKey): OrderOption => (isSeverityOrder(key) ? 'severity' : key.order ?? 'auto');
+
+function withOrder(key: SortKey, option: OrderOption): SortKey {
+  if (option === 'severity') return { ...key, order: 'custom', customOrder: SEVERITY_SORT_ORDER };
+  if (option === 'custom') return { ...key, order: 'custom', customOrder: isSeverityOrder(key) ? [] : key.customOrder ?? [] };
+  return { column: key.column, ascending: key.ascending, order: option };
+}
+
+export const SortDialog: React.FC<Props> = ({ onClose }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch, getComputedValue } = (persistedContext || enhancedContext)!;
+
+  // Fixed when the dialog opens
+  const [range] = useState(() => getSortRange(state));
+  const [hasHeader, setHasHeader] = useState(() => !!range && detectHeaderRow(state.data, range));
+  const [keys, setKeys] = useState<SortKey[]>(() => {
+    const active = state.selection.active;
+    const column = range && active && active.col >= range.startCol && active.col <= range.endCol
+      ? active.col
+      : range?.startCol ?? 0;
+    return [{ column, ascending: true, order: 'auto' }];
+  });
+
+  // Columns labelled with their header when the range has one
+  const columns = useMemo(() => {
+    if (!range) return [];
+    return Array.from({ length: range.endCol - range.startCol + 1 }, (_, i) => {
+      const index = range.startCol + i;
+      const header = hasHeader ? state.data.get(keyOf(range.startRow, index))?.value : undefined;
+      return { index, label: header !== undefined && header !== '' ? String(header) : `Column ${columnToLetter(index)}` };
+    });
+  }, [range, hasHeader, state.data]);
+
+  const merged = !!range && !!state.merges?.some(merge => intersectRects(merge, range));
+  const error = !range
+    ? 'There is no data to sort.'
+    : merged
+      ? 'Ranges with merged cells can\'t be sorted. Unmerge them first.'
+      : null;
+
+  const setKey = useCallback((index: number, key: SortKey) => {
+    setKeys(current => current.map((k, i) => (i === index ? key : k)));
+  }, []);
+
+  const addKey = useCallback(() => {
+    setKeys(current => {
+      // Then by the next column not already sorted on
+      const used = new Set(current.map(key => key.column));
+      const next = columns.find(column => !used.has(column.index)) ?? columns[0];
+      return [...current, { column: next.index, ascending: true, order: 'auto' }];
+    });
+  }, [columns]);
+
+  const removeKey = useCallback((index: number) => {
+    setKeys(current => current.filter((_, i) => i !== index));
+  }, []);
+
+  const handleSort = useCallback(() => {
+    if (!range || error) return;
+    const sortKeys = keys.map(key => key.customOrder
+      ? { ...key, customOrder: key.customOrder.map(entry => entry.trim()).filter(Boolean) }
+      : key);
+    dispatch({ type: 'SORT_RANGE_BY', payload: { range, keys: sortKeys, hasHeader, getComputedValue } });
+    onClose();
+  }, [range, error, keys, hasHeader, dispatch, getComputedValue, onClose]);
+
+  return (
+    <div className={styles.container} role="dialog" aria-label="Sort range">
+      <div className={styles.header}>
+        <h3>Sort Range</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <label className={styles.optionLabel}>
+          <input
+            type="checkbox"
+            checked={hasHeader}
+            onChange={(e) => setHasHeader(e.target.checked)}
+            disabled={!range}
+          />
+          Data has header row
+        </label>
+
+        {range && keys.map((key, index) => (
+          <div key={index} className={styles.key}>
+            <span className={styles.keyLabel}>{index === 0 ? 'Sort by' : 'Then by'}</span>
+            <select
+              value={key.column}
+              onChange={(e) => setKey(index, { ...key, column: Number(e.target.value) })}
+              aria-label="Column"
+            >
+              {columns.map(column => (
+                <option key={column.index} value={column.index}>{column.label}</option>
+              ))}
+            </select>
+            <select
+              value={orderOption(key)}
+              onChange={(e) => setKey(index, withOrder(key, e.target.value as OrderOption))}
+              aria-label="Sort on"
+            >
+              {ORDERS.map(order => (
+                <option key={order.value} value={order.value}>{order.label}</option>
+              ))}
+            </select>
+            <select
+              value={key.ascending ? 'asc' : 'desc'}
+              onChange={(e) => setKey(index, { ...key, ascending: e.target.value === 'asc' })}
+              aria-label="Order"
+            >
+              <option value="asc">{key.order === 'custom' ? 'As listed' : 'Ascending'}</option>
+              <option value="desc">{key.order === 'custom' ? 'Reversed' : 'Descending'}</option>
+            </select>
+            <button
+              className={styles.removeKey}
+              onClick={() => removeKey(index)}
+              disabled={keys.length === 1}
+              aria-label="Remove sort key"
+            >
+              ×
+            </button>
+
+            {key.order === 'custom' && !isSeverityOrder(key) && (
+              <input
+                className={styles.customOrder}
+                type="text"
+                value={(key.customOrder ?? []).join(',')}
+                onChange={(e) => setKey(index, { ...key, customOrder: e.target.value.split(',') })}
+                placeholder="CRITICAL, HIGH, MEDIUM, LOW, INFO"
+                aria-label="Custom order"
+              />
+            )}
+          </div>
+        ))}
+
+        {error && <div className={styles.error} role="alert">{error}</div>}
+      </div>
+
+      <div className={styles.footer}>
+        <button className={styles.cancelButton} onClick={addKey} disabled={!range || keys.length >= columns.length}>
+          Add sort column
+        </button>
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button className={styles.applyButton} onClick={handleSort} disabled={!!error || state.readOnly}>
+            Sort
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { ResolvedSparkline, getSparklineDomain } from '../utils/sparklineUtils';
+import styles from './CellRenderer.module.css';
+
+interface Props {
+  sparkline: ResolvedSparkline;
+}
+
+// Drawing units, stretched to fill the cell
+const WIDTH = 100;
+const HEIGHT = 20;
+
+/**
+ * A tiny line, column or win/loss chart filling its cell
+ */
+export const Sparkline: React.FC<Props> = ({ sparkline }) => {
+  const { type, values, color, negativeColor, lineWidth } = sparkline;
+  const domain = getSparklineDomain(sparkline);
+  const band = WIDTH / Math.max(values.length, 1);
+
+  let marks: React.ReactNode = null;
+  if (type === 'winloss') {
+    // Wins above the middle, losses below, ties left out
+    marks = values.map((value, i) => (!value ? null : (
+      <rect
+        key={i}
+        x={i * band + band * 0.1}
+        y={value > 0 ? 1 : HEIGHT / 2 + 0.5}
+        width={band * 0.8}
+        height={HEIGHT / 2 - 1.5}
+        fill={value > 0 ? color : negativeColor}
+      />
+    )));
+  } else if (domain) {
+    const [low, high] = domain;
+    const yOf = (value: number) => {
+      const clamped = Math.min(Math.max(value, low), high);
+      return high === low ? HEIGHT / 2 : HEIGHT - ((clamped - low) / (high - low)) * HEIGHT;
+    };
+
+    if (type === 'column') {
+      const baseline = yOf(0);
+      marks = values.map((value, i) => (value === null ? null : (
+        <rect
+          key={i}
+          x={i * band + band * 0.1}
+          y={Math.min(yOf(value), baseline)}
+          width={band * 0.8}
+          // At least a sliver, so small values still show
+          height={Math.max(Math.abs(baseline - yOf(value)), 0.5)}
+          fill={value < 0 ? negativeColor : color}
+        />
+      )));
+    } else {
+      // Blank cells break the line
+      const segments: string[][] = [[]];
+      values.forEach((value, i) => {
+        if (value === null) {
+          segments.push([]);
+        } else {
+          segments[segments.length - 1].push(`${(i + 0.5) * band},${yOf(value)}`);
+        }
+      });
+      marks = segments.filter(points => points.length > 1).map((points, i) => (
+        <polyline
+          key={i}
+          points={points.join(' ')}
+          fill="none"
+          stroke={color}
+          strokeWidth={lineWidth}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      ));
+    }
+  }
+
+  return (
+    <svg
+      className={styles.sparkline}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      {marks}
+    </svg>
+  );
+};
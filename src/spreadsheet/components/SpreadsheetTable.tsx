@@ -1,9 +1,11 @@
-import React, { useRef, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { columnToLetter } from '../utils/columnUtils';
 import { useSpreadsheet } from '../SpreadsheetContext';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useClipboard } from '../hooks/useClipboard';
+import { spreadsheetReducer } from '../reducers/spreadsheetReducer';
+import { SpreadsheetAction } from '../types/actions';
 import { SelectionOverlay } from './SelectionOverlay';
 import { CellRenderer } from './CellRenderer';
 import { ContextMenu } from './ContextMenu';
@@ -14,8 +16,13 @@ export const SpreadsheetTable: React.FC = () => {
   const parentRef = useRef<HTMLDivElement>(null);
   const [contextMenu, setContextMenu] = useState<{x:number,y:number,actions:any[]} | null>(null);
   
+  // This provider has no dispatch; run the clipboard's actions through the reducer
+  const dispatch = useCallback((action: SpreadsheetAction) => {
+    setState((prev) => spreadsheetReducer(prev, action));
+  }, [setState]);
+
   useKeyboardShortcuts();
-  useClipboard();
+  useClipboard(state, dispatch);
 
   const rowVirtualizer = useVirtualizer({
     count: state.maxRows + 1,
@@ -67,6 +74,7 @@ export const SpreadsheetTable: React.FC = () => {
         }}
       >
         <SelectionOverlay
+          selection={state.selection}
           rowHeights={rowVirtualizer.getVirtualItems().map((v) => v.size)}
           colWidths={colVirtualizer.getVirtualItems().map((v) => v.size)}
         />
@@ -1,23 +1,53 @@
 import React, { useRef, useState, useCallback, useMemo, useEffect } from 'react';
-import { useVirtualizer } from '@tanstack/react-virtual';
+import { useVirtualizer, defaultRangeExtractor, Range, VirtualItem } from '@tanstack/react-virtual';
 import { columnToLetter } from '../utils/columnUtils';
 import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
 import { useMultiSelection } from '../hooks/useMultiSelection';
+import { useClipboard } from '../hooks/useClipboard';
+import { Chart, FilterRule, MergeDirection, PivotTable, SelectionRect, Table } from '../types/spreadsheet';
+import { intersectRects } from '../utils/selectionUtils';
+import { findMerge } from '../utils/mergeUtils';
+import { getHiddenRows } from '../utils/filterUtils';
+import { findPivotTableAt } from '../utils/pivotUtils';
+import { getSpillAt } from '../utils/spillUtils';
+import { getTableAt } from '../utils/tableUtils';
+import { getActiveSheet } from '../utils/sheetUtils';
+import { getReferenceHighlights } from '../utils/referenceEntryUtils';
 import { SelectionOverlay } from './SelectionOverlay';
 import { CellRendererOptimized } from './CellRendererOptimized';
 import { ContextMenu } from './ContextMenu';
 import { ResizeHandle } from './ResizeHandle';
 import { DataValidation } from './DataValidation';
+import { PasteSpecial } from './PasteSpecial';
+import { FindReplace, FindReplaceMode } from './FindReplace';
+import { FilterButton } from './FilterButton';
+import { FilterViews } from './FilterViews';
+import { SortDialog } from './SortDialog';
+import { ConditionalFormattingPanel } from './ConditionalFormatting';
+import { PivotTableDialog } from './PivotTableDialog';
+import { ChartDialog } from './ChartDialog';
+import { TableDialog } from './TableDialog';
+import { ChartOverlay } from './ChartOverlay';
 import { downloadCSV, importFromCSVFile } from '../utils/csvUtils';
 import styles from './SpreadsheetTable.module.css';
 
 export const SpreadsheetTableOptimized: React.FC = () => {
-  const { state, dispatch } = useSpreadsheetEnhanced();
+  const { state, dispatch, getComputedValue, spills } = useSpreadsheetEnhanced();
   const parentRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [contextMenu, setContextMenu] = useState<{x:number,y:number,row:number,col:number} | null>(null);
   const [validationDialog, setValidationDialog] = useState<{row:number,col:number} | null>(null);
+  const [pasteSpecialOpen, setPasteSpecialOpen] = useState(false);
+  const [findMode, setFindMode] = useState<FindReplaceMode | null>(null);
+  const [filterViewsOpen, setFilterViewsOpen] = useState(false);
+  const [sortDialogOpen, setSortDialogOpen] = useState(false);
+  const [conditionalFormattingOpen, setConditionalFormattingOpen] = useState(false);
+  // Open with the pivot table being edited, or none when inserting one
+  const [pivotDialog, setPivotDialog] = useState<{ pivot?: PivotTable } | null>(null);
+  // Likewise with the chart being edited
+  const [chartDialog, setChartDialog] = useState<{ chart?: Chart } | null>(null);
+  const [tableDialog, setTableDialog] = useState<{ table?: Table } | null>(null);
   
   const {
     startSelection,
@@ -25,14 +55,78 @@ export const SpreadsheetTableOptimized: React.FC = () => {
     endSelection,
   } = useMultiSelection(state, dispatch);
 
-  // Optimized virtualizers with dynamic sizing
+  const openPasteSpecial = useCallback(() => setPasteSpecialOpen(true), []);
+  const clipboard = useClipboard(state, dispatch, getComputedValue, openPasteSpecial, spills);
+
+  // Ctrl/Cmd+F opens Find, Ctrl/Cmd+H Find & Replace
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey || state.editing) return;
+      const key = e.key.toLowerCase();
+      if (key === 'f' || (key === 'h' && !state.readOnly)) {
+        e.preventDefault();
+        setFindMode(key === 'f' ? 'find' : 'replace');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [state.editing, state.readOnly]);
+
+  // Frozen rows and columns stay in place, along with the headers
+  const frozenRows = Math.min(state.sheetFormatting?.frozenRows || 0, state.maxRows);
+  const frozenCols = Math.min(state.sheetFormatting?.frozenCols || 0, state.maxCols);
+
+  const hiddenRows = getHiddenRows(state);
+
+  // Sizes of the headers, then each row/column. Rows hidden by filters take no space.
+  const rowSizes = useMemo(() => [
+    28, // Header
+    ...Array.from({ length: state.maxRows }, (_, i) => hiddenRows?.has(i) ? 0 : state.rowHeights?.[i] || 28),
+  ], [state.maxRows, state.rowHeights, hiddenRows]);
+
+  const colSizes = useMemo(() => [
+    48, // Row numbers
+    ...Array.from({ length: state.maxCols }, (_, i) => state.colWidths?.[i] || 100),
+  ], [state.maxCols, state.colWidths]);
+
+  // Offsets by virtual index, for cells spanning merged regions
+  const rowStarts = useMemo(() => {
+    const starts = [0];
+    rowSizes.forEach(size => starts.push(starts[starts.length - 1] + size));
+    return starts;
+  }, [rowSizes]);
+
+  const colStarts = useMemo(() => {
+    const starts = [0];
+    colSizes.forEach(size => starts.push(starts[starts.length - 1] + size));
+    return starts;
+  }, [colSizes]);
+
+  const frozenHeight = rowStarts[frozenRows + 1];
+  const frozenWidth = colStarts[frozenCols + 1];
+
+  // The row virtualizer only counts rows left visible by filters: after the
+  // header, virtual index i is sheet row visibleRows[i - 1]
+  const visibleRows = useMemo(
+    () => Array.from({ length: state.maxRows }, (_, i) => i).filter(row => !hiddenRows?.has(row)),
+    [state.maxRows, hiddenRows]
+  );
+  const visibleFrozenRows = visibleRows.filter(row => row < frozenRows).length;
+
+  // Optimized virtualizers with dynamic sizing. Frozen rows and columns are
+  // always rendered, and scrolling to a cell keeps it clear of them.
   const rowVirtualizer = useVirtualizer({
-    count: state.maxRows + 1,
+    count: visibleRows.length + 1,
     getScrollElement: () => parentRef.current,
-    estimateSize: useCallback((index) => {
-      if (index === 0) return 28; // Header
-      return state.rowHeights?.[index - 1] || 28;
-    }, [state.rowHeights]),
+    estimateSize: useCallback((index) => (index === 0 ? rowSizes[0] : rowSizes[visibleRows[index - 1] + 1]), [rowSizes, visibleRows]),
+    // Keyed by sheet row, so filtering remeasures the rows
+    getItemKey: useCallback((index: number) => (index === 0 ? 'header' : visibleRows[index - 1]), [visibleRows]),
+    rangeExtractor: useCallback((range: Range) => {
+      const pinned = Array.from({ length: visibleFrozenRows + 1 }, (_, i) => i);
+      return [...pinned, ...defaultRangeExtractor(range).filter(i => i > visibleFrozenRows)];
+    }, [visibleFrozenRows]),
+    scrollPaddingStart: frozenHeight,
     overscan: 5,
   });
 
@@ -40,16 +134,42 @@ export const SpreadsheetTableOptimized: React.FC = () => {
     horizontal: true,
     count: state.maxCols + 1,
     getScrollElement: () => parentRef.current,
-    estimateSize: useCallback((index) => {
-      if (index === 0) return 48; // Row numbers
-      return state.colWidths?.[index - 1] || 100;
-    }, [state.colWidths]),
+    estimateSize: useCallback((index) => colSizes[index], [colSizes]),
+    rangeExtractor: useCallback((range: Range) => {
+      const pinned = Array.from({ length: frozenCols + 1 }, (_, i) => i);
+      return [...pinned, ...defaultRangeExtractor(range).filter(i => i > frozenCols)];
+    }, [frozenCols]),
+    scrollPaddingStart: frozenWidth,
     overscan: 3,
   });
 
+  // Bring the active cell into view when the keyboard or a jump moves it,
+  // but not when rows are filtered or frozen around it. Frozen cells are
+  // always visible.
+  const scrollToCell = useRef<(row: number, col: number) => void>();
+  scrollToCell.current = (row, col) => {
+    const rowIndex = visibleRows.indexOf(row) + 1;
+    if (row >= frozenRows && rowIndex > 0) rowVirtualizer.scrollToIndex(rowIndex);
+    if (col >= frozenCols) colVirtualizer.scrollToIndex(col + 1);
+  };
+  const activeRow = state.selection.active?.row;
+  const activeCol = state.selection.active?.col;
+  useEffect(() => {
+    if (activeRow !== undefined && activeCol !== undefined) scrollToCell.current?.(activeRow, activeCol);
+  }, [activeRow, activeCol]);
+
+  // Where pointing at cells for a formula began, while the mouse is down
+  const pointStart = useRef<{ row: number; col: number } | null>(null);
+
   // Memoized handlers with useCallback
   const handleMouseDown = useCallback((row: number, col: number, e: React.MouseEvent) => {
-    if (e.shiftKey) {
+    const editing = state.editing;
+    if (state.formulaEdit?.acceptsReference && !(editing?.row === row && editing.col === col)) {
+      // Enter the cell into the formula, keeping the caret in its editor
+      e.preventDefault();
+      pointStart.current = { row, col };
+      dispatch({ type: 'POINT_FORMULA_REFERENCE', payload: { startRow: row, startCol: col, endRow: row, endCol: col } });
+    } else if (e.shiftKey) {
       // Extend selection
       updateSelection(row, col);
     } else if (e.ctrlKey || e.metaKey) {
@@ -59,13 +179,19 @@ export const SpreadsheetTableOptimized: React.FC = () => {
       // Start new selection
       startSelection(row, col, false);
     }
-  }, [startSelection, updateSelection]);
+  }, [state.editing, state.formulaEdit?.acceptsReference, dispatch, startSelection, updateSelection]);
 
   const handleMouseEnter = useCallback((row: number, col: number) => {
-    updateSelection(row, col);
-  }, [updateSelection]);
+    const start = pointStart.current;
+    if (start) {
+      dispatch({ type: 'POINT_FORMULA_REFERENCE', payload: { startRow: start.row, startCol: start.col, endRow: row, endCol: col } });
+    } else {
+      updateSelection(row, col);
+    }
+  }, [dispatch, updateSelection]);
 
   const handleMouseUp = useCallback(() => {
+    pointStart.current = null;
     endSelection();
   }, [endSelection]);
 
@@ -83,28 +209,33 @@ export const SpreadsheetTableOptimized: React.FC = () => {
   }, [dispatch]);
 
   // Context menu actions
+  const mergeSelection = useCallback((direction: MergeDirection) => {
+    if (state.selection.ranges.length > 0) {
+      dispatch({ type: 'MERGE_CELLS', payload: { range: state.selection.ranges[0], direction } });
+    }
+  }, [state.selection.ranges, dispatch]);
+
   const contextMenuActions = useMemo(() => {
     if (!contextMenu) return [];
+    const pivot = findPivotTableAt(state.pivotTables, contextMenu.row, contextMenu.col);
+    const table = getTableAt(state.tables, contextMenu.row, contextMenu.col);
     
     return [
       { 
         label: 'Cut', 
-        onClick: () => {
-          // Implement cut
-          document.execCommand('cut');
-        } 
+        onClick: clipboard.cut,
       },
       { 
         label: 'Copy', 
-        onClick: () => {
-          document.execCommand('copy');
-        } 
+        onClick: clipboard.copy,
       },
       { 
         label: 'Paste', 
-        onClick: () => {
-          document.execCommand('paste');
-        } 
+        onClick: () => clipboard.paste(),
+      },
+      { 
+        label: 'Paste Special...', 
+        onClick: openPasteSpecial,
       },
       { label: '---' }, // Separator
       { 
@@ -145,6 +276,27 @@ export const SpreadsheetTableOptimized: React.FC = () => {
         } 
       },
       { label: '---' },
+      { 
+        label: 'Merge All', 
+        onClick: () => mergeSelection('all')
+      },
+      { 
+        label: 'Merge Horizontally', 
+        onClick: () => mergeSelection('horizontal')
+      },
+      { 
+        label: 'Merge Vertically', 
+        onClick: () => mergeSelection('vertical')
+      },
+      { 
+        label: 'Unmerge', 
+        onClick: () => {
+          if (state.selection.ranges.length > 0) {
+            dispatch({ type: 'UNMERGE_CELLS', payload: { range: state.selection.ranges[0] } });
+          }
+        } 
+      },
+      { label: '---' },
       { 
         label: 'Clear Contents', 
         onClick: () => {
@@ -184,6 +336,15 @@ export const SpreadsheetTableOptimized: React.FC = () => {
         } 
       },
       { label: '---' },
+      { 
+        label: state.filterState ? 'Remove Filters' : 'Filter', 
+        onClick: () => {
+          dispatch(state.filterState
+            ? { type: 'CLEAR_FILTERS' }
+            : { type: 'SET_FILTER_RULES', payload: { rules: [], showFilterHeaders: true } });
+        } 
+      },
+      { label: 'Filter Views...', onClick: () => setFilterViewsOpen(true) },
       { 
         label: 'Sort Ascending', 
         onClick: () => {
@@ -193,7 +354,8 @@ export const SpreadsheetTableOptimized: React.FC = () => {
               payload: { 
                 range: state.selection.ranges[0], 
                 column: contextMenu.col, 
-                ascending: true 
+                ascending: true,
+                getComputedValue,
               } 
             });
           }
@@ -208,12 +370,43 @@ export const SpreadsheetTableOptimized: React.FC = () => {
               payload: { 
                 range: state.selection.ranges[0], 
                 column: contextMenu.col, 
-                ascending: false 
+                ascending: false,
+                getComputedValue,
               } 
             });
           }
         } 
       },
+      { label: 'Sort Range...', onClick: () => setSortDialogOpen(true) },
+      { label: '---' },
+      { label: 'Insert Pivot Table...', onClick: () => setPivotDialog({}) },
+      ...(pivot ? [
+        { label: 'Edit Pivot Table...', onClick: () => setPivotDialog({ pivot }) },
+        { 
+          label: 'Refresh Pivot Table', 
+          onClick: () => {
+            dispatch({ type: 'REFRESH_PIVOT_TABLE', payload: { id: pivot.id, getComputedValue } });
+          } 
+        },
+        { 
+          label: 'Delete Pivot Table', 
+          onClick: () => {
+            dispatch({ type: 'DELETE_PIVOT_TABLE', payload: { id: pivot.id } });
+          } 
+        },
+      ] : []),
+      { label: 'Insert Chart...', onClick: () => setChartDialog({}) },
+      ...(table ? [
+        { label: 'Table Settings...', onClick: () => setTableDialog({ table }) },
+        { 
+          label: 'Convert Table to Range', 
+          onClick: () => {
+            dispatch({ type: 'DELETE_TABLE', payload: { id: table.id } });
+          } 
+        },
+      ] : [
+        { label: 'Create Table...', onClick: () => setTableDialog({}) },
+      ]),
       { label: '---' },
       { 
         label: 'Data Validation...', 
@@ -221,6 +414,7 @@ export const SpreadsheetTableOptimized: React.FC = () => {
           setValidationDialog({ row: contextMenu.row, col: contextMenu.col });
         } 
       },
+      { label: 'Conditional Formatting...', onClick: () => setConditionalFormattingOpen(true) },
       { label: '---' },
       { 
         label: 'Export to CSV', 
@@ -235,7 +429,7 @@ export const SpreadsheetTableOptimized: React.FC = () => {
         } 
       },
     ].map(item => item.label === '---' ? { label: item.label, onClick: () => {} } : item);
-  }, [contextMenu, state.selection.ranges, state.data, state.maxRows, state.maxCols, dispatch]);
+  }, [contextMenu, state.selection.ranges, state.data, state.maxRows, state.maxCols, dispatch, clipboard, openPasteSpecial, mergeSelection, state.filterState, state.pivotTables, state.tables, getComputedValue]);
 
   // Handle file import
   const handleFileImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -255,7 +449,7 @@ export const SpreadsheetTableOptimized: React.FC = () => {
             return { row, col, data: cellData };
           })
         }}
-      ]});
+      ], label: `Import ${file.name}` });
     } catch (error) {
       console.error('Failed to import CSV:', error);
       alert('Failed to import CSV file');
@@ -304,11 +498,201 @@ export const SpreadsheetTableOptimized: React.FC = () => {
     }
   }, [state.selection.active, state.data]);
 
+  const handleFilterChange = useCallback((rules: FilterRule[]) => {
+    dispatch({ type: 'SET_FILTER_RULES', payload: { rules, getComputedValue } });
+  }, [dispatch, getComputedValue]);
+
+  const renderCell = (row: VirtualItem, col: VirtualItem, left: number) => {
+    const isHeaderRow = row.index === 0;
+    const isHeaderCol = col.index === 0;
+
+    return (
+      <div
+        key={`${row.index}-${col.index}`}
+        className={`${styles.cell} ${
+          isHeaderRow || isHeaderCol ? styles.header : ''
+        }`}
+        style={{
+          position: 'absolute',
+          left: col.start - left,
+          width: col.size,
+          height: '100%',
+        }}
+        onMouseDown={(e) =>
+          !isHeaderRow && !isHeaderCol && handleMouseDown(row.index - 1, col.index - 1, e)
+        }
+        onMouseEnter={() =>
+          !isHeaderRow && !isHeaderCol && handleMouseEnter(row.index - 1, col.index - 1)
+        }
+        onContextMenu={(e) =>
+          !isHeaderRow && !isHeaderCol && handleContextMenu(e, row.index - 1, col.index - 1)
+        }
+        role={isHeaderRow || isHeaderCol ? 'columnheader' : 'gridcell'}
+        aria-colindex={col.index + 1}
+      >
+        {isHeaderRow && isHeaderCol ? (
+          ''
+        ) : isHeaderRow ? (
+          <>
+            {columnToLetter(col.index - 1)}
+            {state.filterState?.showFilterHeaders && col.index > 0 && (
+              <span className={styles.headerFilter}>
+                <FilterButton
+                  column={col.index - 1}
+                  data={state.data}
+                  maxRows={state.maxRows}
+                  existingFilters={state.filterState.rules}
+                  onFilterChange={handleFilterChange}
+                  hasActiveFilter={state.filterState.rules.some(rule => rule.column === col.index - 1)}
+                />
+              </span>
+            )}
+            {col.index > 0 && (
+              <ResizeHandle
+                type="column"
+                index={col.index - 1}
+                onResize={handleColResize}
+                initialSize={col.size}
+              />
+            )}
+          </>
+        ) : isHeaderCol ? (
+          <>
+            {row.index}
+            {row.index > 0 && (
+              <ResizeHandle
+                type="row"
+                index={row.index - 1}
+                onResize={handleRowResize}
+                initialSize={row.size}
+              />
+            )}
+          </>
+        ) : (
+          <CellRendererOptimized row={row.index - 1} col={col.index - 1} />
+        )}
+      </div>
+    );
+  };
+
+  const renderRow = (row: VirtualItem, cells: React.ReactNode, top: number) => (
+    <div
+      key={row.key}
+      role="row"
+      aria-rowindex={row.index + 1}
+      style={{
+        position: 'absolute',
+        top: row.start - top,
+        height: row.size,
+        width: '100%',
+      }}
+    >
+      {cells}
+    </div>
+  );
+
+  // Virtual item covering several rows or columns, from one index to another
+  const spanItem = (starts: number[], sizes: number[], from: number, to: number): VirtualItem => {
+    const start = starts[from];
+    const end = starts[to] + sizes[to];
+    return { key: `merge-${from}-${to}`, index: from, start, end, size: end - start, lane: 0 };
+  };
+
+  // Rows of one pane, positioned relative to the pane. Merged regions whose
+  // top-left cell is in the pane are drawn as one cell over their rows and
+  // columns, even when that cell has scrolled out of the virtual range.
+  const renderRows = (
+    rows: VirtualItem[],
+    cols: VirtualItem[],
+    bounds: SelectionRect,
+    top: number,
+    left: number
+  ) => {
+    const merges = (state.merges ?? []).filter(merge =>
+      intersectRects({ ...merge, endRow: merge.startRow, endCol: merge.startCol }, bounds)
+    );
+    if (merges.length === 0 || rows.length === 0 || cols.length === 0) {
+      return rows.map((row) => renderRow(row, cols.map((col) => renderCell(row, col, left)), top));
+    }
+
+    const visible = {
+      startRow: rows[0].index - 1,
+      startCol: cols[0].index - 1,
+      endRow: rows[rows.length - 1].index - 1,
+      endCol: cols[cols.length - 1].index - 1,
+    };
+
+    return [
+      ...rows.map((row) => renderRow(
+        row,
+        cols
+          .filter((col) => !findMerge(merges, row.index - 1, col.index - 1))
+          .map((col) => renderCell(row, col, left)),
+        top
+      )),
+      ...merges
+        .filter((merge) => intersectRects(merge, visible))
+        .map((merge) => {
+          const row = spanItem(rowStarts, rowSizes, merge.startRow + 1, merge.endRow + 1);
+          const col = spanItem(colStarts, colSizes, merge.startCol + 1, merge.endCol + 1);
+          return renderRow(row, renderCell(row, col, left), top);
+        }),
+    ];
+  };
+
+  // The spill range the active cell is in, outlined with the selection
+  const activeSpill = state.selection.active
+    ? getSpillAt(spills, state.selection.active.row, state.selection.active.col)
+    : undefined;
+
+  // References of the formula being typed, outlined like Excel does
+  const sheetName = getActiveSheet(state).name;
+  const editedFormula = state.formulaEdit?.formula;
+  const referenceHighlights = useMemo(
+    () => editedFormula !== undefined
+      ? getReferenceHighlights(editedFormula, sheetName, state.maxRows, state.maxCols)
+      : [],
+    [editedFormula, sheetName, state.maxRows, state.maxCols]
+  );
+
+  // The part of the selection within one pane's cells
+  const renderSelection = (bounds: SelectionRect, top: number, left: number) => (
+    <SelectionOverlay
+      selection={state.selection}
+      rowHeights={rowSizes}
+      colWidths={colSizes}
+      bounds={bounds}
+      offset={{ top, left }}
+      spill={activeSpill}
+      references={referenceHighlights}
+    />
+  );
+
+  // Rows by sheet position (header at 0), like the columns
+  const virtualRows = rowVirtualizer.getVirtualItems().map((row) =>
+    row.index === 0 ? row : { ...row, index: visibleRows[row.index - 1] + 1 }
+  );
+  const virtualCols = colVirtualizer.getVirtualItems();
+  const pinnedRows = virtualRows.filter((row) => row.index <= frozenRows);
+  const scrollingRows = virtualRows.filter((row) => row.index > frozenRows);
+  const pinnedCols = virtualCols.filter((col) => col.index <= frozenCols);
+  const scrollingCols = virtualCols.filter((col) => col.index > frozenCols);
+  const totalWidth = colVirtualizer.getTotalSize();
+  const totalHeight = rowVirtualizer.getTotalSize();
+  const lastRow = state.maxRows - 1;
+  const lastCol = state.maxCols - 1;
+
+  // Cells of each pane
+  const scrollingBounds = { startRow: frozenRows, startCol: frozenCols, endRow: lastRow, endCol: lastCol };
+  const topBounds = { startRow: 0, startCol: frozenCols, endRow: frozenRows - 1, endCol: lastCol };
+  const cornerBounds = { startRow: 0, startCol: 0, endRow: frozenRows - 1, endCol: frozenCols - 1 };
+  const leftBounds = { startRow: frozenRows, startCol: 0, endRow: lastRow, endCol: frozenCols - 1 };
+
   return (
     <>
       <div 
         ref={parentRef} 
-        className={styles.container}
+        className={`${styles.container} ${state.activeFilterView ? styles.filterViewOpen : ''}`}
         onMouseUp={handleMouseUp}
         role="grid"
         aria-label="Spreadsheet"
@@ -317,90 +701,47 @@ export const SpreadsheetTableOptimized: React.FC = () => {
       >
         <div
           style={{
-            width: colVirtualizer.getTotalSize(),
-            height: rowVirtualizer.getTotalSize(),
+            width: totalWidth,
+            height: totalHeight,
             position: 'relative',
           }}
         >
-          <SelectionOverlay
-            rowHeights={rowVirtualizer.getVirtualItems().map((v) => v.size)}
-            colWidths={colVirtualizer.getVirtualItems().map((v) => v.size)}
-          />
-          
-          {rowVirtualizer.getVirtualItems().map((row) => (
+          {/* Scrolling cells. The panes below stick to the top and left edges
+              over them: headers and frozen rows, headers and frozen columns,
+              and the corner where they meet. */}
+          <div className={styles.scrollingPane} style={{ width: totalWidth, height: totalHeight }}>
+            {renderSelection(scrollingBounds, 0, 0)}
+            {renderRows(scrollingRows, scrollingCols, scrollingBounds, 0, 0)}
+            <ChartOverlay
+              rowStarts={rowStarts}
+              colStarts={colStarts}
+              onEdit={(chart) => setChartDialog({ chart })}
+            />
+          </div>
+
+          <div
+            className={`${styles.frozenTop} ${frozenRows ? styles.frozenEdgeBottom : ''}`}
+            style={{ width: totalWidth, height: frozenHeight }}
+          >
+            {renderSelection(topBounds, 0, 0)}
+            {renderRows(pinnedRows, scrollingCols, topBounds, 0, 0)}
+
             <div
-              key={row.key}
-              role="row"
-              aria-rowindex={row.index + 1}
-              style={{
-                position: 'absolute',
-                top: row.start,
-                height: row.size,
-                width: '100%',
-              }}
+              className={`${styles.frozenCorner} ${frozenCols ? styles.frozenEdgeRight : ''}`}
+              style={{ width: frozenWidth, height: frozenHeight }}
             >
-              {colVirtualizer.getVirtualItems().map((col) => {
-                const isHeaderRow = row.index === 0;
-                const isHeaderCol = col.index === 0;
-
-                return (
-                  <div
-                    key={`${row.index}-${col.index}`}
-                    className={`${styles.cell} ${
-                      isHeaderRow || isHeaderCol ? styles.header : ''
-                    }`}
-                    style={{
-                      position: 'absolute',
-                      left: col.start,
-                      width: col.size,
-                      height: '100%',
-                    }}
-                    onMouseDown={(e) =>
-                      !isHeaderRow && !isHeaderCol && handleMouseDown(row.index - 1, col.index - 1, e)
-                    }
-                    onMouseEnter={() =>
-                      !isHeaderRow && !isHeaderCol && handleMouseEnter(row.index - 1, col.index - 1)
-                    }
-                    onContextMenu={(e) =>
-                      !isHeaderRow && !isHeaderCol && handleContextMenu(e, row.index - 1, col.index - 1)
-                    }
-                    role={isHeaderRow || isHeaderCol ? 'columnheader' : 'gridcell'}
-                    aria-colindex={col.index + 1}
-                  >
-                    {isHeaderRow && isHeaderCol ? (
-                      ''
-                    ) : isHeaderRow ? (
-                      <>
-                        {columnToLetter(col.index - 1)}
-                        {col.index > 0 && (
-                          <ResizeHandle
-                            type="column"
-                            index={col.index - 1}
-                            onResize={handleColResize}
-                            initialSize={col.size}
-                          />
-                        )}
-                      </>
-                    ) : isHeaderCol ? (
-                      <>
-                        {row.index}
-                        {row.index > 0 && (
-                          <ResizeHandle
-                            type="row"
-                            index={row.index - 1}
-                            onResize={handleRowResize}
-                            initialSize={row.size}
-                          />
-                        )}
-                      </>
-                    ) : (
-                      <CellRendererOptimized row={row.index - 1} col={col.index - 1} />
-                    )}
-                  </div>
-                );
-              })}
+              {renderSelection(cornerBounds, 0, 0)}
+              {renderRows(pinnedRows, pinnedCols, cornerBounds, 0, 0)}
             </div>
-          ))}
+          </div>
+
+          <div
+            className={`${styles.frozenLeft} ${frozenCols ? styles.frozenEdgeRight : ''}`}
+            style={{ width: frozenWidth, height: totalHeight - frozenHeight }}
+          >
+            {renderSelection(leftBounds, frozenHeight, 0)}
+            {renderRows(scrollingRows, pinnedCols, leftBounds, frozenHeight, 0)}
+          </div>
         </div>
       </div>
 
@@ -421,6 +762,46 @@ export const SpreadsheetTableOptimized: React.FC = () => {
         />
       )}
 
+      {pasteSpecialOpen && (
+        <PasteSpecial
+          onPaste={clipboard.paste}
+          onClose={() => setPasteSpecialOpen(false)}
+        />
+      )}
+
+      {findMode && (
+        <FindReplace
+          mode={findMode}
+          onModeChange={setFindMode}
+          onClose={() => setFindMode(null)}
+        />
+      )}
+
+      {sortDialogOpen && (
+        <SortDialog onClose={() => setSortDialogOpen(false)} />
+      )}
+
+      {pivotDialog && (
+        <PivotTableDialog pivot={pivotDialog.pivot} onClose={() => setPivotDialog(null)} />
+      )}
+
+      {chartDialog && (
+        <ChartDialog chart={chartDialog.chart} onClose={() => setChartDialog(null)} />
+      )}
+
+      {tableDialog && (
+        <TableDialog table={tableDialog.table} onClose={() => setTableDialog(null)} />
+      )}
+
+      {filterViewsOpen && (
+        <FilterViews onClose={() => setFilterViewsOpen(false)} />
+      )}
+
+      <ConditionalFormattingPanel
+        isVisible={conditionalFormattingOpen}
+        onClose={() => setConditionalFormattingOpen(false)}
+      />
+
       <input
         ref={fileInputRef}
         type="file"
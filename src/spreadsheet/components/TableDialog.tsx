@@ -0,0 +1,233 @@
+import React, { useContext, useState, useMemo, useCallback } from 'react';
+import { SpreadsheetContext } from '../SpreadsheetContextPersisted';
+import { useSpreadsheetEnhanced } from '../SpreadsheetContextEnhanced';
+import { SpreadsheetAction } from '../types/actions';
+import { SelectionRect, Table, TableTotalFunction, keyOf } from '../types/spreadsheet';
+import { cellRefToString } from '../utils/formulaUtils';
+import { resolveRange } from '../utils/namedRangeUtils';
+import { getActiveSheetId } from '../utils/sheetUtils';
+import { getSortRange } from '../utils/sortUtils';
+import { intersectRects } from '../utils/selectionUtils';
+import {
+  TABLE_TOTAL_FUNCTIONS,
+  createTableId,
+  getDefaultTotalRow,
+  getTableColumns,
+  getTableHeaderUpdates,
+  getTotalFormula,
+  getUniqueTableName,
+  getWorkbookTables,
+  isTableNameAvailable,
+  isValidTableName,
+  parseTotalFunction,
+} from '../utils/tableUtils';
+import styles from './TableDialog.module.css';
+
+interface Props {
+  // The table to edit; a new one is created when omitted
+  table?: Table;
+  onClose: () => void;
+}
+
+type TotalChoice = TableTotalFunction | 'none';
+
+export const TableDialog: React.FC<Props> = ({ table, onClose }) => {
+  // Try persisted context first, fall back to enhanced
+  const persistedContext = useContext(SpreadsheetContext);
+  const enhancedContext = persistedContext ? null : useSpreadsheetEnhanced();
+  const { state, dispatch } = (persistedContext || enhancedContext)!;
+
+  // The header and data rows, without any total row; fixed when the dialog opens
+  const [initialRange] = useState<SelectionRect | null>(() => {
+    if (!table) return getSortRange(state);
+    return table.showTotalRow ? { ...table.range, endRow: table.range.endRow - 1 } : table.range;
+  });
+  const [name, setName] = useState(() =>
+    table?.name ?? getUniqueTableName(getWorkbookTables(state).map(({ table: t }) => t), state.namedRanges)
+  );
+  const [rangeText, setRangeText] = useState(() => {
+    if (!initialRange) return '';
+    return `${cellRefToString(initialRange.startRow, initialRange.startCol)}:${cellRefToString(initialRange.endRow, initialRange.endCol)}`;
+  });
+  const [bandedRows, setBandedRows] = useState(table?.bandedRows ?? true);
+  const [showTotalRow, setShowTotalRow] = useState(table?.showTotalRow ?? false);
+
+  // Tables cover cells of their own sheet
+  const resolved = useMemo(() => resolveRange(state, rangeText), [state, rangeText]);
+  const range = resolved?.sheetId === getActiveSheetId(state) ? resolved.rect : null;
+
+  // Column names as the table will have them, blank and repeated headers named
+  const columns = useMemo(() => {
+    if (!range) return [];
+    const names = getTableColumns({ range }, state.data);
+    getTableHeaderUpdates(state.data, range).forEach(({ col, data }) => {
+      names[col - range.startCol] = String(data.value);
+    });
+    return names;
+  }, [range, state.data]);
+
+  // Each column's total as it stands, or as a new total row would start
+  const initialTotals = useMemo(() => {
+    if (!range) return [];
+    const totalRow = range.endRow + 1;
+    if (table?.showTotalRow) {
+      return columns.map((_, i) =>
+        parseTotalFunction(state.data.get(keyOf(totalRow, range.startCol + i))?.formula) ?? 'none'
+      );
+    }
+    const defaults = getDefaultTotalRow({ name, range }, state.data);
+    return columns.map((_, i) =>
+      parseTotalFunction(defaults.find(cell => cell.col === range.startCol + i)?.data.formula) ?? 'none'
+    );
+  }, [range, columns, table, name, state.data]);
+  const [totalChoices, setTotalChoices] = useState<Record<number, TotalChoice>>({});
+  const totalOf = useCallback(
+    (i: number): TotalChoice => totalChoices[i] ?? initialTotals[i] ?? 'none',
+    [totalChoices, initialTotals]
+  );
+
+  const error = useMemo(() => {
+    const trimmed = name.trim();
+    if (!isValidTableName(trimmed)) {
+      return 'Names start with a letter or underscore, have no spaces and can\'t look like a cell reference.';
+    }
+    if (!isTableNameAvailable(state, trimmed, table?.id)) return 'That name is already used by a table or named range.';
+    if (!range || range.endRow === range.startRow) {
+      return 'Enter a range on this sheet with a header row and at least one row of data, e.g. A1:D20.';
+    }
+    const overlaps = state.tables?.some(other => other.id !== table?.id && intersectRects(other.range, range));
+    if (overlaps) return 'The range overlaps another table.';
+
+    if (showTotalRow && !table?.showTotalRow) {
+      const totalRow = range.endRow + 1;
+      let blocked = totalRow >= state.maxRows;
+      for (let col = range.startCol; col <= range.endCol && !blocked; col++) {
+        blocked = state.data.has(keyOf(totalRow, col));
+      }
+      if (blocked) return 'The row below the table must be empty to add a total row.';
+    }
+    return null;
+  }, [name, state, table, range, showTotalRow]);
+
+  const handleSave = useCallback(() => {
+    if (error || !range) return;
+
+    const trimmed = name.trim();
+    // The table as it stands before its total row is shown or hidden
+    const saved: Table = {
+      id: table?.id ?? createTableId(),
+      name: trimmed,
+      range: table?.showTotalRow ? { ...range, endRow: range.endRow + 1 } : range,
+      bandedRows,
+      showTotalRow,
+      filters: table?.filters,
+      hiddenRows: table?.hiddenRows,
+    };
+    const actions: SpreadsheetAction[] = [
+      table ? { type: 'UPDATE_TABLE', payload: { table: saved } } : { type: 'ADD_TABLE', payload: { table: saved } },
+    ];
+
+    // Totals chosen in the dialog replace those the total row has
+    if (showTotalRow) {
+      const totalRow = range.endRow + 1;
+      const updates = columns.flatMap((column, i) => {
+        const choice = totalOf(i);
+        if (choice === initialTotals[i]) return [];
+        const formula = choice === 'none' ? undefined : getTotalFormula(trimmed, column, choice);
+        return [{
+          row: totalRow,
+          col: range.startCol + i,
+          data: { formula, value: formula ?? (i === 0 ? 'Total' : '') },
+        }];
+      });
+      if (updates.length) actions.push({ type: 'SET_CELLS', payload: { updates } });
+    }
+
+    dispatch(actions.length === 1 ? actions[0] : { type: 'BATCH', payload: actions });
+    onClose();
+  }, [error, range, name, table, bandedRows, showTotalRow, columns, totalOf, initialTotals, dispatch, onClose]);
+
+  return (
+    <div className={styles.container} role="dialog" aria-label={table ? 'Table settings' : 'Create table'}>
+      <div className={styles.header}>
+        <h3>{table ? 'Table Settings' : 'Create Table'}</h3>
+        <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <div className={styles.row}>
+          <label className={styles.rowLabel} htmlFor="table-name">Name</label>
+          <input
+            id="table-name"
+            className={styles.input}
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+        </div>
+
+        <div className={styles.row}>
+          <label className={styles.rowLabel} htmlFor="table-range">Range</label>
+          <input
+            id="table-range"
+            className={styles.input}
+            type="text"
+            value={rangeText}
+            onChange={(e) => setRangeText(e.target.value)}
+            placeholder="A1:D20"
+          />
+        </div>
+
+        <p className={styles.hint}>
+          The first row names the columns. Formulas can use them, e.g. =SUM({name.trim() || 'Table1'}[{columns[columns.length - 1] || 'Count'}]).
+        </p>
+
+        <label className={styles.optionLabel}>
+          <input type="checkbox" checked={bandedRows} onChange={(e) => setBandedRows(e.target.checked)} />
+          Banded rows
+        </label>
+
+        <label className={styles.optionLabel}>
+          <input type="checkbox" checked={showTotalRow} onChange={(e) => setShowTotalRow(e.target.checked)} />
+          Total row
+        </label>
+
+        {showTotalRow && columns.length > 0 && (
+          <div className={styles.totals}>
+            {columns.map((column, i) => (
+              <React.Fragment key={i}>
+                <label className={styles.rowLabel} htmlFor={`table-total-${i}`} title={column}>{column}</label>
+                <select
+                  id={`table-total-${i}`}
+                  className={styles.select}
+                  value={totalOf(i)}
+                  onChange={(e) => setTotalChoices(prev => ({ ...prev, [i]: e.target.value as TotalChoice }))}
+                >
+                  <option value="none">None</option>
+                  {(Object.keys(TABLE_TOTAL_FUNCTIONS) as TableTotalFunction[]).map(fn => (
+                    <option key={fn} value={fn}>{TABLE_TOTAL_FUNCTIONS[fn].label}</option>
+                  ))}
+                </select>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+
+        {error && <div className={styles.error} role="alert">{error}</div>}
+      </div>
+
+      <div className={styles.footer}>
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button className={styles.applyButton} onClick={handleSave} disabled={!!error || state.readOnly}>
+            {table ? 'Update' : 'Create'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,98 +1,130 @@
-import { useEffect } from 'react';
-import { useSpreadsheet } from '../SpreadsheetContext';
-import { serializeTabular, parseTabular } from '../utils/clipboardUtils';
-import { normalizeRect } from '../utils/selectionUtils';
+import { useCallback, useEffect } from 'react';
+import { SpreadsheetState, ClipboardData } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { SpillRanges } from '../utils/spillUtils';
+import {
+  copyRange,
+  createPasteAction,
+  clipboardToText,
+  readClipboard,
+  writeClipboard,
+  parseClipboardText,
+  PasteOptions,
+} from '../utils/clipboardUtils';
 
-export const useClipboard = () => {
-  const { state, getCell, setCell } = useSpreadsheet();
+// Clipboard events from text fields are left to the browser
+const isTextField = (target: EventTarget | null): boolean =>
+  !!(target as HTMLElement | null)?.closest?.('input, textarea, [contenteditable="true"]');
+
+/**
+ * Copy, cut and paste for the grid. Copies go to the system clipboard as
+ * plain text, HTML and OpenSheets JSON, and are kept in state so formulas,
+ * formats and validation survive a paste even where the browser drops them.
+ * Ctrl/Cmd+Shift+V calls onPasteSpecial, typically to open the Paste Special
+ * dialog.
+ */
+export const useClipboard = (
+  state: SpreadsheetState,
+  dispatch: React.Dispatch<SpreadsheetAction>,
+  getComputedValue?: (row: number, col: number) => any,
+  onPasteSpecial?: () => void,
+  spills?: SpillRanges
+) => {
+  const copySelection = useCallback((cut: boolean): ClipboardData | null => {
+    const { ranges, active } = state.selection;
+    const range = ranges[0] ?? (active && { startRow: active.row, startCol: active.col, endRow: active.row, endCol: active.col });
+    if (!range) return null;
+
+    const clipboard = copyRange(state, range, getComputedValue, cut, spills);
+    dispatch({ type: 'SET_CLIPBOARD', payload: clipboard });
+    return clipboard;
+  }, [state, dispatch, getComputedValue, spills]);
+
+  const pasteClipboard = useCallback((clipboard: ClipboardData | null, options?: PasteOptions) => {
+    if (state.readOnly || !clipboard) return;
+    const action = createPasteAction(state, clipboard, options);
+    if (action) dispatch(action);
+  }, [state, dispatch]);
 
   useEffect(() => {
-    const handleCopy = async (e: ClipboardEvent) => {
-      if (!state.selection.ranges.length) return;
-      
-      const rect = normalizeRect(state.selection.ranges[0]);
-      const rows: string[][] = [];
-      
-      for (let r = rect.startRow; r <= rect.endRow; r++) {
-        const cols: string[] = [];
-        for (let c = rect.startCol; c <= rect.endCol; c++) {
-          const cell = getCell(r, c);
-          cols.push(cell?.value?.toString() ?? '');
-        }
-        rows.push(cols);
-      }
-      
-      const text = serializeTabular(rows);
-      e.clipboardData?.setData('text/plain', text);
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isTextField(e.target) || state.editing || !e.clipboardData) return;
+      const clipboard = copySelection(false);
+      if (!clipboard) return;
+
+      writeClipboard(e.clipboardData, clipboard);
       e.preventDefault();
     };
 
-    const handlePaste = async (e: ClipboardEvent) => {
-      if (state.readOnly) return;
-      
-      const text = e.clipboardData?.getData('text/plain');
-      if (!text) return;
-      
-      const data = parseTabular(text);
-      const start = state.selection.active;
-      if (!start) return;
-      
+    const handleCut = (e: ClipboardEvent) => {
+      if (isTextField(e.target) || state.editing || state.readOnly || !e.clipboardData) return;
+      const clipboard = copySelection(true);
+      if (!clipboard) return;
+
+      // Other applications get a plain copy; the cells move when pasted here
+      writeClipboard(e.clipboardData, { ...clipboard, cut: undefined });
       e.preventDefault();
-      
-      data.forEach((row, i) => {
-        row.forEach((val, j) => {
-          const targetRow = start.row + i;
-          const targetCol = start.col + j;
-          if (targetRow < state.maxRows && targetCol < state.maxCols) {
-            setCell(targetRow, targetCol, { value: val });
-          }
-        });
-      });
     };
 
-    const handleCut = async (e: ClipboardEvent) => {
-      if (state.readOnly) return;
-      
-      // First copy
-      await handleCopy(e);
-      
-      // Then clear the selection
-      if (!state.selection.ranges.length) return;
-      const rect = normalizeRect(state.selection.ranges[0]);
-      
-      for (let r = rect.startRow; r <= rect.endRow; r++) {
-        for (let c = rect.startCol; c <= rect.endCol; c++) {
-          setCell(r, c, { value: '', formula: undefined });
-        }
-      }
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTextField(e.target) || state.editing || state.readOnly) return;
+
+      // Our own copy is richer than what the browser hands back, and knows if it was cut
+      const internal = state.clipboardData;
+      const text = e.clipboardData?.getData('text/plain');
+      const clipboard = internal && (!text || text === clipboardToText(internal))
+        ? internal
+        : readClipboard(e.clipboardData);
+      if (!clipboard) return;
+
+      e.preventDefault();
+      pasteClipboard(clipboard);
     };
 
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'c') {
-        const event = new ClipboardEvent('copy', { 
-          clipboardData: new DataTransfer() 
-        });
-        handleCopy(event);
-      } else if ((e.ctrlKey || e.metaKey) && e.key === 'v') {
-        // Paste will be handled by the paste event
-      } else if ((e.ctrlKey || e.metaKey) && e.key === 'x') {
-        const event = new ClipboardEvent('cut', { 
-          clipboardData: new DataTransfer() 
-        });
-        handleCut(event);
+      if (!onPasteSpecial || isTextField(e.target) || state.editing || state.readOnly) return;
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'v') {
+        // Stops the browser's plain-text paste
+        e.preventDefault();
+        onPasteSpecial();
       }
     };
 
     document.addEventListener('copy', handleCopy);
-    document.addEventListener('paste', handlePaste);
     document.addEventListener('cut', handleCut);
+    document.addEventListener('paste', handlePaste);
     window.addEventListener('keydown', handleKeyDown);
 
     return () => {
       document.removeEventListener('copy', handleCopy);
-      document.removeEventListener('paste', handlePaste);
       document.removeEventListener('cut', handleCut);
+      document.removeEventListener('paste', handlePaste);
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [state.selection, state.readOnly, state.maxRows, state.maxCols, getCell, setCell]);
-};
\ No newline at end of file
+  }, [state.editing, state.readOnly, state.clipboardData, copySelection, pasteClipboard, onPasteSpecial]);
+
+  // For menus and toolbars: go through the browser where it allows it, so
+  // the system clipboard stays in step, and fall back to the copy in state
+  const copy = useCallback(() => {
+    if (!document.execCommand?.('copy')) copySelection(false);
+  }, [copySelection]);
+
+  const cut = useCallback(() => {
+    if (state.readOnly) return;
+    if (!document.execCommand?.('cut')) copySelection(true);
+  }, [state.readOnly, copySelection]);
+
+  // Browsers only hand over clipboard contents on a paste event, or as
+  // plain text where the Clipboard API is allowed
+  const paste = useCallback(async (options?: PasteOptions) => {
+    if (state.clipboardData) {
+      pasteClipboard(state.clipboardData, options);
+      return;
+    }
+
+    const text = await navigator.clipboard?.readText().catch(() => '');
+    if (text) pasteClipboard(parseClipboardText(text), options);
+  }, [state.clipboardData, pasteClipboard]);
+
+  return { copy, cut, paste };
+};
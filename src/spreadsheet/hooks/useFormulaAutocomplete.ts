@@ -0,0 +1,142 @@
+import { useState, useRef, useMemo, useCallback, useEffect, useLayoutEffect } from 'react';
+import { SpreadsheetState } from '../types/spreadsheet';
+import { FormulaEngine } from '../utils/hyperformulaEngine';
+import { getWorkbookTables } from '../utils/tableUtils';
+import {
+  FormulaSuggestion,
+  FunctionSignature,
+  applySuggestion,
+  formatSignature,
+  getActiveArgument,
+  getFormulaContext,
+  getFunctionSignature,
+  getSuggestions,
+} from '../utils/autocompleteUtils';
+
+export interface AssistItem {
+  suggestion: FormulaSuggestion;
+  // A function's description or signature
+  detail?: string;
+}
+
+export interface FormulaAssistState {
+  items: AssistItem[];
+  activeIndex: number;
+  // The function call around the caret and the argument it is in (-1 past its last)
+  signature: FunctionSignature | null;
+  argIndex: number;
+  // Syntax error in the formula as typed so far
+  error: string | null;
+  onPick: (suggestion: FormulaSuggestion) => void;
+}
+
+interface Options {
+  value: string;
+  inputRef: React.RefObject<HTMLInputElement>;
+  formulaEngine: FormulaEngine | null;
+  state: SpreadsheetState;
+  // Called with the formula once a suggestion is picked
+  onChange: (value: string) => void;
+}
+
+/**
+ * Suggestions, signature help and syntax errors for a text field holding a
+ * formula. Spread inputProps on the field, call handleKeyDown first in its
+ * key handler (it returns true for keys it used) and render FormulaAssist
+ * with assist while the field has focus.
+ */
+export function useFormulaAutocomplete({ value, inputRef, formulaEngine, state, onChange }: Options) {
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [focused, setFocused] = useState(false);
+  // The text Escape closed the suggestions at; typing opens them again
+  const [dismissed, setDismissed] = useState<string | null>(null);
+  const pendingCaret = useRef<number | null>(null);
+
+  const context = useMemo(() => getFormulaContext(value, caret ?? value.length), [value, caret]);
+  const customFunctions = formulaEngine?.getCustomFunctions() ?? [];
+
+  const items = useMemo((): AssistItem[] => {
+    if (!context.prefix || dismissed === value) return [];
+    const custom = formulaEngine?.getCustomFunctions() ?? [];
+    const suggestions = getSuggestions(context.prefix.text, {
+      functions: formulaEngine?.getAvailableFunctions() ?? [],
+      names: state.namedRanges?.map(namedRange => namedRange.name) ?? [],
+      tables: getWorkbookTables(state).map(({ table }) => table.name),
+    });
+    return suggestions.map(suggestion => {
+      const signature = suggestion.kind === 'function' ? getFunctionSignature(suggestion.label, custom) : null;
+      return { suggestion, detail: signature ? signature.description ?? formatSignature(signature) : undefined };
+    });
+  }, [context.prefix, dismissed, value, formulaEngine, state]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [context.prefix?.text]);
+
+  const signature = context.call ? getFunctionSignature(context.call.name, customFunctions) : null;
+  const argIndex = signature && context.call ? getActiveArgument(signature, context.call.argIndex) : -1;
+
+  // Checked without running the formula, so nothing is fetched while typing
+  const error = useMemo(() => {
+    if (!formulaEngine || !value.startsWith('=')) return null;
+    const result = formulaEngine.validateFormula(value, false);
+    return result.valid ? null : result.message ?? result.error ?? null;
+  }, [formulaEngine, value]);
+
+  const onPick = useCallback((suggestion: FormulaSuggestion) => {
+    if (!context.prefix) return;
+    const next = applySuggestion(value, context.prefix.start, caret ?? value.length, suggestion);
+    pendingCaret.current = next.caret;
+    onChange(next.formula);
+  }, [context.prefix, value, caret, onChange]);
+
+  // Put the caret after a picked suggestion once the field shows it
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (pendingCaret.current === null || !input) return;
+    input.focus();
+    input.setSelectionRange(pendingCaret.current, pendingCaret.current);
+    setCaret(pendingCaret.current);
+    pendingCaret.current = null;
+  }, [value, inputRef]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>): boolean => {
+    if (!items.length) return false;
+    switch (e.key) {
+      case 'ArrowDown':
+        setActiveIndex((Math.min(activeIndex, items.length - 1) + 1) % items.length);
+        break;
+      case 'ArrowUp':
+        setActiveIndex((Math.min(activeIndex, items.length - 1) - 1 + items.length) % items.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        onPick(items[Math.min(activeIndex, items.length - 1)].suggestion);
+        break;
+      case 'Escape':
+        setDismissed(value);
+        break;
+      default:
+        return false;
+    }
+    e.preventDefault();
+    return true;
+  }, [items, activeIndex, onPick, value]);
+
+  const handleSelect = useCallback((e: React.SyntheticEvent<HTMLInputElement>) => {
+    setCaret(e.currentTarget.selectionStart);
+  }, []);
+
+  const inputProps = {
+    onSelect: handleSelect,
+    onFocus: () => setFocused(true),
+    onBlur: () => setFocused(false),
+  };
+
+  const assist: FormulaAssistState | null = focused && value.startsWith('=')
+    ? { items, activeIndex: Math.min(activeIndex, Math.max(items.length - 1, 0)), signature, argIndex, error, onPick }
+    : null;
+
+  return { inputProps, handleKeyDown, handleSelect, assist };
+}
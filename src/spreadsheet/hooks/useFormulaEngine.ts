@@ -0,0 +1,348 @@
+import { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo } from 'react';
+import { SpreadsheetState, CellData, ComputedValueGetter, CustomFunction, NamedRange, Sheet, SparseMatrix, keyOf, parseKey } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { flattenActions } from '../reducers/spreadsheetReducer';
+import { FormulaEngine, getCellContent } from '../utils/hyperformulaEngine';
+import { getSheets, getActiveSheet, getActiveSheetId } from '../utils/sheetUtils';
+import { getTableReferences } from '../utils/tableUtils';
+import { SpillRanges, isSpilledCell, sameSpills } from '../utils/spillUtils';
+
+type CellUpdate = { row: number; col: number; value: any };
+
+// Formula evaluation on the engine as of one recalculation
+export type FormulaEvaluator = Pick<FormulaEngine, 'calculateFormula' | 'calculateArray' | 'getRecalculationCount'>;
+
+interface SyncedState {
+  data: SparseMatrix<CellData>;
+  sheets?: Sheet[];
+  namedRanges?: NamedRange[];
+  workbook: string;
+  // Where the tables are and what their columns are called, see getTableReferences
+  tables: string;
+  activeSheetId: string;
+}
+
+const STRUCTURAL_ACTIONS = new Set(['INSERT_ROW', 'DELETE_ROW', 'INSERT_COLUMN', 'DELETE_COLUMN']);
+
+// Sheet ids and names; any change here requires rebuilding the engine
+function workbookSignature(state: SpreadsheetState): string {
+  return getSheets(state)
+    .map(sheet => `${sheet.id}:${sheet.name}`)
+    .sort()
+    .join('|');
+}
+
+function sameContent(a: any, b: any): boolean {
+  return String(a ?? '') === String(b ?? '');
+}
+
+// Cells whose formula or value differs between two versions of a sheet
+function diffCells(previous: SparseMatrix<CellData>, next: SparseMatrix<CellData>): CellUpdate[] {
+  const updates: CellUpdate[] = [];
+
+  next.forEach((cellData, key) => {
+    const before = previous.get(key);
+    if (before === cellData) return;
+
+    const content = getCellContent(cellData);
+    if (!sameContent(getCellContent(before), content)) {
+      const [row, col] = parseKey(key);
+      updates.push({ row, col, value: content });
+    }
+  });
+
+  previous.forEach((cellData, key) => {
+    if (!next.has(key) && getCellContent(cellData) !== null) {
+      const [row, col] = parseKey(key);
+      updates.push({ row, col, value: null });
+    }
+  });
+
+  return updates;
+}
+
+// Formula cells that may use structured references, to set again when tables change
+function structuredReferenceCells(data: SparseMatrix<CellData>): CellUpdate[] {
+  const updates: CellUpdate[] = [];
+  data.forEach((cellData, key) => {
+    if (cellData.formula?.includes('[')) {
+      const [row, col] = parseKey(key);
+      updates.push({ row, col, value: cellData.formula });
+    }
+  });
+  return updates;
+}
+
+// Where the active sheet's array formulas spill
+function readSpills(engine: FormulaEngine, data: SparseMatrix<CellData>): SpillRanges {
+  const spills: SpillRanges = new Map();
+  data.forEach((cellData, key) => {
+    if (!cellData.formula) return;
+    const [row, col] = parseKey(key);
+    const range = engine.getSpillRange(row, col);
+    if (range) spills.set(key, range);
+  });
+  return spills;
+}
+
+// Computed values of every formula cell in the active sheet, and of the
+// cells their arrays spill into
+function readComputedValues(engine: FormulaEngine, data: SparseMatrix<CellData>, spills: SpillRanges): Map<string, any> {
+  const values = new Map<string, any>();
+  data.forEach((cellData, key) => {
+    if (cellData.formula) {
+      const [row, col] = parseKey(key);
+      values.set(key, engine.getCellValue(row, col));
+    }
+  });
+  spills.forEach(range => {
+    for (let row = range.startRow; row <= range.endRow; row++) {
+      for (let col = range.startCol; col <= range.endCol; col++) {
+        values.set(keyOf(row, col), engine.getCellValue(row, col));
+      }
+    }
+  });
+  return values;
+}
+
+// A sheet's cells as last synced; the active sheet's live cells were held at the top level
+function previousSheetData(previous: SyncedState, sheetId: string): SparseMatrix<CellData> | undefined {
+  return sheetId === previous.activeSheetId
+    ? previous.data
+    : previous.sheets?.find(sheet => sheet.id === sheetId)?.data;
+}
+
+// Push edits made to sheets other than the active one, e.g. reference rewrites or undo
+function syncInactiveSheets(engine: FormulaEngine, previous: SyncedState, state: SpreadsheetState): void {
+  const activeSheetId = getActiveSheetId(state);
+  state.sheets?.forEach(sheet => {
+    if (sheet.id === activeSheetId) return;
+
+    const before = previousSheetData(previous, sheet.id);
+    if (before && before !== sheet.data) {
+      engine.setCells(diffCells(before, sheet.data), sheet.name);
+    }
+  });
+}
+
+function applyStructuralAction(engine: FormulaEngine, action: SpreadsheetAction): void {
+  switch (action.type) {
+    case 'INSERT_ROW':
+      engine.insertRows(action.payload.index, action.payload.count);
+      break;
+    case 'DELETE_ROW':
+      engine.deleteRows(action.payload.index, action.payload.count);
+      break;
+    case 'INSERT_COLUMN':
+      engine.insertColumns(action.payload.index, action.payload.count);
+      break;
+    case 'DELETE_COLUMN':
+      engine.deleteColumns(action.payload.index, action.payload.count);
+      break;
+  }
+}
+
+/**
+ * Keep a FormulaEngine in step with the spreadsheet state and expose the
+ * computed values of formula cells and the cells their arrays spill into,
+ * the spill ranges, and the engine's recalculation count as of the last
+ * sync. Components must dispatch through the returned dispatch so
+ * structural edits reach the engine as row/column operations; all other
+ * edits are synced from the committed cell data.
+ * Custom functions are registered with the engine whenever the array
+ * changes, so it should keep its identity between renders.
+ */
+export function useFormulaEngine(
+  state: SpreadsheetState,
+  dispatch: React.Dispatch<SpreadsheetAction>,
+  customFunctions?: CustomFunction[]
+) {
+  const [formulaEngine, setFormulaEngine] = useState<FormulaEngine | null>(null);
+  const [computedValues, setComputedValues] = useState<Map<string, any>>(() => new Map());
+  const [recalculation, setRecalculation] = useState(0);
+  const [spills, setSpills] = useState<SpillRanges>(() => new Map());
+  const pendingActions = useRef<SpreadsheetAction[]>([]);
+  const synced = useRef<SyncedState | null>(null);
+
+  // One engine per provider, released on unmount
+  useLayoutEffect(() => {
+    const engine = new FormulaEngine();
+    synced.current = null;
+    setFormulaEngine(engine);
+
+    return () => {
+      engine.destroy();
+    };
+  }, []);
+
+  // Values that change without an edit: async function results, or every
+  // formula as custom functions come and go
+  useLayoutEffect(() => {
+    if (!formulaEngine) return;
+
+    return formulaEngine.subscribe(() => {
+      const data = synced.current?.data;
+      if (!data) return;
+      formulaEngine.getChangedCells();
+      const next = readSpills(formulaEngine, data);
+      setSpills(prev => (sameSpills(prev, next) ? prev : next));
+      setComputedValues(readComputedValues(formulaEngine, data, next));
+      setRecalculation(formulaEngine.getRecalculationCount());
+    });
+  }, [formulaEngine]);
+
+  // Before the workbook loads, so formulas calling them resolve
+  useLayoutEffect(() => {
+    formulaEngine?.setCustomFunctions(customFunctions ?? []);
+  }, [formulaEngine, customFunctions]);
+
+  const trackedDispatch = useCallback((action: SpreadsheetAction) => {
+    pendingActions.current.push(action);
+    dispatch(action);
+  }, [dispatch]);
+
+  useLayoutEffect(() => {
+    if (!formulaEngine) return;
+
+    const actions = flattenActions(pendingActions.current);
+    pendingActions.current = [];
+
+    const previous = synced.current;
+    const workbook = workbookSignature(state);
+    const activeSheetId = getActiveSheetId(state);
+    const activeSheetName = getActiveSheet(state).name;
+    const replaced = actions.some(action => action.type === 'LOAD_STATE' || action.type === 'RESTORE_STATE');
+
+    const structural = actions.some(action => STRUCTURAL_ACTIONS.has(action.type));
+    const switched = !!previous && previous.activeSheetId !== activeSheetId;
+
+    const tableReferences = getTableReferences(state);
+    const tables = JSON.stringify(tableReferences);
+    const tablesChanged = !!previous && previous.tables !== tables;
+    formulaEngine.setTables(tableReferences);
+    // Structured references resolve when set, so they're set again as tables change
+    const resetStructuredReferences = () => {
+      getSheets(state).forEach(sheet => formulaEngine.setCells(structuredReferenceCells(sheet.data), sheet.name));
+    };
+    // Spill ranges as they stand now, keeping the previous map when unchanged
+    const updateSpills = () => {
+      const next = readSpills(formulaEngine, state.data);
+      setSpills(prev => (sameSpills(prev, next) ? prev : next));
+      return next;
+    };
+
+    // Row and column edits apply to the engine's active sheet, so a batch that
+    // also switches sheets can't be replayed and rebuilds instead
+    if (!previous || replaced || previous.workbook !== workbook || (structural && switched)) {
+      formulaEngine.initializeWorkbook(getSheets(state), activeSheetName, state.namedRanges);
+      setComputedValues(readComputedValues(formulaEngine, state.data, updateSpills()));
+    } else if (structural) {
+      actions.forEach(action => applyStructuralAction(formulaEngine, action));
+      formulaEngine.setNamedRanges(state.namedRanges ?? []);
+
+      // Rows and columns have shifted; reconcile any cell the engine disagrees on
+      const updates: CellUpdate[] = [];
+      state.data.forEach((cellData, key) => {
+        const [row, col] = parseKey(key);
+        const content = getCellContent(cellData);
+        if (!sameContent(formulaEngine.getCellContent(row, col), content)) {
+          updates.push({ row, col, value: content });
+        }
+      });
+      formulaEngine.setCells(updates);
+      syncInactiveSheets(formulaEngine, previous, state);
+      if (tablesChanged) resetStructuredReferences();
+      formulaEngine.getChangedCells();
+      setComputedValues(readComputedValues(formulaEngine, state.data, updateSpills()));
+    } else {
+      // Names first, so new formulas that use them resolve
+      if (previous.namedRanges !== state.namedRanges) {
+        formulaEngine.setNamedRanges(state.namedRanges ?? []);
+      }
+
+      const previousActive = previousSheetData(previous, activeSheetId);
+      if (previousActive && previousActive !== state.data) {
+        formulaEngine.setCells(diffCells(previousActive, state.data), activeSheetName);
+      }
+      syncInactiveSheets(formulaEngine, previous, state);
+      if (tablesChanged) resetStructuredReferences();
+
+      if (switched) {
+        formulaEngine.setActiveSheet(activeSheetName);
+        formulaEngine.getChangedCells();
+        setComputedValues(readComputedValues(formulaEngine, state.data, updateSpills()));
+      } else {
+        const changes = formulaEngine.getChangedCells().filter(change => change.sheet === activeSheetName);
+        if (changes.length) {
+          const spillRanges = updateSpills();
+          setComputedValues(prev => {
+            const next = new Map(prev);
+            changes.forEach(({ row, col, value }) => {
+              const key = keyOf(row, col);
+              if (state.data.get(key)?.formula || isSpilledCell(spillRanges, row, col)) {
+                next.set(key, value);
+              } else {
+                next.delete(key);
+              }
+            });
+            return next;
+          });
+        }
+      }
+    }
+
+    // Lets results derived from the engine, such as formula conditional
+    // formatting, refresh now the engine has caught up with the state
+    setRecalculation(formulaEngine.getRecalculationCount());
+
+    synced.current = {
+      data: state.data,
+      sheets: state.sheets,
+      namedRanges: state.namedRanges,
+      workbook,
+      tables,
+      activeSheetId,
+    };
+  }, [state, formulaEngine]);
+
+  const activeSheetId = getActiveSheetId(state);
+  const getComputedValue = useCallback<ComputedValueGetter>((row, col, sheetId) => {
+    const key = keyOf(row, col);
+    if (sheetId !== undefined && sheetId !== activeSheetId) {
+      // Other sheets' results are read from the engine when asked for;
+      // empty cells may hold part of a spilled array
+      const sheet = state.sheets?.find(s => s.id === sheetId);
+      const cellData = sheet?.data.get(key);
+      return sheet && formulaEngine && (!cellData || cellData.formula)
+        ? formulaEngine.getCellValue(row, col, sheet.name)
+        : cellData?.value;
+    }
+    return computedValues.has(key) ? computedValues.get(key) : state.data.get(key)?.value;
+  }, [computedValues, state.data, state.sheets, activeSheetId, formulaEngine]);
+
+  // Filters hide rows by formula results, so they're applied again when
+  // those results change
+  const latestGetComputedValue = useRef(getComputedValue);
+  latestGetComputedValue.current = getComputedValue;
+  useEffect(() => {
+    dispatch({ type: 'REFRESH_FILTERS', payload: { getComputedValue: latestGetComputedValue.current } });
+  }, [computedValues, dispatch]);
+
+  // A new evaluator after each recalculation, so results worked out from
+  // the engine, such as sparklines, can be memoized on it
+  const evaluator = useMemo<FormulaEvaluator | null>(() => formulaEngine && {
+    calculateFormula: formula => formulaEngine.calculateFormula(formula),
+    calculateArray: formula => formulaEngine.calculateArray(formula),
+    getRecalculationCount: () => recalculation,
+  }, [formulaEngine, recalculation]);
+
+  return {
+    dispatch: trackedDispatch,
+    formulaEngine,
+    computedValues,
+    getComputedValue,
+    recalculation,
+    evaluator,
+    spills,
+  };
+}
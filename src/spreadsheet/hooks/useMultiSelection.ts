@@ -1,6 +1,8 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { SpreadsheetAction } from '../types/actions';
 import { SelectionRect, SpreadsheetState } from '../types/spreadsheet';
+import { findMerge } from '../utils/mergeUtils';
+import { isRowFiltered } from '../utils/filterUtils';
 // import { normalizeRect } from '../utils/selectionUtils'; // Unused for now
 
 export function useMultiSelection(
@@ -64,36 +66,44 @@ export function useMultiSelection(
 
   const handleKeyboardSelection = useCallback((e: KeyboardEvent) => {
     const active = state.selection.active;
-    if (!active) return;
+    // Keys a field already used, such as arrows moving through formula
+    // suggestions or pointing at cells for a formula
+    if (!active || e.defaultPrevented) return;
 
     let newRow = active.row;
     let newCol = active.col;
     let handled = false;
 
+    // Step off a merged region from its far edge
+    const merge = findMerge(state.merges, active.row, active.col);
+
     // Check for arrow keys
     switch (e.key) {
+      // Rows hidden by filters are stepped over
       case 'ArrowUp':
         if (newRow > 0) {
-          newRow--;
-          handled = true;
+          newRow = (merge?.startRow ?? newRow) - 1;
+          while (newRow >= 0 && isRowFiltered(state, newRow)) newRow--;
+          handled = newRow >= 0;
         }
         break;
       case 'ArrowDown':
         if (newRow < state.maxRows - 1) {
-          newRow++;
-          handled = true;
+          newRow = (merge?.endRow ?? newRow) + 1;
+          while (newRow < state.maxRows && isRowFiltered(state, newRow)) newRow++;
+          handled = newRow < state.maxRows;
         }
         break;
       case 'ArrowLeft':
         if (newCol > 0) {
-          newCol--;
-          handled = true;
+          newCol = (merge?.startCol ?? newCol) - 1;
+          handled = newCol >= 0;
         }
         break;
       case 'ArrowRight':
         if (newCol < state.maxCols - 1) {
-          newCol++;
-          handled = true;
+          newCol = (merge?.endCol ?? newCol) + 1;
+          handled = newCol < state.maxCols;
         }
         break;
     }
@@ -0,0 +1,154 @@
+import { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+import { SpreadsheetAction } from '../types/actions';
+import { SelectionRect, SpreadsheetState } from '../types/spreadsheet';
+import { canInsertReference, cycleReferenceMode, formatPointedReference } from '../utils/referenceEntryUtils';
+
+interface CellPosition {
+  row: number;
+  col: number;
+}
+
+// The reference last entered by pointing, replaced while the pointer moves
+interface Pointing {
+  start: number;
+  end: number;
+  anchor: CellPosition;
+  focus: CellPosition;
+}
+
+interface Options {
+  value: string;
+  inputRef: React.RefObject<HTMLInputElement>;
+  state: SpreadsheetState;
+  dispatch: React.Dispatch<SpreadsheetAction>;
+  // The cell the formula is for; arrow keys start pointing next to it
+  cell: CellPosition | null;
+  onChange: (value: string) => void;
+}
+
+const ARROW_STEPS: Record<string, CellPosition> = {
+  ArrowUp: { row: -1, col: 0 },
+  ArrowDown: { row: 1, col: 0 },
+  ArrowLeft: { row: 0, col: -1 },
+  ArrowRight: { row: 0, col: 1 },
+};
+
+/**
+ * Entering references into a formula by pointing at cells. While the field
+ * has focus its formula is shared as state.formulaEdit, so the grid outlines
+ * its references and sends clicks and drags back as pointers. Arrow keys move
+ * the pointer (Shift extends it) and F4 cycles the reference at the caret
+ * through $A$1, A$1, $A1 and A1. Pass the field's focus, blur and select
+ * events on, and call handleKeyDown first in its key handler; it returns true
+ * for keys it used.
+ */
+export function useReferenceEntry({ value, inputRef, state, dispatch, cell, onChange }: Options) {
+  const [focused, setFocused] = useState(false);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [pointing, setPointing] = useState<Pointing | null>(null);
+  // The value last written here, to tell it apart from typing
+  const entered = useRef<string | null>(null);
+  const pendingCaret = useRef<number | null>(null);
+
+  const active = focused && value.startsWith('=');
+  const acceptsReference = active && (!!pointing || canInsertReference(value, caret ?? value.length));
+
+  // Typing ends pointing; the next reference is entered at the caret
+  useEffect(() => {
+    if (value !== entered.current) setPointing(null);
+  }, [value]);
+
+  useEffect(() => {
+    if (!active) return;
+    return () => dispatch({ type: 'SET_FORMULA_EDIT', payload: null });
+  }, [active, dispatch]);
+
+  useEffect(() => {
+    if (active) dispatch({ type: 'SET_FORMULA_EDIT', payload: { formula: value, acceptsReference } });
+  }, [active, value, acceptsReference, dispatch]);
+
+  // Write the reference over the one being pointed at, or at the caret
+  const enterReference = useCallback((anchor: CellPosition, focus: CellPosition, at: number) => {
+    const text = formatPointedReference({
+      startRow: anchor.row,
+      startCol: anchor.col,
+      endRow: focus.row,
+      endCol: focus.col,
+    });
+    const start = pointing ? pointing.start : at;
+    const end = pointing ? pointing.end : at;
+    const next = value.slice(0, start) + text + value.slice(end);
+
+    setPointing({ start, end: start + text.length, anchor, focus });
+    entered.current = next;
+    pendingCaret.current = start + text.length;
+    onChange(next);
+  }, [value, pointing, onChange]);
+
+  // Cells clicked or dragged over on the grid. Only a new pointer enters a
+  // reference, so the effect reads the rest through a ref.
+  const enterPointer = useRef<(pointer: SelectionRect) => void>();
+  enterPointer.current = pointer => {
+    if (!active) return;
+    enterReference(
+      { row: pointer.startRow, col: pointer.startCol },
+      { row: pointer.endRow, col: pointer.endCol },
+      inputRef.current?.selectionStart ?? value.length
+    );
+  };
+  const pointer = state.formulaEdit?.pointer;
+  useEffect(() => {
+    if (pointer) enterPointer.current?.(pointer);
+  }, [pointer]);
+
+  // Keep the caret after what was entered once the field shows it
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (pendingCaret.current === null || !input) return;
+    input.focus();
+    input.setSelectionRange(pendingCaret.current, pendingCaret.current);
+    setCaret(pendingCaret.current);
+    pendingCaret.current = null;
+  }, [value, inputRef]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>): boolean => {
+    if (!active || e.altKey || e.ctrlKey || e.metaKey) return false;
+    const at = e.currentTarget.selectionStart ?? value.length;
+
+    if (e.key === 'F4') {
+      const next = cycleReferenceMode(value, at);
+      if (!next) return false;
+      setPointing(null);
+      pendingCaret.current = next.caret;
+      onChange(next.formula);
+      e.preventDefault();
+      return true;
+    }
+
+    const step = ARROW_STEPS[e.key];
+    const from = pointing?.focus ?? cell;
+    if (!step || !from || !(pointing || canInsertReference(value, at))) return false;
+
+    const focus = {
+      row: Math.min(Math.max(from.row + step.row, 0), state.maxRows - 1),
+      col: Math.min(Math.max(from.col + step.col, 0), state.maxCols - 1),
+    };
+    enterReference(e.shiftKey ? pointing?.anchor ?? focus : focus, focus, at);
+    e.preventDefault();
+    return true;
+  }, [active, value, pointing, cell, state.maxRows, state.maxCols, enterReference, onChange]);
+
+  // Moving the caret away from the pointed reference ends pointing. Until
+  // the field shows what was entered, its caret is still where it was.
+  const handleSelect = useCallback((e: React.SyntheticEvent<HTMLInputElement>) => {
+    if (pendingCaret.current !== null) return;
+    const at = e.currentTarget.selectionStart;
+    setCaret(at);
+    setPointing(current => (current && at !== current.end ? null : current));
+  }, []);
+
+  const handleFocus = useCallback(() => setFocused(true), []);
+  const handleBlur = useCallback(() => setFocused(false), []);
+
+  return { handleFocus, handleBlur, handleSelect, handleKeyDown };
+}
@@ -1,131 +1,129 @@
-import { useRef, useCallback, useEffect } from 'react';
+import { useRef, useState, useCallback, useEffect } from 'react';
 import { SpreadsheetState } from '../types/spreadsheet';
-import { SpreadsheetAction } from '../types/actions';
-
-interface UndoRedoState {
-  past: SpreadsheetState[];
-  present: SpreadsheetState;
-  future: SpreadsheetState[];
+import { SpreadsheetAction, Command } from '../types/actions';
+import { createCommand } from '../reducers/historyCommands';
+
+export interface UndoHistory {
+  // Oldest first; the last entry is the next to undo
+  past: Command[];
+  // Next to redo first
+  future: Command[];
 }
 
+const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+/**
+ * Record undoable changes as commands and replay their inverse actions.
+ * Components must dispatch through the returned dispatch for changes to be
+ * recorded; actions dispatched before the next render form one history entry.
+ */
 export function useUndoRedo(
   state: SpreadsheetState,
   dispatch: React.Dispatch<SpreadsheetAction>,
   maxHistorySize: number = 50
 ) {
-  const history = useRef<UndoRedoState>({
-    past: [],
-    present: state,
-    future: [],
-  });
-
-  const canUndo = history.current.past.length > 0;
-  const canRedo = history.current.future.length > 0;
-
-  const saveState = useCallback((newState: SpreadsheetState) => {
-    const { past, present } = history.current;
-    
-    // Don't save if state hasn't changed
-    if (JSON.stringify(present) === JSON.stringify(newState)) {
-      return;
-    }
-
-    // Add current state to past
-    const newPast = [...past, present];
-    
-    // Limit history size
-    if (newPast.length > maxHistorySize) {
-      newPast.shift();
-    }
+  const [history, setHistory] = useState<UndoHistory>(EMPTY_HISTORY);
+  // Mirrors history so undo/redo read the latest entries between renders
+  const historyRef = useRef<UndoHistory>(EMPTY_HISTORY);
+  const pendingActions = useRef<SpreadsheetAction[]>([]);
+  const previousState = useRef<SpreadsheetState>(state);
+
+  const updateHistory = useCallback((next: UndoHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
 
-    history.current = {
-      past: newPast,
-      present: newState,
-      future: [], // Clear future on new action
-    };
-  }, [maxHistorySize]);
+  const undo = useCallback((steps: number = 1) => {
+    const { past, future } = historyRef.current;
+    const count = Math.min(steps, past.length);
+    if (count <= 0) return;
 
-  const undo = useCallback(() => {
-    const { past, present, future } = history.current;
-    
-    if (past.length === 0) return;
+    // Actions that changed nothing must not be recorded against this change
+    pendingActions.current = [];
 
-    const previous = past[past.length - 1];
-    const newPast = past.slice(0, past.length - 1);
+    const undone = past.slice(past.length - count).reverse();
+    dispatch(undone.length === 1 ? undone[0].undo : { type: 'BATCH', payload: undone.map(command => command.undo) });
+    updateHistory({ past: past.slice(0, past.length - count), future: [...undone, ...future] });
+  }, [dispatch, updateHistory]);
 
-    history.current = {
-      past: newPast,
-      present: previous,
-      future: [present, ...future],
-    };
+  const redo = useCallback((steps: number = 1) => {
+    const { past, future } = historyRef.current;
+    const count = Math.min(steps, future.length);
+    if (count <= 0) return;
 
-    // Update the actual state
-    return previous;
-  }, []);
+    // Actions that changed nothing must not be recorded against this change
+    pendingActions.current = [];
 
-  const redo = useCallback(() => {
-    const { past, present, future } = history.current;
-    
-    if (future.length === 0) return;
+    const redone = future.slice(0, count);
+    dispatch(redone.length === 1 ? redone[0].redo : { type: 'BATCH', payload: redone.map(command => command.redo) });
+    updateHistory({ past: [...past, ...redone].slice(-maxHistorySize), future: future.slice(count) });
+  }, [dispatch, maxHistorySize, updateHistory]);
 
-    const next = future[0];
-    const newFuture = future.slice(1);
+  const reset = useCallback(() => {
+    updateHistory(EMPTY_HISTORY);
+  }, [updateHistory]);
+
+  const trackedDispatch = useCallback((action: SpreadsheetAction) => {
+    if (action.type === 'UNDO') {
+      undo(action.payload?.steps);
+    } else if (action.type === 'REDO') {
+      redo(action.payload?.steps);
+    } else {
+      pendingActions.current.push(action);
+      dispatch(action);
+    }
+  }, [dispatch, undo, redo]);
 
-    history.current = {
-      past: [...past, present],
-      present: next,
-      future: newFuture,
-    };
+  // Turn the actions behind each state change into a history entry
+  useEffect(() => {
+    const actions = pendingActions.current;
+    const before = previousState.current;
+    pendingActions.current = [];
+    previousState.current = state;
 
-    // Return the new state
-    return next;
-  }, []);
+    if (actions.length === 0 || before === state) return;
 
-  const reset = useCallback(() => {
-    history.current = {
-      past: [],
-      present: state,
-      future: [],
-    };
-  }, [state]);
+    // Replacing the whole state invalidates every recorded step
+    if (actions.some(action => action.type === 'LOAD_STATE' || action.type === 'RESTORE_STATE')) {
+      updateHistory(EMPTY_HISTORY);
+      return;
+    }
 
-  // Update present state when state changes
-  useEffect(() => {
-    if (history.current.present !== state) {
-      saveState(state);
+    const command = createCommand(before, state, actions);
+    if (command) {
+      const { past } = historyRef.current;
+      updateHistory({ past: [...past, command].slice(-maxHistorySize), future: [] });
     }
-  }, [state, saveState]);
+  }, [state, maxHistorySize, updateHistory]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement | null;
+      if (target?.closest?.('input, textarea, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z' && !e.shiftKey) {
         e.preventDefault();
-        const previousState = undo();
-        if (previousState) {
-          // Dispatch a special action to restore state
-          dispatch({ type: 'RESTORE_STATE', payload: previousState });
-        }
-      } else if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
+        undo();
+      } else if ((e.ctrlKey || e.metaKey) && (key === 'y' || (key === 'z' && e.shiftKey))) {
         e.preventDefault();
-        const nextState = redo();
-        if (nextState) {
-          // Dispatch a special action to restore state
-          dispatch({ type: 'RESTORE_STATE', payload: nextState });
-        }
+        redo();
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [undo, redo, dispatch]);
+  }, [undo, redo]);
 
   return {
+    dispatch: trackedDispatch,
     undo,
     redo,
-    canUndo,
-    canRedo,
-    saveState,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    history,
     reset,
   };
-}
\ No newline at end of file
+}
@@ -10,21 +10,57 @@ export { ContextMenu } from './components/ContextMenu';
 export { ResizeHandle } from './components/ResizeHandle';
 export { DataValidation } from './components/DataValidation';
 export { PersistenceStatus } from './components/PersistenceStatus';
+export { SheetTabs } from './components/SheetTabs';
+export { NameManager } from './components/NameManager';
+export { HistoryPanel } from './components/HistoryPanel';
+export { PasteSpecial } from './components/PasteSpecial';
+export { FindReplace } from './components/FindReplace';
+export type { FindReplaceMode } from './components/FindReplace';
+export { FilterViews } from './components/FilterViews';
+export { SortDialog } from './components/SortDialog';
+export { PivotTableDialog } from './components/PivotTableDialog';
+export { ChartDialog } from './components/ChartDialog';
+export { ChartOverlay } from './components/ChartOverlay';
+export { ChartView } from './components/ChartView';
+export { Sparkline } from './components/Sparkline';
+export { TableDialog } from './components/TableDialog';
+export { ConditionalFormattingPanel } from './components/ConditionalFormatting';
+export { FormulaAssist } from './components/FormulaAssist';
 
 // Hooks
 export { useUndoRedo } from './hooks/useUndoRedo';
+export type { UndoHistory } from './hooks/useUndoRedo';
+export { useFormulaEngine } from './hooks/useFormulaEngine';
 export { useMultiSelection } from './hooks/useMultiSelection';
 export { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 export { useClipboard } from './hooks/useClipboard';
+export { useFormulaAutocomplete } from './hooks/useFormulaAutocomplete';
+export type { AssistItem, FormulaAssistState } from './hooks/useFormulaAutocomplete';
+export { useReferenceEntry } from './hooks/useReferenceEntry';
 
 // Utils
 export * from './utils/columnUtils';
 export * from './utils/formulaUtils';
+export * from './utils/formulaTokenizer';
 export * from './utils/selectionUtils';
 export * from './utils/clipboardUtils';
 export * from './utils/csvUtils';
 export * from './utils/excelUtils';
-export { FormulaEngine } from './utils/hyperformulaEngine';
+export * from './utils/sheetUtils';
+export * from './utils/namedRangeUtils';
+export * from './utils/mergeUtils';
+export * from './utils/findUtils';
+export * from './utils/filterUtils';
+export * from './utils/sortUtils';
+export * from './utils/conditionalFormattingUtils';
+export * from './utils/pivotUtils';
+export * from './utils/chartUtils';
+export * from './utils/sparklineUtils';
+export * from './utils/spillUtils';
+export * from './utils/tableUtils';
+export * from './utils/autocompleteUtils';
+export * from './utils/referenceEntryUtils';
+export { FormulaEngine, LOADING, getCellContent } from './utils/hyperformulaEngine';
 
 // Collaboration
 export { SpreadsheetCRDT, OperationalTransform } from './collaboration/crdt';
@@ -42,6 +78,7 @@ export * from './types/actions';
 
 // Reducers
 export { spreadsheetReducer } from './reducers/spreadsheetReducer';
+export { createCommand, describeAction } from './reducers/historyCommands';
 
 // Legacy exports for backward compatibility
 export { SpreadsheetProvider, useSpreadsheet } from './SpreadsheetContext';
@@ -1,11 +1,19 @@
 import {
   PersistenceAdapter,
   PersistedState,
+  PersistedSheet,
   SpreadsheetMetadata,
   SyncStatus,
   SaveResult,
 } from './types';
-import { SpreadsheetState } from '../types/spreadsheet';
+import { SpreadsheetState, Sheet } from '../types/spreadsheet';
+import { getSheets, getActiveSheetId, applySheets } from '../utils/sheetUtils';
+import {
+  serializeFilterRules,
+  deserializeFilterRules,
+  serializeFilterView,
+  deserializeFilterView,
+} from '../utils/filterUtils';
 import { LocalStorageAdapter } from './LocalStorageAdapter';
 import { ApiAdapter } from './ApiAdapter';
 
@@ -253,10 +261,94 @@ export class PersistenceManager {
       rowHeights: state.rowHeights || [],
       colWidths: state.colWidths || [],
       validation: state.validation ? Array.from(state.validation.entries()) : undefined,
+      sheets: getSheets(state).map(sheet => this.sheetToPersistedSheet(sheet)),
+      activeSheetId: getActiveSheetId(state),
+      namedRanges: state.namedRanges,
       metadata,
     };
   }
 
+  private sheetToPersistedSheet(sheet: Sheet): PersistedSheet {
+    return {
+      id: sheet.id,
+      name: sheet.name,
+      data: Array.from(sheet.data.entries()),
+      maxRows: sheet.maxRows,
+      maxCols: sheet.maxCols,
+      rowHeights: sheet.rowHeights || [],
+      colWidths: sheet.colWidths || [],
+      validation: sheet.validation ? Array.from(sheet.validation.entries()) : undefined,
+      sheetFormatting: sheet.sheetFormatting,
+      merges: sheet.merges,
+      filterState: sheet.filterState && {
+        ...sheet.filterState,
+        rules: serializeFilterRules(sheet.filterState.rules),
+        hiddenRows: Array.from(sheet.filterState.hiddenRows),
+      },
+      filterViews: sheet.filterViews?.map(serializeFilterView),
+      conditionalFormats: sheet.conditionalFormats,
+      pivotTables: sheet.pivotTables,
+      charts: sheet.charts,
+      tables: sheet.tables?.map(table => ({
+        ...table,
+        filters: table.filters && serializeFilterRules(table.filters),
+      })),
+    };
+  }
+
+  // Convert PersistedState back to SpreadsheetState
+  private persistedStateToState(persisted: PersistedState): SpreadsheetState {
+    const state: SpreadsheetState = {
+      data: new Map(persisted.data),
+      maxRows: 1000,
+      maxCols: 100,
+      selection: { ranges: [], active: null },
+      editing: null,
+      formulaInput: '',
+      rowHeights: persisted.rowHeights,
+      colWidths: persisted.colWidths,
+      validation: persisted.validation ? new Map(persisted.validation) : undefined,
+      namedRanges: persisted.namedRanges,
+    };
+
+    // Saves made before workbooks existed only hold a single sheet
+    if (!persisted.sheets?.length) {
+      return state;
+    }
+
+    const sheets: Sheet[] = persisted.sheets.map(sheet => ({
+      id: sheet.id,
+      name: sheet.name,
+      data: new Map(sheet.data),
+      maxRows: sheet.maxRows,
+      maxCols: sheet.maxCols,
+      rowHeights: sheet.rowHeights,
+      colWidths: sheet.colWidths,
+      validation: sheet.validation ? new Map(sheet.validation) : undefined,
+      sheetFormatting: sheet.sheetFormatting,
+      merges: sheet.merges,
+      filterState: sheet.filterState && {
+        ...sheet.filterState,
+        rules: deserializeFilterRules(sheet.filterState.rules),
+        hiddenRows: new Set(sheet.filterState.hiddenRows),
+      },
+      filterViews: sheet.filterViews?.map(deserializeFilterView),
+      conditionalFormats: sheet.conditionalFormats,
+      pivotTables: sheet.pivotTables,
+      charts: sheet.charts,
+      tables: sheet.tables?.map(table => ({
+        ...table,
+        filters: table.filters && deserializeFilterRules(table.filters),
+      })),
+    }));
+
+    return applySheets(
+      { ...state, sheets, activeSheetId: persisted.activeSheetId },
+      sheets,
+      persisted.activeSheetId
+    );
+  }
+
   // Public methods
 
   async save(state: SpreadsheetState): Promise<SaveResult> {
@@ -302,18 +394,7 @@ export class PersistenceManager {
       return null;
     }
 
-    // Convert PersistedState back to SpreadsheetState
-    return {
-      data: new Map(persisted.data),
-      maxRows: 1000,
-      maxCols: 100,
-      selection: { ranges: [], active: null },
-      editing: null,
-      formulaInput: '',
-      rowHeights: persisted.rowHeights,
-      colWidths: persisted.colWidths,
-      validation: persisted.validation ? new Map(persisted.validation) : undefined,
-    };
+    return this.persistedStateToState(persisted);
   }
 
   async saveVersion(state: SpreadsheetState, label?: string) {
@@ -328,17 +409,7 @@ export class PersistenceManager {
       return null;
     }
 
-    return {
-      data: new Map(persisted.data),
-      maxRows: 1000,
-      maxCols: 100,
-      selection: { ranges: [], active: null },
-      editing: null,
-      formulaInput: '',
-      rowHeights: persisted.rowHeights,
-      colWidths: persisted.colWidths,
-      validation: persisted.validation ? new Map(persisted.validation) : undefined,
-    };
+    return this.persistedStateToState(persisted);
   }
 
   async listVersions() {
@@ -1,4 +1,4 @@
-import { CellData } from '../types/spreadsheet';
+import { CellData, SheetFormatting, NamedRange, SelectionRect, FilterRule, FilterView, SortKey, ConditionalFormatRule, PivotTable, Chart, Table } from '../types/spreadsheet';
 
 export interface PersistenceAdapter {
   // Core persistence methods
@@ -27,9 +27,40 @@ export interface PersistedState {
   rowHeights: number[];
   colWidths: number[];
   validation?: Array<[string, any]>;
+  sheets?: PersistedSheet[];
+  activeSheetId?: string;
+  namedRanges?: NamedRange[];
   metadata: SpreadsheetMetadata;
 }
 
+export interface PersistedSheet {
+  id: string;
+  name: string;
+  data: Array<[string, CellData]>;
+  maxRows: number;
+  maxCols: number;
+  rowHeights: number[];
+  colWidths: number[];
+  validation?: Array<[string, any]>;
+  sheetFormatting?: SheetFormatting;
+  merges?: SelectionRect[];
+  filterState?: PersistedFilterState;
+  filterViews?: FilterView[];
+  conditionalFormats?: ConditionalFormatRule[];
+  pivotTables?: PivotTable[];
+  charts?: Chart[];
+  tables?: Table[];
+}
+
+export interface PersistedFilterState {
+  rules: FilterRule[];
+  hiddenRows: number[];
+  showFilterHeaders?: boolean;
+  sortColumn?: number;
+  sortDirection?: 'asc' | 'desc';
+  sortKeys?: SortKey[];
+}
+
 export interface SpreadsheetMetadata {
   id: string;
   title: string;
@@ -0,0 +1,361 @@
+import { SpreadsheetState, CellData, NamedRange, Sheet, SelectionRect, parseKey } from '../types/spreadsheet';
+import { SpreadsheetAction, Command, CellChange, SheetLayout } from '../types/actions';
+import { spreadsheetReducer, flattenActions } from './spreadsheetReducer';
+import { cellRefToString } from '../utils/formulaUtils';
+import { columnToLetter } from '../utils/columnUtils';
+import { normalizeRect } from '../utils/selectionUtils';
+import { getSheets, getActiveSheetId } from '../utils/sheetUtils';
+import { CHART_TYPE_LABELS } from '../utils/chartUtils';
+
+// Actions that change the workbook. Selection, editing and switching sheets
+// are not recorded.
+const UNDOABLE_ACTIONS = new Set<SpreadsheetAction['type']>([
+  'SET_CELL',
+  'SET_CELLS',
+  'CLEAR_CELL',
+  'CLEAR_RANGE',
+  'INSERT_ROW',
+  'INSERT_COLUMN',
+  'DELETE_ROW',
+  'DELETE_COLUMN',
+  'SET_ROW_HEIGHT',
+  'SET_COLUMN_WIDTH',
+  'APPLY_FORMAT_TO_SELECTION',
+  'FILL_RANGE',
+  'MOVE_RANGE',
+  'SORT_RANGE',
+  'SORT_RANGE_BY',
+  'SET_VALIDATION',
+  'MERGE_CELLS',
+  'UNMERGE_CELLS',
+  'SET_FILTER_RULES',
+  'CLEAR_FILTERS',
+  'SAVE_FILTER_VIEW',
+  'DELETE_FILTER_VIEW',
+  'ADD_CONDITIONAL_FORMAT',
+  'UPDATE_CONDITIONAL_FORMAT',
+  'DELETE_CONDITIONAL_FORMAT',
+  'MOVE_CONDITIONAL_FORMAT',
+  'ADD_PIVOT_TABLE',
+  'UPDATE_PIVOT_TABLE',
+  'REFRESH_PIVOT_TABLE',
+  'DELETE_PIVOT_TABLE',
+  'ADD_CHART',
+  'UPDATE_CHART',
+  'DELETE_CHART',
+  'ADD_TABLE',
+  'UPDATE_TABLE',
+  'DELETE_TABLE',
+  'SET_TABLE_FILTERS',
+  'UPDATE_SHEET_FORMATTING',
+  'ADD_SHEET',
+  'RENAME_SHEET',
+  'MOVE_SHEET',
+  'DUPLICATE_SHEET',
+  'DELETE_SHEET',
+  'ADD_NAMED_RANGE',
+  'UPDATE_NAMED_RANGE',
+  'DELETE_NAMED_RANGE',
+]);
+
+// Actions that add, remove or reorder sheets; undone by restoring the sheet list
+const SHEET_ACTIONS = new Set<SpreadsheetAction['type']>([
+  'ADD_SHEET',
+  'RENAME_SHEET',
+  'MOVE_SHEET',
+  'DUPLICATE_SHEET',
+  'DELETE_SHEET',
+]);
+
+const LAYOUT_FIELDS: Array<keyof SheetLayout> = [
+  'maxRows',
+  'maxCols',
+  'rowHeights',
+  'colWidths',
+  'validation',
+  'sheetFormatting',
+  'filterState',
+  'filterViews',
+  'merges',
+  'conditionalFormats',
+  'pivotTables',
+  'charts',
+  'tables',
+];
+
+const rangeLabel = (range: SelectionRect): string => {
+  const r = normalizeRect(range);
+  const start = cellRefToString(r.startRow, r.startCol);
+  return r.startRow === r.endRow && r.startCol === r.endCol ? start : `${start}:${cellRefToString(r.endRow, r.endCol)}`;
+};
+
+const plural = (count: number, noun: string): string => (count === 1 ? noun : `${count} ${noun}s`);
+
+/**
+ * Label for a history entry, e.g. "Edit B4" or "Sort by column C"
+ */
+export function describeAction(action: SpreadsheetAction): string {
+  switch (action.type) {
+    case 'SET_CELL':
+      return `Edit ${cellRefToString(action.payload.row, action.payload.col)}`;
+    case 'SET_CELLS': {
+      const { updates } = action.payload;
+      return updates.length === 1
+        ? `Edit ${cellRefToString(updates[0].row, updates[0].col)}`
+        : `Edit ${updates.length} cells`;
+    }
+    case 'CLEAR_CELL':
+      return `Clear ${cellRefToString(action.payload.row, action.payload.col)}`;
+    case 'CLEAR_RANGE':
+      return `Clear ${rangeLabel(action.payload.range)}`;
+    case 'INSERT_ROW':
+      return `Insert ${plural(action.payload.count ?? 1, 'row')}`;
+    case 'INSERT_COLUMN':
+      return `Insert ${plural(action.payload.count ?? 1, 'column')}`;
+    case 'DELETE_ROW':
+      return `Delete ${plural(action.payload.count ?? 1, 'row')}`;
+    case 'DELETE_COLUMN':
+      return `Delete ${plural(action.payload.count ?? 1, 'column')}`;
+    case 'SET_ROW_HEIGHT':
+      return `Resize row ${action.payload.row + 1}`;
+    case 'SET_COLUMN_WIDTH':
+      return `Resize column ${columnToLetter(action.payload.col)}`;
+    case 'APPLY_FORMAT_TO_SELECTION':
+      return 'Format cells';
+    case 'FILL_RANGE':
+      return `Fill ${action.payload.direction}`;
+    case 'MOVE_RANGE': {
+      const { source, target } = action.payload;
+      return `Move ${rangeLabel(source)} to ${cellRefToString(target.row, target.col)}`;
+    }
+    case 'SORT_RANGE':
+      return `Sort by column ${columnToLetter(action.payload.column)}`;
+    case 'SORT_RANGE_BY': {
+      const columns = action.payload.keys.map(key => columnToLetter(key.column));
+      return columns.length === 1 ? `Sort by column ${columns[0]}` : `Sort by columns ${columns.join(', ')}`;
+    }
+    case 'SET_VALIDATION':
+      return action.payload.validation ? 'Set data validation' : 'Remove data validation';
+    case 'MERGE_CELLS':
+      return `Merge ${rangeLabel(action.payload.range)}`;
+    case 'UNMERGE_CELLS':
+      return `Unmerge ${rangeLabel(action.payload.range)}`;
+    case 'SET_FILTER_RULES':
+      return action.payload.rules.length ? 'Filter rows' : 'Show filters';
+    case 'CLEAR_FILTERS':
+      return 'Remove filters';
+    case 'SAVE_FILTER_VIEW':
+      return `Save filter view ${action.payload.view.name}`;
+    case 'DELETE_FILTER_VIEW':
+      return 'Delete filter view';
+    case 'ADD_CONDITIONAL_FORMAT':
+      return `Add conditional formatting to ${action.payload.rule.ranges.map(rangeLabel).join(', ')}`;
+    case 'UPDATE_CONDITIONAL_FORMAT':
+      return 'Edit conditional formatting';
+    case 'DELETE_CONDITIONAL_FORMAT':
+      return 'Delete conditional formatting';
+    case 'MOVE_CONDITIONAL_FORMAT':
+      return 'Reorder conditional formatting';
+    case 'ADD_PIVOT_TABLE':
+      return 'Insert pivot table';
+    case 'UPDATE_PIVOT_TABLE':
+      return 'Edit pivot table';
+    case 'REFRESH_PIVOT_TABLE':
+      return 'Refresh pivot table';
+    case 'DELETE_PIVOT_TABLE':
+      return 'Delete pivot table';
+    case 'ADD_CHART':
+      return `Insert ${CHART_TYPE_LABELS[action.payload.chart.type].toLowerCase()} chart`;
+    case 'UPDATE_CHART':
+      return 'Edit chart';
+    case 'DELETE_CHART':
+      return 'Delete chart';
+    case 'ADD_TABLE':
+      return `Create table ${action.payload.table.name}`;
+    case 'UPDATE_TABLE':
+      return `Edit table ${action.payload.table.name}`;
+    case 'DELETE_TABLE':
+      return 'Convert table to range';
+    case 'SET_TABLE_FILTERS':
+      return action.payload.rules.length ? 'Filter table' : 'Clear table filter';
+    case 'UPDATE_SHEET_FORMATTING':
+      return 'Format sheet';
+    case 'ADD_SHEET':
+      return 'Add sheet';
+    case 'RENAME_SHEET':
+      return `Rename sheet to ${action.payload.name.trim()}`;
+    case 'MOVE_SHEET':
+      return 'Move sheet';
+    case 'DUPLICATE_SHEET':
+      return 'Duplicate sheet';
+    case 'DELETE_SHEET':
+      return 'Delete sheet';
+    case 'ADD_NAMED_RANGE':
+      return `Define name ${action.payload.name}`;
+    case 'UPDATE_NAMED_RANGE':
+      return `Edit name ${action.payload.name}`;
+    case 'DELETE_NAMED_RANGE':
+      return `Delete name ${action.payload.name}`;
+    case 'BATCH':
+      return action.label ?? describeActions(action.payload);
+    default:
+      return action.type;
+  }
+}
+
+// Label for actions dispatched together, preferring an explicit BATCH label
+function describeActions(actions: SpreadsheetAction[]): string {
+  const labelled = actions.find(action => action.type === 'BATCH' && action.label);
+  if (labelled) return describeAction(labelled);
+
+  const undoable = flattenActions(actions).filter(action => UNDOABLE_ACTIONS.has(action.type));
+  if (undoable.length === 0) return '';
+
+  const cellEdits = undoable.every(action => action.type === 'SET_CELL' || action.type === 'SET_CELLS');
+  if (cellEdits && undoable.length > 1) {
+    const count = undoable.reduce((total, action) =>
+      total + (action.type === 'SET_CELLS' ? action.payload.updates.length : 1), 0);
+    return `Edit ${count} cells`;
+  }
+
+  const first = describeAction(undoable[0]);
+  return undoable.length === 1 ? first : `${first} and ${undoable.length - 1} more`;
+}
+
+function inverseStructuralAction(action: SpreadsheetAction): SpreadsheetAction {
+  switch (action.type) {
+    case 'INSERT_ROW':
+      return { type: 'DELETE_ROW', payload: action.payload };
+    case 'DELETE_ROW':
+      return { type: 'INSERT_ROW', payload: action.payload };
+    case 'INSERT_COLUMN':
+      return { type: 'DELETE_COLUMN', payload: action.payload };
+    case 'DELETE_COLUMN':
+      return { type: 'INSERT_COLUMN', payload: action.payload };
+    default:
+      return action;
+  }
+}
+
+const isStructuralAction = (action: SpreadsheetAction): boolean =>
+  action.type === 'INSERT_ROW' ||
+  action.type === 'DELETE_ROW' ||
+  action.type === 'INSERT_COLUMN' ||
+  action.type === 'DELETE_COLUMN';
+
+// Cells copied or rewritten by the reducer are new objects with the same fields
+function sameCell(a: CellData | undefined, b: CellData | undefined): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+
+  const keys = Object.keys(a) as Array<keyof CellData>;
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
+
+function sameNamedRanges(a: NamedRange[] = [], b: NamedRange[] = []): boolean {
+  return a === b || (
+    a.length === b.length &&
+    a.every((namedRange, i) =>
+      namedRange.name === b[i].name &&
+      namedRange.reference === b[i].reference &&
+      namedRange.comment === b[i].comment
+    )
+  );
+}
+
+// RESTORE_SHEET that turns one version of a sheet into another, or null if they match
+function restoreSheet(from: Sheet, to: Sheet): SpreadsheetAction | null {
+  const cells: CellChange[] = [];
+  if (from.data !== to.data) {
+    to.data.forEach((cellData, key) => {
+      if (!sameCell(from.data.get(key), cellData)) {
+        const [row, col] = parseKey(key);
+        cells.push({ row, col, data: cellData });
+      }
+    });
+    from.data.forEach((_, key) => {
+      if (!to.data.has(key)) {
+        const [row, col] = parseKey(key);
+        cells.push({ row, col, data: null });
+      }
+    });
+  }
+
+  const layout: SheetLayout = {};
+  LAYOUT_FIELDS.forEach(field => {
+    if (from[field] !== to[field]) {
+      (layout as any)[field] = to[field];
+    }
+  });
+
+  if (cells.length === 0 && Object.keys(layout).length === 0) return null;
+  return { type: 'RESTORE_SHEET', payload: { sheetId: to.id, cells, layout } };
+}
+
+/**
+ * Actions that take the workbook from one state to another. Row and column
+ * inserts/deletes are replayed as such, so references shift the same way;
+ * whatever else differs is restored cell by cell.
+ */
+function transition(from: SpreadsheetState, to: SpreadsheetState, structural: SpreadsheetAction[]): SpreadsheetAction[] {
+  const actions: SpreadsheetAction[] = [];
+  let replayed = from;
+
+  if (structural.length) {
+    // Row and column edits apply to the active sheet
+    actions.push({ type: 'SET_ACTIVE_SHEET', payload: { sheetId: getActiveSheetId(from) } }, ...structural);
+    replayed = structural.reduce(spreadsheetReducer, from);
+  }
+
+  const replayedSheets = getSheets(replayed);
+  getSheets(to).forEach(sheet => {
+    const current = replayedSheets.find(s => s.id === sheet.id);
+    const restore = current && restoreSheet(current, sheet);
+    if (restore) actions.push(restore);
+  });
+
+  if (!sameNamedRanges(replayed.namedRanges, to.namedRanges)) {
+    actions.push({ type: 'RESTORE_WORKBOOK', payload: { namedRanges: to.namedRanges ?? [] } });
+  }
+
+  return actions;
+}
+
+const toAction = (actions: SpreadsheetAction[]): SpreadsheetAction =>
+  actions.length === 1 ? actions[0] : { type: 'BATCH', payload: actions };
+
+/**
+ * Build the undo step for actions dispatched together, from the states
+ * before and after them. Returns null when nothing undoable changed.
+ */
+export function createCommand(
+  before: SpreadsheetState,
+  after: SpreadsheetState,
+  actions: SpreadsheetAction[]
+): Command | null {
+  const flattened = flattenActions(actions);
+  if (before === after || !flattened.some(action => UNDOABLE_ACTIONS.has(action.type))) return null;
+
+  const description = describeActions(actions);
+  const timestamp = Date.now();
+
+  // Adding, removing or reordering sheets restores the sheet list as a whole
+  const sheetsChanged = flattened.some(action => SHEET_ACTIONS.has(action.type));
+  // Row and column edits are replayed on one sheet, which switching sheets would change
+  const switched = getActiveSheetId(before) !== getActiveSheetId(after);
+
+  if (sheetsChanged || (switched && flattened.some(isStructuralAction))) {
+    const restore = (state: SpreadsheetState): SpreadsheetAction => ({
+      type: 'RESTORE_WORKBOOK',
+      payload: { sheets: getSheets(state), activeSheetId: getActiveSheetId(state), namedRanges: state.namedRanges ?? [] },
+    });
+    return { description, undo: restore(before), redo: restore(after), timestamp };
+  }
+
+  const structural = flattened.filter(isStructuralAction);
+  const undo = transition(after, before, structural.map(inverseStructuralAction).reverse());
+  const redo = transition(before, after, structural);
+  if (undo.length === 0) return null;
+
+  return { description, undo: toAction(undo), redo: toAction(redo), timestamp };
+}
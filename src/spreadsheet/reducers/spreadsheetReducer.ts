@@ -1,7 +1,267 @@
-import { SpreadsheetState, CellData, keyOf, parseKey } from '../types/spreadsheet';
+import { SpreadsheetState, CellData, ComputedValueGetter, FilterCondition, FilterRule, Sheet, PivotTable, SelectionRect, Table, ValidationRule, keyOf, parseKey } from '../types/spreadsheet';
 import { SpreadsheetAction } from '../types/actions';
-import { updateFormulaReferences } from '../utils/formulaUtils';
-import { normalizeRect } from '../utils/selectionUtils';
+import {
+  updateFormulaReferences,
+  moveFormulaReferences,
+  offsetFormulaReferences,
+  renameSheetReferences,
+  deleteSheetReferences,
+  ReferenceScope,
+} from '../utils/formulaUtils';
+import { normalizeRect, intersectRects, containsRect, moveRect } from '../utils/selectionUtils';
+import {
+  getSheets,
+  getActiveSheet,
+  getActiveSheetId,
+  applySheets,
+  createSheet,
+  duplicateSheet,
+  findSheetByName,
+  getUniqueSheetName,
+  isValidSheetName,
+} from '../utils/sheetUtils';
+import {
+  findNamedRange,
+  isValidRangeName,
+  normalizeRangeReference,
+  renameNameReferences,
+  rewriteNamedRanges,
+  getRangeValues,
+} from '../utils/namedRangeUtils';
+import { createMerges, expandToMerges, shiftMerges, snapSelectionToMerges } from '../utils/mergeUtils';
+import { applyFilters, isRowFiltered, shiftFilters } from '../utils/filterUtils';
+import { sortRows } from '../utils/sortUtils';
+import { moveConditionalFormats, shiftConditionalFormats } from '../utils/conditionalFormattingUtils';
+import { buildPivotTable, getPivotOutputRect, getPivotPlacementError, shiftPivotTables } from '../utils/pivotUtils';
+import { moveCharts, shiftCharts } from '../utils/chartUtils';
+import {
+  applyTableFilters,
+  createTableId,
+  expandTableReferences,
+  expandTables,
+  getDefaultTotalRow,
+  getTableReferences,
+  getUniqueTableName,
+  getWorkbookTables,
+  isTableNameAvailable,
+  isValidTableName,
+  getTableHeaderUpdates,
+  moveTables,
+  renameTableReferences,
+  shiftTables,
+} from '../utils/tableUtils';
+
+// Scope for rewriting references to the active sheet from its own formulas
+function activeSheetScope(state: SpreadsheetState): ReferenceScope {
+  const sheetName = getActiveSheet(state).name;
+  return { sheetName, formulaSheet: sheetName };
+}
+
+// Apply a formula rewrite to a cell's formula and its sparkline's data
+function rewriteCell(cellData: CellData, rewrite: (formula: string) => string): CellData {
+  const formula = cellData.formula && rewrite(cellData.formula);
+  const sparklineData = cellData.sparkline && rewrite(`=${cellData.sparkline.data}`).slice(1);
+  if (formula === cellData.formula && sparklineData === cellData.sparkline?.data) return cellData;
+  return {
+    ...cellData,
+    formula,
+    ...(cellData.sparkline && { sparkline: { ...cellData.sparkline, data: sparklineData! } }),
+  };
+}
+
+// Apply a formula rewrite to a sheet's cells, keeping the map when nothing
+// changed. The rewrite also gets the key of the cell.
+function rewriteFormulas(
+  data: Map<string, CellData>,
+  rewrite: (formula: string, key: string) => string
+): Map<string, CellData> {
+  let changed = false;
+  const newData = new Map<string, CellData>();
+  data.forEach((cellData, key) => {
+    const updated = rewriteCell(cellData, formula => rewrite(formula, key));
+    if (updated !== cellData) {
+      changed = true;
+      newData.set(key, updated);
+    } else {
+      newData.set(key, cellData);
+    }
+  });
+
+  return changed ? newData : data;
+}
+
+// Apply a formula rewrite to a sheet's cells, formula rules and list sources.
+// Charts refer to their own sheet by position, so they need nothing.
+function rewriteSheetReferences(sheet: Sheet, rewrite: (formula: string) => string): Sheet {
+  const rewriteReference = (reference: string) =>
+    reference.startsWith('=') ? rewrite(reference) : rewrite(`=${reference}`).slice(1);
+
+  const data = rewriteFormulas(sheet.data, rewrite);
+
+  let conditionalFormats = sheet.conditionalFormats;
+  sheet.conditionalFormats?.forEach((rule, index) => {
+    if (rule.type !== 'formula' || typeof rule.value1 !== 'string') return;
+    const value1 = rewriteReference(rule.value1);
+    if (value1 === rule.value1) return;
+    if (conditionalFormats === sheet.conditionalFormats) conditionalFormats = [...conditionalFormats!];
+    conditionalFormats![index] = { ...rule, value1 };
+  });
+
+  let validation = sheet.validation;
+  sheet.validation?.forEach((rule, key) => {
+    if (!rule.sourceRange) return;
+    const sourceRange = rewriteReference(rule.sourceRange);
+    if (sourceRange === rule.sourceRange) return;
+    if (validation === sheet.validation) validation = new Map(validation);
+    validation!.set(key, { ...rule, sourceRange });
+  });
+
+  if (data === sheet.data && conditionalFormats === sheet.conditionalFormats && validation === sheet.validation) {
+    return sheet;
+  }
+  return { ...sheet, data, conditionalFormats, validation };
+}
+
+// Apply a formula rewrite to every sheet except the active one
+function rewriteOtherSheets(
+  state: SpreadsheetState,
+  rewrite: (formula: string, formulaSheet: string, key: string) => string
+): Sheet[] | undefined {
+  if (!state.sheets) return state.sheets;
+
+  const activeId = getActiveSheetId(state);
+  return state.sheets.map(sheet => {
+    if (sheet.id === activeId) return sheet;
+
+    const newData = rewriteFormulas(sheet.data, (formula, key) => rewrite(formula, sheet.name, key));
+    return newData !== sheet.data ? { ...sheet, data: newData } : sheet;
+  });
+}
+
+// The active sheet's values to sort and filter on: formula results when
+// getComputedValue is given, else what the cells store
+function cellValues(state: SpreadsheetState, getComputedValue?: ComputedValueGetter) {
+  return getComputedValue ?? ((row: number, col: number) => state.data.get(keyOf(row, col))?.value);
+}
+
+// Rows of the active sheet that filter conditions hide
+function filterSheetRows(state: SpreadsheetState, filters: FilterCondition[], getComputedValue?: ComputedValueGetter) {
+  return applyFilters(state.data, filters, state.maxRows, state.maxCols,
+    reference => getRangeValues(state, reference, getComputedValue), cellValues(state, getComputedValue));
+}
+
+// Data rows of a table that filter rules hide
+function filterTableRows(state: SpreadsheetState, table: Table, rules: FilterRule[], getComputedValue?: ComputedValueGetter) {
+  return applyTableFilters(state.data, table, rules,
+    reference => getRangeValues(state, reference, getComputedValue), cellValues(state, getComputedValue));
+}
+
+function sameRows(a: Iterable<number>, b: Iterable<number>): boolean {
+  const rows = Array.from(a);
+  const others = new Set(b);
+  return rows.length === others.size && rows.every(row => others.has(row));
+}
+
+// Remove the cells a pivot table's last refresh wrote
+function clearPivotOutput(data: Map<string, CellData>, pivot: PivotTable): void {
+  if (!pivot.output) return;
+  const r = normalizeRect(pivot.output);
+  for (let row = r.startRow; row <= r.endRow; row++) {
+    for (let col = r.startCol; col <= r.endCol; col++) {
+      data.delete(keyOf(row, col));
+    }
+  }
+}
+
+/**
+ * Write a pivot table's output to the active sheet, clearing what it wrote
+ * before. Null when its source sheet is gone or the output can't be placed.
+ */
+function writePivotTable(
+  state: SpreadsheetState,
+  pivot: PivotTable,
+  previous?: PivotTable,
+  getComputedValue?: ComputedValueGetter
+): SpreadsheetState | null {
+  const sourceSheet = getSheets(state).find(sheet => sheet.id === pivot.sourceSheetId);
+  if (!sourceSheet) return null;
+
+  const cells = buildPivotTable(pivot, sourceSheet.data,
+    getComputedValue && ((row, col) => getComputedValue(row, col, sourceSheet.id)));
+  const output = getPivotOutputRect(pivot, cells);
+  if (getPivotPlacementError(pivot, output, getActiveSheet(state))) return null;
+
+  const newData = new Map(state.data);
+  if (previous) clearPivotOutput(newData, previous);
+  cells.forEach((cellRow, i) => cellRow.forEach((cell, j) => {
+    const key = keyOf(output.startRow + i, output.startCol + j);
+    if (cell) {
+      newData.set(key, cell);
+    } else {
+      newData.delete(key);
+    }
+  }));
+
+  const written = { ...pivot, output };
+  const pivots = state.pivotTables ?? [];
+  return {
+    ...state,
+    data: newData,
+    pivotTables: previous ? pivots.map(p => (p.id === pivot.id ? written : p)) : [...pivots, written],
+  };
+}
+
+// Whether a table can cover a range of the active sheet: inside the sheet
+// and clear of its other tables
+function canPlaceTable(state: SpreadsheetState, range: SelectionRect, tableId: string): boolean {
+  if (range.startRow < 0 || range.startCol < 0 || range.endRow >= state.maxRows || range.endCol >= state.maxCols) {
+    return false;
+  }
+  return !state.tables?.some(other => other.id !== tableId && intersectRects(other.range, range));
+}
+
+/**
+ * Show or hide a table's total row. Showing it takes in the row below the
+ * table, which must be empty, and fills in a label and a total; hiding it
+ * clears that row. Null when the row below isn't free.
+ */
+function setTotalRow(state: SpreadsheetState, table: Table, show: boolean): SpreadsheetState | null {
+  const r = normalizeRect(table.range);
+  const newData = new Map(state.data);
+  let range: SelectionRect;
+
+  if (show) {
+    const totalRow = r.endRow + 1;
+    const below = { ...r, startRow: totalRow, endRow: totalRow };
+    if (!canPlaceTable(state, below, table.id)) return null;
+    for (let col = r.startCol; col <= r.endCol; col++) {
+      if (newData.has(keyOf(totalRow, col))) return null;
+    }
+    getDefaultTotalRow(table, state.data).forEach(({ row, col, data }) => {
+      newData.set(keyOf(row, col), { value: '', ...data });
+    });
+    range = { ...r, endRow: totalRow };
+  } else {
+    for (let col = r.startCol; col <= r.endCol; col++) {
+      newData.delete(keyOf(r.endRow, col));
+    }
+    range = { ...r, endRow: r.endRow - 1 };
+  }
+
+  const updated = { ...table, range, showTotalRow: show };
+  return {
+    ...state,
+    data: newData,
+    tables: state.tables?.map(t => (t.id === table.id ? updated : t)),
+  };
+}
+
+// Expand BATCH actions so each sub-action is seen on its own
+export function flattenActions(actions: SpreadsheetAction[]): SpreadsheetAction[] {
+  return actions.flatMap(action =>
+    action.type === 'BATCH' ? flattenActions(action.payload) : [action]
+  );
+}
 
 export function spreadsheetReducer(
   state: SpreadsheetState,
@@ -15,29 +275,32 @@ export function spreadsheetReducer(
       const updated: CellData = { ...existing, ...data, value: data.value ?? existing.value };
       const newData = new Map(state.data);
       
-      if (updated.value === '' && !updated.formula && !updated.format) {
+      if (updated.value === '' && !updated.formula && !updated.format && !updated.sparkline) {
         newData.delete(key);
-      } else {
-        newData.set(key, updated);
+        return { ...state, data: newData };
       }
+      newData.set(key, updated);
       
-      return { ...state, data: newData };
+      // Filling the row below a table adds it to the table
+      return { ...state, data: newData, tables: expandTables(state.tables, [{ row, col }]) };
     }
 
     case 'SET_CELLS': {
       const newData = new Map(state.data);
+      const filled: Array<{ row: number; col: number }> = [];
       action.payload.updates.forEach(({ row, col, data }) => {
         const key = keyOf(row, col);
         const existing = newData.get(key) || { value: '' };
         const updated: CellData = { ...existing, ...data, value: data.value ?? existing.value };
         
-        if (updated.value === '' && !updated.formula && !updated.format) {
+        if (updated.value === '' && !updated.formula && !updated.format && !updated.sparkline) {
           newData.delete(key);
         } else {
           newData.set(key, updated);
+          filled.push({ row, col });
         }
       });
-      return { ...state, data: newData };
+      return { ...state, data: newData, tables: expandTables(state.tables, filled) };
     }
 
     case 'CLEAR_CELL': {
@@ -53,6 +316,8 @@ export function spreadsheetReducer(
       const newData = new Map(state.data);
       
       for (let r = normalized.startRow; r <= normalized.endRow; r++) {
+        // Rows hidden by filters are left alone
+        if (isRowFiltered(state, r)) continue;
         for (let c = normalized.startCol; c <= normalized.endCol; c++) {
           newData.delete(keyOf(r, c));
         }
@@ -62,15 +327,15 @@ export function spreadsheetReducer(
     }
 
     case 'SET_SELECTION':
-      return { ...state, selection: action.payload };
+      return { ...state, selection: snapSelectionToMerges(action.payload, state.merges) };
 
     case 'ADD_SELECTION_RANGE':
       return {
         ...state,
-        selection: {
+        selection: snapSelectionToMerges({
           ...state.selection,
           ranges: [...state.selection.ranges, action.payload],
-        },
+        }, state.merges),
       };
 
     case 'SET_EDITING':
@@ -79,8 +344,18 @@ export function spreadsheetReducer(
     case 'SET_FORMULA_INPUT':
       return { ...state, formulaInput: action.payload };
 
+    case 'SET_FORMULA_EDIT':
+      return { ...state, formulaEdit: action.payload ?? undefined };
+
+    // Only while a formula is being typed; its editor enters the reference
+    case 'POINT_FORMULA_REFERENCE':
+      return state.formulaEdit
+        ? { ...state, formulaEdit: { ...state.formulaEdit, pointer: action.payload } }
+        : state;
+
     case 'INSERT_ROW': {
       const { index, count = 1 } = action.payload;
+      const scope = activeSheetScope(state);
       const newData = new Map<string, CellData>();
       const newRowHeights = [...(state.rowHeights || [])];
       
@@ -89,15 +364,11 @@ export function spreadsheetReducer(
         const [row, col] = parseKey(key);
         if (row >= index) {
           // Update formulas that reference shifted cells
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'insertRow', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'insertRow', index, count, scope));
           newData.set(keyOf(row + count, col), updatedCellData);
         } else {
           // Update formulas in cells above the insertion point
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'insertRow', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'insertRow', index, count, scope));
           newData.set(key, updatedCellData);
         }
       });
@@ -112,11 +383,24 @@ export function spreadsheetReducer(
         data: newData,
         rowHeights: newRowHeights,
         maxRows: state.maxRows + count,
+        merges: shiftMerges(state.merges, 'row', index, count),
+        conditionalFormats: shiftConditionalFormats(state.conditionalFormats, 'row', index, count),
+        pivotTables: shiftPivotTables(state.pivotTables, getActiveSheetId(state), 'row', index, count),
+        charts: shiftCharts(state.charts, 'row', index, count),
+        tables: shiftTables(state.tables, 'row', index, count),
+        ...shiftFilters(state, 'row', index, count),
+        sheets: rewriteOtherSheets(state, (formula, formulaSheet) =>
+          updateFormulaReferences(formula, 'insertRow', index, count, { ...scope, formulaSheet })
+        ),
+        namedRanges: rewriteNamedRanges(state.namedRanges, formula =>
+          updateFormulaReferences(formula, 'insertRow', index, count, scope)
+        ),
       };
     }
 
     case 'INSERT_COLUMN': {
       const { index, count = 1 } = action.payload;
+      const scope = activeSheetScope(state);
       const newData = new Map<string, CellData>();
       const newColWidths = [...(state.colWidths || [])];
       
@@ -125,15 +409,11 @@ export function spreadsheetReducer(
         const [row, col] = parseKey(key);
         if (col >= index) {
           // Update formulas that reference shifted cells
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'insertColumn', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'insertColumn', index, count, scope));
           newData.set(keyOf(row, col + count), updatedCellData);
         } else {
           // Update formulas in cells to the left of insertion point
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'insertColumn', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'insertColumn', index, count, scope));
           newData.set(key, updatedCellData);
         }
       });
@@ -148,11 +428,24 @@ export function spreadsheetReducer(
         data: newData,
         colWidths: newColWidths,
         maxCols: state.maxCols + count,
+        merges: shiftMerges(state.merges, 'col', index, count),
+        conditionalFormats: shiftConditionalFormats(state.conditionalFormats, 'col', index, count),
+        pivotTables: shiftPivotTables(state.pivotTables, getActiveSheetId(state), 'col', index, count),
+        charts: shiftCharts(state.charts, 'col', index, count),
+        tables: shiftTables(state.tables, 'col', index, count),
+        ...shiftFilters(state, 'col', index, count),
+        sheets: rewriteOtherSheets(state, (formula, formulaSheet) =>
+          updateFormulaReferences(formula, 'insertColumn', index, count, { ...scope, formulaSheet })
+        ),
+        namedRanges: rewriteNamedRanges(state.namedRanges, formula =>
+          updateFormulaReferences(formula, 'insertColumn', index, count, scope)
+        ),
       };
     }
 
     case 'DELETE_ROW': {
       const { index, count = 1 } = action.payload;
+      const scope = activeSheetScope(state);
       const newData = new Map<string, CellData>();
       const newRowHeights = [...(state.rowHeights || [])];
       
@@ -163,15 +456,11 @@ export function spreadsheetReducer(
           return;
         } else if (row >= index + count) {
           // Shift rows up
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'deleteRow', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'deleteRow', index, count, scope));
           newData.set(keyOf(row - count, col), updatedCellData);
         } else {
           // Update formulas in remaining cells
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'deleteRow', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'deleteRow', index, count, scope));
           newData.set(key, updatedCellData);
         }
       });
@@ -184,11 +473,24 @@ export function spreadsheetReducer(
         data: newData,
         rowHeights: newRowHeights,
         maxRows: Math.max(10, state.maxRows - count),
+        merges: shiftMerges(state.merges, 'row', index, -count),
+        conditionalFormats: shiftConditionalFormats(state.conditionalFormats, 'row', index, -count),
+        pivotTables: shiftPivotTables(state.pivotTables, getActiveSheetId(state), 'row', index, -count),
+        charts: shiftCharts(state.charts, 'row', index, -count),
+        tables: shiftTables(state.tables, 'row', index, -count),
+        ...shiftFilters(state, 'row', index, -count),
+        sheets: rewriteOtherSheets(state, (formula, formulaSheet) =>
+          updateFormulaReferences(formula, 'deleteRow', index, count, { ...scope, formulaSheet })
+        ),
+        namedRanges: rewriteNamedRanges(state.namedRanges, formula =>
+          updateFormulaReferences(formula, 'deleteRow', index, count, scope)
+        ),
       };
     }
 
     case 'DELETE_COLUMN': {
       const { index, count = 1 } = action.payload;
+      const scope = activeSheetScope(state);
       const newData = new Map<string, CellData>();
       const newColWidths = [...(state.colWidths || [])];
       
@@ -199,15 +501,11 @@ export function spreadsheetReducer(
           return;
         } else if (col >= index + count) {
           // Shift columns left
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'deleteColumn', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'deleteColumn', index, count, scope));
           newData.set(keyOf(row, col - count), updatedCellData);
         } else {
           // Update formulas in remaining cells
-          const updatedCellData = cellData.formula
-            ? { ...cellData, formula: updateFormulaReferences(cellData.formula, 'deleteColumn', index, count) }
-            : cellData;
+          const updatedCellData = rewriteCell(cellData, formula => updateFormulaReferences(formula, 'deleteColumn', index, count, scope));
           newData.set(key, updatedCellData);
         }
       });
@@ -220,6 +518,18 @@ export function spreadsheetReducer(
         data: newData,
         colWidths: newColWidths,
         maxCols: Math.max(10, state.maxCols - count),
+        merges: shiftMerges(state.merges, 'col', index, -count),
+        conditionalFormats: shiftConditionalFormats(state.conditionalFormats, 'col', index, -count),
+        pivotTables: shiftPivotTables(state.pivotTables, getActiveSheetId(state), 'col', index, -count),
+        charts: shiftCharts(state.charts, 'col', index, -count),
+        tables: shiftTables(state.tables, 'col', index, -count),
+        ...shiftFilters(state, 'col', index, -count),
+        sheets: rewriteOtherSheets(state, (formula, formulaSheet) =>
+          updateFormulaReferences(formula, 'deleteColumn', index, count, { ...scope, formulaSheet })
+        ),
+        namedRanges: rewriteNamedRanges(state.namedRanges, formula =>
+          updateFormulaReferences(formula, 'deleteColumn', index, count, scope)
+        ),
       };
     }
 
@@ -245,6 +555,7 @@ export function spreadsheetReducer(
       state.selection.ranges.forEach(range => {
         const normalized = normalizeRect(range);
         for (let r = normalized.startRow; r <= normalized.endRow; r++) {
+          if (isRowFiltered(state, r)) continue;
           for (let c = normalized.startCol; c <= normalized.endCol; c++) {
             const key = keyOf(r, c);
             const existing = newData.get(key) || { value: '' };
@@ -276,8 +587,15 @@ export function spreadsheetReducer(
       
       if (!sourceCell) return state;
       
-      // Fill the range
+      // Rows hidden by filters are skipped, and series count only visible rows
+      const rows: number[] = [];
       for (let r = normalized.startRow; r <= normalized.endRow; r++) {
+        if (r === sourceRow || !isRowFiltered(state, r)) rows.push(r);
+      }
+      const sourcePosition = rows.indexOf(sourceRow);
+      
+      // Fill the range
+      rows.forEach((r, position) => {
         for (let c = normalized.startCol; c <= normalized.endCol; c++) {
           if (r === sourceRow && c === sourceCol) continue;
           
@@ -289,8 +607,8 @@ export function spreadsheetReducer(
             const value = sourceCell.value;
             if (typeof value === 'number') {
               let increment = 1;
-              if (direction === 'down') increment = r - sourceRow;
-              else if (direction === 'up') increment = sourceRow - r;
+              if (direction === 'down') increment = position - sourcePosition;
+              else if (direction === 'up') increment = sourcePosition - position;
               else if (direction === 'right') increment = c - sourceCol;
               else if (direction === 'left') increment = sourceCol - c;
               
@@ -305,54 +623,142 @@ export function spreadsheetReducer(
             }
           }
         }
-      }
+      });
       
       return { ...state, data: newData };
     }
 
     case 'SORT_RANGE': {
-      const { range, column, ascending } = action.payload;
-      const normalized = normalizeRect(range);
-      
-      // Extract data from the range
-      const rows: Array<{ index: number; data: (CellData | undefined)[] }> = [];
-      for (let r = normalized.startRow; r <= normalized.endRow; r++) {
-        const rowData: (CellData | undefined)[] = [];
-        for (let c = normalized.startCol; c <= normalized.endCol; c++) {
-          rowData.push(state.data.get(keyOf(r, c)));
-        }
-        rows.push({ index: r, data: rowData });
-      }
-      
-      // Sort rows based on the specified column
-      rows.sort((a, b) => {
-        const aVal = a.data[column - normalized.startCol]?.value;
-        const bVal = b.data[column - normalized.startCol]?.value;
-        
-        if (aVal === bVal) return 0;
-        if (aVal === undefined) return 1;
-        if (bVal === undefined) return -1;
-        
-        const comparison = aVal < bVal ? -1 : 1;
-        return ascending ? comparison : -comparison;
+      const { range, column, ascending, getComputedValue } = action.payload;
+      return spreadsheetReducer(state, {
+        type: 'SORT_RANGE_BY',
+        payload: { range, keys: [{ column, ascending }], getComputedValue },
       });
-      
-      // Create new data map with sorted data
+    }
+
+    case 'SORT_RANGE_BY': {
+      const { keys, hasHeader, getComputedValue } = action.payload;
+      const range = normalizeRect(action.payload.range);
+      if (keys.length === 0) return state;
+      // Sorting would split merged cells apart
+      if (state.merges?.some(merge => intersectRects(merge, range))) return state;
+
+      // Rows hidden by filters stay where they are; the visible ones are
+      // sorted among themselves
+      const rows: number[] = [];
+      for (let r = hasHeader ? range.startRow + 1 : range.startRow; r <= range.endRow; r++) {
+        if (!isRowFiltered(state, r)) rows.push(r);
+      }
+      const sorted = sortRows(rows, keys, cellValues(state, getComputedValue));
+
       const newData = new Map(state.data);
-      rows.forEach((row, newRowIndex) => {
-        const targetRow = normalized.startRow + newRowIndex;
-        row.data.forEach((cellData, colIndex) => {
-          const targetCol = normalized.startCol + colIndex;
-          const key = keyOf(targetRow, targetCol);
-          if (cellData) {
+      rows.forEach((targetRow, i) => {
+        const sourceRow = sorted[i];
+        if (sourceRow === targetRow) return;
+        for (let c = range.startCol; c <= range.endCol; c++) {
+          const key = keyOf(targetRow, c);
+          const cellData = state.data.get(keyOf(sourceRow, c));
+          if (cellData?.formula) {
+            // Sorted formulas keep pointing at their own row, as if copied there
+            newData.set(key, { ...cellData, formula: offsetFormulaReferences(cellData.formula, targetRow - sourceRow, 0) });
+          } else if (cellData) {
             newData.set(key, cellData);
           } else {
             newData.delete(key);
           }
+        }
+      });
+
+      return {
+        ...state,
+        data: newData,
+        filterState: state.filterState && {
+          ...state.filterState,
+          sortColumn: keys[0].column,
+          sortDirection: keys[0].ascending ? 'asc' : 'desc',
+          sortKeys: keys,
+        },
+      };
+    }
+
+    case 'MOVE_RANGE': {
+      const source = normalizeRect(action.payload.source);
+      const { target } = action.payload;
+      const rowOffset = target.row - source.startRow;
+      const colOffset = target.col - source.startCol;
+      
+      if (rowOffset === 0 && colOffset === 0) return state;
+      if (target.row < 0 || target.col < 0) return state;
+      if (source.endRow + rowOffset >= state.maxRows || source.endCol + colOffset >= state.maxCols) return state;
+      
+      const destination = {
+        startRow: target.row,
+        startCol: target.col,
+        endRow: source.endRow + rowOffset,
+        endCol: source.endCol + colOffset,
+      };
+      const scope = activeSheetScope(state);
+      const rewrite = (cellData: CellData): CellData => {
+        if (!cellData.formula) return cellData;
+        const formula = moveFormulaReferences(cellData.formula, source, rowOffset, colOffset, scope);
+        return formula === cellData.formula ? cellData : { ...cellData, formula };
+      };
+      
+      const moved = new Map<string, CellData>();
+      const newData = new Map<string, CellData>();
+      state.data.forEach((cellData, key) => {
+        const [row, col] = parseKey(key);
+        const inSource = row >= source.startRow && row <= source.endRow && col >= source.startCol && col <= source.endCol;
+        const inDestination = row >= destination.startRow && row <= destination.endRow &&
+          col >= destination.startCol && col <= destination.endCol;
+        
+        if (inSource) {
+          moved.set(keyOf(row + rowOffset, col + colOffset), rewrite(cellData));
+        } else if (!inDestination) {
+          // Pasted cells replace whatever was at the destination
+          newData.set(key, rewrite(cellData));
+        }
+      });
+      moved.forEach((cellData, key) => newData.set(key, cellData));
+      
+      // Validation moves with the cells too, and is replaced where they land
+      let validation = state.validation;
+      if (validation?.size) {
+        const movedRules = new Map<string, ValidationRule>();
+        validation = new Map();
+        state.validation!.forEach((rule, key) => {
+          const [row, col] = parseKey(key);
+          const inSource = row >= source.startRow && row <= source.endRow && col >= source.startCol && col <= source.endCol;
+          const inDestination = row >= destination.startRow && row <= destination.endRow &&
+            col >= destination.startCol && col <= destination.endCol;
+          if (inSource) movedRules.set(keyOf(row + rowOffset, col + colOffset), rule);
+          else if (!inDestination) validation!.set(key, rule);
         });
+        movedRules.forEach((rule, key) => validation!.set(key, rule));
+      }
+      
+      // Merges move with the cells; those they land on are replaced
+      const merges = state.merges?.flatMap(merge => {
+        if (containsRect(source, merge)) return [moveRect(merge, source, rowOffset, colOffset)];
+        return intersectRects(merge, destination) ? [] : [merge];
       });
       
-      return { ...state, data: newData };
+      return {
+        ...state,
+        data: newData,
+        merges,
+        validation,
+        conditionalFormats: moveConditionalFormats(state.conditionalFormats, source, rowOffset, colOffset, scope),
+        tables: moveTables(state.tables, source, rowOffset, colOffset),
+        charts: moveCharts(state.charts, source, rowOffset, colOffset),
+        sheets: rewriteOtherSheets(state, (formula, formulaSheet) =>
+          moveFormulaReferences(formula, source, rowOffset, colOffset, { ...scope, formulaSheet })
+        ),
+        namedRanges: rewriteNamedRanges(state.namedRanges, formula =>
+          moveFormulaReferences(formula, source, rowOffset, colOffset, scope)
+        ),
+        selection: { ranges: [destination], active: { row: target.row, col: target.col } },
+      };
     }
 
     case 'SET_VALIDATION': {
@@ -379,6 +785,478 @@ export function spreadsheetReducer(
       };
     }
 
+    case 'ADD_SHEET': {
+      const { name, index, activate = true } = action.payload;
+      const sheets = getSheets(state);
+      const sheetName = name?.trim() || getUniqueSheetName(sheets);
+      
+      if (!isValidSheetName(sheetName) || findSheetByName(sheets, sheetName)) return state;
+      
+      const sheet = createSheet(sheetName, { maxRows: state.maxRows, maxCols: state.maxCols });
+      const newSheets = [...sheets];
+      newSheets.splice(index ?? newSheets.length, 0, sheet);
+      
+      return applySheets(state, newSheets, activate ? sheet.id : undefined);
+    }
+
+    case 'RENAME_SHEET': {
+      const { sheetId, name } = action.payload;
+      const newName = name.trim();
+      const sheets = getSheets(state);
+      const target = sheets.find(sheet => sheet.id === sheetId);
+      const clash = findSheetByName(sheets, newName);
+      
+      if (!target || !isValidSheetName(newName) || (clash && clash.id !== sheetId)) return state;
+      
+      // Rewrite references to the old name on every sheet
+      const newSheets = sheets.map(sheet => {
+        const updated = rewriteSheetReferences(sheet, formula =>
+          renameSheetReferences(formula, target.name, newName)
+        );
+        return sheet.id === sheetId ? { ...updated, name: newName } : updated;
+      });
+      
+      const namedRanges = rewriteNamedRanges(state.namedRanges, formula =>
+        renameSheetReferences(formula, target.name, newName)
+      );
+      
+      return applySheets({ ...state, namedRanges }, newSheets);
+    }
+
+    case 'MOVE_SHEET': {
+      const { sheetId, toIndex } = action.payload;
+      const sheets = getSheets(state);
+      const fromIndex = sheets.findIndex(sheet => sheet.id === sheetId);
+      if (fromIndex === -1) return state;
+      
+      const newSheets = [...sheets];
+      const [moved] = newSheets.splice(fromIndex, 1);
+      newSheets.splice(Math.max(0, Math.min(toIndex, newSheets.length)), 0, moved);
+      
+      return applySheets(state, newSheets);
+    }
+
+    case 'DUPLICATE_SHEET': {
+      const { sheetId, name } = action.payload;
+      const sheets = getSheets(state);
+      const sourceIndex = sheets.findIndex(sheet => sheet.id === sheetId);
+      if (sourceIndex === -1) return state;
+      
+      const copyName = name?.trim() || getUniqueSheetName(sheets, sheets[sourceIndex].name);
+      if (!isValidSheetName(copyName) || findSheetByName(sheets, copyName)) return state;
+      
+      let copy = duplicateSheet(sheets[sourceIndex], copyName);
+      if (copy.tables) {
+        // Copied tables need names of their own; the copy's formulas use them
+        const taken = getWorkbookTables(state).map(({ table }) => table);
+        let data = copy.data;
+        const tables = copy.tables.map(table => {
+          const name = getUniqueTableName(taken, state.namedRanges, table.name);
+          taken.push({ ...table, name });
+          data = rewriteFormulas(data, formula => renameTableReferences(formula, table.name, name));
+          return { ...table, id: createTableId(), name };
+        });
+        copy = { ...copy, data, tables };
+      }
+      const newSheets = [...sheets];
+      newSheets.splice(sourceIndex + 1, 0, copy);
+      
+      return applySheets(state, newSheets, copy.id);
+    }
+
+    case 'DELETE_SHEET': {
+      const { sheetId } = action.payload;
+      const sheets = getSheets(state);
+      const index = sheets.findIndex(sheet => sheet.id === sheetId);
+      
+      // A workbook always keeps at least one sheet
+      if (index === -1 || sheets.length === 1) return state;
+      
+      // References to the deleted sheet from the others become #REF!
+      const deleted = sheets[index].name;
+      const newSheets = sheets
+        .filter(sheet => sheet.id !== sheetId)
+        .map(sheet => {
+          const data = rewriteFormulas(sheet.data, formula => deleteSheetReferences(formula, deleted));
+          return data !== sheet.data ? { ...sheet, data } : sheet;
+        });
+      const nextActive = sheetId === getActiveSheetId(state)
+        ? newSheets[Math.min(index, newSheets.length - 1)].id
+        : undefined;
+      
+      const namedRanges = rewriteNamedRanges(state.namedRanges, formula =>
+        deleteSheetReferences(formula, deleted)
+      );
+      
+      return applySheets({ ...state, namedRanges }, newSheets, nextActive);
+    }
+
+    case 'SET_ACTIVE_SHEET': {
+      const sheets = getSheets(state);
+      if (!sheets.some(sheet => sheet.id === action.payload.sheetId)) return state;
+      return applySheets(state, sheets, action.payload.sheetId);
+    }
+
+    case 'ADD_NAMED_RANGE': {
+      const { name, reference, comment } = action.payload;
+      const normalized = normalizeRangeReference(reference, getActiveSheet(state).name);
+      
+      if (!isValidRangeName(name) || !normalized || findNamedRange(state.namedRanges, name)) return state;
+      
+      return {
+        ...state,
+        namedRanges: [...(state.namedRanges || []), { name, reference: normalized, comment }],
+      };
+    }
+
+    case 'UPDATE_NAMED_RANGE': {
+      const { name, namedRange } = action.payload;
+      const existing = findNamedRange(state.namedRanges, name);
+      const clash = findNamedRange(state.namedRanges, namedRange.name);
+      const normalized = normalizeRangeReference(namedRange.reference, getActiveSheet(state).name);
+      
+      if (!existing || !isValidRangeName(namedRange.name) || !normalized) return state;
+      if (clash && clash !== existing) return state;
+      
+      const namedRanges = state.namedRanges!.map(n =>
+        n === existing ? { ...namedRange, reference: normalized } : n
+      );
+      if (existing.name === namedRange.name) {
+        return { ...state, namedRanges };
+      }
+      
+      // Formulas using the old name follow the rename
+      const rename = (formula: string) => renameNameReferences(formula, existing.name, namedRange.name);
+      return {
+        ...state,
+        namedRanges,
+        data: rewriteFormulas(state.data, rename),
+        sheets: rewriteOtherSheets(state, rename),
+      };
+    }
+
+    case 'DELETE_NAMED_RANGE': {
+      const existing = findNamedRange(state.namedRanges, action.payload.name);
+      if (!existing) return state;
+      
+      return {
+        ...state,
+        namedRanges: state.namedRanges!.filter(n => n !== existing),
+      };
+    }
+
+    case 'MERGE_CELLS': {
+      const { range, direction = 'all' } = action.payload;
+      // Merges partly inside the range are absorbed into the new ones
+      const area = expandToMerges(range, state.merges);
+      const created = createMerges(area, direction);
+      if (created.length === 0) return state;
+      
+      // Only the top-left cell of each merged region keeps its content
+      const newData = new Map(state.data);
+      created.forEach(merge => {
+        for (let row = merge.startRow; row <= merge.endRow; row++) {
+          for (let col = merge.startCol; col <= merge.endCol; col++) {
+            if (row !== merge.startRow || col !== merge.startCol) {
+              newData.delete(keyOf(row, col));
+            }
+          }
+        }
+      });
+      
+      const merges = [
+        ...(state.merges ?? []).filter(merge => !intersectRects(merge, area)),
+        ...created,
+      ];
+      return {
+        ...state,
+        data: newData,
+        merges,
+        selection: snapSelectionToMerges(state.selection, merges),
+      };
+    }
+
+    case 'UNMERGE_CELLS': {
+      const { range } = action.payload;
+      const merges = (state.merges ?? []).filter(merge => !intersectRects(merge, range));
+      if (merges.length === (state.merges?.length ?? 0)) return state;
+      return { ...state, merges: merges.length ? merges : undefined };
+    }
+
+    case 'SET_FILTER_RULES': {
+      const { rules, showFilterHeaders = state.filterState?.showFilterHeaders, getComputedValue } = action.payload;
+      const hiddenRows = filterSheetRows(state, rules, getComputedValue);
+      return {
+        ...state,
+        filterState: { ...state.filterState, rules, hiddenRows, showFilterHeaders },
+      };
+    }
+
+    case 'REFRESH_FILTERS': {
+      const { getComputedValue } = action.payload;
+      let next = state;
+
+      const { filterState, activeFilterView } = state;
+      if (filterState?.rules.length) {
+        const hiddenRows = filterSheetRows(state, filterState.rules, getComputedValue);
+        if (!sameRows(hiddenRows, filterState.hiddenRows)) next = { ...next, filterState: { ...filterState, hiddenRows } };
+      }
+
+      const view = activeFilterView && state.filterViews?.find(v => v.id === activeFilterView.id);
+      if (view) {
+        const hiddenRows = filterSheetRows(state, [view.filter], getComputedValue);
+        if (!sameRows(hiddenRows, activeFilterView.hiddenRows)) next = { ...next, activeFilterView: { id: view.id, hiddenRows } };
+      }
+
+      let tablesChanged = false;
+      const tables = state.tables?.map(table => {
+        if (!table.filters) return table;
+        const hiddenRows = filterTableRows(state, table, table.filters, getComputedValue);
+        if (sameRows(hiddenRows, table.hiddenRows ?? [])) return table;
+        tablesChanged = true;
+        return { ...table, hiddenRows: hiddenRows.length ? hiddenRows : undefined };
+      });
+      return tablesChanged ? { ...next, tables } : next;
+    }
+
+    case 'CLEAR_FILTERS':
+      return state.filterState ? { ...state, filterState: undefined } : state;
+
+    case 'SAVE_FILTER_VIEW': {
+      const { view, getComputedValue } = action.payload;
+      const views = state.filterViews ?? [];
+      const filterViews = views.some(v => v.id === view.id)
+        ? views.map(v => (v.id === view.id ? view : v))
+        : [...views, view];
+      const saved = { ...state, filterViews };
+      // Saving the open view shows its new rows
+      return state.activeFilterView?.id === view.id
+        ? spreadsheetReducer(saved, { type: 'OPEN_FILTER_VIEW', payload: { id: view.id, getComputedValue } })
+        : saved;
+    }
+
+    case 'DELETE_FILTER_VIEW': {
+      const { id } = action.payload;
+      const filterViews = (state.filterViews ?? []).filter(view => view.id !== id);
+      if (filterViews.length === (state.filterViews?.length ?? 0)) return state;
+      return {
+        ...state,
+        filterViews: filterViews.length ? filterViews : undefined,
+        activeFilterView: state.activeFilterView?.id === id ? undefined : state.activeFilterView,
+      };
+    }
+
+    case 'OPEN_FILTER_VIEW': {
+      const { id, getComputedValue } = action.payload;
+      const view = id === null ? undefined : state.filterViews?.find(v => v.id === id);
+      if (!view) {
+        return state.activeFilterView ? { ...state, activeFilterView: undefined } : state;
+      }
+      const hiddenRows = filterSheetRows(state, [view.filter], getComputedValue);
+      return { ...state, activeFilterView: { id: view.id, hiddenRows } };
+    }
+
+    case 'ADD_CONDITIONAL_FORMAT': {
+      const { rule } = action.payload;
+      const rules = state.conditionalFormats ?? [];
+      if (rule.ranges.length === 0 || rules.some(r => r.id === rule.id)) return state;
+      return { ...state, conditionalFormats: [rule, ...rules] };
+    }
+
+    case 'UPDATE_CONDITIONAL_FORMAT': {
+      const { rule } = action.payload;
+      const rules = state.conditionalFormats ?? [];
+      if (rule.ranges.length === 0 || !rules.some(r => r.id === rule.id)) return state;
+      return { ...state, conditionalFormats: rules.map(r => (r.id === rule.id ? rule : r)) };
+    }
+
+    case 'DELETE_CONDITIONAL_FORMAT': {
+      const { id } = action.payload;
+      const rules = (state.conditionalFormats ?? []).filter(rule => rule.id !== id);
+      if (rules.length === (state.conditionalFormats?.length ?? 0)) return state;
+      return { ...state, conditionalFormats: rules.length ? rules : undefined };
+    }
+
+    case 'MOVE_CONDITIONAL_FORMAT': {
+      const { id, toIndex } = action.payload;
+      const rules = [...(state.conditionalFormats ?? [])];
+      const fromIndex = rules.findIndex(rule => rule.id === id);
+      const target = Math.max(0, Math.min(toIndex, rules.length - 1));
+      if (fromIndex === -1 || fromIndex === target) return state;
+      
+      const [moved] = rules.splice(fromIndex, 1);
+      rules.splice(target, 0, moved);
+      return { ...state, conditionalFormats: rules };
+    }
+
+    case 'ADD_PIVOT_TABLE': {
+      const { pivot, getComputedValue } = action.payload;
+      if (state.pivotTables?.some(p => p.id === pivot.id)) return state;
+      return writePivotTable(state, pivot, undefined, getComputedValue) ?? state;
+    }
+
+    case 'UPDATE_PIVOT_TABLE': {
+      const { pivot, getComputedValue } = action.payload;
+      const previous = state.pivotTables?.find(p => p.id === pivot.id);
+      if (!previous) return state;
+      return writePivotTable(state, pivot, previous, getComputedValue) ?? state;
+    }
+
+    case 'REFRESH_PIVOT_TABLE': {
+      const previous = state.pivotTables?.find(p => p.id === action.payload.id);
+      if (!previous) return state;
+      return writePivotTable(state, previous, previous, action.payload.getComputedValue) ?? state;
+    }
+
+    case 'DELETE_PIVOT_TABLE': {
+      const { id } = action.payload;
+      const pivot = state.pivotTables?.find(p => p.id === id);
+      if (!pivot) return state;
+      
+      const newData = new Map(state.data);
+      clearPivotOutput(newData, pivot);
+      const pivots = state.pivotTables!.filter(p => p.id !== id);
+      return { ...state, data: newData, pivotTables: pivots.length ? pivots : undefined };
+    }
+
+    case 'ADD_CHART': {
+      const { chart } = action.payload;
+      const charts = state.charts ?? [];
+      if (charts.some(c => c.id === chart.id)) return state;
+      return { ...state, charts: [...charts, chart] };
+    }
+
+    case 'UPDATE_CHART': {
+      const { chart } = action.payload;
+      const charts = state.charts ?? [];
+      if (!charts.some(c => c.id === chart.id)) return state;
+      return { ...state, charts: charts.map(c => (c.id === chart.id ? chart : c)) };
+    }
+
+    case 'DELETE_CHART': {
+      const { id } = action.payload;
+      const charts = (state.charts ?? []).filter(chart => chart.id !== id);
+      if (charts.length === (state.charts?.length ?? 0)) return state;
+      return { ...state, charts: charts.length ? charts : undefined };
+    }
+
+    case 'ADD_TABLE': {
+      const { table } = action.payload;
+      const range = normalizeRect(table.range);
+      if (
+        !isValidTableName(table.name) || !isTableNameAvailable(state, table.name)
+        || range.endRow <= range.startRow || !canPlaceTable(state, range, table.id)
+      ) {
+        return state;
+      }
+
+      // Every column gets a unique name in the header row
+      const newData = new Map(state.data);
+      getTableHeaderUpdates(state.data, range).forEach(({ row, col, data }) => {
+        newData.set(keyOf(row, col), { ...newData.get(keyOf(row, col)), ...data, value: data.value ?? '' });
+      });
+      const created: Table = { ...table, range, showTotalRow: false, filters: undefined, hiddenRows: undefined };
+      const next = { ...state, data: newData, tables: [...(state.tables ?? []), created] };
+      return table.showTotalRow ? setTotalRow(next, created, true) ?? state : next;
+    }
+
+    case 'UPDATE_TABLE': {
+      const { table } = action.payload;
+      const existing = state.tables?.find(t => t.id === table.id);
+      if (!existing) return state;
+
+      const range = normalizeRect(table.range);
+      const minimumRows = existing.showTotalRow ? 2 : 1;
+      if (
+        !isValidTableName(table.name) || !isTableNameAvailable(state, table.name, table.id)
+        || range.endRow - range.startRow < minimumRows || !canPlaceTable(state, range, table.id)
+      ) {
+        return state;
+      }
+
+      const updated: Table = { ...table, range, showTotalRow: existing.showTotalRow };
+      let next: SpreadsheetState = {
+        ...state,
+        tables: state.tables!.map(t => (t.id === table.id ? updated : t)),
+      };
+
+      // Formulas using the old name follow the rename
+      if (existing.name !== table.name) {
+        const rename = (formula: string) => renameTableReferences(formula, existing.name, table.name);
+        next = { ...next, data: rewriteFormulas(next.data, rename), sheets: rewriteOtherSheets(next, rename) };
+      }
+
+      if (table.showTotalRow !== existing.showTotalRow) {
+        return setTotalRow(next, updated, table.showTotalRow) ?? state;
+      }
+      return next;
+    }
+
+    case 'DELETE_TABLE': {
+      const { id } = action.payload;
+      const table = state.tables?.find(t => t.id === id);
+      if (!table) return state;
+
+      // Like Excel, formulas keep working on the cells the table covered
+      const references = getTableReferences(state);
+      const sheetName = getActiveSheet(state).name;
+      const toRange = (formula: string, formulaSheet: string, key: string) => {
+        const [row, col] = parseKey(key);
+        return expandTableReferences(formula, references, table.name, formulaSheet, { row, col });
+      };
+      const tables = state.tables!.filter(t => t.id !== id);
+      return {
+        ...state,
+        tables: tables.length ? tables : undefined,
+        data: rewriteFormulas(state.data, (formula, key) => toRange(formula, sheetName, key)),
+        sheets: rewriteOtherSheets(state, toRange),
+      };
+    }
+
+    case 'SET_TABLE_FILTERS': {
+      const { id, rules, getComputedValue } = action.payload;
+      const table = state.tables?.find(t => t.id === id);
+      if (!table) return state;
+
+      const hiddenRows = filterTableRows(state, table, rules, getComputedValue);
+      const filtered: Table = {
+        ...table,
+        filters: rules.length ? rules : undefined,
+        hiddenRows: hiddenRows.length ? hiddenRows : undefined,
+      };
+      return { ...state, tables: state.tables!.map(t => (t.id === id ? filtered : t)) };
+    }
+
+    case 'SET_CLIPBOARD':
+      return { ...state, clipboardData: action.payload ?? undefined };
+
+    case 'SET_FIND_HIGHLIGHTS':
+      return { ...state, findHighlights: action.payload ?? undefined };
+
+    case 'RESTORE_SHEET': {
+      const { sheetId, cells = [], layout } = action.payload;
+      const sheets = getSheets(state);
+      const sheet = sheets.find(s => s.id === sheetId);
+      if (!sheet) return state;
+      
+      const newData = cells.length ? new Map(sheet.data) : sheet.data;
+      cells.forEach(({ row, col, data }) => {
+        if (data) {
+          newData.set(keyOf(row, col), data);
+        } else {
+          newData.delete(keyOf(row, col));
+        }
+      });
+      
+      return applySheets(state, sheets.map(s => (s.id === sheetId ? { ...s, ...layout, data: newData } : s)));
+    }
+
+    case 'RESTORE_WORKBOOK': {
+      const { sheets, activeSheetId, namedRanges } = action.payload;
+      const restored = namedRanges ? { ...state, namedRanges } : state;
+      return sheets ? applySheets(restored, sheets, activeSheetId) : restored;
+    }
+
     case 'BATCH': {
       return action.payload.reduce(spreadsheetReducer, state);
     }
@@ -1,4 +1,4 @@
-import { CellData, Selection, SelectionRect, CellFormat, ValidationRule, SpreadsheetState, SheetFormatting } from './spreadsheet';
+import { CellData, Selection, SelectionRect, CellFormat, ValidationRule, SpreadsheetState, SheetFormatting, NamedRange, Sheet, ClipboardData, MergeDirection, FindHighlights, FormulaEdit, FilterRule, FilterView, SortKey, ComputedValueGetter, ConditionalFormatRule, PivotTable, Chart, Table } from './spreadsheet';
 
 export type SpreadsheetAction =
   | { type: 'SET_CELL'; payload: { row: number; col: number; data: Partial<CellData> } }
@@ -9,6 +9,8 @@ export type SpreadsheetAction =
   | { type: 'ADD_SELECTION_RANGE'; payload: SelectionRect }
   | { type: 'SET_EDITING'; payload: { row: number; col: number } | null }
   | { type: 'SET_FORMULA_INPUT'; payload: string }
+  | { type: 'SET_FORMULA_EDIT'; payload: FormulaEdit | null }
+  | { type: 'POINT_FORMULA_REFERENCE'; payload: SelectionRect }
   | { type: 'INSERT_ROW'; payload: { index: number; count?: number } }
   | { type: 'INSERT_COLUMN'; payload: { index: number; count?: number } }
   | { type: 'DELETE_ROW'; payload: { index: number; count?: number } }
@@ -17,19 +19,86 @@ export type SpreadsheetAction =
   | { type: 'SET_COLUMN_WIDTH'; payload: { col: number; width: number } }
   | { type: 'APPLY_FORMAT_TO_SELECTION'; payload: Partial<CellFormat> }
   | { type: 'FILL_RANGE'; payload: { range: SelectionRect; direction: 'down' | 'right' | 'up' | 'left'; type: 'copy' | 'series' } }
-  | { type: 'SORT_RANGE'; payload: { range: SelectionRect; column: number; ascending: boolean } }
+  | { type: 'MOVE_RANGE'; payload: { source: SelectionRect; target: { row: number; col: number } } }
+  // Sorting, filtering and pivot tables read formula results through
+  // getComputedValue, and stored values without it
+  | { type: 'SORT_RANGE'; payload: { range: SelectionRect; column: number; ascending: boolean; getComputedValue?: ComputedValueGetter } }
+  // Sorts by each key in turn; a header row stays on top
+  | { type: 'SORT_RANGE_BY'; payload: { range: SelectionRect; keys: SortKey[]; hasHeader?: boolean; getComputedValue?: ComputedValueGetter } }
   | { type: 'SET_VALIDATION'; payload: { row: number; col: number; validation: ValidationRule | null } }
   | { type: 'UPDATE_SHEET_FORMATTING'; payload: Partial<SheetFormatting> }
+  | { type: 'ADD_SHEET'; payload: { name?: string; index?: number; activate?: boolean } }
+  | { type: 'RENAME_SHEET'; payload: { sheetId: string; name: string } }
+  | { type: 'MOVE_SHEET'; payload: { sheetId: string; toIndex: number } }
+  | { type: 'DUPLICATE_SHEET'; payload: { sheetId: string; name?: string } }
+  | { type: 'DELETE_SHEET'; payload: { sheetId: string } }
+  | { type: 'SET_ACTIVE_SHEET'; payload: { sheetId: string } }
+  | { type: 'ADD_NAMED_RANGE'; payload: NamedRange }
+  | { type: 'UPDATE_NAMED_RANGE'; payload: { name: string; namedRange: NamedRange } }
+  | { type: 'DELETE_NAMED_RANGE'; payload: { name: string } }
+  | { type: 'MERGE_CELLS'; payload: { range: SelectionRect; direction?: MergeDirection } }
+  | { type: 'UNMERGE_CELLS'; payload: { range: SelectionRect } }
+  | { type: 'SET_FILTER_RULES'; payload: { rules: FilterRule[]; showFilterHeaders?: boolean; getComputedValue?: ComputedValueGetter } }
+  | { type: 'CLEAR_FILTERS' }
+  // Filters the rows of the sheet's filter, the open view and tables again
+  // once formula results have changed
+  | { type: 'REFRESH_FILTERS'; payload: { getComputedValue: ComputedValueGetter } }
+  // Adds the view, or replaces the one with its id
+  | { type: 'SAVE_FILTER_VIEW'; payload: { view: FilterView; getComputedValue?: ComputedValueGetter } }
+  | { type: 'DELETE_FILTER_VIEW'; payload: { id: string } }
+  // Opens a view for the local user; null closes it
+  | { type: 'OPEN_FILTER_VIEW'; payload: { id: string | null; getComputedValue?: ComputedValueGetter } }
+  // New rules take the highest priority
+  | { type: 'ADD_CONDITIONAL_FORMAT'; payload: { rule: ConditionalFormatRule } }
+  // Replaces the rule with the same id, keeping its priority
+  | { type: 'UPDATE_CONDITIONAL_FORMAT'; payload: { rule: ConditionalFormatRule } }
+  | { type: 'DELETE_CONDITIONAL_FORMAT'; payload: { id: string } }
+  | { type: 'MOVE_CONDITIONAL_FORMAT'; payload: { id: string; toIndex: number } }
+  // Pivot table actions apply to the active sheet and write its output there
+  | { type: 'ADD_PIVOT_TABLE'; payload: { pivot: PivotTable; getComputedValue?: ComputedValueGetter } }
+  // Replaces the pivot table with the same id and rewrites its output
+  | { type: 'UPDATE_PIVOT_TABLE'; payload: { pivot: PivotTable; getComputedValue?: ComputedValueGetter } }
+  | { type: 'REFRESH_PIVOT_TABLE'; payload: { id: string; getComputedValue?: ComputedValueGetter } }
+  // Removes the pivot table and clears its output
+  | { type: 'DELETE_PIVOT_TABLE'; payload: { id: string } }
+  // Chart actions apply to the active sheet. UPDATE_CHART also moves and resizes.
+  | { type: 'ADD_CHART'; payload: { chart: Chart } }
+  | { type: 'UPDATE_CHART'; payload: { chart: Chart } }
+  | { type: 'DELETE_CHART'; payload: { id: string } }
+  // Table actions apply to the active sheet. Adding or showing a total row
+  // extends the table by a row; DELETE_TABLE converts it back to a range.
+  | { type: 'ADD_TABLE'; payload: { table: Table } }
+  | { type: 'UPDATE_TABLE'; payload: { table: Table } }
+  | { type: 'DELETE_TABLE'; payload: { id: string } }
+  | { type: 'SET_TABLE_FILTERS'; payload: { id: string; rules: FilterRule[]; getComputedValue?: ComputedValueGetter } }
+  | { type: 'SET_CLIPBOARD'; payload: ClipboardData | null }
+  | { type: 'SET_FIND_HIGHLIGHTS'; payload: FindHighlights | null }
+  | { type: 'RESTORE_SHEET'; payload: { sheetId: string; cells?: CellChange[]; layout?: SheetLayout } }
+  | { type: 'RESTORE_WORKBOOK'; payload: { sheets?: Sheet[]; activeSheetId?: string; namedRanges?: NamedRange[] } }
   | { type: 'LOAD_STATE'; payload: SpreadsheetState }
   | { type: 'RESTORE_STATE'; payload: SpreadsheetState }
-  | { type: 'UNDO' }
-  | { type: 'REDO' }
-  | { type: 'BATCH'; payload: SpreadsheetAction[] };
+  | { type: 'UNDO'; payload?: { steps: number } }
+  | { type: 'REDO'; payload?: { steps: number } }
+  | { type: 'BATCH'; payload: SpreadsheetAction[]; label?: string };
 
+// Exact contents of a cell; null removes the cell
+export interface CellChange {
+  row: number;
+  col: number;
+  data: CellData | null;
+}
 
+// Sheet fields other than cells that RESTORE_SHEET replaces wholesale
+export type SheetLayout = Partial<Omit<Sheet, 'id' | 'name' | 'data'>>;
+
+/**
+ * One step of undo history. The undo and redo actions are generated from
+ * the states before and after the change, so they replay exactly whatever
+ * the active sheet or selection is at the time.
+ */
 export interface Command {
-  execute: () => void;
-  undo: () => void;
-  redo: () => void;
   description: string;
+  undo: SpreadsheetAction;
+  redo: SpreadsheetAction;
+  timestamp: number;
 }
\ No newline at end of file
@@ -1,18 +1,95 @@
 export interface ConditionalFormat {
-  type: 'cellValue' | 'textContains' | 'dateOccurring' | 'formula';
-  condition: 'greaterThan' | 'lessThan' | 'between' | 'equal' | 'notEqual' | 'contains' | 'startsWith' | 'endsWith' | 'notBetween' | 'notContains';
+  type: 'cellValue' | 'textContains' | 'dateOccurring' | 'formula' | 'colorScale' | 'dataBar' | 'iconSet';
+  // Not used by colorScale, dataBar and iconSet rules
+  condition?: 'greaterThan' | 'lessThan' | 'between' | 'equal' | 'notEqual' | 'contains' | 'startsWith' | 'endsWith' | 'notBetween' | 'notContains';
   value1?: any;
   value2?: any; // for 'between' condition
   format: CellFormat;
+  colorScale?: ColorScale;
+  dataBar?: DataBar;
+  iconSet?: IconSet;
+}
+
+/**
+ * A point in the numbers of a rule's ranges: the lowest or highest, a fixed
+ * number, a percent of the way from lowest to highest, or a percentile
+ */
+export interface ConditionalFormatThreshold {
+  type: 'min' | 'max' | 'number' | 'percent' | 'percentile';
+  value?: number; // Not used by 'min' and 'max'
+}
+
+export interface ColorScalePoint {
+  threshold: ConditionalFormatThreshold;
+  color: string;
+}
+
+// Colors cells between two or three points; mid makes it a 3-color scale
+export interface ColorScale {
+  min: ColorScalePoint;
+  mid?: ColorScalePoint;
+  max: ColorScalePoint;
+}
+
+export interface DataBar {
+  color: string;
+  gradient?: boolean;
+  negativeColor?: string; // Bars for values below zero; color when unset
+  // Where bars are empty and full; by default from zero to the range's extremes
+  min?: ConditionalFormatThreshold;
+  max?: ConditionalFormatThreshold;
+  showValue?: boolean; // true by default
+}
+
+// Excel's icon set names
+export type IconSetName = '3Arrows' | '4Arrows' | '5Arrows' | '3TrafficLights1' | '4TrafficLights' | '3Flags';
+
+export interface IconSet {
+  name: IconSetName;
+  // Where each icon after the lowest starts, in ascending order
+  thresholds: ConditionalFormatThreshold[];
+  reverse?: boolean;
+  showValue?: boolean; // true by default
+}
+
+/**
+ * A sheet-level conditional formatting rule over one or more ranges. A
+ * matching rule with stopIfTrue keeps lower-priority rules from applying.
+ */
+export interface ConditionalFormatRule extends ConditionalFormat {
+  id: string;
+  ranges: SelectionRect[];
+  stopIfTrue?: boolean;
 }
 
 export interface CellData {
   value: any;
   formula?: string;
   format?: CellFormat;
+  // Drawn in place of the value, like a SPARKLINE formula
+  sparkline?: Sparkline;
   metadata?: any;
 }
 
+export type SparklineType = 'line' | 'column' | 'winloss';
+
+export interface SparklineOptions {
+  type?: SparklineType;
+  color?: string;
+  // Columns below zero, and losses
+  negativeColor?: string;
+  // Ends of the value axis; the data's own lowest and highest by default
+  min?: number;
+  max?: number;
+  lineWidth?: number;
+}
+
+// A sparkline of a range or name, e.g. B2:M2 or Sheet2!Counts
+export interface Sparkline {
+  data: string;
+  options?: SparklineOptions;
+}
+
 export interface BorderStyle {
   top?: BorderSide;
   right?: BorderSide;
@@ -56,7 +133,7 @@ export interface CellFormat {
   currencySymbol?: string;
   decimalPlaces?: number;
   
-  // Conditional formatting (future use)
+  // A rule for this cell alone, applied below the sheet's conditionalFormats
   conditionalFormat?: ConditionalFormat;
 }
 
@@ -74,11 +151,14 @@ export interface Selection {
 
 export interface TableProps {
   initialData?: SparseMatrix<CellData>;
+  initialSheets?: Sheet[];
   onCellChange?: (row: number, col: number, data: CellData) => void;
   onSelectionChange?: (selection: Selection) => void;
   readOnly?: boolean;
   maxRows?: number;
   maxCols?: number;
+  // Functions formulas can call besides the built-in ones
+  customFunctions?: CustomFunction[];
 }
 
 export type SparseMatrix<T> = Map<string, T>;
@@ -87,6 +167,13 @@ export const keyOf = (row: number, col: number) => `${row}:${col}`;
 export const parseKey = (key: string) =>
   key.split(':').map(Number) as [number, number];
 
+/**
+ * A cell's value as the formula engine computed it: a formula's result, or
+ * the stored value of any other cell. Reads the active sheet unless given
+ * another sheet's id.
+ */
+export type ComputedValueGetter = (row: number, col: number, sheetId?: string) => any;
+
 export interface SheetFormatting {
   theme?: string;
   showGridlines?: boolean;
@@ -111,6 +198,20 @@ export interface FilterRule {
   value2?: any; // for 'between' conditions
   caseSensitive?: boolean;
   customFunction?: (value: any) => boolean;
+  preset?: string; // DFIR_FILTER_PRESETS entry customFunction came from, so the rule can be saved
+  dfirFilter?: { name: string; args?: any[] }; // Likewise for DFIR_FILTERS, with the factory's extra arguments
+  sourceRange?: string; // Named range or range whose values equals/notEquals match against
+}
+
+// How a sort key compares values: 'auto' puts numbers before text; the others
+// read values as hostnames, IP addresses, timestamps or entries of customOrder
+export type SortOrder = 'auto' | 'natural' | 'ip' | 'timestamp' | 'custom';
+
+export interface SortKey {
+  column: number;
+  ascending: boolean;
+  order?: SortOrder; // 'auto' by default
+  customOrder?: string[]; // Values in ascending order, e.g. SEVERITY_SORT_ORDER
 }
 
 export interface FilterState {
@@ -119,6 +220,208 @@ export interface FilterState {
   showFilterHeaders?: boolean;
   sortColumn?: number;
   sortDirection?: 'asc' | 'desc';
+  sortKeys?: SortKey[]; // Every key of the last sort; sortColumn/sortDirection hold the first
+}
+
+// Rules and nested groups combined with AND or OR; negate makes it NOT
+export interface FilterGroup {
+  operator: 'and' | 'or';
+  negate?: boolean;
+  conditions: FilterCondition[];
+}
+
+export type FilterCondition = FilterRule | FilterGroup;
+
+/**
+ * A named filter saved with the sheet. Opening one hides rows for the local
+ * user only, leaving the sheet's filter and everyone else's view alone.
+ */
+export interface FilterView {
+  id: string;
+  name: string;
+  filter: FilterGroup;
+}
+
+// The filter view the local user has open, with the rows it hides
+export interface ActiveFilterView {
+  id: string;
+  hiddenRows: Set<number>;
+}
+
+// How MERGE_CELLS merges a range: as one region, or one per row or column
+export type MergeDirection = 'all' | 'horizontal' | 'vertical';
+
+export type PivotAggregation = 'sum' | 'count' | 'countDistinct' | 'average' | 'min' | 'max';
+
+// Timestamps in a row or column field can be grouped, in UTC
+export type PivotDateGrouping = 'hour' | 'day' | 'week';
+
+export interface PivotField {
+  // Column of the source range, counting from its first column
+  column: number;
+  dateGrouping?: PivotDateGrouping;
+}
+
+export interface PivotValueField {
+  column: number;
+  aggregation: PivotAggregation;
+}
+
+export interface PivotFilterField {
+  column: number;
+  // Values whose records are included; all of them when empty
+  values: string[];
+}
+
+/**
+ * A pivot table on the sheet holding its output. It summarizes a range
+ * whose first row holds headers, possibly on another sheet, and rewrites
+ * its output when refreshed.
+ */
+export interface PivotTable {
+  id: string;
+  name: string;
+  sourceSheetId: string;
+  source: SelectionRect;
+  rows: PivotField[];
+  columns: PivotField[];
+  values: PivotValueField[];
+  filters: PivotFilterField[];
+  // Top-left cell of the output
+  target: { row: number; col: number };
+  // Cells written by the last refresh, cleared by the next
+  output?: SelectionRect;
+}
+
+export type ChartType = 'bar' | 'line' | 'area' | 'pie' | 'scatter' | 'histogram';
+
+/**
+ * A chart floating over the grid. Its range's first column holds the
+ * categories (x values for scatter charts) and every other column is a
+ * series; a single-column range is one series. Histograms count the numbers
+ * anywhere in the range.
+ */
+export interface Chart {
+  id: string;
+  type: ChartType;
+  title?: string;
+  range: SelectionRect;
+  // The first row of the range names the series
+  hasHeader: boolean;
+  // Cell the chart's top-left corner sits on
+  anchor: { row: number; col: number };
+  // In pixels
+  width: number;
+  height: number;
+  // Number of histogram bins, chosen from the data when omitted
+  bins?: number;
+}
+
+export type TableTotalFunction = 'sum' | 'average' | 'count' | 'countNumbers' | 'min' | 'max' | 'stdDev' | 'var';
+
+/**
+ * A range turned into a table: its first row names the columns, the rows
+ * below hold the data, and an optional last row shows totals. Formulas can
+ * refer to it by name, e.g. =SUM(Alerts[Count]) or =[@Severity].
+ */
+export interface Table {
+  id: string;
+  // Unique among tables and names in the workbook
+  name: string;
+  // Header row through the last row, including the total row when shown
+  range: SelectionRect;
+  bandedRows: boolean;
+  showTotalRow: boolean;
+  // Column filters on the data rows; rule columns are sheet columns
+  filters?: FilterRule[];
+  // Data rows the filters hide, computed when they are set
+  hiddenRows?: number[];
+}
+
+export interface NamedRange {
+  name: string;
+  // Sheet-qualified reference the name stands for, e.g. "Sheet1!$C$2:$C$500"
+  reference: string;
+  comment?: string;
+}
+
+// How the engine converts an argument before a custom function sees it;
+// ranges arrive as rows of values
+export type CustomFunctionArgumentType = 'number' | 'text' | 'boolean' | 'range' | 'any';
+
+export interface CustomFunctionArgument {
+  name: string;
+  // Defaults to 'any'
+  type?: CustomFunctionArgumentType;
+  // Omitted optional arguments are passed as undefined
+  optional?: boolean;
+  description?: string;
+}
+
+export type CustomFunctionResult = number | string | boolean | null;
+
+/**
+ * A function the application adds to formulas, e.g. =ASSETOWNER(A2) looking
+ * hosts up in an inventory. An async implementation shows #LOADING until it
+ * resolves, and its results are kept per argument list. Volatile functions
+ * run again on every recalculation, like NOW().
+ */
+export interface CustomFunction {
+  // Letters, digits, dots and underscores, starting with a letter
+  name: string;
+  description?: string;
+  args: CustomFunctionArgument[];
+  implementation: (...args: any[]) => CustomFunctionResult | Promise<CustomFunctionResult>;
+  volatile?: boolean;
+}
+
+export interface Sheet {
+  id: string;
+  name: string;
+  data: SparseMatrix<CellData>;
+  maxRows: number;
+  maxCols: number;
+  rowHeights?: number[];
+  colWidths?: number[];
+  validation?: Map<string, ValidationRule>;
+  sheetFormatting?: SheetFormatting;
+  filterState?: FilterState;
+  filterViews?: FilterView[];
+  merges?: SelectionRect[];
+  conditionalFormats?: ConditionalFormatRule[];
+  pivotTables?: PivotTable[];
+  charts?: Chart[];
+  tables?: Table[];
+}
+
+/**
+ * Cells copied or cut from a sheet. Formula cells carry their formula and
+ * computed value, so the block can be pasted as formulas or as values.
+ */
+export interface ClipboardData {
+  cells: Array<Array<CellData | null>>;
+  validation?: Array<Array<ValidationRule | null>>;
+  source: SelectionRect;
+  // Sheet row of each copied row, when rows hidden by filters were left out
+  sourceRows?: number[];
+  sheetId?: string;
+  cut?: boolean;
+}
+
+// Cells found by Find & Replace, as keyOf keys
+export interface FindHighlights {
+  matches: Set<string>;
+  // The match being visited
+  current: string | null;
+}
+
+// A formula being typed in a cell or the formula bar
+export interface FormulaEdit {
+  formula: string;
+  // Whether clicking or dragging over cells enters a reference at the caret
+  acceptsReference: boolean;
+  // The cells last clicked or dragged over, for the editor to write in
+  pointer?: SelectionRect;
 }
 
 export interface SpreadsheetState {
@@ -132,9 +435,31 @@ export interface SpreadsheetState {
   rowHeights?: number[];
   colWidths?: number[];
   validation?: Map<string, ValidationRule>;
-  clipboardData?: { cells: CellData[][]; source: SelectionRect };
+  clipboardData?: ClipboardData;
   sheetFormatting?: SheetFormatting;
   filterState?: FilterState;
+  filterViews?: FilterView[];
+  // Not saved or shared; cleared when switching sheets
+  activeFilterView?: ActiveFilterView;
+  // Merged regions; only the top-left cell of each holds content
+  merges?: SelectionRect[];
+  // Conditional formatting rules, highest priority first
+  conditionalFormats?: ConditionalFormatRule[];
+  // Pivot tables whose output is on this sheet
+  pivotTables?: PivotTable[];
+  // Charts floating over this sheet, drawn in order
+  charts?: Chart[];
+  // Tables on this sheet
+  tables?: Table[];
+  findHighlights?: FindHighlights;
+  // Its references are highlighted on the grid
+  formulaEdit?: FormulaEdit;
+  // Workbook sheets in tab order. The entry for the active sheet may be stale:
+  // its live contents are the top-level fields above (see getSheets).
+  sheets?: Sheet[];
+  activeSheetId?: string;
+  // Workbook-scoped names usable in formulas, validation lists and filters
+  namedRanges?: NamedRange[];
 }
 
 export interface ValidationRule {
@@ -152,5 +477,5 @@ export interface ValidationRule {
   searchable?: boolean; // Enable search/filter in dropdown
   multiSelect?: boolean; // Allow multiple selections (comma-separated)
   placeholder?: string; // Placeholder text for empty cells
-  sourceRange?: string; // Reference to range for dynamic lists (e.g., "A1:A10")
+  sourceRange?: string; // Range or named range for dynamic lists (e.g., "A1:A10" or "Analysts")
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { CustomFunction } from '../types/spreadsheet';
+import { tokenizeFormula } from './formulaTokenizer';
+
+/**
+ * Arguments of common functions as shown while typing them; optional ones
+ * are in brackets and a trailing "..." argument repeats. Functions not listed
+ * are still suggested, without signature help.
+ */
+export const FUNCTION_SIGNATURES: Record<string, string[]> = {
+  SUM: ['number1', '[number2, ...]'],
+  AVERAGE: ['number1', '[number2, ...]'],
+  COUNT: ['value1', '[value2, ...]'],
+  COUNTA: ['value1', '[value2, ...]'],
+  COUNTBLANK: ['range'],
+  MIN: ['number1', '[number2, ...]'],
+  MAX: ['number1', '[number2, ...]'],
+  ROUND: ['number', 'num_digits'],
+  ABS: ['number'],
+  SUMIF: ['range', 'criteria', '[sum_range]'],
+  SUMIFS: ['sum_range', 'criteria_range1', 'criteria1', '[criteria_range2, criteria2, ...]'],
+  COUNTIF: ['range', 'criteria'],
+  COUNTIFS: ['criteria_range1', 'criteria1', '[criteria_range2, criteria2, ...]'],
+  AVERAGEIF: ['range', 'criteria', '[average_range]'],
+  SUBTOTAL: ['function_num', 'ref1', '[ref2, ...]'],
+  IF: ['logical_test', 'value_if_true', '[value_if_false]'],
+  IFERROR: ['value', 'value_if_error'],
+  IFNA: ['value', 'value_if_na'],
+  AND: ['logical1', '[logical2, ...]'],
+  OR: ['logical1', '[logical2, ...]'],
+  NOT: ['logical'],
+  VLOOKUP: ['lookup_value', 'table_array', 'col_index', '[range_lookup]'],
+  HLOOKUP: ['lookup_value', 'table_array', 'row_index', '[range_lookup]'],
+  XLOOKUP: ['lookup_value', 'lookup_array', 'return_array', '[if_not_found]', '[match_mode]', '[search_mode]'],
+  INDEX: ['array', 'row_num', '[column_num]'],
+  MATCH: ['lookup_value', 'lookup_array', '[match_type]'],
+  OFFSET: ['reference', 'rows', 'cols', '[height]', '[width]'],
+  CONCATENATE: ['text1', '[text2, ...]'],
+  LEFT: ['text', '[num_chars]'],
+  RIGHT: ['text', '[num_chars]'],
+  MID: ['text', 'start_num', 'num_chars'],
+  LEN: ['text'],
+  TRIM: ['text'],
+  UPPER: ['text'],
+  LOWER: ['text'],
+  SUBSTITUTE: ['text', 'old_text', 'new_text', '[instance_num]'],
+  FIND: ['find_text', 'within_text', '[start_num]'],
+  SEARCH: ['find_text', 'within_text', '[start_num]'],
+  TEXT: ['value', 'format_text'],
+  DATE: ['year', 'month', 'day'],
+  TODAY: [],
+  NOW: [],
+  FILTER: ['array', 'include', '[if_empty]'],
+  UNIQUE: ['array', '[by_col]', '[exactly_once]'],
+  SORT: ['array', '[sort_index]', '[sort_order]', '[by_col]'],
+  SEQUENCE: ['rows', '[columns]', '[start]', '[step]'],
+  SPARKLINE: ['data', '[options]'],
+  IOCTYPE: ['value'],
+  ISEXTERNALIP: ['ip'],
+  CIDRMATCH: ['ip', 'cidr'],
+  DEFANG: ['text'],
+  REFANG: ['text'],
+  REGEXMATCH: ['text', 'regular_expression'],
+  REGEXEXTRACT: ['text', 'regular_expression'],
+  TOUTC: ['timestamp'],
+  EPOCHTODATE: ['epoch', '[unit]'],
+};
+
+export interface FunctionSignature {
+  name: string;
+  args: string[];
+  description?: string;
+}
+
+// A function's signature: a custom function's own metadata, else the list above
+export function getFunctionSignature(name: string, customFunctions: CustomFunction[] = []): FunctionSignature | null {
+  const upper = name.toUpperCase();
+  const custom = customFunctions.find(fn => fn.name.toUpperCase() === upper);
+  if (custom) {
+    return {
+      name: upper,
+      args: custom.args.map(arg => (arg.optional ? `[${arg.name}]` : arg.name)),
+      description: custom.description,
+    };
+  }
+  const args = FUNCTION_SIGNATURES[upper];
+  return args ? { name: upper, args } : null;
+}
+
+// The argument at an index, following a repeating last argument; -1 past the end
+export function getActiveArgument(signature: FunctionSignature, index: number): number {
+  const last = signature.args.length - 1;
+  if (index <= last) return index;
+  return last >= 0 && signature.args[last].includes('...') ? last : -1;
+}
+
+// e.g. VLOOKUP(lookup_value, table_array, col_index, [range_lookup])
+export function formatSignature(signature: FunctionSignature): string {
+  return `${signature.name}(${signature.args.join(', ')})`;
+}
+
+export interface FormulaContext {
+  // The function, name or table being typed before the caret, and where it starts
+  prefix?: { text: string; start: number };
+  // The innermost function call around the caret, and which argument it is in
+  call?: { name: string; argIndex: number };
+}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+// What is being typed at the caret of a formula
+export function getFormulaContext(formula: string, caret: number): FormulaContext {
+  if (!formula.startsWith('=')) return {};
+
+  const tokens = tokenizeFormula(formula.slice(0, caret));
+  const context: FormulaContext = {};
+
+  // Identifiers only; A1-style references such as LOG10 may be a name cut short
+  const last = tokens[tokens.length - 1];
+  if (last && ['name', 'function', 'reference', 'boolean'].includes(last.type) && IDENTIFIER.test(last.text)) {
+    context.prefix = { text: last.text, start: last.position };
+  }
+
+  // Brackets opened before the caret and not yet closed; array constants
+  // and grouping brackets have no name
+  const open: Array<{ name: string | null; argIndex: number }> = [];
+  let called: string | null = null;
+  tokens.forEach(token => {
+    if (token.type === 'function') {
+      called = token.text;
+      return;
+    }
+    if (token.text === '(' || token.text === '{') {
+      open.push({ name: token.text === '(' ? called : null, argIndex: 0 });
+    } else if (token.text === ')' || token.text === '}') {
+      open.pop();
+    } else if ((token.text === ',' || token.text === ';') && open.length) {
+      open[open.length - 1].argIndex++;
+    }
+    if (token.type !== 'whitespace') called = null;
+  });
+
+  const call = [...open].reverse().find(entry => entry.name);
+  if (call?.name) context.call = { name: call.name.toUpperCase(), argIndex: call.argIndex };
+  return context;
+}
+
+export type FormulaSuggestionKind = 'function' | 'name' | 'table';
+
+export interface FormulaSuggestion {
+  kind: FormulaSuggestionKind;
+  label: string;
+}
+
+export interface SuggestionSources {
+  functions: string[];
+  names: string[];
+  tables: string[];
+}
+
+// Functions, named ranges and tables starting with what's been typed
+export function getSuggestions(prefix: string, sources: SuggestionSources, limit: number = 8): FormulaSuggestion[] {
+  const lower = prefix.toLowerCase();
+  const matching = (labels: string[], kind: FormulaSuggestionKind) =>
+    labels
+      .filter(label => label.toLowerCase().startsWith(lower))
+      .sort((a, b) => a.localeCompare(b))
+      .map(label => ({ kind, label }));
+
+  const suggestions = [
+    ...matching(sources.names, 'name'),
+    ...matching(sources.tables, 'table'),
+    ...matching(sources.functions, 'function'),
+  ];
+  // Nothing to offer when the only match is what's already typed
+  if (suggestions.length === 1 && suggestions[0].label.toLowerCase() === lower) return [];
+  return suggestions.slice(0, limit);
+}
+
+// The formula with the prefix replaced by a suggestion, and the caret after it.
+// Functions open their argument list and tables their column reference.
+export function applySuggestion(
+  formula: string,
+  prefixStart: number,
+  caret: number,
+  suggestion: FormulaSuggestion
+): { formula: string; caret: number } {
+  const after = formula.slice(caret);
+  const opener = suggestion.kind === 'function' ? '(' : suggestion.kind === 'table' ? '[' : '';
+  const text = suggestion.label + (opener && !after.startsWith(opener) ? opener : '');
+  return {
+    formula: formula.slice(0, prefixStart) + text + after,
+    caret: prefixStart + text.length + (opener && after.startsWith(opener) ? 1 : 0),
+  };
+}
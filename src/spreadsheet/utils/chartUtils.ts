@@ -0,0 +1,209 @@
+import { Chart, ChartType, SelectionRect } from '../types/spreadsheet';
+import { moveRect, normalizeRect, shiftRects } from './selectionUtils';
+import { isBlankValue, toNumber } from './valueUtils';
+
+export const CHART_TYPE_LABELS: Record<ChartType, string> = {
+  bar: 'Bar',
+  line: 'Line',
+  area: 'Area',
+  pie: 'Pie',
+  scatter: 'Scatter',
+  histogram: 'Histogram',
+};
+
+// Series colors, in order
+export const CHART_COLORS = ['#4285f4', '#ea4335', '#fbbc04', '#34a853', '#ff6d01', '#46bdc6', '#ab47bc', '#8d6e63'];
+
+export const DEFAULT_CHART_SIZE = { width: 480, height: 300 };
+
+export function createChartId(): string {
+  return `chart_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export interface ChartSeries {
+  name: string;
+  // Null where a cell is blank or not a number
+  values: Array<number | null>;
+}
+
+export interface ChartData {
+  // Labels along the x axis, or of the slices of a pie
+  categories: string[];
+  // Scatter charts plot against the categories read as numbers
+  xValues: Array<number | null>;
+  series: ChartSeries[];
+}
+
+// Axis and bin labels: integers as they are, others to two decimal places
+export function formatChartNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(2)));
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Count numbers into equal-width bins from the lowest to the highest. The
+ * last bin includes its end. Without a bin count, Sturges' rule picks one.
+ */
+export function getHistogramBins(values: number[], bins?: number): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = values.reduce((a, b) => Math.min(a, b));
+  const max = values.reduce((a, b) => Math.max(a, b));
+  const count = Math.max(1, Math.round(bins ?? Math.ceil(Math.log2(values.length) + 1)));
+  // All the same value: one bin around it
+  const width = max === min ? 1 : (max - min) / count;
+
+  const result = Array.from({ length: max === min ? 1 : count }, (_, i) => ({
+    start: min + i * width,
+    end: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach(value => {
+    const index = Math.min(Math.floor((value - min) / width), result.length - 1);
+    result[index].count++;
+  });
+  return result;
+}
+
+/**
+ * The categories and series a chart plots, read from its range through
+ * getValue (computed values, so formula results are charted)
+ */
+export function getChartData(chart: Chart, getValue: (row: number, col: number) => any): ChartData {
+  const r = normalizeRect(chart.range);
+  const firstRow = chart.hasHeader ? r.startRow + 1 : r.startRow;
+  const rows = Array.from({ length: Math.max(r.endRow - firstRow + 1, 0) }, (_, i) => firstRow + i);
+
+  if (chart.type === 'histogram') {
+    const values: number[] = [];
+    rows.forEach(row => {
+      for (let col = r.startCol; col <= r.endCol; col++) {
+        const value = getValue(row, col);
+        const number = isBlankValue(value) ? null : toNumber(value);
+        if (number !== null) values.push(number);
+      }
+    });
+    const bins = getHistogramBins(values, chart.bins);
+    return {
+      categories: bins.map(bin => `${formatChartNumber(bin.start)}–${formatChartNumber(bin.end)}`),
+      xValues: bins.map(bin => bin.start),
+      series: [{ name: 'Frequency', values: bins.map(bin => bin.count) }],
+    };
+  }
+
+  // A single column is one series, numbered along the x axis
+  const hasCategories = r.endCol > r.startCol;
+  const seriesCols = Array.from({ length: r.endCol - r.startCol + (hasCategories ? 0 : 1) }, (_, i) =>
+    r.startCol + (hasCategories ? i + 1 : i)
+  );
+  const categories = rows.map((row, i) => {
+    const value = hasCategories ? getValue(row, r.startCol) : undefined;
+    return isBlankValue(value) ? String(i + 1) : String(value);
+  });
+
+  return {
+    categories,
+    xValues: hasCategories ? rows.map(row => toNumber(getValue(row, r.startCol))) : rows.map((_, i) => i + 1),
+    series: seriesCols.map((col, i) => {
+      const header = chart.hasHeader ? getValue(r.startRow, col) : undefined;
+      return {
+        name: isBlankValue(header) ? `Series ${i + 1}` : String(header),
+        values: rows.map(row => toNumber(getValue(row, col))),
+      };
+    }),
+  };
+}
+
+/**
+ * Evenly spaced round values covering min to max, e.g. 0, 20, 40 ... 100,
+ * for an axis
+ */
+export function getAxisTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    const pad = Math.abs(min) || 1;
+    return getAxisTicks(min - pad, max + pad, count);
+  }
+  const rough = (max - min) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rough)!;
+
+  // Up to the first tick at or past max; toPrecision avoids 0.30000000000000004
+  const ticks = [Number((Math.floor(min / step) * step).toPrecision(12))];
+  while (ticks[ticks.length - 1] < max) {
+    ticks.push(Number((ticks[ticks.length - 1] + step).toPrecision(12)));
+  }
+  return ticks;
+}
+
+/**
+ * A new chart of a range, placed beside it leaving a column free
+ */
+export function createChart(range: SelectionRect, maxCols: number, type: ChartType = 'bar'): Chart {
+  return {
+    id: createChartId(),
+    type,
+    range,
+    hasHeader: true,
+    anchor: { row: range.startRow, col: Math.min(range.endCol + 2, maxCols - 1) },
+    ...DEFAULT_CHART_SIZE,
+  };
+}
+
+/**
+ * Adjust a sheet's charts for rows or columns inserted (count > 0) or
+ * deleted (count < 0) at index. Ranges grow, move and shrink like merged
+ * cells; charts whose range was deleted entirely are dropped. Anchors in a
+ * deleted block move to where it was.
+ */
+export function shiftCharts(
+  charts: Chart[] | undefined,
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): Chart[] | undefined {
+  if (!charts?.length || count === 0) return charts;
+
+  const shifted = charts.flatMap(chart => {
+    const [range] = shiftRects([chart.range], axis, index, count);
+    if (!range) return [];
+
+    const at = chart.anchor[axis];
+    const moved = count > 0
+      ? (at >= index ? at + count : at)
+      : (at < index ? at : Math.max(at + count, index));
+    return [{ ...chart, range, anchor: { ...chart.anchor, [axis]: moved } }];
+  });
+  return shifted.length ? shifted : undefined;
+}
+
+/**
+ * Adjust a sheet's charts for the cells in source moving by the offsets.
+ * Ranges wholly inside source follow their data, and charts anchored
+ * inside it move along.
+ */
+export function moveCharts(
+  charts: Chart[] | undefined,
+  source: SelectionRect,
+  rowOffset: number,
+  colOffset: number
+): Chart[] | undefined {
+  if (!charts?.length) return charts;
+
+  const { startRow, startCol, endRow, endCol } = normalizeRect(source);
+  return charts.map(chart => {
+    const { row, col } = chart.anchor;
+    const anchored = row >= startRow && row <= endRow && col >= startCol && col <= endCol;
+    const range = moveRect(chart.range, source, rowOffset, colOffset);
+    if (!anchored && range === chart.range) return chart;
+    return {
+      ...chart,
+      range,
+      anchor: anchored ? { row: row + rowOffset, col: col + colOffset } : chart.anchor,
+    };
+  });
+}
+
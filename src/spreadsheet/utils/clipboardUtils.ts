@@ -1,8 +1,568 @@
+import { CellData, CellFormat, ClipboardData, SelectionRect, SpreadsheetState, ValidationRule, keyOf } from '../types/spreadsheet';
+import { SpreadsheetAction, CellChange } from '../types/actions';
+import { normalizeRect } from './selectionUtils';
+import { formatCellValue } from './formatUtils';
+import { offsetFormulaReferences } from './formulaUtils';
+import { getActiveSheetId } from './sheetUtils';
+import { isRowFiltered } from './filterUtils';
+import { SpillRanges, isSpilledCell } from './spillUtils';
+
+// Clipboard type carrying the full ClipboardData between OpenSheets instances
+export const OPENSHEETS_CLIPBOARD_TYPE = 'application/x-opensheets+json';
+// The same payload embedded in copied HTML, for browsers that drop custom types
+const HTML_PAYLOAD_ATTRIBUTE = 'data-opensheets';
+
+const NUMBER_PATTERN = /^-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
 export const serializeTabular = (cells: string[][]) =>
   cells.map((r) => r.join('\t')).join('\n');
 
 export const parseTabular = (text: string) =>
   text
     .replace(/\r/g, '')
+    .replace(/\n$/, '')
     .split('\n')
-    .map((line) => line.split('\t'));
\ No newline at end of file
+    .map((line) => line.split('\t'));
+
+/**
+ * Copy a block of cells from the active sheet. Pass getComputedValue so
+ * formula cells carry their results for plain-text and value pastes, and
+ * spills so cells filled by array formulas are copied as the values they
+ * show.
+ */
+export function copyRange(
+  state: SpreadsheetState,
+  range: SelectionRect,
+  getComputedValue?: (row: number, col: number) => any,
+  cut: boolean = false,
+  spills?: SpillRanges
+): ClipboardData {
+  const source = normalizeRect(range);
+  const cells: ClipboardData['cells'] = [];
+  const validation: NonNullable<ClipboardData['validation']> = [];
+  const sourceRows: number[] = [];
+  let hasValidation = false;
+
+  for (let r = source.startRow; r <= source.endRow; r++) {
+    // Copies take only the rows left visible by filters; cuts move the whole block
+    if (!cut && isRowFiltered(state, r)) continue;
+    sourceRows.push(r);
+
+    const cellRow: Array<CellData | null> = [];
+    const validationRow: Array<ValidationRule | null> = [];
+
+    for (let c = source.startCol; c <= source.endCol; c++) {
+      const cellData = state.data.get(keyOf(r, c));
+      if (cellData) {
+        cellRow.push({ ...cellData, value: cellData.formula && getComputedValue ? getComputedValue(r, c) : cellData.value });
+      } else if (!cut && getComputedValue && isSpilledCell(spills, r, c)) {
+        // Spilled values aren't stored; a cut leaves them to spill again from the moved formula
+        cellRow.push({ value: getComputedValue(r, c) });
+      } else {
+        cellRow.push(null);
+      }
+
+      const rule = state.validation?.get(keyOf(r, c)) ?? null;
+      hasValidation = hasValidation || rule !== null;
+      validationRow.push(rule);
+    }
+
+    cells.push(cellRow);
+    validation.push(validationRow);
+  }
+
+  return {
+    cells,
+    ...(hasValidation ? { validation } : {}),
+    source,
+    ...(sourceRows.length < source.endRow - source.startRow + 1 ? { sourceRows } : {}),
+    sheetId: getActiveSheetId(state),
+    ...(cut ? { cut } : {}),
+  };
+}
+
+const displayText = (cellData: CellData | null): string =>
+  cellData ? formatCellValue(cellData.value, cellData.format) : '';
+
+export function clipboardToText(clipboard: ClipboardData): string {
+  return serializeTabular(clipboard.cells.map(row => row.map(displayText)));
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Inline CSS for a cell format, as understood by Excel and Google Sheets
+function formatToCss(format?: CellFormat): string {
+  if (!format) return '';
+
+  const decorations = [format.underline && 'underline', format.strikethrough && 'line-through'].filter(Boolean);
+  const styles = [
+    format.bold && 'font-weight:bold',
+    format.italic && 'font-style:italic',
+    decorations.length && `text-decoration:${decorations.join(' ')}`,
+    format.fontFamily && `font-family:${format.fontFamily}`,
+    format.fontSize && `font-size:${format.fontSize}px`,
+    format.color && `color:${format.color}`,
+    format.backgroundColor && `background-color:${format.backgroundColor}`,
+    format.textAlign && `text-align:${format.textAlign}`,
+    format.verticalAlign && `vertical-align:${format.verticalAlign}`,
+    format.wrapText && 'white-space:normal',
+  ];
+
+  return styles.filter(Boolean).join(';');
+}
+
+/**
+ * HTML table of the copied cells with their formats inlined. The full
+ * payload rides along in an attribute so another OpenSheets instance can
+ * restore formulas and validation.
+ */
+export function clipboardToHtml(clipboard: ClipboardData): string {
+  const rows = clipboard.cells.map(row => {
+    const cells = row.map(cellData => {
+      const style = formatToCss(cellData?.format);
+      return `<td${style ? ` style="${escapeHtml(style)}"` : ''}>${escapeHtml(displayText(cellData))}</td>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  });
+
+  const payload = escapeHtml(JSON.stringify(clipboard));
+  return `<table ${HTML_PAYLOAD_ATTRIBUTE}="${payload}"><tbody>${rows.join('')}</tbody></table>`;
+}
+
+// Read the declarations of a style attribute or CSS rule into a map
+function parseDeclarations(css: string): Map<string, string> {
+  const declarations = new Map<string, string>();
+  css.split(';').forEach(declaration => {
+    const index = declaration.indexOf(':');
+    if (index > 0) {
+      declarations.set(
+        declaration.slice(0, index).trim().toLowerCase(),
+        declaration.slice(index + 1).trim().replace(/\s*!important$/, '')
+      );
+    }
+  });
+  return declarations;
+}
+
+// Class rules from <style> blocks, which is how Excel formats copied cells
+function parseClassRules(doc: Document): Map<string, string> {
+  const rules = new Map<string, string>();
+  doc.querySelectorAll('style').forEach(style => {
+    const css = (style.textContent || '').replace(/<!--|-->/g, '');
+    const rulePattern = /\.([\w-]+)\s*\{([^}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = rulePattern.exec(css))) {
+      rules.set(match[1], `${rules.get(match[1]) ?? ''};${match[2]}`);
+    }
+  });
+  return rules;
+}
+
+// Convert CSS font sizes in pt (Excel, Google Sheets) or px to px
+function parseFontSize(size: string): number | undefined {
+  const match = size.match(/^([\d.]+)(pt|px)?$/);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  return Math.round(match[2] === 'pt' ? value * 4 / 3 : value);
+}
+
+function cssToFormat(declarations: Map<string, string>, element: Element): CellFormat | undefined {
+  const format: CellFormat = {};
+  const weight = declarations.get('font-weight');
+  const decoration = declarations.get('text-decoration') ?? declarations.get('text-decoration-line') ?? '';
+
+  if (weight === 'bold' || Number(weight) >= 600 || element.querySelector('b, strong')) format.bold = true;
+  if (declarations.get('font-style') === 'italic' || element.querySelector('i, em')) format.italic = true;
+  if (decoration.includes('underline') || element.querySelector('u')) format.underline = true;
+  if (decoration.includes('line-through') || element.querySelector('s, strike, del')) format.strikethrough = true;
+
+  // Excel marks default text colour with system colour names
+  const color = declarations.get('color');
+  if (color && !/^(windowtext|auto|inherit)$/i.test(color)) format.color = color;
+
+  const background = declarations.get('background-color') ?? declarations.get('background');
+  if (background && background !== 'transparent') format.backgroundColor = background;
+
+  const align = declarations.get('text-align');
+  if (align === 'left' || align === 'center' || align === 'right') format.textAlign = align;
+
+  const verticalAlign = declarations.get('vertical-align');
+  if (verticalAlign === 'top' || verticalAlign === 'middle' || verticalAlign === 'bottom') {
+    format.verticalAlign = verticalAlign;
+  }
+
+  const fontFamily = declarations.get('font-family');
+  if (fontFamily) format.fontFamily = fontFamily.replace(/["']/g, '');
+
+  const fontSize = declarations.get('font-size');
+  const size = fontSize ? parseFontSize(fontSize) : undefined;
+  if (size) format.fontSize = size;
+
+  return Object.keys(format).length ? format : undefined;
+}
+
+/**
+ * Turn pasted text into a cell value: numbers become numbers and text
+ * starting with "=" becomes a formula
+ */
+export function parseClipboardValue(text: string): CellData {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('=') && trimmed.length > 1) {
+    return { value: trimmed, formula: trimmed };
+  }
+  if (trimmed !== '' && NUMBER_PATTERN.test(trimmed)) {
+    return { value: Number(trimmed) };
+  }
+  return { value: text };
+}
+
+const RECT_KEYS = ['startRow', 'startCol', 'endRow', 'endCol'] as const;
+
+// A copied OpenSheets payload, or null when the JSON is not one: a non-empty
+// grid of cells, each null or an object, and the range it was copied from
+function parseClipboardJson(json: string): ClipboardData | null {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const cells = parsed?.cells;
+  const width = Array.isArray(cells) && Array.isArray(cells[0]) ? cells[0].length : 0;
+  const validCells = width > 0 && cells.every((row: unknown) =>
+    Array.isArray(row) && row.length === width && row.every(cell => typeof cell === 'object')
+  );
+  const validSource = RECT_KEYS.every(key => Number.isInteger(parsed?.source?.[key]));
+  return validCells && validSource ? parsed : null;
+}
+
+/**
+ * Read copied HTML. OpenSheets payloads are restored as they were; other
+ * tables, such as those from Excel or Google Sheets, keep their values and
+ * formats. Returns null when the HTML holds no table.
+ */
+export function parseClipboardHtml(html: string): ClipboardData | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const payload = doc.querySelector(`[${HTML_PAYLOAD_ATTRIBUTE}]`)?.getAttribute(HTML_PAYLOAD_ATTRIBUTE);
+  // Anything else falls through to reading the table itself
+  const restored = payload ? parseClipboardJson(payload) : null;
+  if (restored) return restored;
+
+  const table = doc.querySelector('table');
+  if (!table) return null;
+
+  const classRules = parseClassRules(doc);
+  const cells: ClipboardData['cells'] = [];
+  // Columns still covered by a rowspan from an earlier row, by row index
+  const covered = new Map<number, Set<number>>();
+
+  Array.from(table.querySelectorAll('tr')).forEach((tr, rowIndex) => {
+    const row: Array<CellData | null> = [];
+    const coveredHere = covered.get(rowIndex) ?? new Set<number>();
+
+    Array.from(tr.children).forEach(td => {
+      if (td.tagName !== 'TD' && td.tagName !== 'TH') return;
+      while (coveredHere.has(row.length)) row.push(null);
+
+      const classCss = Array.from(td.classList).map(name => classRules.get(name) ?? '').join(';');
+      const declarations = parseDeclarations(`${classCss};${td.getAttribute('style') ?? ''}`);
+      const text = (td as HTMLElement).innerText ?? td.textContent ?? '';
+      const cellData = parseClipboardValue(text.replace(/ /g, ' '));
+      const format = cssToFormat(declarations, td);
+      const isEmpty = cellData.value === '' && !format;
+      row.push(isEmpty ? null : { ...cellData, ...(format ? { format } : {}) });
+
+      // Merged cells leave empty cells in the columns and rows they span
+      const colSpan = Math.max(1, Number(td.getAttribute('colspan')) || 1);
+      const rowSpan = Math.max(1, Number(td.getAttribute('rowspan')) || 1);
+      const startCol = row.length - 1;
+      for (let i = 1; i < colSpan; i++) row.push(null);
+      for (let r = 1; r < rowSpan; r++) {
+        const set = covered.get(rowIndex + r) ?? new Set<number>();
+        for (let c = startCol; c < startCol + colSpan; c++) set.add(c);
+        covered.set(rowIndex + r, set);
+      }
+    });
+
+    cells.push(row);
+  });
+
+  const width = Math.max(0, ...cells.map(row => row.length));
+  if (width === 0) return null;
+  cells.forEach(row => {
+    while (row.length < width) row.push(null);
+  });
+
+  return {
+    cells,
+    source: { startRow: 0, startCol: 0, endRow: cells.length - 1, endCol: width - 1 },
+  };
+}
+
+export function parseClipboardText(text: string): ClipboardData {
+  const rows = parseTabular(text);
+  const width = Math.max(...rows.map(row => row.length));
+  const cells = rows.map(row =>
+    Array.from({ length: width }, (_, i) => (row[i] ? parseClipboardValue(row[i]) : null))
+  );
+
+  return {
+    cells,
+    source: { startRow: 0, startCol: 0, endRow: rows.length - 1, endCol: width - 1 },
+  };
+}
+
+/**
+ * Read a paste event's data, preferring the richest format available
+ */
+export function readClipboard(data: DataTransfer | null): ClipboardData | null {
+  if (!data) return null;
+
+  // Anything else falls back to the other formats
+  const json = data.getData(OPENSHEETS_CLIPBOARD_TYPE);
+  const restored = json ? parseClipboardJson(json) : null;
+  if (restored) return restored;
+
+  const html = data.getData('text/html');
+  const fromHtml = html ? parseClipboardHtml(html) : null;
+  if (fromHtml) return fromHtml;
+
+  const text = data.getData('text/plain');
+  return text ? parseClipboardText(text) : null;
+}
+
+export function writeClipboard(data: DataTransfer, clipboard: ClipboardData): void {
+  data.setData('text/plain', clipboardToText(clipboard));
+  data.setData('text/html', clipboardToHtml(clipboard));
+  data.setData(OPENSHEETS_CLIPBOARD_TYPE, JSON.stringify(clipboard));
+}
+
+export type PasteMode = 'all' | 'values' | 'formulas' | 'formats' | 'validation';
+export type PasteOperation = 'none' | 'add' | 'subtract' | 'multiply' | 'divide';
+
+/**
+ * Paste Special options. By default everything is pasted as copied.
+ */
+export interface PasteOptions {
+  // Which parts of the copied cells to paste
+  paste?: PasteMode;
+  // Combine pasted numbers with the values already in the target
+  operation?: PasteOperation;
+  // Leave target cells alone where the copied cell is empty
+  skipBlanks?: boolean;
+  // Paste rows as columns
+  transpose?: boolean;
+}
+
+const OPERATORS: Record<Exclude<PasteOperation, 'none'>, string> = {
+  add: '+',
+  subtract: '-',
+  multiply: '*',
+  divide: '/',
+};
+
+const PASTE_LABELS: Record<PasteMode, string> = {
+  all: 'Paste special',
+  values: 'Paste values',
+  formulas: 'Paste formulas',
+  formats: 'Paste formats',
+  validation: 'Paste validation',
+};
+
+const isPlainPaste = (options: PasteOptions): boolean =>
+  (options.paste ?? 'all') === 'all' &&
+  (options.operation ?? 'none') === 'none' &&
+  !options.skipBlanks &&
+  !options.transpose;
+
+const isBlank = (cellData: CellData | null): boolean =>
+  !cellData || (cellData.value === '' && !cellData.formula);
+
+// Numbers for arithmetic pastes; empty cells count as zero and text as NaN
+function toNumber(value: any): number {
+  if (typeof value === 'number') return value;
+  if (value === '' || value === null || value === undefined) return 0;
+  const text = String(value).trim();
+  return NUMBER_PATTERN.test(text) ? Number(text) : NaN;
+}
+
+/**
+ * Combine a pasted value or formula with a target cell, as Paste Special's
+ * add/subtract/multiply/divide. Formulas on either side give a formula;
+ * text on either side leaves the target unchanged (returns null).
+ */
+function combineCell(
+  target: CellData | undefined,
+  source: { value: any; formula?: string },
+  operation: Exclude<PasteOperation, 'none'>
+): Partial<CellData> | null {
+  const operator = OPERATORS[operation];
+  const targetNumber = toNumber(target?.value);
+  const sourceNumber = toNumber(source.value);
+
+  if ((!target?.formula && isNaN(targetNumber)) || (!source.formula && isNaN(sourceNumber))) return null;
+
+  if (target?.formula || source.formula) {
+    const targetExpr = target?.formula ? `(${target.formula.slice(1)})` : String(targetNumber);
+    const sourceExpr = source.formula ? `(${source.formula.slice(1)})` : String(sourceNumber);
+    const formula = `=${targetExpr}${operator}${sourceExpr}`;
+    return { value: formula, formula };
+  }
+
+  if (operation === 'divide' && sourceNumber === 0) return { value: '#DIV/0!', formula: undefined };
+  const value = operation === 'add' ? targetNumber + sourceNumber
+    : operation === 'subtract' ? targetNumber - sourceNumber
+    : operation === 'multiply' ? targetNumber * sourceNumber
+    : targetNumber / sourceNumber;
+  return { value, formula: undefined };
+}
+
+/**
+ * Where a paste lands: the clipboard block at the active cell, or repeated
+ * across the selection when the selection is a whole multiple of it. Cut
+ * cells are never repeated.
+ */
+export function getPasteRange(
+  state: SpreadsheetState,
+  clipboard: ClipboardData,
+  options: PasteOptions = {}
+): SelectionRect | null {
+  const active = state.selection.active;
+  if (!active) return null;
+
+  const rows = clipboard.cells.length;
+  const cols = clipboard.cells[0]?.length ?? 0;
+  const height = options.transpose ? cols : rows;
+  const width = options.transpose ? rows : cols;
+  if (!height || !width) return null;
+
+  const cut = clipboard.cut && isPlainPaste(options);
+  const selected = state.selection.ranges.length === 1 ? normalizeRect(state.selection.ranges[0]) : null;
+  const selectedHeight = selected ? selected.endRow - selected.startRow + 1 : 0;
+  const selectedWidth = selected ? selected.endCol - selected.startCol + 1 : 0;
+  const tiles = !cut && selected && selectedHeight % height === 0 && selectedWidth % width === 0;
+  const start = tiles ? { row: selected!.startRow, col: selected!.startCol } : active;
+
+  return {
+    startRow: start.row,
+    startCol: start.col,
+    endRow: Math.min(start.row + (tiles ? selectedHeight : height) - 1, state.maxRows - 1),
+    endCol: Math.min(start.col + (tiles ? selectedWidth : width) - 1, state.maxCols - 1),
+  };
+}
+
+const selectRange = (range: SelectionRect): SpreadsheetAction => ({
+  type: 'SET_SELECTION',
+  payload: { ranges: [range], active: { row: range.startRow, col: range.startCol } },
+});
+
+/**
+ * Action that pastes a clipboard block into the active sheet as one BATCH.
+ * Pasted cells replace the target's contents and formats; copied formulas
+ * have their relative references adjusted. Cut cells are moved instead, and
+ * the clipboard is emptied, as a cut can be pasted once. Paste Special
+ * options always paste a copy.
+ */
+export function createPasteAction(
+  state: SpreadsheetState,
+  clipboard: ClipboardData,
+  options: PasteOptions = {}
+): SpreadsheetAction | null {
+  const target = getPasteRange(state, clipboard, options);
+  if (!target) return null;
+
+  const { transpose = false, skipBlanks = false } = options;
+  const mode = options.paste ?? 'all';
+  const operation = options.operation ?? 'none';
+  const cut = clipboard.cut && isPlainPaste(options);
+  const height = transpose ? clipboard.cells[0].length : clipboard.cells.length;
+  const width = transpose ? clipboard.cells.length : clipboard.cells[0].length;
+  const source = normalizeRect(clipboard.source);
+  const activeSheetId = getActiveSheetId(state);
+
+  // Moving within the sheet also updates references to the moved cells
+  if (cut && clipboard.sheetId === activeSheetId) {
+    if (target.endRow - target.startRow + 1 < height || target.endCol - target.startCol + 1 < width) return null;
+    return {
+      type: 'BATCH',
+      payload: [
+        { type: 'MOVE_RANGE', payload: { source, target: { row: target.startRow, col: target.startCol } } },
+        selectRange(target),
+        { type: 'SET_CLIPBOARD', payload: null },
+      ],
+    };
+  }
+
+  const pastesContent = mode === 'all' || mode === 'values' || mode === 'formulas';
+  const pastesFormat = mode === 'all' || mode === 'formats';
+  const pastesValidation = mode === 'all' || mode === 'validation';
+  const updates: Array<{ row: number; col: number; data: Partial<CellData> }> = [];
+  const actions: SpreadsheetAction[] = [];
+
+  for (let row = target.startRow; row <= target.endRow; row++) {
+    for (let col = target.startCol; col <= target.endCol; col++) {
+      const blockRow = (row - target.startRow) % height;
+      const blockCol = (col - target.startCol) % width;
+      // Position within the copied block
+      const i = transpose ? blockCol : blockRow;
+      const j = transpose ? blockRow : blockCol;
+      const cellData = clipboard.cells[i][j];
+      if (skipBlanks && isBlank(cellData)) continue;
+
+      const data: Partial<CellData> = {};
+      if (pastesContent) {
+        // Moved formulas keep pointing at the same cells
+        const formula = mode === 'values' || !cellData?.formula ? undefined
+          : cut ? cellData.formula
+          : offsetFormulaReferences(cellData.formula, row - (clipboard.sourceRows?.[i] ?? source.startRow + i), col - (source.startCol + j));
+        const content = { value: formula ?? cellData?.value ?? '', formula };
+
+        if (operation === 'none') {
+          Object.assign(data, content);
+        } else {
+          Object.assign(data, combineCell(state.data.get(keyOf(row, col)), content, operation));
+        }
+        if (mode === 'all') data.metadata = cellData?.metadata;
+      }
+      if (pastesFormat) data.format = cellData?.format;
+      if (Object.keys(data).length) updates.push({ row, col, data });
+
+      const rule = clipboard.validation?.[i]?.[j] ?? null;
+      if (pastesValidation && (rule || state.validation?.has(keyOf(row, col)))) {
+        actions.push({ type: 'SET_VALIDATION', payload: { row, col, validation: rule } });
+      }
+    }
+  }
+
+  // Cells cut from another sheet are removed from it
+  if (cut && clipboard.sheetId) {
+    const cells: CellChange[] = [];
+    for (let row = source.startRow; row <= source.endRow; row++) {
+      for (let col = source.startCol; col <= source.endCol; col++) {
+        cells.push({ row, col, data: null });
+      }
+    }
+    actions.push(
+      { type: 'RESTORE_SHEET', payload: { sheetId: clipboard.sheetId, cells } },
+      { type: 'SET_CLIPBOARD', payload: null }
+    );
+  }
+
+  const count = (target.endRow - target.startRow + 1) * (target.endCol - target.startCol + 1);
+  return {
+    type: 'BATCH',
+    label: isPlainPaste(options) ? `Paste ${count === 1 ? 'cell' : `${count} cells`}` : PASTE_LABELS[mode],
+    payload: [
+      ...(updates.length ? [{ type: 'SET_CELLS', payload: { updates } } as SpreadsheetAction] : []),
+      ...actions,
+      selectRange(target),
+    ],
+  };
+}
@@ -1,16 +1,46 @@
-import { ConditionalFormat, CellFormat, SparseMatrix, CellData } from '../types/spreadsheet';
-import { evaluateFormula } from './formulaUtils';
+import {
+  ConditionalFormat,
+  ConditionalFormatRule,
+  ConditionalFormatThreshold,
+  CellFormat,
+  SparseMatrix,
+  CellData,
+  SelectionRect,
+  SpreadsheetState,
+  ColorScale,
+  DataBar,
+  IconSet,
+  IconSetName,
+  keyOf,
+  parseKey,
+} from '../types/spreadsheet';
+import { ReferenceScope, cellRefToString, evaluateFormula, moveFormulaReferences, offsetFormulaReferences } from './formulaUtils';
+import { moveRect, normalizeRect, shiftRects } from './selectionUtils';
+import { parseRangeReference, resolveRange } from './namedRangeUtils';
+import { getActiveSheetId } from './sheetUtils';
+import { toNumber } from './valueUtils';
 
 /**
- * Evaluate if a cell should have conditional formatting applied
+ * Evaluates formula rules against the workbook; FormulaEngine is one
+ */
+export interface ConditionalFormulaEvaluator {
+  calculateFormula(formula: string): any;
+  // Results are reused until this changes
+  getRecalculationCount(): number;
+}
+
+/**
+ * Evaluate if a cell should have conditional formatting applied. Formula
+ * rules need an evaluator, or getCell for simple formulas without one.
  */
 export function evaluateConditionalFormat(
   value: any,
   rule: ConditionalFormat,
   row: number,
   col: number,
-  data: SparseMatrix<CellData>,
-  getCell?: (r: number, c: number) => CellData | undefined
+  _data: SparseMatrix<CellData>,
+  getCell?: (r: number, c: number) => CellData | undefined,
+  evaluator?: ConditionalFormulaEvaluator
 ): boolean {
   if (!rule) return false;
 
@@ -25,7 +55,7 @@ export function evaluateConditionalFormat(
       return evaluateDateCondition(value, rule);
     
     case 'formula':
-      return evaluateFormulaCondition(value, rule, row, col, data, getCell);
+      return evaluateFormulaCondition(rule, row, col, getCell, evaluator);
     
     default:
       return false;
@@ -137,104 +167,59 @@ function evaluateDateCondition(value: any, rule: ConditionalFormat): boolean {
   }
 }
 
+// Formula rule results per cell, kept until the evaluator recalculates
+const formulaResultsCache = new WeakMap<
+  ConditionalFormat,
+  { evaluator: ConditionalFormulaEvaluator; recalculation: number; results: Map<string, boolean> }
+>();
+
+// Like Excel: TRUE or a non-zero number; text and errors don't match
+const isFormulaMatch = (result: any): boolean =>
+  result === true || (typeof result === 'number' && result !== 0);
+
 /**
- * Evaluate formula-based conditions
+ * Evaluate a formula rule for one cell. The formula is written for the
+ * top-left cell of the rule's first range (or for the cell itself when the
+ * rule belongs to a cell), so its relative references are moved by the
+ * cell's offset from there, e.g. =$E2="High" over A2:F50 reads E3 for row 3.
  */
 function evaluateFormulaCondition(
-  value: any,
   rule: ConditionalFormat,
   row: number,
   col: number,
-  data: SparseMatrix<CellData>,
-  getCell?: (r: number, c: number) => CellData | undefined
+  getCell?: (r: number, c: number) => CellData | undefined,
+  evaluator?: ConditionalFormulaEvaluator
 ): boolean {
-  try {
-    const formula = rule.value1;
-    if (!formula) return false;
-
-    // Replace placeholders in formula
-    let processedFormula = formula;
-    
-    // Replace common placeholders
-    processedFormula = processedFormula.replace(/\bvalue\b/g, String(value));
-    processedFormula = processedFormula.replace(/\brow\b/g, String(row + 1)); // 1-based
-    processedFormula = processedFormula.replace(/\bcol\b/g, String(col + 1)); // 1-based
-    
-    // Replace cell references like A1 with actual cell addresses
-    processedFormula = processedFormula.replace(/A1/g, `${row + 1}:${col}`);
-    
-    // Handle special DFIR functions
-    if (processedFormula.includes('TODAY()')) {
-      const today = new Date();
-      processedFormula = processedFormula.replace(/TODAY\(\)/g, today.getTime().toString());
-    }
-
-    // For complex formulas, try to evaluate using the formula engine
-    if (getCell) {
-      const result = evaluateFormula('=' + processedFormula, getCell);
-      return Boolean(result);
+  if (!rule.value1) return false;
+
+  const ranges = (rule as Partial<ConditionalFormatRule>).ranges;
+  const anchor = ranges?.length ? normalizeRect(ranges[0]) : { startRow: row, startCol: col };
+  const written = rule.value1.startsWith('=') ? rule.value1 : `=${rule.value1}`;
+  const formula = offsetFormulaReferences(written, row - anchor.startRow, col - anchor.startCol);
+
+  if (!evaluator) {
+    if (!getCell) return false;
+    try {
+      return isFormulaMatch(evaluateFormula(formula, (r, c) => getCell(r, c)?.value));
+    } catch {
+      return false;
     }
-
-    // Fallback: simple evaluation
-    return evaluateSimpleFormula(processedFormula, value, row, col, data);
-  } catch (error) {
-    console.warn('Conditional formatting formula evaluation failed:', error);
-    return false;
   }
-}
 
-/**
- * Simple formula evaluation for common DFIR patterns
- */
-function evaluateSimpleFormula(
-  formula: string,
-  value: any,
-  _row: number,
-  _col: number,
-  _data: SparseMatrix<CellData>
-): boolean {
-  const stringValue = String(value);
-
-  // IP address patterns
-  if (formula.includes('NOT(OR(LEFT')) {
-    // External IP detection
-    const ip = stringValue;
-    const privatePatterns = [
-      /^10\./,
-      /^172\.(1[6-9]|2[0-9]|3[0-1])\./,
-      /^192\.168\./,
-      /^127\./,
-      /^169\.254\./
-    ];
-    return !privatePatterns.some(pattern => pattern.test(ip));
-  }
-
-  // Hash length detection
-  if (formula.includes('OR(LEN')) {
-    const len = stringValue.length;
-    return len === 32 || len === 40 || len === 64; // MD5, SHA1, SHA256
+  const recalculation = evaluator.getRecalculationCount();
+  let cached = formulaResultsCache.get(rule);
+  if (!cached || cached.evaluator !== evaluator || cached.recalculation !== recalculation) {
+    cached = { evaluator, recalculation, results: new Map() };
+    formulaResultsCache.set(rule, cached);
   }
 
-  // Duplicate detection (simplified)
-  if (formula.includes('COUNTIF')) {
-    let count = 0;
-    _data.forEach((cellData: CellData) => {
-      if (cellData.value === value) count++;
-    });
-    return count > 1;
+  const key = keyOf(row, col);
+  let result = cached.results.get(key);
+  if (result === undefined) {
+    result = isFormulaMatch(evaluator.calculateFormula(formula));
+    cached.results.set(key, result);
   }
-
-  // Default: try to parse as boolean expression
-  try {
-    // Very basic expression evaluation - in production, use a proper expression parser
-    if (formula.includes('>') || formula.includes('<') || formula.includes('=')) {
-      return eval(formula); // Note: Use proper expression parser in production
-    }
-  } catch {
-    // Ignore evaluation errors
-  }
-
-  return false;
+  return result;
 }
 
 /**
@@ -358,6 +343,375 @@ export function combineConditionalFormats(
   return combinedFormat;
 }
 
+export function createConditionalFormatId(): string {
+  return `cf_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+const ruleCoversCell = (rule: ConditionalFormatRule, row: number, col: number): boolean =>
+  rule.ranges.some(range => {
+    const r = normalizeRect(range);
+    return row >= r.startRow && row <= r.endRow && col >= r.startCol && col <= r.endCol;
+  });
+
+const VISUALIZATION_TYPES = new Set<ConditionalFormat['type']>(['colorScale', 'dataBar', 'iconSet']);
+
+/**
+ * Whether a rule draws a color scale, data bar or icon set, which depend on
+ * the other values in its ranges, rather than applying a format when a
+ * condition holds
+ */
+export function isVisualizationRule(rule: ConditionalFormat): boolean {
+  return VISUALIZATION_TYPES.has(rule.type);
+}
+
+// Icons of each set from the lowest values to the highest
+export const ICON_SETS: Record<IconSetName, Array<{ symbol: string; color: string }>> = {
+  '3Arrows': [
+    { symbol: '↓', color: '#d93025' },
+    { symbol: '→', color: '#f9ab00' },
+    { symbol: '↑', color: '#1e8e3e' },
+  ],
+  '4Arrows': [
+    { symbol: '↓', color: '#d93025' },
+    { symbol: '↘', color: '#f9ab00' },
+    { symbol: '↗', color: '#f9ab00' },
+    { symbol: '↑', color: '#1e8e3e' },
+  ],
+  '5Arrows': [
+    { symbol: '↓', color: '#d93025' },
+    { symbol: '↘', color: '#f9ab00' },
+    { symbol: '→', color: '#f9ab00' },
+    { symbol: '↗', color: '#f9ab00' },
+    { symbol: '↑', color: '#1e8e3e' },
+  ],
+  '3TrafficLights1': [
+    { symbol: '●', color: '#d93025' },
+    { symbol: '●', color: '#f9ab00' },
+    { symbol: '●', color: '#1e8e3e' },
+  ],
+  '4TrafficLights': [
+    { symbol: '●', color: '#3c4043' },
+    { symbol: '●', color: '#d93025' },
+    { symbol: '●', color: '#f9ab00' },
+    { symbol: '●', color: '#1e8e3e' },
+  ],
+  '3Flags': [
+    { symbol: '⚑', color: '#d93025' },
+    { symbol: '⚑', color: '#f9ab00' },
+    { symbol: '⚑', color: '#1e8e3e' },
+  ],
+};
+
+/**
+ * A color scale rule, e.g. createColorScale(['#f8696b', '#ffeb84', '#63be7b'])
+ * for red through yellow to green. Two colors make a 2-color scale; the
+ * middle of three sits at the 50th percentile.
+ */
+export function createColorScale(colors: [string, string] | [string, string, string]): ConditionalFormat {
+  const max = colors[colors.length - 1];
+  return {
+    type: 'colorScale',
+    format: {},
+    colorScale: {
+      min: { threshold: { type: 'min' }, color: colors[0] },
+      mid: colors.length === 3 ? { threshold: { type: 'percentile', value: 50 }, color: colors[1] } : undefined,
+      max: { threshold: { type: 'max' }, color: max },
+    },
+  };
+}
+
+export function createDataBar(color: string, options: Partial<DataBar> = {}): ConditionalFormat {
+  return { type: 'dataBar', format: {}, dataBar: { gradient: true, ...options, color } };
+}
+
+// An icon set rule with its icons spread evenly, e.g. 33% and 67% for three
+export function createIconSet(name: IconSetName, options: Partial<Omit<IconSet, 'name'>> = {}): ConditionalFormat {
+  const count = ICON_SETS[name].length;
+  const thresholds = Array.from({ length: count - 1 }, (_, i): ConditionalFormatThreshold => ({
+    type: 'percent',
+    value: Math.round(((i + 1) * 100) / count),
+  }));
+  return { type: 'iconSet', format: {}, iconSet: { thresholds, ...options, name } };
+}
+
+// Sorted numbers in each rule's ranges, kept until the sheet's data changes
+const rangeValuesCache = new WeakMap<ConditionalFormatRule, { data: SparseMatrix<CellData>; values: number[] }>();
+
+function getRangeNumbers(
+  rule: ConditionalFormatRule,
+  data: SparseMatrix<CellData>,
+  getComputedValue?: (row: number, col: number) => any
+): number[] {
+  const cached = rangeValuesCache.get(rule);
+  if (cached && cached.data === data) return cached.values;
+
+  const values: number[] = [];
+  data.forEach((cell, key) => {
+    const [row, col] = parseKey(key);
+    if (!ruleCoversCell(rule, row, col)) return;
+    const number = toNumber(cell.formula && getComputedValue ? getComputedValue(row, col) : cell.value);
+    if (number !== null) values.push(number);
+  });
+  values.sort((a, b) => a - b);
+
+  rangeValuesCache.set(rule, { data, values });
+  return values;
+}
+
+/**
+ * The number a threshold stands for among sorted values. Percentiles
+ * interpolate as Excel's PERCENTILE.INC does.
+ */
+export function resolveThreshold(threshold: ConditionalFormatThreshold, sorted: number[]): number {
+  const min = sorted[0] ?? 0;
+  const max = sorted[sorted.length - 1] ?? 0;
+  const value = threshold.value ?? 0;
+
+  switch (threshold.type) {
+    case 'min':
+      return min;
+    case 'max':
+      return max;
+    case 'percent':
+      return min + ((max - min) * value) / 100;
+    case 'percentile': {
+      if (sorted.length === 0) return 0;
+      const rank = (Math.min(Math.max(value, 0), 100) / 100) * (sorted.length - 1);
+      const lower = Math.floor(rank);
+      const upper = Math.min(lower + 1, sorted.length - 1);
+      return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+    }
+    default:
+      return value;
+  }
+}
+
+const parseHexColor = (color: string): [number, number, number] => {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex.padEnd(6, '0');
+  return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16) || 0) as [number, number, number];
+};
+
+// The color a fraction (0 to 1) of the way from one color to another
+function mixColors(from: string, to: string, fraction: number): string {
+  const a = parseHexColor(from);
+  const b = parseHexColor(to);
+  return '#' + a
+    .map((channel, i) => Math.round(channel + (b[i] - channel) * fraction).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function colorScaleColor(scale: ColorScale, value: number, sorted: number[]): string {
+  const points = [scale.min, ...(scale.mid ? [scale.mid] : []), scale.max]
+    .map(point => ({ at: resolveThreshold(point.threshold, sorted), color: point.color }));
+
+  if (value <= points[0].at) return points[0].color;
+  for (let i = 1; i < points.length; i++) {
+    if (value <= points[i].at) {
+      const span = points[i].at - points[i - 1].at;
+      return mixColors(points[i - 1].color, points[i].color, span > 0 ? (value - points[i - 1].at) / span : 1);
+    }
+  }
+  return points[points.length - 1].color;
+}
+
+// A data bar as percentages of the cell's width
+export interface DataBarFill {
+  left: number;
+  width: number;
+  color: string;
+  gradient: boolean;
+  negative: boolean;
+  // Where zero sits when the bars run both ways
+  axis?: number;
+}
+
+function dataBarFill(bar: DataBar, value: number, sorted: number[]): DataBarFill {
+  const low = resolveThreshold(bar.min ?? { type: 'min' }, sorted);
+  const high = resolveThreshold(bar.max ?? { type: 'max' }, sorted);
+  // Bars grow from zero unless the ends are set explicitly
+  const from = bar.min ? low : Math.min(low, 0);
+  const to = bar.max ? high : Math.max(high, 0);
+  const span = to - from;
+  const position = (n: number) => (span > 0 ? Math.min(Math.max((n - from) / span, 0), 1) * 100 : 100);
+
+  const zero = position(0);
+  const end = position(value);
+  const negative = value < 0;
+  return {
+    left: Math.min(zero, end),
+    width: Math.abs(end - zero),
+    color: negative ? bar.negativeColor ?? bar.color : bar.color,
+    gradient: !!bar.gradient,
+    negative,
+    axis: from < 0 && to > 0 ? zero : undefined,
+  };
+}
+
+function iconFor(iconSet: IconSet, value: number, sorted: number[]): { symbol: string; color: string } {
+  const icons = ICON_SETS[iconSet.name] ?? ICON_SETS['3Arrows'];
+  let index = 0;
+  iconSet.thresholds.forEach((threshold, i) => {
+    if (value >= resolveThreshold(threshold, sorted)) index = i + 1;
+  });
+  index = Math.min(index, icons.length - 1);
+  return icons[iconSet.reverse ? icons.length - 1 - index : index];
+}
+
+export interface ConditionalFormatResult {
+  format: CellFormat;
+  dataBar?: DataBarFill;
+  icon?: { symbol: string; color: string };
+  // Set by data bars and icon sets that show only the bar or icon
+  hideValue?: boolean;
+}
+
+/**
+ * Apply a sheet's conditional formatting rules to a cell. Rules are
+ * evaluated highest priority first, stopping after a matching rule with
+ * stopIfTrue; where matching rules set the same property, the higher
+ * priority rule wins. Color scales, data bars and icon sets apply to any
+ * number in their ranges, scaled against the others; the highest priority
+ * data bar and icon set are drawn. Pass getComputedValue to read formula
+ * results in the ranges, and an evaluator for formula rules.
+ */
+export function resolveConditionalFormatting(
+  baseFormat: CellFormat | undefined,
+  rules: ConditionalFormatRule[] | undefined,
+  value: any,
+  row: number,
+  col: number,
+  data: SparseMatrix<CellData>,
+  getCell?: (r: number, c: number) => CellData | undefined,
+  getComputedValue?: (row: number, col: number) => any,
+  evaluator?: ConditionalFormulaEvaluator
+): ConditionalFormatResult {
+  const result: ConditionalFormatResult = { format: {} };
+  const matched: CellFormat[] = [];
+  const number = toNumber(value);
+
+  for (const rule of rules ?? []) {
+    if (!ruleCoversCell(rule, row, col)) continue;
+
+    if (isVisualizationRule(rule)) {
+      if (number === null) continue;
+      const sorted = getRangeNumbers(rule, data, getComputedValue);
+      if (rule.colorScale) {
+        matched.push({ backgroundColor: colorScaleColor(rule.colorScale, number, sorted) });
+      } else if (rule.dataBar && !result.dataBar) {
+        result.dataBar = dataBarFill(rule.dataBar, number, sorted);
+        result.hideValue = result.hideValue || rule.dataBar.showValue === false;
+      } else if (rule.iconSet && !result.icon) {
+        result.icon = iconFor(rule.iconSet, number, sorted);
+        result.hideValue = result.hideValue || rule.iconSet.showValue === false;
+      }
+      continue;
+    }
+
+    if (!evaluateConditionalFormat(value, rule, row, col, data, getCell, evaluator)) continue;
+    matched.push(rule.format);
+    if (rule.stopIfTrue) break;
+  }
+
+  // combineConditionalFormats lets later formats override earlier ones
+  result.format = combineConditionalFormats(baseFormat, matched.reverse());
+  return result;
+}
+
+/**
+ * Apply a sheet's conditional formatting rules to a cell's format; see
+ * resolveConditionalFormatting
+ */
+export function applyConditionalFormatRules(
+  baseFormat: CellFormat | undefined,
+  rules: ConditionalFormatRule[] | undefined,
+  value: any,
+  row: number,
+  col: number,
+  data: SparseMatrix<CellData>,
+  getCell?: (r: number, c: number) => CellData | undefined
+): CellFormat {
+  return resolveConditionalFormatting(baseFormat, rules, value, row, col, data, getCell).format;
+}
+
+/**
+ * Adjust rule ranges for rows or columns inserted (count > 0) or deleted
+ * (count < 0) at index. Rules whose cells were all deleted are dropped.
+ */
+export function shiftConditionalFormats(
+  rules: ConditionalFormatRule[] | undefined,
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): ConditionalFormatRule[] | undefined {
+  if (!rules?.length || count === 0) return rules;
+
+  const shifted = rules
+    .map(rule => ({ ...rule, ranges: shiftRects(rule.ranges, axis, index, count) }))
+    .filter(rule => rule.ranges.length > 0);
+  return shifted.length ? shifted : undefined;
+}
+
+/**
+ * Adjust rules for the cells in source moving by the offsets. Ranges wholly
+ * inside source move with them, and formula rules' references follow the
+ * cells like those in the sheet's formulas.
+ */
+export function moveConditionalFormats(
+  rules: ConditionalFormatRule[] | undefined,
+  source: SelectionRect,
+  rowOffset: number,
+  colOffset: number,
+  scope: ReferenceScope = {}
+): ConditionalFormatRule[] | undefined {
+  if (!rules?.length) return rules;
+
+  return rules.map(rule => {
+    const ranges = rule.ranges.map(range => moveRect(range, source, rowOffset, colOffset));
+    let value1 = rule.value1;
+    if (rule.type === 'formula' && typeof value1 === 'string') {
+      const written = value1.startsWith('=') ? value1 : `=${value1}`;
+      const moved = moveFormulaReferences(written, source, rowOffset, colOffset, scope);
+      value1 = value1.startsWith('=') ? moved : moved.slice(1);
+    }
+    const changed = value1 !== rule.value1 || ranges.some((range, i) => range !== rule.ranges[i]);
+    return changed ? { ...rule, ranges, value1 } : rule;
+  });
+}
+
+/**
+ * A rule's ranges as text, e.g. "A1:A20, C1:C20"
+ */
+export function formatAppliesTo(ranges: SelectionRect[]): string {
+  return ranges
+    .map(range => {
+      const r = normalizeRect(range);
+      const start = cellRefToString(r.startRow, r.startCol);
+      return r.startRow === r.endRow && r.startCol === r.endCol
+        ? start
+        : `${start}:${cellRefToString(r.endRow, r.endCol)}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Parse comma-separated references on the active sheet, such as
+ * "A1:A20, C:C", as rule ranges. Returns null if any part isn't one.
+ */
+export function parseAppliesTo(state: SpreadsheetState, text: string): SelectionRect[] | null {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const ranges: SelectionRect[] = [];
+  for (const part of parts) {
+    // Defined names are not accepted: a rule keeps its own ranges
+    const resolved = parseRangeReference(part) ? resolveRange(state, part) : null;
+    if (!resolved || resolved.sheetId !== getActiveSheetId(state)) return null;
+    ranges.push(resolved.rect);
+  }
+  return ranges;
+}
+
 /**
  * DFIR-specific conditional formatting presets
  */
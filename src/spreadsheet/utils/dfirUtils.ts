@@ -63,6 +63,12 @@ export const SEVERITY_LEVELS = {
   INFO: { level: 0, color: '#17a2b8', description: 'Informational entry' }
 };
 
+// Types reported by detectIOCType, in the order they are tested
+export const IOC_TYPES = [
+  'MD5', 'SHA1', 'SHA256', 'SHA512', 'IPv4', 'IPv6', 'Domain', 'URL',
+  'Email', 'Registry', 'FilePath', 'CVE', 'Bitcoin'
+];
+
 /**
  * IOC Detection Functions
  */
@@ -108,20 +114,6 @@ export function isSuspiciousProcess(processName: string): boolean {
 export function parseTimestamp(value: any): Date | null {
   if (!value) return null;
   
-  // Handle various timestamp formats common in DFIR
-  const _formats = [
-    // ISO formats
-    /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/,
-    // Windows FILETIME (as string)
-    /^\d{17,18}$/,
-    // Unix timestamp (seconds)
-    /^\d{10}$/,
-    // Unix timestamp (milliseconds)  
-    /^\d{13}$/,
-    // Common log formats
-    /^\d{1,2}\/\d{1,2}\/\d{4}\s+\d{1,2}:\d{2}:\d{2}/,
-  ];
-
   const str = String(value);
   
   // Try direct Date parsing first
@@ -158,6 +150,55 @@ export function isRecentActivity(timestamp: any, hoursAgo: number = 24): boolean
   return date > threshold;
 }
 
+// A timestamp as ISO 8601 text in UTC, e.g. 2024-01-15T08:30:00Z, with
+// milliseconds only when it has them; null for dates past year 9999
+export function formatUTCTimestamp(date: Date): string | null {
+  if (isNaN(date.getTime()) || date.getUTCFullYear() > 9999 || date.getUTCFullYear() < 0) return null;
+  return date.toISOString().replace('.000Z', 'Z');
+}
+
+/**
+ * Network Helpers
+ */
+function ipv4ToNumber(ip: string): number | null {
+  if (!IOC_PATTERNS.ipv4.test(ip)) return null;
+  return ip.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+}
+
+// Whether an IPv4 address is in a block such as 10.0.0.0/8; a bare address
+// is a block of one. Null when the block isn't valid IPv4 CIDR notation
+export function cidrMatch(ip: string, cidr: string): boolean | null {
+  const [base, bits = '32', ...rest] = cidr.trim().split('/');
+  const network = ipv4ToNumber(base);
+  if (network === null || rest.length || !/^\d{1,2}$/.test(bits) || Number(bits) > 32) return null;
+
+  const address = ipv4ToNumber(ip.trim());
+  if (address === null) return false;
+  // Compare the leading bits; 2^(32 - bits) addresses share them
+  const size = 2 ** (32 - Number(bits));
+  return Math.floor(address / size) === Math.floor(network / size);
+}
+
+// Make IOCs safe to share: hxxp://evil[.]example, analyst[@]corp[.]com
+export function defang(text: string): string {
+  return text
+    .replace(/\bhttp(s?):\/\//gi, (_, s) => `hxxp${s}[://]`)
+    .replace(/\bftp:\/\//gi, 'fxp[://]')
+    .replace(/(?<!\[)\.(?!\])/g, '[.]')
+    .replace(/(?<!\[)@(?!\])/g, '[@]');
+}
+
+// Undo defanging, including the common variants such as (.) and [dot]
+export function refang(text: string): string {
+  return text
+    .replace(/\[:\/\/\]/g, '://')
+    .replace(/\[:\]/g, ':')
+    .replace(/\bhxxp(s?)/gi, (_, s) => `http${s}`)
+    .replace(/\bfxp\b/gi, 'ftp')
+    .replace(/\[\.\]|\(\.\)|\{\.\}|\[dot\]|\(dot\)/gi, '.')
+    .replace(/\[@\]|\(@\)|\[at\]|\(at\)/gi, '@');
+}
+
 /**
  * DFIR-Specific Filter Presets
  */
@@ -165,6 +206,7 @@ export const DFIR_FILTERS = {
   // Network Analysis
   externalIPs: (column: number): FilterRule => ({
     column,
+    dfirFilter: { name: 'externalIPs' },
     type: 'custom',
     condition: 'equals',
     customFunction: (value) => {
@@ -175,6 +217,7 @@ export const DFIR_FILTERS = {
 
   privateIPs: (column: number): FilterRule => ({
     column,
+    dfirFilter: { name: 'privateIPs' },
     type: 'custom', 
     condition: 'equals',
     customFunction: (value) => {
@@ -186,6 +229,7 @@ export const DFIR_FILTERS = {
   // File Analysis
   executableFiles: (column: number): FilterRule => ({
     column,
+    dfirFilter: { name: 'executableFiles' },
     type: 'custom',
     condition: 'equals', 
     customFunction: (value) => isSuspiciousFile(String(value))
@@ -194,6 +238,7 @@ export const DFIR_FILTERS = {
   // Process Analysis
   suspiciousProcesses: (column: number): FilterRule => ({
     column,
+    dfirFilter: { name: 'suspiciousProcesses' },
     type: 'custom',
     condition: 'equals',
     customFunction: (value) => isSuspiciousProcess(String(value))
@@ -202,6 +247,7 @@ export const DFIR_FILTERS = {
   // Hash Analysis
   validHashes: (column: number): FilterRule => ({
     column,
+    dfirFilter: { name: 'validHashes' },
     type: 'custom',
     condition: 'equals',
     customFunction: (value) => {
@@ -215,6 +261,7 @@ export const DFIR_FILTERS = {
   // Timeline Analysis  
   recentActivity: (column: number, hours: number = 24): FilterRule => ({
     column,
+    dfirFilter: { name: 'recentActivity', args: [hours] },
     type: 'custom',
     condition: 'equals',
     customFunction: (value) => isRecentActivity(value, hours)
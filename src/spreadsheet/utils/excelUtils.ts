@@ -1,6 +1,33 @@
 import * as XLSX from 'xlsx';
-import { CellData, SparseMatrix, keyOf, CellFormat } from '../types/spreadsheet';
+import {
+  CellData,
+  SparseMatrix,
+  keyOf,
+  CellFormat,
+  Sheet,
+  SelectionRect,
+  ConditionalFormat,
+  ConditionalFormatRule,
+  ConditionalFormatThreshold,
+  ColorScalePoint,
+  IconSetName,
+  Chart,
+  Table,
+} from '../types/spreadsheet';
 import { autoDetectFormat } from './formatUtils';
+import { ICON_SETS, createConditionalFormatId, formatAppliesTo, isVisualizationRule } from './conditionalFormattingUtils';
+import { createSheet } from './sheetUtils';
+import { CHART_COLORS, getChartData } from './chartUtils';
+import { columnToLetter } from './columnUtils';
+import { cellRefToString, quoteSheetName } from './formulaUtils';
+import { normalizeRect } from './selectionUtils';
+import {
+  TableReference,
+  expandStructuredReferences,
+  getSheetTableReferences,
+  getTableDataRows,
+  qualifyStructuredReferences,
+} from './tableUtils';
 
 export interface ExcelImportOptions {
   sheetIndex?: number;
@@ -22,12 +49,728 @@ export interface ExcelExportOptions {
   description?: string;
   formatAsTable?: boolean;
   freezeHeaders?: boolean;
+  // Merged regions when exporting a single sheet's data
+  merges?: SelectionRect[];
+  // Conditional formatting rules when exporting a single sheet's data
+  conditionalFormats?: ConditionalFormatRule[];
+  // Charts when exporting a single sheet's data
+  charts?: Chart[];
+  // Tables when exporting a single sheet's data
+  tables?: Table[];
+}
+
+// A zip read by XLSX.CFB, which the xlsx typings leave untyped
+type ZipContainer = ReturnType<typeof XLSX.CFB.read>;
+
+// Adds or replaces a file in a zip
+function writeZipFile(zip: ZipContainer, path: string, text: string): void {
+  const content = new TextEncoder().encode(text);
+  const entry = XLSX.CFB.find(zip, path);
+  if (entry) {
+    entry.content = content;
+    entry.size = content.length;
+  } else {
+    XLSX.CFB.utils.cfb_add(zip, path, content);
+  }
+}
+
+const readZipFile = (zip: ZipContainer, path: string): string | null => {
+  const entry = XLSX.CFB.find(zip, path);
+  return entry ? new TextDecoder().decode(entry.content as Uint8Array) : null;
+};
+
+const CFVO_TYPES: Record<ConditionalFormatThreshold['type'], string> = {
+  min: 'min',
+  max: 'max',
+  number: 'num',
+  percent: 'percent',
+  percentile: 'percentile',
+};
+
+function cfvoXml(threshold: ConditionalFormatThreshold): string {
+  const value = threshold.type === 'min' || threshold.type === 'max' ? '' : ` val="${threshold.value ?? 0}"`;
+  return `<cfvo type="${CFVO_TYPES[threshold.type]}"${value}/>`;
+}
+
+// "#63be7b" as the ARGB Excel expects, "FF63BE7B"
+function colorXml(color: string, element: string = 'color'): string {
+  const hex = color.replace('#', '');
+  const rgb = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+  return `<${element} rgb="FF${rgb.toUpperCase()}"/>`;
+}
+
+// Excel's <cfRule> for a color scale, data bar or icon set rule
+function visualizationRuleXml(rule: ConditionalFormatRule, priority: number): string | null {
+  if (rule.colorScale) {
+    const { min, mid, max } = rule.colorScale;
+    const points = mid ? [min, mid, max] : [min, max];
+    return `<cfRule type="colorScale" priority="${priority}"><colorScale>`
+      + points.map(point => cfvoXml(point.threshold)).join('')
+      + points.map(point => colorXml(point.color)).join('')
+      + '</colorScale></cfRule>';
+  }
+  if (rule.dataBar) {
+    const { min = { type: 'min' }, max = { type: 'max' }, color, showValue } = rule.dataBar;
+    return `<cfRule type="dataBar" priority="${priority}"><dataBar${showValue === false ? ' showValue="0"' : ''}>`
+      + cfvoXml(min) + cfvoXml(max) + colorXml(color)
+      + '</dataBar></cfRule>';
+  }
+  if (rule.iconSet) {
+    const { name, thresholds, reverse, showValue } = rule.iconSet;
+    const attributes = `iconSet="${name}"${reverse ? ' reverse="1"' : ''}${showValue === false ? ' showValue="0"' : ''}`;
+    // Excel lists a threshold for the lowest icon too
+    return `<cfRule type="iconSet" priority="${priority}"><iconSet ${attributes}>`
+      + cfvoXml({ type: 'percent', value: 0 }) + thresholds.map(cfvoXml).join('')
+      + '</iconSet></cfRule>';
+  }
+  return null;
+}
+
+// Comparisons Excel and cell value rules share
+const CELL_IS_OPERATORS = ['greaterThan', 'lessThan', 'equal', 'notEqual', 'between', 'notBetween'] as const;
+type CellIsOperator = typeof CELL_IS_OPERATORS[number];
+const isCellIsOperator = (condition: string | undefined): condition is CellIsOperator =>
+  (CELL_IS_OPERATORS as readonly string[]).includes(condition ?? '');
+
+// A rule value in a formula: numbers as they are, anything else as text
+function formulaOperand(value: any): string {
+  if (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)))) {
+    return String(Number(value));
+  }
+  return `"${String(value ?? '').replace(/"/g, '""')}"`;
+}
+
+// Excel's text rules, with the formula Excel writes for each; cell is the
+// top-left cell of the range and text a quoted string
+const TEXT_RULES: Record<string, { type: string; operator: string; test: (cell: string, text: string) => string }> = {
+  contains: { type: 'containsText', operator: 'containsText', test: (cell, text) => `NOT(ISERROR(SEARCH(${text},${cell})))` },
+  notContains: { type: 'notContainsText', operator: 'notContains', test: (cell, text) => `ISERROR(SEARCH(${text},${cell}))` },
+  startsWith: { type: 'beginsWith', operator: 'beginsWith', test: (cell, text) => `LEFT(${cell},LEN(${text}))=${text}` },
+  endsWith: { type: 'endsWith', operator: 'endsWith', test: (cell, text) => `RIGHT(${cell},LEN(${text}))=${text}` },
+};
+
+const DATE_COMPARISONS: Record<string, string> = { greaterThan: '>', lessThan: '<', equal: '=' };
+
+// A date rule value in a formula: TODAY() as it is, dates through DATEVALUE
+const dateOperand = (value: any): string =>
+  /^TODAY\(\)/.test(String(value)) ? String(value).replace(/\s+/g, '') : `DATEVALUE(${formulaOperand(String(value))})`;
+
+const formulaXml = (formulas: string[]): string =>
+  formulas.map(formula => `<formula>${escapeXml(formula)}</formula>`).join('');
+
+/**
+ * Excel's <cfRule> for a cell value, text, date or formula rule, formatting
+ * with differential format dxfId. Formulas are written for the top-left cell
+ * of the rule's first range, as Excel reads them. Text rules matching any of
+ * several comma-separated terms, and date rules, have no Excel type of their
+ * own and are written as formula rules.
+ */
+function conditionRuleXml(rule: ConditionalFormatRule, priority: number, dxfId: number): string | null {
+  const anchor = normalizeRect(rule.ranges[0]);
+  const cell = cellRefToString(anchor.startRow, anchor.startCol);
+  const attributes = `dxfId="${dxfId}" priority="${priority}"${rule.stopIfTrue ? ' stopIfTrue="1"' : ''}`;
+  const expression = (formula: string) => `<cfRule type="expression" ${attributes}>${formulaXml([formula])}</cfRule>`;
+
+  switch (rule.type) {
+    case 'formula': {
+      const formula = String(rule.value1 ?? '').replace(/^=/, '');
+      return formula ? expression(formula) : null;
+    }
+    case 'cellValue':
+    case 'textContains': {
+      if (isCellIsOperator(rule.condition) && (rule.type === 'cellValue' || rule.condition === 'equal' || rule.condition === 'notEqual')) {
+        const values = rule.condition === 'between' || rule.condition === 'notBetween' ? [rule.value1, rule.value2] : [rule.value1];
+        return `<cfRule type="cellIs" ${attributes} operator="${rule.condition}">${formulaXml(values.map(formulaOperand))}</cfRule>`;
+      }
+      const text = TEXT_RULES[rule.condition ?? ''];
+      if (!text) return null;
+      // Text rules that contain or end with text match any of several terms
+      const terms = rule.type === 'textContains' && (rule.condition === 'contains' || rule.condition === 'endsWith')
+        ? String(rule.value1 ?? '').split(',').map(term => term.trim())
+        : [String(rule.value1 ?? '')];
+      if (terms.length > 1) {
+        return expression(`OR(${terms.map(term => text.test(cell, formulaOperand(term))).join(',')})`);
+      }
+      return `<cfRule type="${text.type}" ${attributes} operator="${text.operator}" text="${escapeXml(terms[0])}">`
+        + formulaXml([text.test(cell, `"${terms[0].replace(/"/g, '""')}"`)])
+        + '</cfRule>';
+    }
+    case 'dateOccurring': {
+      if (rule.condition === 'between') {
+        return expression(`AND(${cell}>=${dateOperand(rule.value1)},${cell}<=${dateOperand(rule.value2)})`);
+      }
+      const comparison = DATE_COMPARISONS[rule.condition ?? ''];
+      return comparison ? expression(`${cell}${comparison}${dateOperand(rule.value1)}`) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Excel's differential format <dxf>, the formatting a matching rule applies
+function dxfXml(format: CellFormat): string {
+  const font = [
+    format.bold && '<b/>',
+    format.italic && '<i/>',
+    format.strikethrough && '<strike/>',
+    format.underline && '<u/>',
+    format.color && colorXml(format.color),
+  ].filter(Boolean).join('');
+  const fill = format.backgroundColor
+    ? `<fill><patternFill patternType="solid">${colorXml(format.backgroundColor, 'bgColor')}</patternFill></fill>`
+    : '';
+  return `<dxf>${font ? `<font>${font}</font>` : ''}${fill}</dxf>`;
+}
+
+// The first of the worksheet parts that follow <conditionalFormatting>, in
+// the order Excel's schema puts them
+const AFTER_CONDITIONAL_FORMATTING = new RegExp(
+  `<(${[
+    'dataValidations', 'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup', 'headerFooter', 'rowBreaks', 'colBreaks',
+    'customProperties', 'cellWatches', 'ignoredErrors', 'smartTags', 'drawing', 'legacyDrawing', 'legacyDrawingHF',
+    'picture', 'oleObjects', 'controls', 'webPublishItems', 'tableParts', 'extLst',
+  ].join('|')})[ >/]|</worksheet>`
+);
+
+/**
+ * Add each sheet's conditional formatting rules to a written .xlsx file as
+ * Excel conditional formatting, with the formats of the rules that apply
+ * one added to the styles. rulesBySheet lists each worksheet's rules in tab
+ * order. The xlsx library can't write these, so they go straight into the
+ * worksheet and styles XML.
+ */
+export function addConditionalFormatsToXlsx(
+  bytes: Uint8Array,
+  rulesBySheet: Array<ConditionalFormatRule[] | undefined>
+): Uint8Array {
+  const zip = XLSX.CFB.read(bytes, { type: 'array' });
+  const stylesXml = readZipFile(zip, '/xl/styles.xml');
+  // Differential formats already in the file come first
+  const existingDxfs = Number(/<dxfs count="(\d+)"/.exec(stylesXml ?? '')?.[1] ?? 0);
+  const dxfs: string[] = [];
+  let changed = false;
+
+  rulesBySheet.forEach((rules = [], index) => {
+    // Priority 1 is the highest, as in the rule list
+    const xml = rules
+      .map((rule, i) => {
+        if (rule.ranges.length === 0) return null;
+        const cfRule = isVisualizationRule(rule)
+          ? visualizationRuleXml(rule, i + 1)
+          : stylesXml && conditionRuleXml(rule, i + 1, existingDxfs + dxfs.length);
+        if (!cfRule) return null;
+        if (!isVisualizationRule(rule)) dxfs.push(dxfXml(rule.format));
+        return `<conditionalFormatting sqref="${formatAppliesTo(rule.ranges).split(', ').join(' ')}">${cfRule}</conditionalFormatting>`;
+      })
+      .filter(Boolean)
+      .join('');
+    const sheetXml = xml && readZipFile(zip, `/xl/worksheets/sheet${index + 1}.xml`);
+    if (!sheetXml) return;
+
+    // <conditionalFormatting> goes after any already there, before the parts
+    // Excel expects after it
+    const match = AFTER_CONDITIONAL_FORMATTING.exec(sheetXml);
+    if (!match) return;
+    writeZipFile(zip, `/xl/worksheets/sheet${index + 1}.xml`, sheetXml.slice(0, match.index) + xml + sheetXml.slice(match.index));
+    changed = true;
+  });
+
+  if (stylesXml && dxfs.length > 0) {
+    const count = existingDxfs + dxfs.length;
+    const written = /<dxfs count="\d+"\/>/.test(stylesXml)
+      ? stylesXml.replace(/<dxfs count="\d+"\/>/, `<dxfs count="${count}">${dxfs.join('')}</dxfs>`)
+      : /<\/dxfs>/.test(stylesXml)
+        ? stylesXml.replace(/<dxfs count="\d+">/, `<dxfs count="${count}">`).replace('</dxfs>', `${dxfs.join('')}</dxfs>`)
+        : stylesXml.replace(/<tableStyles|<colors|<extLst|<\/styleSheet>/, tag => `<dxfs count="${count}">${dxfs.join('')}</dxfs>${tag}`);
+    writeZipFile(zip, '/xl/styles.xml', written);
+  }
+
+  return changed ? new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' })) : bytes;
+}
+
+const CFVO_THRESHOLD_TYPES = Object.fromEntries(
+  Object.entries(CFVO_TYPES).map(([type, cfvo]) => [cfvo, type])
+) as Record<string, ConditionalFormatThreshold['type']>;
+
+// The children of an XML element with a tag name, in document order
+const childElements = (element: Element, tagName: string): Element[] =>
+  Array.from(element.getElementsByTagName(tagName));
+
+function thresholdFromXml(cfvo: Element): ConditionalFormatThreshold | null {
+  const type = CFVO_THRESHOLD_TYPES[cfvo.getAttribute('type') ?? ''];
+  if (!type) return null;
+  return type === 'min' || type === 'max' ? { type } : { type, value: Number(cfvo.getAttribute('val') ?? 0) };
+}
+
+// "FF63BE7B" as "#63be7b"; theme and indexed colors aren't read
+function colorFromXml(color: Element | undefined): string | undefined {
+  const rgb = color?.getAttribute('rgb');
+  return rgb ? `#${rgb.slice(-6).toLowerCase()}` : undefined;
+}
+
+function formatFromDxf(dxf: Element | undefined): CellFormat {
+  const format: CellFormat = {};
+  const font = dxf && childElements(dxf, 'font')[0];
+  if (font) {
+    if (childElements(font, 'b').length) format.bold = true;
+    if (childElements(font, 'i').length) format.italic = true;
+    if (childElements(font, 'u').length) format.underline = true;
+    if (childElements(font, 'strike').length) format.strikethrough = true;
+    const color = colorFromXml(childElements(font, 'color')[0]);
+    if (color) format.color = color;
+  }
+  const fill = dxf && childElements(dxf, 'fill')[0];
+  // Solid fills in differential formats take the background color
+  const background = fill && colorFromXml(childElements(fill, 'bgColor')[0] ?? childElements(fill, 'fgColor')[0]);
+  if (background) format.backgroundColor = background;
+  return format;
+}
+
+// A rule value written in a formula, or undefined when the formula must be calculated
+function literalOperand(formula: string): number | string | undefined {
+  const text = formula.trim();
+  if (/^"(?:[^"]|"")*"$/.test(text)) return text.slice(1, -1).replace(/""/g, '"');
+  return text !== '' && !isNaN(Number(text)) ? Number(text) : undefined;
+}
+
+const CELL_IS_SYMBOLS: Record<string, string> = {
+  greaterThan: '>', lessThan: '<', equal: '=', notEqual: '<>', greaterThanOrEqual: '>=', lessThanOrEqual: '<=',
+};
+
+const TEXT_CONDITIONS: Record<string, ConditionalFormat['condition']> = {
+  containsText: 'contains', notContainsText: 'notContains', beginsWith: 'startsWith', endsWith: 'endsWith',
+};
+
+/**
+ * The rule an Excel <cfRule> stands for, or null for the kinds OpenSheets
+ * doesn't have, such as top 10 and duplicate values. cell is the top-left
+ * cell of the rule's first range. Comparisons with calculated values, and
+ * those Excel has but OpenSheets lacks, become formula rules.
+ */
+function ruleFromXml(cfRule: Element, cell: string, format: CellFormat): ConditionalFormat | null {
+  const formulas = childElements(cfRule, 'formula').map(formula => formula.textContent ?? '');
+  const thresholds = (parent: Element) => childElements(parent, 'cfvo').map(thresholdFromXml);
+  const colors = (parent: Element) => childElements(parent, 'color').map(colorFromXml);
+
+  switch (cfRule.getAttribute('type')) {
+    case 'cellIs': {
+      const operator = cfRule.getAttribute('operator') ?? '';
+      const values = formulas.map(literalOperand);
+      if (isCellIsOperator(operator) && values.length > 0 && values.every(value => value !== undefined)) {
+        return { type: 'cellValue', condition: operator, value1: values[0], value2: values[1], format };
+      }
+      const [first, second] = formulas;
+      const formula = operator === 'between'
+        ? `AND(${cell}>=${first},${cell}<=${second})`
+        : operator === 'notBetween'
+          ? `OR(${cell}<${first},${cell}>${second})`
+          : CELL_IS_SYMBOLS[operator] && `${cell}${CELL_IS_SYMBOLS[operator]}${first}`;
+      return formula ? { type: 'formula', value1: `=${formula}`, format } : null;
+    }
+    case 'containsText':
+    case 'notContainsText':
+    case 'beginsWith':
+    case 'endsWith': {
+      const text = cfRule.getAttribute('text');
+      if (text === null) return null;
+      return { type: 'textContains', condition: TEXT_CONDITIONS[cfRule.getAttribute('type')!], value1: text, format };
+    }
+    case 'expression':
+      return formulas[0] ? { type: 'formula', value1: `=${formulas[0]}`, format } : null;
+    case 'colorScale': {
+      const scale = childElements(cfRule, 'colorScale')[0];
+      const points = scale && thresholds(scale).map((threshold, i) => threshold && { threshold, color: colors(scale)[i] });
+      if (!points || (points.length !== 2 && points.length !== 3) || points.some(point => !point?.color)) return null;
+      const [min, mid, max] = points.length === 3 ? points : [points[0], undefined, points[1]];
+      return {
+        type: 'colorScale',
+        format: {},
+        colorScale: { min: min as ColorScalePoint, mid: mid as ColorScalePoint | undefined, max: max as ColorScalePoint },
+      };
+    }
+    case 'dataBar': {
+      const bar = childElements(cfRule, 'dataBar')[0];
+      const [min, max] = bar ? thresholds(bar) : [];
+      const color = bar && colors(bar)[0];
+      if (!color) return null;
+      return {
+        type: 'dataBar',
+        format: {},
+        dataBar: {
+          color,
+          ...(min ? { min } : {}),
+          ...(max ? { max } : {}),
+          ...(bar.getAttribute('showValue') === '0' ? { showValue: false } : {}),
+        },
+      };
+    }
+    case 'iconSet': {
+      const icons = childElements(cfRule, 'iconSet')[0];
+      // Excel's default icon set when none is named
+      const name = (icons?.getAttribute('iconSet') ?? '3TrafficLights1') as IconSetName;
+      if (!icons || !ICON_SETS[name]) return null;
+      // Excel lists a threshold for the lowest icon too
+      const points = thresholds(icons).slice(1);
+      if (points.some(point => !point)) return null;
+      return {
+        type: 'iconSet',
+        format: {},
+        iconSet: {
+          name,
+          thresholds: points as ConditionalFormatThreshold[],
+          ...(icons.getAttribute('reverse') === '1' ? { reverse: true } : {}),
+          ...(icons.getAttribute('showValue') === '0' ? { showValue: false } : {}),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// The path of each worksheet's XML in an .xlsx file, keyed by sheet name
+function worksheetPaths(zip: ZipContainer): Record<string, string> {
+  const parser = new DOMParser();
+  const workbookXml = readZipFile(zip, '/xl/workbook.xml');
+  const relsXml = readZipFile(zip, '/xl/_rels/workbook.xml.rels');
+  if (!workbookXml || !relsXml) return {};
+
+  const targets = new Map(
+    childElements(parser.parseFromString(relsXml, 'application/xml').documentElement, 'Relationship')
+      .map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') ?? ''])
+  );
+  const paths: Record<string, string> = {};
+  childElements(parser.parseFromString(workbookXml, 'application/xml').documentElement, 'sheet').forEach(sheet => {
+    const target = targets.get(sheet.getAttribute('r:id'));
+    if (target) paths[sheet.getAttribute('name') ?? ''] = target.startsWith('/') ? target : `/xl/${target}`;
+  });
+  return paths;
+}
+
+/**
+ * Each worksheet's conditional formatting in an .xlsx file, keyed by sheet
+ * name, highest priority first. Files that aren't .xlsx have none.
+ */
+function readConditionalFormats(binary: string): Record<string, ConditionalFormatRule[]> {
+  let zip: ZipContainer;
+  try {
+    zip = XLSX.CFB.read(binary, { type: 'binary' });
+  } catch {
+    return {};
+  }
+  const parser = new DOMParser();
+  const stylesXml = readZipFile(zip, '/xl/styles.xml');
+  const dxfs = stylesXml ? childElements(parser.parseFromString(stylesXml, 'application/xml').documentElement, 'dxf') : [];
+
+  const rulesBySheet: Record<string, ConditionalFormatRule[]> = {};
+  Object.entries(worksheetPaths(zip)).forEach(([name, path]) => {
+    const sheetXml = readZipFile(zip, path);
+    if (!sheetXml?.includes('<conditionalFormatting')) return;
+
+    const rules: Array<{ priority: number; rule: ConditionalFormatRule }> = [];
+    const sheet = parser.parseFromString(sheetXml, 'application/xml').documentElement;
+    childElements(sheet, 'conditionalFormatting').forEach(formatting => {
+      const ranges = (formatting.getAttribute('sqref') ?? '').split(/\s+/).filter(Boolean).map(ref => {
+        const range = XLSX.utils.decode_range(ref);
+        return { startRow: range.s.r, startCol: range.s.c, endRow: range.e.r, endCol: range.e.c };
+      });
+      if (ranges.length === 0) return;
+      const cell = cellRefToString(ranges[0].startRow, ranges[0].startCol);
+
+      childElements(formatting, 'cfRule').forEach(cfRule => {
+        const dxfId = cfRule.getAttribute('dxfId');
+        const rule = ruleFromXml(cfRule, cell, formatFromDxf(dxfId === null ? undefined : dxfs[Number(dxfId)]));
+        if (!rule) return;
+        rules.push({
+          priority: Number(cfRule.getAttribute('priority') ?? rules.length + 1),
+          rule: {
+            ...rule,
+            id: createConditionalFormatId(),
+            ranges,
+            ...(cfRule.getAttribute('stopIfTrue') === '1' ? { stopIfTrue: true } : {}),
+          },
+        });
+      });
+    });
+    if (rules.length > 0) rulesBySheet[name] = rules.sort((a, b) => a.priority - b.priority).map(({ rule }) => rule);
+  });
+  return rulesBySheet;
+}
+
+const CHART_NS = 'http://schemas.openxmlformats.org/drawingml/2006/chart';
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Drawings measure in EMUs, 9525 to a pixel
+const EMU_PER_PIXEL = 9525;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Absolute reference to part of a column, e.g. 'Sheet 1'!$B$2:$B$10
+const columnRef = (sheetName: string, col: number, startRow: number, endRow: number = startRow): string => {
+  const letter = columnToLetter(col);
+  const end = endRow === startRow ? '' : `:$${letter}$${endRow + 1}`;
+  return `${quoteSheetName(sheetName)}!$${letter}$${startRow + 1}${end}`;
+};
+
+const fillXml = (index: number): string =>
+  `<a:solidFill><a:srgbClr val="${CHART_COLORS[index % CHART_COLORS.length].slice(1).toUpperCase()}"/></a:solidFill>`;
+
+// The <c:chartSpace> of a chart plotting its range on the named sheet
+function chartXml(chart: Chart, sheetName: string, data: SparseMatrix<CellData>): string | null {
+  const r = normalizeRect(chart.range);
+  const firstRow = chart.hasHeader ? r.startRow + 1 : r.startRow;
+  if (firstRow > r.endRow) return null;
+
+  const hasCategories = r.endCol > r.startCol;
+  const seriesCols = Array.from({ length: r.endCol - r.startCol + (hasCategories ? 0 : 1) }, (_, i) =>
+    r.startCol + (hasCategories ? i + 1 : i)
+  );
+  const seriesXml = (col: number, i: number, styleXml: string, axisTags: [string, string]) => {
+    const name = chart.hasHeader
+      ? `<c:tx><c:strRef><c:f>${escapeXml(columnRef(sheetName, col, r.startRow))}</c:f></c:strRef></c:tx>`
+      : `<c:tx><c:v>Series ${i + 1}</c:v></c:tx>`;
+    // Scatter charts read their x values as numbers
+    const [categoryTag, valueTag] = axisTags;
+    const categoryRef = categoryTag === 'xVal' ? 'numRef' : 'strRef';
+    const categories = hasCategories
+      ? `<c:${categoryTag}><c:${categoryRef}><c:f>${escapeXml(columnRef(sheetName, r.startCol, firstRow, r.endRow))}</c:f></c:${categoryRef}></c:${categoryTag}>`
+      : '';
+    return `<c:ser><c:idx val="${i}"/><c:order val="${i}"/>${name}${styleXml}${categories}`
+      + `<c:${valueTag}><c:numRef><c:f>${escapeXml(columnRef(sheetName, col, firstRow, r.endRow))}</c:f></c:numRef></c:${valueTag}>`;
+  };
+
+  const categoryAxis = '<c:catAx><c:axId val="1"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>'
+    + '<c:axPos val="b"/><c:tickLblPos val="nextTo"/><c:crossAx val="2"/><c:crosses val="autoZero"/></c:catAx>';
+  const valueAxis = (id: number, position: string, crossAx: number, crossBetween: string) =>
+    `<c:valAx><c:axId val="${id}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/>`
+    + `<c:axPos val="${position}"/>${position === 'l' ? '<c:majorGridlines/>' : ''}<c:tickLblPos val="nextTo"/>`
+    + `<c:crossAx val="${crossAx}"/><c:crosses val="autoZero"/><c:crossBetween val="${crossBetween}"/></c:valAx>`;
+  const axisIds = '<c:axId val="1"/><c:axId val="2"/>';
+
+  let plot: string;
+  let legend = seriesCols.length > 1;
+  switch (chart.type) {
+    case 'bar':
+      plot = '<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>'
+        + seriesCols.map((col, i) => seriesXml(col, i, `<c:spPr>${fillXml(i)}</c:spPr><c:invertIfNegative val="0"/>`, ['cat', 'val']) + '</c:ser>').join('')
+        + `<c:gapWidth val="60"/>${axisIds}</c:barChart>${categoryAxis}${valueAxis(2, 'l', 1, 'between')}`;
+      break;
+    case 'line':
+      plot = '<c:lineChart><c:grouping val="standard"/><c:varyColors val="0"/>'
+        + seriesCols.map((col, i) => seriesXml(col, i, `<c:spPr><a:ln w="28575">${fillXml(i)}</a:ln></c:spPr><c:marker><c:symbol val="circle"/></c:marker>`, ['cat', 'val']) + '<c:smooth val="0"/></c:ser>').join('')
+        + `<c:marker val="1"/>${axisIds}</c:lineChart>${categoryAxis}${valueAxis(2, 'l', 1, 'between')}`;
+      break;
+    case 'area':
+      plot = '<c:areaChart><c:grouping val="standard"/><c:varyColors val="0"/>'
+        + seriesCols.map((col, i) => seriesXml(col, i, `<c:spPr>${fillXml(i)}</c:spPr>`, ['cat', 'val']) + '</c:ser>').join('')
+        + `${axisIds}</c:areaChart>${categoryAxis}${valueAxis(2, 'l', 1, 'midCat')}`;
+      break;
+    case 'pie':
+      // One series, a slice per row, colored by Excel
+      plot = '<c:pieChart><c:varyColors val="1"/>'
+        + seriesXml(seriesCols[0], 0, '', ['cat', 'val']) + '</c:ser>'
+        + '<c:firstSliceAng val="0"/></c:pieChart>';
+      legend = true;
+      break;
+    case 'scatter':
+      plot = '<c:scatterChart><c:scatterStyle val="lineMarker"/><c:varyColors val="0"/>'
+        + seriesCols.map((col, i) => seriesXml(col, i, `<c:spPr><a:ln w="19050"><a:noFill/></a:ln></c:spPr><c:marker><c:symbol val="circle"/><c:spPr>${fillXml(i)}</c:spPr></c:marker>`, ['xVal', 'yVal']) + '<c:smooth val="0"/></c:ser>').join('')
+        + `${axisIds}</c:scatterChart>${valueAxis(1, 'b', 2, 'midCat')}${valueAxis(2, 'l', 1, 'midCat')}`;
+      break;
+    case 'histogram': {
+      // Excel's own histograms need the newer chartex format, so the bins
+      // are counted here and written as a column chart of fixed values
+      const { categories, series } = getChartData(chart, (row, col) => data.get(keyOf(row, col))?.value);
+      const counts = series[0].values;
+      if (categories.length === 0) return null;
+      const points = (values: Array<string | number | null>) =>
+        `<c:ptCount val="${values.length}"/>` + values.map((value, i) => `<c:pt idx="${i}"><c:v>${escapeXml(String(value ?? 0))}</c:v></c:pt>`).join('');
+      plot = '<c:barChart><c:barDir val="col"/><c:grouping val="clustered"/><c:varyColors val="0"/>'
+        + `<c:ser><c:idx val="0"/><c:order val="0"/><c:tx><c:v>Frequency</c:v></c:tx><c:spPr>${fillXml(0)}</c:spPr><c:invertIfNegative val="0"/>`
+        + `<c:cat><c:strLit>${points(categories)}</c:strLit></c:cat><c:val><c:numLit>${points(counts)}</c:numLit></c:val></c:ser>`
+        + `<c:gapWidth val="0"/>${axisIds}</c:barChart>${categoryAxis}${valueAxis(2, 'l', 1, 'between')}`;
+      legend = false;
+      break;
+    }
+  }
+
+  const title = chart.title
+    ? `<c:title><c:tx><c:rich><a:bodyPr/><a:p><a:r><a:t>${escapeXml(chart.title)}</a:t></a:r></a:p></c:rich></c:tx><c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>`
+    : '<c:autoTitleDeleted val="1"/>';
+  return XML_DECLARATION
+    + `<c:chartSpace xmlns:c="${CHART_NS}" xmlns:a="${DRAWING_NS}" xmlns:r="${RELATIONSHIPS_NS}"><c:chart>${title}`
+    + `<c:plotArea><c:layout/>${plot}</c:plotArea>`
+    + (legend ? '<c:legend><c:legendPos val="r"/><c:overlay val="0"/></c:legend>' : '')
+    + '<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart></c:chartSpace>';
+}
+
+/**
+ * Add each sheet's charts to a written .xlsx file as Excel charts, anchored
+ * at the same cells and plotting the same ranges. sheets lists the worksheets
+ * in tab order. The xlsx library can't write charts, so the chart and drawing
+ * parts are added to the file directly.
+ */
+export function addChartsToXlsx(
+  bytes: Uint8Array,
+  sheets: Array<Pick<Sheet, 'name' | 'data' | 'charts'>>
+): Uint8Array {
+  const zip = XLSX.CFB.read(bytes, { type: 'array' });
+  const overrides: string[] = [];
+  let chartCount = 0;
+
+  sheets.forEach((sheet, index) => {
+    const sheetPath = `/xl/worksheets/sheet${index + 1}.xml`;
+    const sheetXml = sheet.charts?.length ? readZipFile(zip, sheetPath) : null;
+    if (!sheetXml) return;
+
+    const anchors: string[] = [];
+    const relationships: string[] = [];
+    sheet.charts!.forEach(chart => {
+      const xml = chartXml(chart, sheet.name, sheet.data);
+      if (!xml) return;
+      chartCount++;
+      writeZipFile(zip, `/xl/charts/chart${chartCount}.xml`, xml);
+      overrides.push(`<Override PartName="/xl/charts/chart${chartCount}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>`);
+
+      const id = `rId${anchors.length + 1}`;
+      relationships.push(`<Relationship Id="${id}" Type="${RELATIONSHIPS_NS}/chart" Target="../charts/chart${chartCount}.xml"/>`);
+      anchors.push(
+        `<xdr:oneCellAnchor><xdr:from><xdr:col>${chart.anchor.col}</xdr:col><xdr:colOff>0</xdr:colOff>`
+        + `<xdr:row>${chart.anchor.row}</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from>`
+        + `<xdr:ext cx="${chart.width * EMU_PER_PIXEL}" cy="${chart.height * EMU_PER_PIXEL}"/>`
+        + `<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="${anchors.length + 2}" name="Chart ${anchors.length + 1}"/>`
+        + '<xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr><xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>'
+        + `<a:graphic><a:graphicData uri="${CHART_NS}"><c:chart xmlns:c="${CHART_NS}" xmlns:r="${RELATIONSHIPS_NS}" r:id="${id}"/>`
+        + '</a:graphicData></a:graphic></xdr:graphicFrame><xdr:clientData/></xdr:oneCellAnchor>'
+      );
+    });
+    if (anchors.length === 0) return;
+
+    // One drawing per sheet holds its charts
+    const drawing = index + 1;
+    writeZipFile(
+      zip,
+      `/xl/drawings/drawing${drawing}.xml`,
+      XML_DECLARATION
+        + `<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" xmlns:a="${DRAWING_NS}">`
+        + anchors.join('') + '</xdr:wsDr>'
+    );
+    writeZipFile(
+      zip,
+      `/xl/drawings/_rels/drawing${drawing}.xml.rels`,
+      XML_DECLARATION + `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">${relationships.join('')}</Relationships>`
+    );
+    overrides.push(`<Override PartName="/xl/drawings/drawing${drawing}.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>`);
+
+    // The sheet may already have relationships, e.g. for comments
+    const relsPath = `/xl/worksheets/_rels/sheet${index + 1}.xml.rels`;
+    const drawingRelationship = `<Relationship Id="rIdDrawing1" Type="${RELATIONSHIPS_NS}/drawing" Target="../drawings/drawing${drawing}.xml"/>`;
+    const rels = readZipFile(zip, relsPath);
+    writeZipFile(
+      zip,
+      relsPath,
+      rels
+        ? rels.replace('</Relationships>', `${drawingRelationship}</Relationships>`)
+        : XML_DECLARATION + `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">${drawingRelationship}</Relationships>`
+    );
+
+    // <drawing> goes before the parts Excel expects after it
+    const match = /<(legacyDrawing|legacyDrawingHF|picture|oleObjects|controls|webPublishItems|tableParts|extLst)[ >/]|<\/worksheet>/.exec(sheetXml)!;
+    writeZipFile(
+      zip,
+      sheetPath,
+      sheetXml.slice(0, match.index) + '<drawing r:id="rIdDrawing1"/>' + sheetXml.slice(match.index)
+    );
+  });
+
+  if (overrides.length === 0) return bytes;
+  const contentTypes = readZipFile(zip, '/[Content_Types].xml')!;
+  writeZipFile(zip, '/[Content_Types].xml', contentTypes.replace('</Types>', `${overrides.join('')}</Types>`));
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }));
+}
+
+// A1 range of rows and columns, e.g. A1:D20
+const rangeRef = (startRow: number, startCol: number, endRow: number, endCol: number): string =>
+  XLSX.utils.encode_range({ s: { r: startRow, c: startCol }, e: { r: endRow, c: endCol } });
+
+// The table part of a table
+function tableXml(table: TableReference, id: number): string {
+  const r = table.range;
+  const { end: dataEnd } = getTableDataRows(table);
+  const totals = table.showTotalRow ? ' totalsRowCount="1"' : ' totalsRowShown="0"';
+  const columns = table.columns.map((name, i) => `<tableColumn id="${i + 1}" name="${escapeXml(name)}"/>`).join('');
+  return XML_DECLARATION
+    + `<table xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" id="${id}" name="${escapeXml(table.name)}"`
+    + ` displayName="${escapeXml(table.name)}" ref="${rangeRef(r.startRow, r.startCol, r.endRow, r.endCol)}"${totals}>`
+    + `<autoFilter ref="${rangeRef(r.startRow, r.startCol, dataEnd, r.endCol)}"/>`
+    + `<tableColumns count="${table.columns.length}">${columns}</tableColumns>`
+    + '<tableStyleInfo name="TableStyleMedium2" showFirstColumn="0" showLastColumn="0" showRowStripes="1" showColumnStripes="0"/>'
+    + '</table>';
+}
+
+/**
+ * Add each sheet's tables to a written .xlsx file as Excel tables over the
+ * same cells, so formulas in the file can use their structured references.
+ * sheets lists the worksheets in tab order. The xlsx library can't write
+ * tables, so the table parts are added to the file directly.
+ */
+export function addTablesToXlsx(
+  bytes: Uint8Array,
+  sheets: Array<Pick<Sheet, 'name' | 'data' | 'tables'>>
+): Uint8Array {
+  const zip = XLSX.CFB.read(bytes, { type: 'array' });
+  const overrides: string[] = [];
+
+  sheets.forEach((sheet, index) => {
+    const sheetPath = `/xl/worksheets/sheet${index + 1}.xml`;
+    const tables = getSheetTableReferences([sheet]);
+    const sheetXml = tables.length ? readZipFile(zip, sheetPath) : null;
+    if (!sheetXml) return;
+
+    const relationships: string[] = [];
+    const parts: string[] = [];
+    tables.forEach((table, i) => {
+      // Table ids are unique in the workbook
+      const id = overrides.length + 1;
+      writeZipFile(zip, `/xl/tables/table${id}.xml`, tableXml(table, id));
+      overrides.push(`<Override PartName="/xl/tables/table${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.table+xml"/>`);
+      relationships.push(`<Relationship Id="rIdTable${i + 1}" Type="${RELATIONSHIPS_NS}/table" Target="../tables/table${id}.xml"/>`);
+      parts.push(`<tablePart r:id="rIdTable${i + 1}"/>`);
+    });
+
+    const relsPath = `/xl/worksheets/_rels/sheet${index + 1}.xml.rels`;
+    const rels = readZipFile(zip, relsPath);
+    writeZipFile(
+      zip,
+      relsPath,
+      rels
+        ? rels.replace('</Relationships>', `${relationships.join('')}</Relationships>`)
+        : XML_DECLARATION + `<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}">${relationships.join('')}</Relationships>`
+    );
+
+    // <tableParts> is the last part but extLst
+    const match = /<extLst[ >]|<\/worksheet>/.exec(sheetXml)!;
+    writeZipFile(
+      zip,
+      sheetPath,
+      sheetXml.slice(0, match.index) + `<tableParts count="${parts.length}">${parts.join('')}</tableParts>` + sheetXml.slice(match.index)
+    );
+  });
+
+  if (overrides.length === 0) return bytes;
+  const contentTypes = readZipFile(zip, '/[Content_Types].xml')!;
+  writeZipFile(zip, '/[Content_Types].xml', contentTypes.replace('</Types>', `${overrides.join('')}</Types>`));
+  return new Uint8Array(XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' }));
 }
 
 export async function importFromExcel(
   file: File,
   options: ExcelImportOptions = {}
-): Promise<{ data: SparseMatrix<CellData>; rows: number; cols: number }> {
+): Promise<{ data: SparseMatrix<CellData>; rows: number; cols: number; merges: SelectionRect[]; sheets: Sheet[] }> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
@@ -54,7 +797,23 @@ export async function importFromExcel(
         
         // Convert to sparse matrix
         const result = convertWorksheetToSparseMatrix(worksheet, options);
-        resolve(result);
+        
+        // Convert every worksheet so the whole workbook can be loaded
+        const conditionalFormats = readConditionalFormats(data as string);
+        const sheets = workbook.SheetNames.map(name => {
+          const converted = workbook.Sheets[name] === worksheet
+            ? result
+            : convertWorksheetToSparseMatrix(workbook.Sheets[name], options);
+          return createSheet(name, {
+            data: converted.data,
+            maxRows: Math.max(options.maxRows ?? 1000, converted.rows),
+            maxCols: Math.max(options.maxCols ?? 100, converted.cols),
+            merges: converted.merges.length > 0 ? converted.merges : undefined,
+            conditionalFormats: conditionalFormats[name],
+          });
+        });
+        
+        resolve({ ...result, sheets });
       } catch (error) {
         reject(error);
       }
@@ -71,7 +830,7 @@ export async function importFromExcel(
 function convertWorksheetToSparseMatrix(
   worksheet: XLSX.WorkSheet,
   options: ExcelImportOptions
-): { data: SparseMatrix<CellData>; rows: number; cols: number } {
+): { data: SparseMatrix<CellData>; rows: number; cols: number; merges: SelectionRect[] } {
   const data = new Map<string, CellData>();
   const range = XLSX.utils.decode_range(worksheet['!ref'] || 'A1');
   
@@ -129,7 +888,20 @@ function convertWorksheetToSparseMatrix(
     }
   }
   
-  return { data, rows: maxRows, cols: maxCols };
+  // Merged regions, clipped to the imported cells
+  const merges = (worksheet['!merges'] || [])
+    .map(merge => ({
+      startRow: merge.s.r,
+      startCol: merge.s.c,
+      endRow: Math.min(merge.e.r, maxRows - 1),
+      endCol: Math.min(merge.e.c, maxCols - 1),
+    }))
+    .filter(merge =>
+      merge.startRow <= merge.endRow && merge.startCol <= merge.endCol &&
+      (merge.startRow !== merge.endRow || merge.startCol !== merge.endCol)
+    );
+  
+  return { data, rows: maxRows, cols: maxCols, merges };
 }
 
 function convertExcelFormatToOpenSheets(style: any): CellFormat {
@@ -159,14 +931,25 @@ function convertExcelFormatToOpenSheets(style: any): CellFormat {
   return format;
 }
 
-export function exportToExcel(
-  data: SparseMatrix<CellData>,
-  _maxRows: number,
-  _maxCols: number,
-  filename: string = 'spreadsheet.xlsx',
-  options: ExcelExportOptions = {}
-): void {
-  // Create workbook
+type ExportedSheet = Pick<Sheet, 'name' | 'data' | 'merges' | 'conditionalFormats' | 'charts' | 'tables'>;
+
+// The sheets to export, in tab order; a single sheet's data takes the rest
+// from the options
+function getExportedSheets(data: SparseMatrix<CellData> | Sheet[], options: ExcelExportOptions): ExportedSheet[] {
+  return Array.isArray(data)
+    ? data
+    : [{
+      name: options.sheetName || 'Sheet1',
+      data,
+      merges: options.merges,
+      conditionalFormats: options.conditionalFormats,
+      charts: options.charts,
+      tables: options.tables,
+    }];
+}
+
+// A workbook with one worksheet per sheet
+function createWorkbook(sheets: ExportedSheet[], options: ExcelExportOptions): XLSX.WorkBook {
   const wb = XLSX.utils.book_new();
   
   // Set workbook properties
@@ -178,6 +961,92 @@ export function exportToExcel(
     };
   }
   
+  const tableReferences = getSheetTableReferences(sheets);
+  sheets.forEach(sheet => {
+    // Structured references stay when the tables are exported, else they
+    // become the A1 references Excel can read without them
+    const toExcelFormula = (formula: string, row: number, col: number) => {
+      if (!formula.includes('[')) return formula;
+      return options.formatAsTable
+        ? qualifyStructuredReferences(formula, tableReferences, sheet.name, { row, col })
+        : expandStructuredReferences(formula, tableReferences, sheet.name, { row, col });
+    };
+    const ws = convertSparseMatrixToWorksheet(sheet.data, options, sheet.merges, toExcelFormula);
+    if (options.formatAsTable) setTableHeadersAsText(ws, sheet.tables);
+    XLSX.utils.book_append_sheet(wb, ws, sheet.name);
+  });
+  return wb;
+}
+
+/**
+ * The .xlsx file exportToExcel downloads, with its conditional formatting,
+ * charts and tables
+ */
+export function exportToExcelBytes(
+  data: SparseMatrix<CellData> | Sheet[],
+  options: ExcelExportOptions = {}
+): Uint8Array {
+  const sheets = getExportedSheets(data, options);
+  let bytes = new Uint8Array(XLSX.write(createWorkbook(sheets, options), { type: 'array', bookType: 'xlsx' }));
+  
+  const rulesBySheet = sheets.map(sheet => sheet.conditionalFormats);
+  if (rulesBySheet.some(rules => rules?.length)) bytes = addConditionalFormatsToXlsx(bytes, rulesBySheet);
+  if (sheets.some(sheet => sheet.charts?.length)) bytes = addChartsToXlsx(bytes, sheets);
+  if (options.formatAsTable && sheets.some(sheet => sheet.tables?.length)) bytes = addTablesToXlsx(bytes, sheets);
+  return bytes;
+}
+
+export function exportToExcel(
+  data: SparseMatrix<CellData> | Sheet[],
+  _maxRows: number,
+  _maxCols: number,
+  filename: string = 'spreadsheet.xlsx',
+  options: ExcelExportOptions = {}
+): void {
+  // Other formats have no conditional formatting, charts or tables to add
+  if (!/\.xlsx$/i.test(filename)) {
+    XLSX.writeFile(createWorkbook(getExportedSheets(data, options), options), filename);
+    return;
+  }
+
+  const blob = new Blob([exportToExcelBytes(data, options) as BlobPart], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+// Excel tables name their columns after header cells holding text
+function setTableHeadersAsText(ws: XLSX.WorkSheet, tables: Table[] = []): void {
+  tables.forEach(table => {
+    const r = normalizeRect(table.range);
+    for (let col = r.startCol; col <= r.endCol; col++) {
+      const cell = ws[XLSX.utils.encode_cell({ r: r.startRow, c: col })];
+      if (cell && cell.t !== 's') {
+        cell.t = 's';
+        cell.v = String(cell.v ?? '');
+        delete cell.f;
+      }
+    }
+  });
+}
+
+function convertSparseMatrixToWorksheet(
+  data: SparseMatrix<CellData>,
+  options: ExcelExportOptions,
+  merges: SelectionRect[] = [],
+  toExcelFormula: (formula: string, row: number, col: number) => string = formula => formula
+): XLSX.WorkSheet {
   // Create worksheet data
   const wsData: any[][] = [];
   
@@ -189,6 +1058,10 @@ export function exportToExcel(
     actualMaxRow = Math.max(actualMaxRow, row);
     actualMaxCol = Math.max(actualMaxCol, col);
   });
+  merges.forEach(merge => {
+    actualMaxRow = Math.max(actualMaxRow, merge.endRow);
+    actualMaxCol = Math.max(actualMaxCol, merge.endCol);
+  });
   
   // Build worksheet array
   for (let row = 0; row <= actualMaxRow; row++) {
@@ -211,6 +1084,13 @@ export function exportToExcel(
   // Create worksheet
   const ws = XLSX.utils.aoa_to_sheet(wsData);
   
+  if (merges.length > 0) {
+    ws['!merges'] = merges.map(merge => ({
+      s: { r: merge.startRow, c: merge.startCol },
+      e: { r: merge.endRow, c: merge.endCol },
+    }));
+  }
+  
   // Apply formulas if requested
   if (options.includeFormulas) {
     data.forEach((cellData, key) => {
@@ -218,7 +1098,7 @@ export function exportToExcel(
         const [row, col] = key.split(':').map(Number);
         const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
         if (ws[cellAddress]) {
-          ws[cellAddress].f = cellData.formula.substring(1); // Remove '=' prefix
+          ws[cellAddress].f = toExcelFormula(cellData.formula, row, col).substring(1); // Remove '=' prefix
         }
       }
     });
@@ -237,11 +1117,7 @@ export function exportToExcel(
     });
   }
   
-  // Add worksheet to workbook
-  XLSX.utils.book_append_sheet(wb, ws, options.sheetName || 'Sheet1');
-  
-  // Write file
-  XLSX.writeFile(wb, filename);
+  return ws;
 }
 
 function convertToExcelFormat(format: CellFormat): any {
@@ -1,13 +1,30 @@
-import { FilterRule, CellData, SparseMatrix, keyOf } from '../types/spreadsheet';
+import {
+  FilterRule,
+  FilterState,
+  FilterGroup,
+  FilterCondition,
+  FilterView,
+  CellData,
+  SparseMatrix,
+  SpreadsheetState,
+  Table,
+  keyOf,
+} from '../types/spreadsheet';
+import { DFIR_FILTERS } from './dfirUtils';
 
 /**
- * Apply filter rules to determine which rows should be hidden
+ * Apply filter rules to determine which rows should be hidden. A row is shown
+ * when it passes every rule or group. Rules with a sourceRange need
+ * getRangeValues to look up the values of that range or name. Pass getValue
+ * to filter on formula results rather than stored values.
  */
 export function applyFilters(
   data: SparseMatrix<CellData>,
-  filters: FilterRule[],
+  filters: FilterCondition[],
   maxRows: number,
-  _maxCols: number
+  _maxCols: number,
+  getRangeValues?: (reference: string) => any[],
+  getValue: (row: number, col: number) => any = (row, col) => data.get(keyOf(row, col))?.value
 ): Set<number> {
   const hiddenRows = new Set<number>();
 
@@ -15,23 +32,16 @@ export function applyFilters(
     return hiddenRows;
   }
 
-  // Check each row against all filter rules
-  for (let row = 0; row < maxRows; row++) {
-    let shouldHide = false;
-
-    // All filter rules must pass (AND logic)
-    for (const filter of filters) {
-      const cellKey = keyOf(row, filter.column);
-      const cellData = data.get(cellKey);
-      const value = cellData?.value;
-
-      if (!evaluateFilterRule(value, filter)) {
-        shouldHide = true;
-        break; // If any filter fails, hide the row
-      }
-    }
+  // Resolve each source range once rather than per row
+  const sourceValues = new Map<string, any[]>();
+  const resolve = (reference: string): any[] | undefined => {
+    if (!getRangeValues) return undefined;
+    if (!sourceValues.has(reference)) sourceValues.set(reference, getRangeValues(reference));
+    return sourceValues.get(reference);
+  };
 
-    if (shouldHide) {
+  for (let row = 0; row < maxRows; row++) {
+    if (!filters.every(filter => rowPasses(getValue, row, filter, resolve))) {
       hiddenRows.add(row);
     }
   }
@@ -39,14 +49,43 @@ export function applyFilters(
   return hiddenRows;
 }
 
+export function isFilterGroup(condition: FilterCondition): condition is FilterGroup {
+  return 'conditions' in condition;
+}
+
+// Whether a row passes a rule, or a group of them. Empty groups pass.
+function rowPasses(
+  getValue: (row: number, col: number) => any,
+  row: number,
+  condition: FilterCondition,
+  resolve: (reference: string) => any[] | undefined
+): boolean {
+  if (isFilterGroup(condition)) {
+    const { conditions } = condition;
+    const passes = conditions.length === 0 || (condition.operator === 'or'
+      ? conditions.some(child => rowPasses(getValue, row, child, resolve))
+      : conditions.every(child => rowPasses(getValue, row, child, resolve)));
+    return condition.negate ? !passes : passes;
+  }
+
+  const value = getValue(row, condition.column);
+  return evaluateFilterRule(value, condition, condition.sourceRange ? resolve(condition.sourceRange) : undefined);
+}
+
 /**
- * Evaluate a single filter rule against a cell value
+ * Evaluate a single filter rule against a cell value. When sourceValues is
+ * given, equals/notEquals test membership in those values instead of rule.value.
  */
-export function evaluateFilterRule(value: any, rule: FilterRule): boolean {
+export function evaluateFilterRule(value: any, rule: FilterRule, sourceValues?: any[]): boolean {
   if (rule.customFunction) {
     return rule.customFunction(value);
   }
 
+  if (sourceValues && (rule.condition === 'equals' || rule.condition === 'notEquals')) {
+    const found = sourceValues.some(sourceValue => valuesMatch(value, sourceValue, rule));
+    return rule.condition === 'equals' ? found : !found;
+  }
+
   // Handle empty/null values
   const isEmpty = value === null || value === undefined || value === '';
   
@@ -58,7 +97,7 @@ export function evaluateFilterRule(value: any, rule: FilterRule): boolean {
   }
 
   // If value is empty and condition isn't isEmpty/isNotEmpty, it fails most conditions
-  if (isEmpty && rule.condition !== 'isEmpty' && rule.condition !== 'isNotEmpty') {
+  if (isEmpty) {
     return rule.condition === 'notEquals' || rule.condition === 'notContains';
   }
 
@@ -216,16 +255,18 @@ export function sortData(
 }
 
 /**
- * Get unique values from a column for filter dropdown
+ * Get unique values from a column for filter dropdown, over the rows from
+ * startRow up to maxRows
  */
 export function getColumnUniqueValues(
   data: SparseMatrix<CellData>,
   column: number,
-  maxRows: number
+  maxRows: number,
+  startRow: number = 0
 ): { value: any; count: number }[] {
   const valueMap = new Map<string, { value: any; count: number }>();
 
-  for (let row = 0; row < maxRows; row++) {
+  for (let row = startRow; row < maxRows; row++) {
     const cellKey = keyOf(row, column);
     const cellData = data.get(cellKey);
     const value = cellData?.value ?? '';
@@ -360,6 +401,229 @@ export function createDFIRFilter(preset: keyof typeof DFIR_FILTER_PRESETS, colum
     column,
     type: 'custom',
     condition: 'equals', // Not used for custom functions
-    customFunction: DFIR_FILTER_PRESETS[preset]
+    customFunction: DFIR_FILTER_PRESETS[preset],
+    preset
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Create a group of filter rules and groups
+ */
+export function createFilterGroup(
+  operator: FilterGroup['operator'],
+  conditions: FilterCondition[],
+  negate: boolean = false
+): FilterGroup {
+  return negate ? { operator, negate, conditions } : { operator, conditions };
+}
+
+export function createFilterViewId(): string {
+  return `view_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Rows hidden by a sheet's table filters, kept per tables array and the
+// sheet's own hidden rows so callers asking row by row don't rebuild them
+const tableHiddenRows = new WeakMap<Table[], WeakMap<Set<number>, Set<number>>>();
+const NO_ROWS = new Set<number>();
+
+/**
+ * Rows hidden for the local user: those of the open filter view, if any,
+ * otherwise those of the sheet's filter, along with those of its tables'
+ * filters
+ */
+export function getHiddenRows(
+  state: Pick<SpreadsheetState, 'filterState' | 'activeFilterView' | 'tables'>
+): Set<number> | undefined {
+  const hiddenRows = state.activeFilterView?.hiddenRows ?? state.filterState?.hiddenRows;
+  const { tables } = state;
+  if (!tables?.some(table => table.hiddenRows?.length)) return hiddenRows;
+
+  const base = hiddenRows ?? NO_ROWS;
+  let cached = tableHiddenRows.get(tables);
+  if (!cached) {
+    cached = new WeakMap();
+    tableHiddenRows.set(tables, cached);
+  }
+  let combined = cached.get(base);
+  if (!combined) {
+    combined = new Set(base);
+    tables.forEach(table => table.hiddenRows?.forEach(row => combined!.add(row)));
+    cached.set(base, combined);
+  }
+  return combined;
+}
+
+/**
+ * Whether a row is hidden by the sheet's filter, the open filter view or a
+ * table's filter
+ */
+export function isRowFiltered(
+  state: Pick<SpreadsheetState, 'filterState' | 'activeFilterView' | 'tables'>,
+  row: number
+): boolean {
+  return !!getHiddenRows(state)?.has(row);
+}
+
+// Position of a row or column after inserting (count > 0) or deleting
+// (count < 0) at index, or null when deleted
+function shiftPosition(position: number, index: number, count: number): number | null {
+  if (position < index) return position;
+  if (count > 0) return position + count;
+  return position >= index - count ? position + count : null;
+}
+
+function shiftRows(rows: Set<number>, index: number, count: number): Set<number> {
+  const shifted = new Set<number>();
+  rows.forEach(row => {
+    const position = shiftPosition(row, index, count);
+    if (position !== null) shifted.add(position);
+  });
+  return shifted;
+}
+
+/**
+ * Rules with their columns moved for columns inserted (count > 0) or
+ * deleted (count < 0) at index, dropping rules on deleted columns
+ */
+export function shiftFilterRules(rules: FilterRule[], index: number, count: number): FilterRule[] {
+  return rules.flatMap(rule => {
+    const column = shiftPosition(rule.column, index, count);
+    return column === null ? [] : [{ ...rule, column }];
+  });
+}
+
+/**
+ * Adjust filters for rows or columns inserted (count > 0) or deleted
+ * (count < 0) at index. Hidden rows and rule columns move with their
+ * cells; rules on deleted columns are dropped.
+ */
+export function shiftFilterState(
+  filterState: FilterState | undefined,
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): FilterState | undefined {
+  if (!filterState || count === 0) return filterState;
+
+  if (axis === 'row') {
+    return { ...filterState, hiddenRows: shiftRows(filterState.hiddenRows, index, count) };
+  }
+
+  const { sortColumn, sortKeys } = filterState;
+  return {
+    ...filterState,
+    rules: shiftFilterRules(filterState.rules, index, count),
+    sortColumn: sortColumn === undefined ? undefined : shiftPosition(sortColumn, index, count) ?? undefined,
+    sortKeys: sortKeys?.flatMap(key => {
+      const column = shiftPosition(key.column, index, count);
+      return column === null ? [] : [{ ...key, column }];
+    }),
+  };
+}
+
+/**
+ * A group with its rule columns moved for columns inserted or deleted at
+ * index, dropping rules on deleted columns
+ */
+export function shiftFilterGroup(group: FilterGroup, index: number, count: number): FilterGroup {
+  return {
+    ...group,
+    conditions: group.conditions.flatMap<FilterCondition>(condition =>
+      isFilterGroup(condition) ? [shiftFilterGroup(condition, index, count)] : shiftFilterRules([condition], index, count)
+    ),
+  };
+}
+
+/**
+ * The sheet's filter, filter views and open view after rows or columns are
+ * inserted (count > 0) or deleted (count < 0) at index
+ */
+export function shiftFilters(
+  state: SpreadsheetState,
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): Pick<SpreadsheetState, 'filterState' | 'filterViews' | 'activeFilterView'> {
+  const { filterViews, activeFilterView } = state;
+  return {
+    filterState: shiftFilterState(state.filterState, axis, index, count),
+    filterViews: axis === 'col' && filterViews
+      ? filterViews.map(view => ({ ...view, filter: shiftFilterGroup(view.filter, index, count) }))
+      : filterViews,
+    activeFilterView: axis === 'row' && activeFilterView
+      ? { ...activeFilterView, hiddenRows: shiftRows(activeFilterView.hiddenRows, index, count) }
+      : activeFilterView,
+  };
+}
+
+// Functions can't be stored, so custom rules are kept only when they come
+// from DFIR_FILTER_PRESETS or DFIR_FILTERS
+const isSavable = (rule: FilterRule): boolean => !rule.customFunction || !!rule.preset || !!rule.dfirFilter;
+
+/**
+ * Rules as saved, without their functions
+ */
+export function serializeFilterRules(rules: FilterRule[]): FilterRule[] {
+  return rules
+    .filter(isSavable)
+    .map(({ customFunction, ...rule }) => rule);
+}
+
+/**
+ * Saved rules with the functions of their DFIR presets restored
+ */
+export function deserializeFilterRules(rules: FilterRule[]): FilterRule[] {
+  return rules.map(restoreRule);
+}
+
+function restoreRule(rule: FilterRule): FilterRule {
+  if (rule.preset && rule.preset in DFIR_FILTER_PRESETS) {
+    return { ...rule, customFunction: DFIR_FILTER_PRESETS[rule.preset as keyof typeof DFIR_FILTER_PRESETS] };
+  }
+  if (rule.dfirFilter && rule.dfirFilter.name in DFIR_FILTERS) {
+    const factory = DFIR_FILTERS[rule.dfirFilter.name as keyof typeof DFIR_FILTERS] as
+      (column: number, ...args: any[]) => FilterRule;
+    return { ...rule, customFunction: factory(rule.column, ...(rule.dfirFilter.args ?? [])).customFunction };
+  }
+  return rule;
+}
+
+/**
+ * A filter view as saved, see serializeFilterRules
+ */
+export function serializeFilterView(view: FilterView): FilterView {
+  const serializeGroup = (group: FilterGroup): FilterGroup => ({
+    ...group,
+    conditions: group.conditions.flatMap<FilterCondition>(condition =>
+      isFilterGroup(condition) ? [serializeGroup(condition)] : serializeFilterRules([condition])
+    ),
+  });
+  return { ...view, filter: serializeGroup(view.filter) };
+}
+
+/**
+ * A saved filter view with the functions of its DFIR presets restored
+ */
+export function deserializeFilterView(view: FilterView): FilterView {
+  const deserializeGroup = (group: FilterGroup): FilterGroup => ({
+    ...group,
+    conditions: group.conditions.map(condition =>
+      isFilterGroup(condition) ? deserializeGroup(condition) : restoreRule(condition)
+    ),
+  });
+  return { ...view, filter: deserializeGroup(view.filter) };
+}
+
+// Equality used for source range membership, following the rule's type and case sensitivity
+function valuesMatch(value: any, other: any, rule: FilterRule): boolean {
+  if (rule.type === 'number') {
+    return Number(value) === Number(other);
+  }
+  if (rule.type === 'date') {
+    return new Date(value).getTime() === new Date(other).getTime();
+  }
+
+  const a = String(value ?? '');
+  const b = String(other ?? '');
+  return rule.caseSensitive ? a === b : a.toLowerCase() === b.toLowerCase();
+}
@@ -0,0 +1,159 @@
+import { CellData, Selection, SpreadsheetState, keyOf, parseKey } from '../types/spreadsheet';
+import { SpreadsheetAction } from '../types/actions';
+import { normalizeRect } from './selectionUtils';
+import { parseClipboardValue } from './clipboardUtils';
+import { detectIOCType } from './dfirUtils';
+
+export type FindLookIn = 'values' | 'formulas' | 'both';
+export type FindScope = 'sheet' | 'selection';
+
+export interface FindOptions {
+  query: string;
+  // Formula cells are matched on their computed value, their formula, or either
+  lookIn?: FindLookIn;
+  matchCase?: boolean;
+  // The whole cell must match, not just part of it
+  wholeCell?: boolean;
+  regex?: boolean;
+  scope?: FindScope;
+  // Find values of this IOC type (see detectIOCType), or 'any' type, instead of the query
+  iocType?: string;
+}
+
+export interface FindMatch {
+  row: number;
+  col: number;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The pattern a search looks for. Throws a SyntaxError for an invalid
+ * regular expression.
+ */
+export function createSearchPattern(options: FindOptions, global: boolean = false): RegExp {
+  const source = options.regex ? options.query : escapeRegExp(options.query);
+  const flags = `${global ? 'g' : ''}${options.matchCase ? '' : 'i'}`;
+  return new RegExp(options.wholeCell ? `^(?:${source})$` : source, flags);
+}
+
+const isIOC = (value: unknown, iocType: string): boolean => {
+  const type = detectIOCType(String(value ?? ''));
+  return !!type && (iocType === 'any' || type === iocType);
+};
+
+/**
+ * Cells matching a search, in row-major order. Formula cells match on their
+ * computed value when getComputedValue is given. Only the cells and the
+ * selected ranges of the state are read.
+ */
+export function findMatches(
+  state: Pick<SpreadsheetState, 'data'> & { selection: Pick<Selection, 'ranges'> },
+  options: FindOptions,
+  getComputedValue?: (row: number, col: number) => any
+): FindMatch[] {
+  if (!options.iocType && !options.query) return [];
+
+  const pattern = options.iocType ? null : createSearchPattern(options);
+  const lookIn = options.lookIn ?? 'values';
+  const ranges = options.scope === 'selection' ? state.selection.ranges.map(normalizeRect) : [];
+  const matches: FindMatch[] = [];
+
+  state.data.forEach((cell, key) => {
+    const [row, col] = parseKey(key);
+    if (ranges.length && !ranges.some(r =>
+      row >= r.startRow && row <= r.endRow && col >= r.startCol && col <= r.endCol
+    )) {
+      return;
+    }
+
+    const value = cell.formula && getComputedValue ? getComputedValue(row, col) : cell.value;
+    const found = pattern
+      ? (!cell.formula || lookIn !== 'formulas') && pattern.test(String(value ?? '')) ||
+        (!!cell.formula && lookIn !== 'values' && pattern.test(cell.formula))
+      // Indicators are values, never formulas
+      : isIOC(value, options.iocType!);
+
+    if (found) matches.push({ row, col });
+  });
+
+  return matches.sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+/**
+ * Index of the match after (or before) a cell in row-major order, wrapping
+ * around; -1 when there are none
+ */
+export function nextMatch(
+  matches: FindMatch[],
+  from: FindMatch | null,
+  backwards: boolean = false
+): number {
+  if (matches.length === 0) return -1;
+  if (!from) return backwards ? matches.length - 1 : 0;
+
+  const compare = (m: FindMatch) => m.row - from.row || m.col - from.col;
+  if (backwards) {
+    for (let i = matches.length - 1; i >= 0; i--) {
+      if (compare(matches[i]) < 0) return i;
+    }
+    return matches.length - 1;
+  }
+  const index = matches.findIndex(m => compare(m) > 0);
+  return index === -1 ? 0 : index;
+}
+
+/**
+ * The cell after replacing a search's matches in it, or null if nothing
+ * changes. Formula cells are replaced in their formula text; a search that
+ * matched only their computed value leaves them alone.
+ */
+function replaceInCell(
+  cell: CellData,
+  options: FindOptions,
+  pattern: RegExp | null,
+  replacement: string
+): Partial<CellData> | null {
+  if (cell.formula && (options.iocType || options.lookIn === undefined || options.lookIn === 'values')) {
+    return null;
+  }
+
+  const text = cell.formula ?? String(cell.value ?? '');
+  let replaced: string;
+  if (pattern) {
+    // Literal searches insert the replacement as typed, without $1 and the like
+    replaced = options.regex ? text.replace(pattern, replacement) : text.replace(pattern, () => replacement);
+  } else {
+    replaced = isIOC(text, options.iocType!) ? replacement : text;
+  }
+
+  if (replaced === text) return null;
+  return { formula: undefined, ...parseClipboardValue(replaced) };
+}
+
+/**
+ * Replace a search's matches in the given cells as one undoable step, or
+ * null if no cell changes
+ */
+export function createReplaceAction(
+  state: SpreadsheetState,
+  matches: FindMatch[],
+  options: FindOptions,
+  replacement: string
+): SpreadsheetAction | null {
+  const pattern = options.iocType ? null : createSearchPattern(options, true);
+  const updates: Array<{ row: number; col: number; data: Partial<CellData> }> = [];
+
+  matches.forEach(({ row, col }) => {
+    const cell = state.data.get(keyOf(row, col));
+    const data = cell && replaceInCell(cell, options, pattern, replacement);
+    if (data) updates.push({ row, col, data });
+  });
+
+  if (updates.length === 0) return null;
+  return {
+    type: 'BATCH',
+    payload: [{ type: 'SET_CELLS', payload: { updates } }],
+    label: `Replace ${updates.length} ${updates.length === 1 ? 'cell' : 'cells'}`,
+  };
+}
@@ -0,0 +1,266 @@
+import { letterToColumn } from './columnUtils';
+
+export type FormulaTokenType =
+  | 'reference'
+  | 'function'
+  | 'name'
+  | 'structured'
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'error'
+  | 'operator'
+  | 'paren'
+  | 'separator'
+  | 'whitespace'
+  | 'unknown';
+
+/**
+ * One end of a reference. Whole-column references have no row and
+ * whole-row references have no column.
+ */
+export interface ReferencePart {
+  row: number | null;
+  col: number | null;
+  absRow: boolean;
+  absCol: boolean;
+}
+
+export interface ParsedReference {
+  sheet?: string;
+  kind: 'cell' | 'range' | 'column' | 'row';
+  start: ReferencePart;
+  end?: ReferencePart;
+}
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  text: string;
+  position: number;
+  // Set on reference tokens
+  ref?: ParsedReference;
+  // Sheet qualifier of a name or error token, e.g. Sheet2!TaxRate or Sheet2!#REF!
+  sheet?: string;
+  // Table of a structured reference token such as Alerts[Count]; empty for
+  // one without a name, like [@Severity], which means the formula's own table
+  table?: string;
+}
+
+// Excel's grid limits; anything beyond is a name, not a reference
+export const MAX_COLUMN = 16384;
+export const MAX_ROW = 1048576;
+
+const SHEET_PREFIX = "(?:'((?:[^']|'')+)'|([A-Za-z_][A-Za-z0-9_.]*))!";
+const CELL = '(\\$?)([A-Za-z]{1,3})(\\$?)(\\d+)';
+const COLUMN = '(\\$?)([A-Za-z]{1,3})';
+const ROW = '(\\$?)(\\d+)';
+// A reference must not run into an identifier, a function call or a
+// structured reference such as T1[Count]
+const REFERENCE_END = '(?![A-Za-z0-9_.(![])';
+
+const SHEET_PATTERN = new RegExp(SHEET_PREFIX, 'y');
+const CELL_RANGE_PATTERN = new RegExp(`${CELL}:${CELL}${REFERENCE_END}`, 'y');
+const CELL_PATTERN = new RegExp(`${CELL}${REFERENCE_END}`, 'y');
+const COLUMN_RANGE_PATTERN = new RegExp(`${COLUMN}:${COLUMN}${REFERENCE_END}`, 'y');
+const ROW_RANGE_PATTERN = new RegExp(`${ROW}:${ROW}${REFERENCE_END}`, 'y');
+const STRING_PATTERN = /"(?:[^"]|"")*"?/y;
+const ERROR_PATTERN = /#(?:NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|SPILL!|CALC!|CYCLE!|ERROR!?)/iy;
+const NUMBER_PATTERN = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER_PATTERN = /[A-Za-z_\\][A-Za-z0-9_.]*/y;
+const WHITESPACE_PATTERN = /\s+/y;
+const OPERATOR_PATTERN = /<>|<=|>=|[-+*/^&=<>%:@#]/y;
+
+function matchAt(pattern: RegExp, input: string, position: number): RegExpExecArray | null {
+  pattern.lastIndex = position;
+  return pattern.exec(input);
+}
+
+function columnPart(dollar: string, letters: string): ReferencePart | null {
+  const col = letterToColumn(letters.toUpperCase());
+  if (col >= MAX_COLUMN) return null;
+  return { row: null, col, absRow: false, absCol: dollar === '$' };
+}
+
+function rowPart(dollar: string, digits: string): ReferencePart | null {
+  const row = parseInt(digits, 10) - 1;
+  if (row < 0 || row >= MAX_ROW) return null;
+  return { row, col: null, absRow: dollar === '$', absCol: false };
+}
+
+function cellPart(dollarCol: string, letters: string, dollarRow: string, digits: string): ReferencePart | null {
+  const column = columnPart(dollarCol, letters);
+  const row = rowPart(dollarRow, digits);
+  if (!column || !row) return null;
+  return { row: row.row, col: column.col, absRow: row.absRow, absCol: column.absCol };
+}
+
+// Try each reference shape at the given position, longest first
+function matchReference(input: string, position: number): { length: number; ref: Omit<ParsedReference, 'sheet'> } | null {
+  let match = matchAt(CELL_RANGE_PATTERN, input, position);
+  if (match) {
+    const start = cellPart(match[1], match[2], match[3], match[4]);
+    const end = cellPart(match[5], match[6], match[7], match[8]);
+    if (start && end) return { length: match[0].length, ref: { kind: 'range', start, end } };
+  }
+
+  match = matchAt(COLUMN_RANGE_PATTERN, input, position);
+  if (match) {
+    const start = columnPart(match[1], match[2]);
+    const end = columnPart(match[3], match[4]);
+    if (start && end) return { length: match[0].length, ref: { kind: 'column', start, end } };
+  }
+
+  match = matchAt(ROW_RANGE_PATTERN, input, position);
+  if (match) {
+    const start = rowPart(match[1], match[2]);
+    const end = rowPart(match[3], match[4]);
+    if (start && end) return { length: match[0].length, ref: { kind: 'row', start, end } };
+  }
+
+  match = matchAt(CELL_PATTERN, input, position);
+  if (match) {
+    const start = cellPart(match[1], match[2], match[3], match[4]);
+    if (start) return { length: match[0].length, ref: { kind: 'cell', start } };
+  }
+
+  return null;
+}
+
+// Length of the bracketed part of a structured reference starting at
+// position, e.g. [[#This Row],[Count]]. Brackets nest and a quote escapes
+// the next character. Unclosed brackets run to the end of the input.
+function matchBrackets(input: string, position: number): number {
+  let depth = 0;
+  for (let i = position; i < input.length; i++) {
+    const char = input[i];
+    if (char === "'") {
+      i++;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return i + 1 - position;
+    }
+  }
+  return input.length - position;
+}
+
+function isFunctionCall(input: string, position: number): boolean {
+  const rest = input.slice(position);
+  return /^\s*\(/.test(rest);
+}
+
+/**
+ * Split a formula into tokens. The leading "=" is returned as an operator
+ * token so joining every token's text reproduces the input exactly.
+ */
+export function tokenizeFormula(formula: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let position = 0;
+
+  const push = (type: FormulaTokenType, text: string, extra: Partial<FormulaToken> = {}) => {
+    tokens.push({ type, text, position, ...extra });
+    position += text.length;
+  };
+
+  while (position < formula.length) {
+    const char = formula[position];
+    let match: RegExpExecArray | null;
+
+    if ((match = matchAt(WHITESPACE_PATTERN, formula, position))) {
+      push('whitespace', match[0]);
+      continue;
+    }
+
+    if (char === '"') {
+      match = matchAt(STRING_PATTERN, formula, position)!;
+      push('string', match[0]);
+      continue;
+    }
+
+    if ((match = matchAt(ERROR_PATTERN, formula, position))) {
+      push('error', match[0]);
+      continue;
+    }
+
+    // Sheet-qualified reference, name or error
+    const sheetMatch = matchAt(SHEET_PATTERN, formula, position);
+    if (sheetMatch) {
+      const sheet = sheetMatch[1] !== undefined ? sheetMatch[1].replace(/''/g, "'") : sheetMatch[2];
+      const afterSheet = position + sheetMatch[0].length;
+
+      const error = matchAt(ERROR_PATTERN, formula, afterSheet);
+      if (error) {
+        push('error', formula.slice(position, afterSheet + error[0].length), { sheet });
+        continue;
+      }
+      const reference = matchReference(formula, afterSheet);
+
+      if (reference) {
+        push('reference', formula.slice(position, afterSheet + reference.length), {
+          ref: { sheet, ...reference.ref },
+        });
+        continue;
+      }
+
+      const identifier = matchAt(IDENTIFIER_PATTERN, formula, afterSheet);
+      if (identifier) {
+        push('name', formula.slice(position, afterSheet + identifier[0].length), { sheet });
+        continue;
+      }
+    }
+
+    const reference = matchReference(formula, position);
+    if (reference) {
+      push('reference', formula.slice(position, position + reference.length), { ref: reference.ref });
+      continue;
+    }
+
+    if ((match = matchAt(NUMBER_PATTERN, formula, position))) {
+      push('number', match[0]);
+      continue;
+    }
+
+    if (char === '[') {
+      push('structured', formula.slice(position, position + matchBrackets(formula, position)), { table: '' });
+      continue;
+    }
+
+    if ((match = matchAt(IDENTIFIER_PATTERN, formula, position))) {
+      const text = match[0];
+      const afterName = position + text.length;
+      if (formula[afterName] === '[') {
+        push('structured', formula.slice(position, afterName + matchBrackets(formula, afterName)), { table: text });
+      } else if (isFunctionCall(formula, position + text.length)) {
+        push('function', text);
+      } else if (/^(TRUE|FALSE)$/i.test(text)) {
+        push('boolean', text);
+      } else {
+        push('name', text);
+      }
+      continue;
+    }
+
+    if ((match = matchAt(OPERATOR_PATTERN, formula, position))) {
+      push('operator', match[0]);
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      push('paren', char);
+      continue;
+    }
+
+    if (char === ',' || char === ';' || char === '{' || char === '}') {
+      push('separator', char);
+      continue;
+    }
+
+    push('unknown', char);
+  }
+
+  return tokens;
+}
+
+export function joinTokens(tokens: FormulaToken[]): string {
+  return tokens.map(token => token.text).join('');
+}
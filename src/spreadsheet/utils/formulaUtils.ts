@@ -1,4 +1,7 @@
 import { letterToColumn, columnToLetter } from './columnUtils';
+import { tokenizeFormula, joinTokens, ParsedReference, ReferencePart, MAX_COLUMN, MAX_ROW } from './formulaTokenizer';
+import { normalizeRect } from './selectionUtils';
+import { SelectionRect } from '../types/spreadsheet';
 
 export const parseCellRef = (ref: string): [number, number] => {
   const match = ref.match(/(\$?)([A-Z]+)(\$?)(\d+)/);
@@ -37,44 +40,267 @@ export const cellsInRange = (start: string, end: string): [number, number][] =>
   return output;
 };
 
+export type StructuralOperation = 'insertRow' | 'deleteRow' | 'insertColumn' | 'deleteColumn';
+
+export interface ReferenceScope {
+  // Sheet whose cells are changing; references to other sheets are left alone
+  sheetName?: string;
+  // Sheet holding the formula, used to resolve unqualified references
+  formulaSheet?: string;
+}
+
+// Whether a reference points at the sheet being changed
+const isInScope = (ref: ParsedReference, scope: ReferenceScope): boolean => {
+  if (!scope.sheetName) return true;
+  const target = ref.sheet ?? scope.formulaSheet ?? scope.sheetName;
+  return target.toLowerCase() === scope.sheetName.toLowerCase();
+};
+
+const formatReferencePart = (part: ReferencePart): string =>
+  (part.col !== null ? (part.absCol ? '$' : '') + columnToLetter(part.col) : '') +
+  (part.row !== null ? (part.absRow ? '$' : '') + (part.row + 1) : '');
+
+export const formatReference = (ref: ParsedReference): string => {
+  const prefix = ref.sheet !== undefined ? `${quoteSheetName(ref.sheet)}!` : '';
+  const start = formatReferencePart(ref.start);
+  return ref.end ? `${prefix}${start}:${formatReferencePart(ref.end)}` : `${prefix}${start}`;
+};
+
+/**
+ * Rewrite every in-scope reference of a formula. The callback returns the
+ * reference unchanged, a new reference, or null to turn it into #REF!,
+ * which keeps the reference's sheet like Excel's Sheet2!#REF!. Text that
+ * is not a reference, including string literals, is kept as is.
+ */
+const rewriteReferences = (
+  formula: string,
+  rewrite: (ref: ParsedReference) => ParsedReference | null,
+  scope: ReferenceScope = {}
+): string => {
+  if (!formula.startsWith('=')) return formula;
+
+  const tokens = tokenizeFormula(formula);
+  let changed = false;
+
+  tokens.forEach(token => {
+    if (token.type !== 'reference' || !token.ref || !isInScope(token.ref, scope)) return;
+
+    const next = rewrite(token.ref);
+    if (next === token.ref) return;
+
+    const prefix = token.ref.sheet !== undefined ? `${quoteSheetName(token.ref.sheet)}!` : '';
+    token.text = next ? formatReference(next) : `${prefix}#REF!`;
+    changed = true;
+  });
+
+  return changed ? joinTokens(tokens) : formula;
+};
+
+// Shift a span of rows or columns for an insert/delete; null when the whole span is deleted
+const shiftSpan = (
+  start: number,
+  end: number,
+  insert: boolean,
+  index: number,
+  count: number
+): [number, number] | null => {
+  const [low, high] = start <= end ? [start, end] : [end, start];
+
+  if (insert) {
+    return [low >= index ? low + count : low, high >= index ? high + count : high];
+  }
+
+  const last = index + count - 1;
+  if (low >= index && high <= last) return null;
+
+  const newLow = low < index ? low : low > last ? low - count : index;
+  const newHigh = high < index ? high : high > last ? high - count : index - 1;
+  return [newLow, newHigh];
+};
+
+/**
+ * Update references after rows or columns are inserted or deleted. Like
+ * Excel, absolute references move too, ranges grow or shrink when the edit
+ * falls inside them, and references to deleted cells, or pushed past the
+ * last row or column, become #REF!.
+ */
 export const updateFormulaReferences = (
   formula: string,
-  operation: 'insertRow' | 'deleteRow' | 'insertColumn' | 'deleteColumn',
+  operation: StructuralOperation,
   index: number,
-  count: number = 1
+  count: number = 1,
+  scope: ReferenceScope = {}
 ): string => {
-  if (!formula.startsWith('=')) return formula;
+  const rows = operation === 'insertRow' || operation === 'deleteRow';
+  const insert = operation === 'insertRow' || operation === 'insertColumn';
+  const axis: 'row' | 'col' = rows ? 'row' : 'col';
 
-  // Update cell references in the formula
-  return formula.replace(/(\$?)([A-Z]+)(\$?)(\d+)/g, (_match, dollarCol, colLetters, dollarRow, rowNum) => {
-    const col = letterToColumn(colLetters);
-    const row = parseInt(rowNum, 10) - 1;
-    const isAbsCol = dollarCol === '$';
-    const isAbsRow = dollarRow === '$';
-
-    let newRow = row;
-    let newCol = col;
-
-    if (operation === 'insertRow' && !isAbsRow && row >= index) {
-      newRow = row + count;
-    } else if (operation === 'deleteRow' && !isAbsRow) {
-      if (row >= index && row < index + count) {
-        return '#REF!';
-      } else if (row >= index + count) {
-        newRow = row - count;
-      }
-    } else if (operation === 'insertColumn' && !isAbsCol && col >= index) {
-      newCol = col + count;
-    } else if (operation === 'deleteColumn' && !isAbsCol) {
-      if (col >= index && col < index + count) {
-        return '#REF!';
-      } else if (col >= index + count) {
-        newCol = col - count;
-      }
+  return rewriteReferences(formula, ref => {
+    const start = ref.start[axis];
+    // Whole-column refs are unaffected by row edits and vice versa
+    if (start === null) return ref;
+
+    const end = ref.end ? ref.end[axis]! : start;
+    const span = shiftSpan(start, end, insert, index, count);
+    if (!span || span[1] >= (rows ? MAX_ROW : MAX_COLUMN)) return null;
+    if (span[0] === Math.min(start, end) && span[1] === Math.max(start, end)) return ref;
+
+    return {
+      ...ref,
+      start: { ...ref.start, [axis]: span[0] },
+      end: ref.end ? { ...ref.end, [axis]: span[1] } : undefined,
+    };
+  }, scope);
+};
+
+// Whether a cell or range reference lies entirely inside a rectangle
+const isReferenceInside = (ref: ParsedReference, rect: SelectionRect): boolean => {
+  if (ref.kind !== 'cell' && ref.kind !== 'range') return false;
+
+  const r = normalizeRect(rect);
+  return [ref.start, ref.end ?? ref.start].every(part =>
+    part.row! >= r.startRow && part.row! <= r.endRow && part.col! >= r.startCol && part.col! <= r.endCol
+  );
+};
+
+/**
+ * Update references after a block of cells is cut and pasted elsewhere.
+ * References to the moved block follow it; references to cells that the
+ * paste overwrote become #REF!. Apply this to every formula in the workbook,
+ * including the moved ones.
+ */
+export const moveFormulaReferences = (
+  formula: string,
+  source: SelectionRect,
+  rowOffset: number,
+  colOffset: number,
+  scope: ReferenceScope = {}
+): string => {
+  const r = normalizeRect(source);
+  const target: SelectionRect = {
+    startRow: r.startRow + rowOffset,
+    startCol: r.startCol + colOffset,
+    endRow: r.endRow + rowOffset,
+    endCol: r.endCol + colOffset,
+  };
+
+  return rewriteReferences(formula, ref => {
+    if (isReferenceInside(ref, source)) {
+      const move = (part: ReferencePart): ReferencePart => ({
+        ...part,
+        row: part.row! + rowOffset,
+        col: part.col! + colOffset,
+      });
+      return { ...ref, start: move(ref.start), end: ref.end ? move(ref.end) : undefined };
     }
 
-    return cellRefToString(newRow, newCol, isAbsRow, isAbsCol);
+    return isReferenceInside(ref, target) ? null : ref;
+  }, scope);
+};
+
+/**
+ * Adjust relative references of a formula copied by the given offset, as
+ * when filling or pasting. Absolute parts stay fixed; references pushed off
+ * the grid become #REF!.
+ */
+export const offsetFormulaReferences = (
+  formula: string,
+  rowOffset: number,
+  colOffset: number
+): string => {
+  if (rowOffset === 0 && colOffset === 0) return formula;
+
+  return rewriteReferences(formula, ref => {
+    let offGrid = false;
+    const offset = (part: ReferencePart): ReferencePart => {
+      const row = part.row !== null && !part.absRow ? part.row + rowOffset : part.row;
+      const col = part.col !== null && !part.absCol ? part.col + colOffset : part.col;
+      if ((row !== null && (row < 0 || row >= MAX_ROW)) || (col !== null && (col < 0 || col >= MAX_COLUMN))) offGrid = true;
+      return { ...part, row, col };
+    };
+
+    const moved = { ...ref, start: offset(ref.start), end: ref.end ? offset(ref.end) : undefined };
+    return offGrid ? null : moved;
+  });
+};
+
+// Sheet names that can appear unquoted before "!" in a reference
+const PLAIN_SHEET_NAME = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+export const quoteSheetName = (name: string): string =>
+  PLAIN_SHEET_NAME.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+
+export const unquoteSheetName = (name: string): string =>
+  name.startsWith("'") && name.endsWith("'")
+    ? name.slice(1, -1).replace(/''/g, "'")
+    : name;
+
+export const renameSheetReferences = (
+  formula: string,
+  oldName: string,
+  newName: string
+): string => {
+  if (!formula.startsWith('=')) return formula;
+
+  const lowered = oldName.toLowerCase();
+  const tokens = tokenizeFormula(formula);
+  let changed = false;
+
+  tokens.forEach(token => {
+    const sheet = token.ref?.sheet ?? token.sheet;
+    if (sheet === undefined || sheet.toLowerCase() !== lowered) return;
+
+    // Sheet names may contain "!" and "#"; the reference after them never
+    // has "!", and an error has a single "#"
+    const qualified = token.type === 'error'
+      ? token.text.slice(token.text.lastIndexOf('#'))
+      : token.text.slice(token.text.lastIndexOf('!') + 1);
+    token.text = `${quoteSheetName(newName)}!${qualified}`;
+    changed = true;
+  });
+
+  return changed ? joinTokens(tokens) : formula;
+};
+
+/**
+ * Turn references to a deleted sheet into #REF!, as Excel does. Names
+ * qualified with the sheet, such as Sheet2!TaxRate, go the same way.
+ */
+export const deleteSheetReferences = (formula: string, sheetName: string): string => {
+  if (!formula.startsWith('=')) return formula;
+
+  const lowered = sheetName.toLowerCase();
+  const tokens = tokenizeFormula(formula);
+  let changed = false;
+
+  tokens.forEach(token => {
+    const sheet = token.ref?.sheet ?? token.sheet;
+    if (sheet === undefined || sheet.toLowerCase() !== lowered) return;
+
+    token.text = '#REF!';
+    changed = true;
   });
+
+  return changed ? joinTokens(tokens) : formula;
+};
+
+/**
+ * Drop the sheets of qualified errors such as Sheet2!#REF!, which the
+ * formula engine can't parse
+ */
+export const unqualifyErrors = (formula: string): string => {
+  if (!formula.startsWith('=')) return formula;
+
+  const tokens = tokenizeFormula(formula);
+  let changed = false;
+
+  tokens.forEach(token => {
+    if (token.type !== 'error' || token.sheet === undefined) return;
+    token.text = token.text.slice(token.text.lastIndexOf('#'));
+    changed = true;
+  });
+
+  return changed ? joinTokens(tokens) : formula;
 };
 
 export const evaluateFormula = (
@@ -1,16 +1,420 @@
 import HyperFormula, { 
   CellValue, 
+  DetailedCellError,
   SimpleCellAddress,
-  RawCellContent
+  RawCellContent,
+  ExportedChange,
+  ExportedCellChange,
+  EmptyValue,
+  FunctionArgumentType,
+  FunctionPlugin,
+  ArraySize,
+  SimpleRangeValue,
+  CellType,
+  CellError,
+  ErrorType,
 } from 'hyperformula';
-import { CellData, SparseMatrix, keyOf } from '../types/spreadsheet';
+import type { Ast, BinaryOpAst, MinusUnaryOpAst, NumberAst, ParenthesisAst, PlusUnaryOpAst, ProcedureAst } from 'hyperformula/typings/parser/Ast';
+import type { InterpreterState } from 'hyperformula/typings/interpreter/InterpreterState';
+import {
+  CellData,
+  CustomFunction,
+  CustomFunctionArgumentType,
+  NamedRange,
+  SelectionRect,
+  Sheet,
+  SparseMatrix,
+  parseKey,
+} from '../types/spreadsheet';
+import { cidrMatch, defang, detectIOCType, formatUTCTimestamp, isExternalIP, parseTimestamp, refang } from './dfirUtils';
+import { tokenizeFormula } from './formulaTokenizer';
+import { unqualifyErrors } from './formulaUtils';
+import { TableReference, expandStructuredReferences } from './tableUtils';
+
+// Raw content HyperFormula should hold for a cell: its formula, else its value
+export function getCellContent(cellData: CellData | undefined): RawCellContent {
+  if (!cellData) return null;
+  if (cellData.formula) return cellData.formula;
+  if (cellData.value === undefined || cellData.value === '') return null;
+  return cellData.value;
+}
+
+// SPARKLINE(data, [options]) is drawn by the cell renderer (see
+// sparklineUtils). The engine checks its arguments and tracks the cells it
+// reads; the cell itself holds no value.
+class SparklinePlugin extends FunctionPlugin {
+  public static implementedFunctions = {
+    SPARKLINE: {
+      method: 'sparkline',
+      parameters: [
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.ANY, optionalArg: true },
+      ],
+    },
+  };
+
+  public sparkline(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('SPARKLINE'), () => EmptyValue);
+  }
+}
+
+HyperFormula.registerFunctionPlugin(SparklinePlugin, { enGB: { SPARKLINE: 'SPARKLINE' } });
+
+// A number as the engine holds it; dates, percents and the like are wrapped
+const rawNumber = (value: any): any =>
+  typeof value === 'object' && value !== null && 'val' in value ? value.val : value;
+
+// Excel's order for sorting: numbers, text, then booleans, with blanks last
+function compareValues(a: any, b: any): number {
+  const rank = (value: any) =>
+    value === EmptyValue ? 4 : typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : typeof value === 'boolean' ? 2 : 3;
+  const x = rawNumber(a);
+  const y = rawNumber(b);
+  if (rank(x) !== rank(y)) return rank(x) - rank(y);
+  if (typeof x === 'string') return x.localeCompare(y, undefined, { sensitivity: 'base' });
+  if (typeof x === 'number' || typeof x === 'boolean') return Number(x) - Number(y);
+  return 0;
+}
+
+// The value of a number typed into a formula, e.g. the 10 of SEQUENCE(10)
+// or the 2*5 of SEQUENCE(2*5); undefined for anything that reads cells or
+// names, which the engine must calculate
+const literalNumber = (ast: Ast | undefined, fallback: number): number | undefined => {
+  if (ast === undefined) return fallback;
+  const operand = (value: Ast) => literalNumber(value, NaN);
+  const both = (op: BinaryOpAst, combine: (a: number, b: number) => number) => {
+    const left = operand(op.left);
+    const right = operand(op.right);
+    return left === undefined || right === undefined ? undefined : combine(left, right);
+  };
+  switch (ast.type as string) {
+    case 'NUMBER': return (ast as NumberAst).value;
+    case 'PARENTHESES': return operand((ast as ParenthesisAst).expression);
+    case 'PLUS_UNARY_OP': return operand((ast as PlusUnaryOpAst).value);
+    case 'MINUS_UNARY_OP': {
+      const value = operand((ast as MinusUnaryOpAst).value);
+      return value === undefined ? undefined : -value;
+    }
+    case 'PLUS_OP': return both(ast as BinaryOpAst, (a, b) => a + b);
+    case 'MINUS_OP': return both(ast as BinaryOpAst, (a, b) => a - b);
+    case 'TIMES_OP': return both(ast as BinaryOpAst, (a, b) => a * b);
+    case 'DIV_OP': return both(ast as BinaryOpAst, (a, b) => a / b);
+    case 'POWER_OP': return both(ast as BinaryOpAst, (a, b) => a ** b);
+    default: return undefined;
+  }
+};
+
+// The engine sizes an array when the formula is entered, before any cell is
+// calculated, so SEQUENCE can't take its size from other cells
+const SEQUENCE_SIZE_MESSAGE = 'SEQUENCE needs its rows and columns typed into the formula, e.g. =SEQUENCE(10, 2), not read from cells.';
+
+// UNIQUE, SORT and SEQUENCE, which return arrays that spill into the cells
+// below and to the right like FILTER. The engine sizes an array before
+// calculating it, so UNIQUE and SORT take as many cells as their input and
+// SEQUENCE's size must be typed into the formula.
+class DynamicArrayPlugin extends FunctionPlugin {
+  public static implementedFunctions = {
+    UNIQUE: {
+      method: 'unique',
+      arraySizeMethod: 'inputArraySize',
+      arrayFunction: true,
+      vectorizationForbidden: true,
+      parameters: [
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.BOOLEAN, defaultValue: false },
+        { argumentType: FunctionArgumentType.BOOLEAN, defaultValue: false },
+      ],
+    },
+    SORT: {
+      method: 'sort',
+      arraySizeMethod: 'inputArraySize',
+      arrayFunction: true,
+      vectorizationForbidden: true,
+      parameters: [
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.INTEGER, defaultValue: 1, minValue: 1 },
+        { argumentType: FunctionArgumentType.INTEGER, defaultValue: 1 },
+        { argumentType: FunctionArgumentType.BOOLEAN, defaultValue: false },
+      ],
+    },
+    SEQUENCE: {
+      method: 'sequence',
+      arraySizeMethod: 'sequenceArraySize',
+      vectorizationForbidden: true,
+      parameters: [
+        { argumentType: FunctionArgumentType.INTEGER, minValue: 1 },
+        { argumentType: FunctionArgumentType.INTEGER, defaultValue: 1, minValue: 1 },
+        { argumentType: FunctionArgumentType.NUMBER, defaultValue: 1 },
+        { argumentType: FunctionArgumentType.NUMBER, defaultValue: 1 },
+      ],
+    },
+  };
+
+  // UNIQUE(array, [by_col], [exactly_once]): distinct rows, or columns,
+  // ignoring case, in the order they first appear
+  public unique(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('UNIQUE'), (range: SimpleRangeValue, byCol: boolean, exactlyOnce: boolean) => {
+      const lines = byCol ? transpose(range.data) : range.data;
+      const counts = new Map<string, number>();
+      const keyOf = (line: any[]) =>
+        JSON.stringify(line.map(value => {
+          const raw = rawNumber(value);
+          return typeof raw === 'string' ? raw.toLowerCase() : raw === EmptyValue ? '' : raw;
+        }));
+      lines.forEach(line => counts.set(keyOf(line), (counts.get(keyOf(line)) ?? 0) + 1));
+
+      const seen = new Set<string>();
+      const result = lines.filter(line => {
+        const key = keyOf(line);
+        if (seen.has(key) || (exactlyOnce && counts.get(key)! > 1)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (result.length === 0) return new CellError(ErrorType.NA, 'No values are unique.');
+      return SimpleRangeValue.onlyValues(byCol ? transpose(result) : result);
+    });
+  }
+
+  // SORT(array, [sort_index], [sort_order], [by_col]): rows, or columns,
+  // ordered by one of their values; sort_order is 1 ascending, -1 descending
+  public sort(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('SORT'), (range: SimpleRangeValue, index: number, order: number, byCol: boolean) => {
+      const lines = byCol ? transpose(range.data) : range.data;
+      if (index > (lines[0]?.length ?? 0) || (order !== 1 && order !== -1)) {
+        return new CellError(ErrorType.VALUE, 'SORT needs a sort index within the array and an order of 1 or -1.');
+      }
+      const sorted = [...lines].sort((a, b) => order * compareValues(a[index - 1], b[index - 1]));
+      return SimpleRangeValue.onlyValues(byCol ? transpose(sorted) : sorted);
+    });
+  }
+
+  // SEQUENCE(rows, [columns], [start], [step]): numbers counting across each
+  // row, then down
+  public sequence(ast: ProcedureAst, state: InterpreterState) {
+    if (literalNumber(ast.args[0], NaN) === undefined || literalNumber(ast.args[1], 1) === undefined) {
+      return new CellError(ErrorType.VALUE, SEQUENCE_SIZE_MESSAGE);
+    }
+    return this.runFunction(ast.args, state, this.metadata('SEQUENCE'), (rows: number, cols: number, start: number, step: number) =>
+      SimpleRangeValue.onlyValues(
+        Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) => start + (row * cols + col) * step))
+      )
+    );
+  }
+
+  // As many cells as the array given, as for FILTER
+  public inputArraySize(ast: ProcedureAst, state: InterpreterState): ArraySize {
+    if (ast.args.length === 0) return ArraySize.error();
+    const size = this.arraySizeForAst(ast.args[0], { ...state, arraysFlag: true } as InterpreterState);
+    return new ArraySize(size.width, size.height);
+  }
+
+  // A size read from cells takes one cell, for the error saying why
+  public sequenceArraySize(ast: ProcedureAst): ArraySize {
+    const rows = literalNumber(ast.args[0], NaN);
+    const cols = literalNumber(ast.args[1], 1);
+    if (rows === undefined || cols === undefined) return ArraySize.scalar();
+    if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows < 1 || cols < 1) {
+      return ArraySize.error();
+    }
+    return new ArraySize(cols, rows);
+  }
+}
+
+function transpose<T>(lines: T[][]): T[][] {
+  return (lines[0] ?? []).map((_, i) => lines.map(line => line[i]));
+}
+
+HyperFormula.registerFunctionPlugin(DynamicArrayPlugin, {
+  enGB: { UNIQUE: 'UNIQUE', SORT: 'SORT', SEQUENCE: 'SEQUENCE' },
+});
+
+const textArgument = { argumentType: FunctionArgumentType.STRING };
+
+// A pattern typed into a formula, or null when it isn't a valid JavaScript
+// regular expression
+function toRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+// Functions for triaging indicators and timelines, built on dfirUtils.
+// Timestamps come back as ISO 8601 text in UTC, which sorts in time order.
+class DFIRPlugin extends FunctionPlugin {
+  public static implementedFunctions = {
+    IOCTYPE: { method: 'iocType', parameters: [textArgument] },
+    ISEXTERNALIP: { method: 'isExternalIp', parameters: [textArgument] },
+    CIDRMATCH: { method: 'cidrMatch', parameters: [textArgument, textArgument] },
+    DEFANG: { method: 'defang', parameters: [textArgument] },
+    REFANG: { method: 'refang', parameters: [textArgument] },
+    REGEXMATCH: { method: 'regexMatch', parameters: [textArgument, textArgument] },
+    REGEXEXTRACT: { method: 'regexExtract', parameters: [textArgument, textArgument] },
+    TOUTC: { method: 'toUtc', parameters: [textArgument] },
+    EPOCHTODATE: {
+      method: 'epochToDate',
+      parameters: [
+        { argumentType: FunctionArgumentType.NUMBER },
+        { argumentType: FunctionArgumentType.INTEGER, defaultValue: 1, minValue: 1, maxValue: 3 },
+      ],
+    },
+  };
+
+  // IOCTYPE(value): MD5, IPv4, Domain, ... as detectIOCType names them, or
+  // empty text when the value isn't an indicator
+  public iocType(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('IOCTYPE'), (value: string) => detectIOCType(value) ?? '');
+  }
+
+  // ISEXTERNALIP(ip): TRUE for addresses outside the private ranges
+  public isExternalIp(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('ISEXTERNALIP'), (ip: string) => {
+      const type = detectIOCType(ip);
+      return (type === 'IPv4' || type === 'IPv6') && isExternalIP(ip.trim());
+    });
+  }
+
+  // CIDRMATCH(ip, block): whether an IPv4 address is in a block such as 10.0.0.0/8
+  public cidrMatch(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('CIDRMATCH'), (ip: string, cidr: string) =>
+      cidrMatch(ip, cidr) ?? new CellError(ErrorType.VALUE, 'CIDRMATCH needs an IPv4 block such as 10.0.0.0/8.')
+    );
+  }
+
+  public defang(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('DEFANG'), defang);
+  }
+
+  public refang(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('REFANG'), refang);
+  }
+
+  // REGEXMATCH(text, pattern): whether a JavaScript regular expression matches
+  public regexMatch(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('REGEXMATCH'), (value: string, pattern: string) =>
+      toRegExp(pattern)?.test(value) ?? new CellError(ErrorType.VALUE, `Invalid regular expression: ${pattern}`)
+    );
+  }
+
+  // REGEXEXTRACT(text, pattern): the first capture group, or the whole match
+  // when the pattern has none; #N/A when nothing matches
+  public regexExtract(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('REGEXEXTRACT'), (value: string, pattern: string) => {
+      const regex = toRegExp(pattern);
+      if (!regex) return new CellError(ErrorType.VALUE, `Invalid regular expression: ${pattern}`);
+      const match = regex.exec(value);
+      if (!match) return new CellError(ErrorType.NA, 'The pattern does not match.');
+      return match.length > 1 ? match[1] ?? '' : match[0];
+    });
+  }
+
+  // TOUTC(timestamp): a timestamp with an offset, epoch seconds or
+  // milliseconds, or a Windows FILETIME, in UTC
+  public toUtc(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('TOUTC'), (value: string) => {
+      const date = parseTimestamp(value.trim());
+      return (date && formatUTCTimestamp(date)) ?? new CellError(ErrorType.VALUE, `Not a timestamp: ${value}`);
+    });
+  }
+
+  // EPOCHTODATE(epoch, [unit]): Unix time in seconds (1), milliseconds (2)
+  // or microseconds (3) in UTC
+  public epochToDate(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('EPOCHTODATE'), (epoch: number, unit: number) =>
+      formatUTCTimestamp(new Date(epoch * [1000, 1, 0.001][unit - 1])) ?? new CellError(ErrorType.NUM, 'The date is out of range.')
+    );
+  }
+}
+
+HyperFormula.registerFunctionPlugin(DFIRPlugin, {
+  enGB: Object.fromEntries(Object.keys(DFIRPlugin.implementedFunctions).map(name => [name, name])),
+});
+
+// Shown while an async custom function's result is on its way
+export const LOADING = '#LOADING';
+// Message of the error standing in for a pending result; cells that depend
+// on it carry the same error, so they wait too
+const LOADING_MESSAGE = 'The function result is loading.';
+
+const CUSTOM_ARGUMENT_TYPES: Record<CustomFunctionArgumentType, FunctionArgumentType> = {
+  number: FunctionArgumentType.NUMBER,
+  text: FunctionArgumentType.STRING,
+  boolean: FunctionArgumentType.BOOLEAN,
+  range: FunctionArgumentType.RANGE,
+  any: FunctionArgumentType.ANY,
+};
+
+// An argument as a custom function receives it: plain numbers, null for
+// blanks and ranges as rows of values
+const toCustomArgument = (value: any): any => {
+  if (value instanceof SimpleRangeValue) return value.data.map(row => row.map(toCustomArgument));
+  return value === EmptyValue ? null : rawNumber(value);
+};
+
+// A custom function's result as the engine holds it
+function fromCustomResult(value: unknown): any {
+  if (value === null || value === undefined) return EmptyValue;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : new CellError(ErrorType.NUM);
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  return new CellError(ErrorType.VALUE, 'Custom functions return a number, text, a boolean or nothing.');
+}
+
+// The function name of a call key such as ASSETOWNER(["web-01"])
+const functionOfCall = (call: string) => call.slice(0, call.indexOf('('));
+
+const failure = (error: unknown) => new CellError(ErrorType.VALUE, error instanceof Error ? error.message : String(error));
+
+// A plugin for one custom function, calling back into the engine that owns it
+function createCustomFunctionPlugin(fn: CustomFunction, call: (args: any[], address: SimpleCellAddress) => any) {
+  const name = fn.name.toUpperCase();
+  return class CustomFunctionPlugin extends FunctionPlugin {
+    public static implementedFunctions = {
+      [name]: {
+        method: 'call',
+        isVolatile: !!fn.volatile,
+        vectorizationForbidden: true,
+        parameters: fn.args.map(arg => ({
+          argumentType: CUSTOM_ARGUMENT_TYPES[arg.type ?? 'any'],
+          optionalArg: !!arg.optional,
+        })),
+      },
+    };
+
+    public call(ast: ProcedureAst, state: InterpreterState) {
+      return this.runFunction(ast.args, state, this.metadata(name), (...args: any[]) =>
+        call(args.map(toCustomArgument), state.formulaAddress)
+      );
+    }
+  };
+}
 
 export class FormulaEngine {
   private hf: HyperFormula;
+  private config: any;
   private sheetId: number = 0;
   private sheetName: string = 'Sheet1';
+  private changes: Array<{ sheet: string; row: number; col: number; value: any }> = [];
+  // Bumped whenever computed values may have changed
+  private recalculations: number = 0;
+  // Tables that structured references in formulas resolve against
+  private tables: TableReference[] = [];
+  // Array formulas showing #SPILL!, by sheet id, row and column
+  private blockedSpills = new Map<string, SimpleCellAddress>();
+  private respilling = false;
+  // Functions added by the application, by upper-case name, and their plugins
+  private customFunctions = new Map<string, CustomFunction>();
+  private functionPlugins: Array<ReturnType<typeof createCustomFunctionPlugin>> = [];
+  // Async custom function results by call, e.g. ASSETOWNER(["web-01"]), and
+  // the cells waiting on calls still loading
+  private asyncResults = new Map<string, any>();
+  private loading = new Map<string, Map<string, SimpleCellAddress>>();
+  private settling = false;
+  private listeners = new Set<() => void>();
+  private destroyed = false;
 
   constructor(config?: any) {
+    this.config = config;
     this.hf = HyperFormula.buildEmpty({
       licenseKey: 'gpl-v3', // Use appropriate license
       ...config,
@@ -22,43 +426,187 @@ export class FormulaEngine {
 
   // Initialize with existing data
   public initializeWithData(data: SparseMatrix<CellData>, maxRows: number, maxCols: number): void {
-    // Convert sparse matrix to 2D array for HyperFormula
-    const sheetData: RawCellContent[][] = [];
-    
-    for (let row = 0; row < maxRows; row++) {
-      sheetData[row] = [];
-      for (let col = 0; col < maxCols; col++) {
-        const cellData = data.get(keyOf(row, col));
-        if (cellData) {
-          if (cellData.formula) {
-            sheetData[row][col] = cellData.formula;
-          } else if (cellData.value !== undefined && cellData.value !== null) {
-            sheetData[row][col] = cellData.value;
-          } else {
-            sheetData[row][col] = null;
-          }
-        } else {
-          sheetData[row][col] = null;
-        }
-      }
-    }
+    const sheetData = this.toSheetContent(data, maxRows, maxCols, this.sheetName);
 
     // Replace the sheet with new data
     try {
       this.hf.setSheetContent(this.sheetId, sheetData);
+      this.recalculations++;
+      this.trackBlockedSpills(this.sheetId, sheetData);
     } catch (error) {
       console.error('Failed to initialize HyperFormula with data:', error);
       // If setting content fails, try rebuilding
-      this.rebuild(sheetData);
+      this.rebuild({ [this.sheetName]: sheetData });
+    }
+  }
+
+  // Initialize every sheet of a workbook so cross-sheet references resolve
+  public initializeWorkbook(
+    sheets: Array<Pick<Sheet, 'name' | 'data' | 'maxRows' | 'maxCols'>>,
+    activeSheetName?: string,
+    namedRanges: NamedRange[] = []
+  ): void {
+    if (!sheets.length) return;
+
+    const content: Record<string, RawCellContent[][]> = {};
+    sheets.forEach(sheet => {
+      content[sheet.name] = this.toSheetContent(sheet.data, sheet.maxRows, sheet.maxCols, sheet.name);
+    });
+
+    this.hf.destroy();
+    this.rebuild(content, activeSheetName ?? sheets[0].name, namedRanges);
+  }
+
+  // Convert a sparse matrix to the 2D array HyperFormula expects
+  private toSheetContent(
+    data: SparseMatrix<CellData>,
+    maxRows: number,
+    maxCols: number,
+    sheetName: string
+  ): RawCellContent[][] {
+    const sheetData: RawCellContent[][] = [];
+
+    data.forEach((cellData, key) => {
+      const [row, col] = parseKey(key);
+      if (row >= maxRows || col >= maxCols) return;
+
+      if (!sheetData[row]) sheetData[row] = [];
+      sheetData[row][col] = this.translate(getCellContent(cellData), sheetName, row, col);
+    });
+
+    // Fill holes so every row is a dense array
+    for (let row = 0; row < sheetData.length; row++) {
+      const rowData = sheetData[row] || [];
+      for (let col = 0; col < rowData.length; col++) {
+        if (rowData[col] === undefined) rowData[col] = null;
+      }
+      sheetData[row] = rowData;
     }
+
+    return sheetData;
   }
 
   // Rebuild the engine with new data
-  private rebuild(sheetData: RawCellContent[][]): void {
-    this.hf = HyperFormula.buildFromArray(sheetData, {
+  private rebuild(
+    sheets: Record<string, RawCellContent[][]>,
+    activeSheetName: string = this.sheetName,
+    namedRanges: NamedRange[] = []
+  ): void {
+    this.hf = HyperFormula.buildFromSheets(sheets, {
       licenseKey: 'gpl-v3',
+      ...this.config,
+      functionPlugins: this.functionPlugins,
+    }, namedRanges.map(({ name, reference }) => ({ name, expression: unqualifyErrors(`=${reference}`) })));
+    this.changes = [];
+    this.recalculations++;
+    this.blockedSpills.clear();
+    Object.entries(sheets).forEach(([name, content]) => this.trackBlockedSpills(this.hf.getSheetId(name)!, content));
+    this.setActiveSheet(activeSheetName);
+  }
+
+  // Add an empty sheet to the workbook
+  public addSheet(name: string): void {
+    try {
+      this.hf.addSheet(name);
+    } catch (error) {
+      console.error(`Failed to add sheet ${name}:`, error);
+    }
+  }
+
+  // Remove a sheet from the workbook
+  public removeSheet(name: string): void {
+    const sheetId = this.hf.getSheetId(name);
+    if (sheetId === undefined) return;
+
+    try {
+      this.recordChanges(this.hf.removeSheet(sheetId));
+      if (name === this.sheetName) {
+        this.setActiveSheet(this.hf.getSheetNames()[0]);
+      }
+    } catch (error) {
+      console.error(`Failed to remove sheet ${name}:`, error);
+    }
+  }
+
+  // Rename a sheet; formulas referencing it follow the new name
+  public renameSheet(oldName: string, newName: string): void {
+    const sheetId = this.hf.getSheetId(oldName);
+    if (sheetId === undefined) return;
+
+    try {
+      this.hf.renameSheet(sheetId, newName);
+      if (oldName === this.sheetName) {
+        this.sheetName = newName;
+      }
+    } catch (error) {
+      console.error(`Failed to rename sheet ${oldName}:`, error);
+    }
+  }
+
+  // Select the sheet that cell operations apply to
+  public setActiveSheet(name: string): void {
+    const sheetId = this.hf.getSheetId(name);
+    if (sheetId === undefined) {
+      console.warn(`Sheet ${name} not found in formula engine`);
+      return;
+    }
+    this.sheetId = sheetId;
+    this.sheetName = name;
+    this.recalculations++;
+  }
+
+  public getActiveSheetName(): string {
+    return this.sheetName;
+  }
+
+  public getSheetNames(): string[] {
+    return this.hf.getSheetNames();
+  }
+
+  // Register workbook names, replacing any previously registered set
+  public setNamedRanges(namedRanges: NamedRange[]): void {
+    const wanted = new Set(namedRanges.map(namedRange => namedRange.name.toLowerCase()));
+
+    this.hf.listNamedExpressions().forEach(name => {
+      if (!wanted.has(name.toLowerCase())) {
+        this.recordChanges(this.hf.removeNamedExpression(name));
+      }
     });
-    this.sheetId = this.hf.getSheetId(this.sheetName) ?? 0;
+
+    namedRanges.forEach(({ name, reference }) => {
+      const expression = unqualifyErrors(`=${reference}`);
+
+      try {
+        const existing = this.hf.getNamedExpression(name);
+        if (!existing) {
+          this.recordChanges(this.hf.addNamedExpression(name, expression));
+        } else if (existing.expression !== expression) {
+          this.recordChanges(this.hf.changeNamedExpression(name, expression));
+        }
+      } catch (error) {
+        console.error(`Failed to register name ${name}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Register the workbook's tables. HyperFormula has no structured
+   * references, so formulas set from now on have references such as
+   * Alerts[Count] replaced with the cells they cover; formulas already set
+   * must be set again when tables move or change.
+   */
+  public setTables(tables: TableReference[]): void {
+    this.tables = tables;
+  }
+
+  // A formula with its structured references replaced by A1 references and
+  // its sheet-qualified errors unqualified
+  private translate(content: RawCellContent, sheetName: string, row?: number, col?: number): RawCellContent {
+    if (typeof content !== 'string' || !content.startsWith('=')) return content;
+    const formula = content.includes('!#') ? unqualifyErrors(content) : content;
+    if (!formula.includes('[')) return formula;
+    const cell = row === undefined || col === undefined ? undefined : { row, col };
+    return expandStructuredReferences(formula, this.tables, sheetName, cell);
   }
 
   // Set a cell value or formula
@@ -66,21 +614,38 @@ export class FormulaEngine {
     const address: SimpleCellAddress = { sheet: this.sheetId, row, col };
     
     try {
-      if (typeof value === 'string' && value.startsWith('=')) {
-        // It's a formula
-        this.hf.setCellContents(address, value);
-      } else {
-        // It's a value
-        this.hf.setCellContents(address, value);
-      }
+      this.recordChanges(this.hf.setCellContents(address, this.translate(value, this.sheetName, row, col)));
     } catch (error) {
       console.error(`Failed to set cell ${row}:${col}:`, error);
     }
   }
 
-  // Get the calculated value of a cell
-  public getCellValue(row: number, col: number): any {
-    const address: SimpleCellAddress = { sheet: this.sheetId, row, col };
+  // Set many cells at once; dependents are recalculated a single time
+  public setCells(updates: Array<{ row: number; col: number; value: any }>, sheetName?: string): void {
+    if (!updates.length) return;
+
+    const sheet = sheetName === undefined ? this.sheetId : this.hf.getSheetId(sheetName);
+    if (sheet === undefined) return;
+    const name = sheetName ?? this.sheetName;
+
+    try {
+      this.recordChanges(
+        this.hf.batch(() => {
+          updates.forEach(({ row, col, value }) => {
+            this.hf.setCellContents({ sheet, row, col }, this.translate(value, name, row, col));
+          });
+        })
+      );
+    } catch (error) {
+      console.error('Failed to set cells:', error);
+    }
+  }
+
+  // Get the calculated value of a cell, on the active sheet unless named
+  public getCellValue(row: number, col: number, sheetName?: string): any {
+    const sheet = sheetName === undefined ? this.sheetId : this.hf.getSheetId(sheetName);
+    if (sheet === undefined) return undefined;
+    const address: SimpleCellAddress = { sheet, row, col };
     
     try {
       const value = this.hf.getCellValue(address);
@@ -110,6 +675,18 @@ export class FormulaEngine {
     }
   }
 
+  // Get the raw content of a cell as it would be typed (formula or value)
+  public getCellContent(row: number, col: number): RawCellContent {
+    const address: SimpleCellAddress = { sheet: this.sheetId, row, col };
+
+    try {
+      return this.hf.getCellSerialized(address);
+    } catch (error) {
+      console.error(`Failed to get cell content ${row}:${col}:`, error);
+      return null;
+    }
+  }
+
   // Evaluate a formula without setting it in a cell
   public evaluateFormula(formula: string): any {
     if (!formula.startsWith('=')) {
@@ -124,7 +701,7 @@ export class FormulaEngine {
         col: 9999 
       };
       
-      this.hf.setCellContents(tempAddress, formula);
+      this.hf.setCellContents(tempAddress, this.translate(formula, this.sheetName));
       const result = this.hf.getCellValue(tempAddress);
       this.hf.setCellContents(tempAddress, null); // Clear temp cell
       
@@ -139,10 +716,41 @@ export class FormulaEngine {
     }
   }
 
+  // Evaluate a formula against the active sheet without writing to any cell.
+  // Array results give their top-left value.
+  public calculateFormula(formula: string): any {
+    try {
+      const result = this.hf.calculateFormula(this.translate(formula, this.sheetName) as string, this.sheetId);
+      const value = Array.isArray(result) ? result[0]?.[0] ?? null : result;
+      return this.isError(value) ? this.formatError(value) : value;
+    } catch {
+      return '#ERROR!';
+    }
+  }
+
+  // Evaluate a formula against the active sheet, keeping array results whole.
+  // A single value comes back as a 1×1 array.
+  public calculateArray(formula: string): any[][] {
+    try {
+      const result = this.hf.calculateFormula(this.translate(formula, this.sheetName) as string, this.sheetId);
+      const rows = Array.isArray(result) ? result : [[result]];
+      return rows.map(row => row.map(value => (this.isError(value) ? this.formatError(value) : value)));
+    } catch {
+      return [['#ERROR!']];
+    }
+  }
+
+  // How many times the engine has recalculated, for caching results derived
+  // from computed values
+  public getRecalculationCount(): number {
+    return this.recalculations;
+  }
+
   // Insert rows
   public insertRows(index: number, count: number = 1): void {
     try {
-      this.hf.addRows(this.sheetId, [index, count]);
+      this.shiftBlockedSpills('row', index, count);
+      this.recordChanges(this.hf.addRows(this.sheetId, [index, count]));
     } catch (error) {
       console.error('Failed to insert rows:', error);
     }
@@ -151,7 +759,8 @@ export class FormulaEngine {
   // Delete rows
   public deleteRows(index: number, count: number = 1): void {
     try {
-      this.hf.removeRows(this.sheetId, [index, count]);
+      this.shiftBlockedSpills('row', index, -count);
+      this.recordChanges(this.hf.removeRows(this.sheetId, [index, count]));
     } catch (error) {
       console.error('Failed to delete rows:', error);
     }
@@ -160,7 +769,8 @@ export class FormulaEngine {
   // Insert columns
   public insertColumns(index: number, count: number = 1): void {
     try {
-      this.hf.addColumns(this.sheetId, [index, count]);
+      this.shiftBlockedSpills('col', index, count);
+      this.recordChanges(this.hf.addColumns(this.sheetId, [index, count]));
     } catch (error) {
       console.error('Failed to insert columns:', error);
     }
@@ -169,7 +779,8 @@ export class FormulaEngine {
   // Delete columns
   public deleteColumns(index: number, count: number = 1): void {
     try {
-      this.hf.removeColumns(this.sheetId, [index, count]);
+      this.shiftBlockedSpills('col', index, -count);
+      this.recordChanges(this.hf.removeColumns(this.sheetId, [index, count]));
     } catch (error) {
       console.error('Failed to delete columns:', error);
     }
@@ -194,7 +805,7 @@ export class FormulaEngine {
       };
       
       this.hf.copy(sourceRange);
-      this.hf.paste(destAddress);
+      this.recordChanges(this.hf.paste(destAddress));
     } catch (error) {
       console.error('Failed to copy cells:', error);
     }
@@ -219,7 +830,7 @@ export class FormulaEngine {
       };
       
       this.hf.cut(sourceRange);
-      this.hf.paste(destAddress);
+      this.recordChanges(this.hf.paste(destAddress));
     } catch (error) {
       console.error('Failed to move cells:', error);
     }
@@ -237,21 +848,140 @@ export class FormulaEngine {
       };
       
       // Clear content - using setCellContent with null
-      for (let row = range.start.row; row <= range.end.row; row++) {
-        for (let col = range.start.col; col <= range.end.col; col++) {
-          this.hf.setCellContents({ row, col, sheet: this.sheetId }, null);
-        }
-      }
+      this.recordChanges(
+        this.hf.batch(() => {
+          for (let row = range.start.row; row <= range.end.row; row++) {
+            for (let col = range.start.col; col <= range.end.col; col++) {
+              this.hf.setCellContents({ row, col, sheet: this.sheetId }, null);
+            }
+          }
+        })
+      );
     } catch (error) {
       console.error('Failed to clear cells:', error);
     }
   }
 
-  // Get all changed cells after an operation
-  public getChangedCells(): Array<{ row: number; col: number; value: any }> {
-    // HyperFormula doesn't have getAllCellValues, so return empty for now
-    // In a real implementation, you'd track changes manually
-    return [];
+  /**
+   * The cells an array formula at row, col of the active sheet fills with
+   * its result, its own cell first. Null when the cell holds no array
+   * formula or the array is blocked from spilling.
+   */
+  public getSpillRange(row: number, col: number): SelectionRect | null {
+    const address: SimpleCellAddress = { sheet: this.sheetId, row, col };
+
+    try {
+      if (this.hf.getCellType(address) !== CellType.ARRAYFORMULA || this.isSpillError(this.hf.getCellValue(address))) {
+        return null;
+      }
+      // The array as calculated, which may be smaller than the cells the
+      // engine keeps for it, e.g. FILTER's matches
+      const result = this.hf.calculateFormula(this.hf.getCellFormula(address)!, this.sheetId);
+      if (!Array.isArray(result) || !result.length) return null;
+      return { startRow: row, startCol: col, endRow: row + result.length - 1, endCol: col + result[0].length - 1 };
+    } catch {
+      return null;
+    }
+  }
+
+  private isSpillError(value: CellValue): boolean {
+    return this.isError(value) && (value as { type: string }).type === ErrorType.SPILL;
+  }
+
+  // Note the array formulas of freshly loaded content that can't spill
+  private trackBlockedSpills(sheet: number, content: RawCellContent[][]): void {
+    content.forEach((cells, row) => cells.forEach((cell, col) => {
+      if (typeof cell !== 'string' || !cell.startsWith('=')) return;
+      const address = { sheet, row, col };
+      if (this.isSpillError(this.hf.getCellValue(address))) {
+        this.blockedSpills.set(`${sheet}:${row}:${col}`, address);
+      }
+    }));
+  }
+
+  // Keep blocked array formulas on their cells as rows or columns of the
+  // active sheet are inserted (count > 0) or deleted (count < 0) at index
+  private shiftBlockedSpills(axis: 'row' | 'col', index: number, count: number): void {
+    const shifted = new Map<string, SimpleCellAddress>();
+    this.blockedSpills.forEach((address, key) => {
+      if (address.sheet !== this.sheetId || address[axis] < index) {
+        shifted.set(key, address);
+        return;
+      }
+      if (count < 0 && address[axis] < index - count) return;
+      const moved = { ...address, [axis]: address[axis] + count };
+      shifted.set(`${moved.sheet}:${moved.row}:${moved.col}`, moved);
+    });
+    this.blockedSpills = shifted;
+  }
+
+  /**
+   * The engine doesn't try again to spill an array formula once the cells
+   * in its way are cleared, so blocked formulas are set again after every
+   * edit. Those still blocked stay #SPILL!.
+   */
+  private respill(): void {
+    if (this.respilling || this.blockedSpills.size === 0) return;
+
+    const blocked = Array.from(this.blockedSpills.values()).filter(address => {
+      try {
+        return this.isSpillError(this.hf.getCellValue(address));
+      } catch {
+        // The sheet is gone
+        return false;
+      }
+    });
+    this.blockedSpills = new Map(blocked.map(address => [`${address.sheet}:${address.row}:${address.col}`, address]));
+    if (!blocked.length) return;
+
+    this.respilling = true;
+    try {
+      const formulas = blocked.map(address => this.hf.getCellSerialized(address));
+      this.recordChanges(
+        this.hf.batch(() => {
+          blocked.forEach((address, i) => this.hf.setCellContents(address, formulas[i]));
+        })
+      );
+    } catch (error) {
+      console.error('Failed to spill array formulas:', error);
+    } finally {
+      this.respilling = false;
+    }
+  }
+
+  // Get every cell whose computed value changed since the last call, across all sheets
+  public getChangedCells(): Array<{ sheet: string; row: number; col: number; value: any }> {
+    const changes = this.changes;
+    this.changes = [];
+    return changes;
+  }
+
+  // Queue value changes reported by HyperFormula for getChangedCells()
+  private recordChanges(changes: ExportedChange[]): void {
+    if (changes.length) this.recalculations++;
+
+    changes.forEach(change => {
+      if (!(change instanceof ExportedCellChange)) return;
+
+      const sheet = this.hf.getSheetName(change.sheet);
+      if (sheet === undefined) return;
+
+      this.changes.push({
+        sheet,
+        row: change.row,
+        col: change.col,
+        value: this.isError(change.newValue) ? this.formatError(change.newValue) : change.newValue,
+      });
+
+      const key = `${change.sheet}:${change.row}:${change.col}`;
+      if (this.isSpillError(change.newValue)) {
+        this.blockedSpills.set(key, { sheet: change.sheet, row: change.row, col: change.col });
+      } else {
+        this.blockedSpills.delete(key);
+      }
+    });
+
+    if (changes.length) this.respill();
   }
 
   // Check if a value is an error
@@ -261,6 +991,7 @@ export class FormulaEngine {
 
   // Format error values
   private formatError(error: any): string {
+    if (error.message === LOADING_MESSAGE) return LOADING;
     if (error.type) {
       switch (error.type) {
         case 'DIV_BY_ZERO':
@@ -277,6 +1008,8 @@ export class FormulaEngine {
           return '#N/A';
         case 'CYCLE':
           return '#CYCLE!';
+        case 'SPILL':
+          return '#SPILL!';
         default:
           return '#ERROR!';
       }
@@ -306,16 +1039,171 @@ export class FormulaEngine {
     return false;
   }
 
+  /**
+   * Add a function formulas can call, replacing a custom function of the
+   * same name. Returns false, leaving the engine as it was, when the name
+   * isn't valid or belongs to a built-in function.
+   */
+  public registerFunction(fn: CustomFunction): boolean {
+    if (!this.isAvailableFunctionName(fn.name)) return false;
+
+    const next = new Map(this.customFunctions);
+    next.set(fn.name.toUpperCase(), fn);
+    this.applyCustomFunctions(next);
+    return true;
+  }
+
+  public unregisterFunction(name: string): void {
+    const next = new Map(this.customFunctions);
+    if (next.delete(name.toUpperCase())) this.applyCustomFunctions(next);
+  }
+
+  // Replace every custom function, skipping those whose names can't be used
+  public setCustomFunctions(functions: CustomFunction[]): void {
+    const next = new Map<string, CustomFunction>();
+    functions.forEach(fn => {
+      if (this.isAvailableFunctionName(fn.name)) next.set(fn.name.toUpperCase(), fn);
+    });
+    this.applyCustomFunctions(next);
+  }
+
+  // The custom functions formulas can call, with their argument metadata
+  public getCustomFunctions(): CustomFunction[] {
+    return Array.from(this.customFunctions.values());
+  }
+
+  /**
+   * Be told when computed values change without an edit, such as when an
+   * async function's result arrives or custom functions are replaced.
+   * Returns the function that stops the notifications.
+   */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private isAvailableFunctionName(name: string): boolean {
+    if (!/^[A-Za-z][A-Za-z0-9_.]*$/.test(name)) {
+      console.error(`Invalid function name ${name}: use letters, digits, dots and underscores, starting with a letter`);
+      return false;
+    }
+    if (HyperFormula.getRegisteredFunctionNames(this.hf.getConfig().language).includes(name.toUpperCase())) {
+      console.error(`Cannot register function ${name}: a built-in function has that name`);
+      return false;
+    }
+    return true;
+  }
+
+  // Rebuild the engine with a new set of custom functions
+  private applyCustomFunctions(next: Map<string, CustomFunction>): void {
+    const unchanged = next.size === this.customFunctions.size &&
+      Array.from(next).every(([name, fn]) => this.customFunctions.get(name) === fn);
+    if (unchanged) return;
+
+    // Results of functions that were replaced or removed are no longer valid
+    const stale = (call: string) => next.get(functionOfCall(call)) !== this.customFunctions.get(functionOfCall(call));
+    Array.from(this.asyncResults.keys()).filter(stale).forEach(call => this.asyncResults.delete(call));
+    Array.from(this.loading.keys()).filter(stale).forEach(call => this.loading.delete(call));
+
+    this.customFunctions = next;
+    this.functionPlugins = Array.from(next.values()).map(fn =>
+      createCustomFunctionPlugin(fn, (args, address) => this.callCustomFunction(fn, args, address))
+    );
+
+    try {
+      // Formulas find functions by their name in the engine's language
+      HyperFormula.getLanguage(this.hf.getConfig().language)
+        .extendFunctions(Object.fromEntries(Array.from(next.keys()).map(name => [name, name])));
+      this.hf.updateConfig({ functionPlugins: this.functionPlugins });
+    } catch (error) {
+      console.error('Failed to register custom functions:', error);
+    }
+    this.recalculations++;
+    this.notify();
+  }
+
+  // Run a custom function for a cell; async results are kept per call and
+  // show #LOADING until they arrive
+  private callCustomFunction(fn: CustomFunction, args: any[], address: SimpleCellAddress): any {
+    const call = `${fn.name.toUpperCase()}(${JSON.stringify(args)})`;
+    const loaded = this.asyncResults.has(call);
+    // A volatile function's result stands until the next recalculation
+    if (loaded && (!fn.volatile || this.settling)) return this.asyncResults.get(call);
+
+    const pending = this.loading.get(call) ?? new Map<string, SimpleCellAddress>();
+    if (!this.loading.has(call)) {
+      let result: ReturnType<CustomFunction['implementation']>;
+      try {
+        result = fn.implementation(...args);
+      } catch (error) {
+        return failure(error);
+      }
+      if (!(result instanceof Promise)) return fromCustomResult(result);
+
+      this.loading.set(call, pending);
+      result.then(fromCustomResult, failure).then(value => this.settle(call, pending, value));
+    }
+
+    pending.set(`${address.sheet}:${address.row}:${address.col}`, address);
+    return loaded ? this.asyncResults.get(call) : new CellError(ErrorType.NA, LOADING_MESSAGE);
+  }
+
+  // Keep an async result and recalculate the cells that were waiting for it
+  private settle(call: string, pending: Map<string, SimpleCellAddress>, value: any): void {
+    // Dropped when its function was replaced or removed meanwhile
+    if (this.destroyed || this.loading.get(call) !== pending) return;
+    this.loading.delete(call);
+    this.asyncResults.set(call, value);
+
+    const name = functionOfCall(call);
+    this.settling = true;
+    try {
+      // Cells still calling the function; the engine only recalculates a
+      // formula when it's set again
+      const cells = Array.from(pending.values()).flatMap(address => {
+        const formula = this.hf.getCellFormula(address);
+        const calls = formula && tokenizeFormula(formula).some(token => token.type === 'function' && token.text.toUpperCase() === name);
+        return calls ? [{ address, formula: formula! }] : [];
+      });
+      if (!cells.length) return;
+      this.recordChanges(this.hf.batch(() => cells.forEach(({ address, formula }) => this.hf.setCellContents(address, formula))));
+    } catch (error) {
+      console.error(`Failed to show the result of ${name}:`, error);
+    } finally {
+      this.settling = false;
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
   // Get available functions
   public getAvailableFunctions(): string[] {
     return this.hf.getRegisteredFunctionNames();
   }
 
-  // Validate a formula
-  public validateFormula(formula: string): { valid: boolean; error?: string } {
+  // Validate a formula. With evaluate false only its syntax and function
+  // names are checked, without running it, e.g. while it's being typed
+  public validateFormula(formula: string, evaluate: boolean = true): { valid: boolean; error?: string; message?: string } {
     if (!formula.startsWith('=')) {
       return { valid: true };
     }
+    const translated = this.translate(formula, this.sheetName) as string;
+
+    if (!evaluate) {
+      if (!this.hf.validateFormula(translated)) {
+        return { valid: false, error: '#ERROR!', message: 'Syntax error' };
+      }
+      const functions = this.hf.getRegisteredFunctionNames();
+      const unknown = tokenizeFormula(formula).find(token =>
+        token.type === 'function' && !functions.includes(token.text.toUpperCase())
+      );
+      return unknown ? { valid: false, error: '#NAME?', message: `Unknown function ${unknown.text}` } : { valid: true };
+    }
 
     try {
       // Try parsing the formula
@@ -325,12 +1213,13 @@ export class FormulaEngine {
         col: 9998 
       };
       
-      this.hf.setCellContents(tempAddress, formula);
+      this.hf.setCellContents(tempAddress, translated);
       const result = this.hf.getCellValue(tempAddress);
       this.hf.setCellContents(tempAddress, null);
       
-      if (this.isError(result)) {
-        return { valid: false, error: this.formatError(result) };
+      // A pending result is still a valid formula
+      if (this.isError(result) && this.formatError(result) !== LOADING) {
+        return { valid: false, error: this.formatError(result), message: (result as DetailedCellError).message || undefined };
       }
       
       return { valid: true };
@@ -341,6 +1230,8 @@ export class FormulaEngine {
 
   // Destroy the engine (cleanup)
   public destroy(): void {
+    this.destroyed = true;
+    this.listeners.clear();
     this.hf.destroy();
   }
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { MergeDirection, Selection, SelectionRect } from '../types/spreadsheet';
+import { normalizeRect, intersectRects, shiftRects } from './selectionUtils';
+
+const isSingleCell = (rect: SelectionRect): boolean =>
+  rect.startRow === rect.endRow && rect.startCol === rect.endCol;
+
+/**
+ * The merged region covering a cell, if any
+ */
+export function findMerge(
+  merges: SelectionRect[] | undefined,
+  row: number,
+  col: number
+): SelectionRect | undefined {
+  return merges?.find(m => row >= m.startRow && row <= m.endRow && col >= m.startCol && col <= m.endCol);
+}
+
+/**
+ * Whether a cell is hidden under a merged region, i.e. covered by one but
+ * not its top-left cell
+ */
+export function isMergeCovered(merges: SelectionRect[] | undefined, row: number, col: number): boolean {
+  const merge = findMerge(merges, row, col);
+  return !!merge && (merge.startRow !== row || merge.startCol !== col);
+}
+
+/**
+ * The regions a merge of the range creates: the whole range, one per row
+ * (horizontal) or one per column (vertical). Single cells are not merged.
+ */
+export function createMerges(range: SelectionRect, direction: MergeDirection = 'all'): SelectionRect[] {
+  const r = normalizeRect(range);
+  let merges: SelectionRect[];
+
+  if (direction === 'horizontal') {
+    merges = [];
+    for (let row = r.startRow; row <= r.endRow; row++) {
+      merges.push({ startRow: row, startCol: r.startCol, endRow: row, endCol: r.endCol });
+    }
+  } else if (direction === 'vertical') {
+    merges = [];
+    for (let col = r.startCol; col <= r.endCol; col++) {
+      merges.push({ startRow: r.startRow, startCol: col, endRow: r.endRow, endCol: col });
+    }
+  } else {
+    merges = [r];
+  }
+
+  return merges.filter(m => !isSingleCell(m));
+}
+
+/**
+ * Grow a range until no merged region lies partly outside it
+ */
+export function expandToMerges(range: SelectionRect, merges: SelectionRect[] | undefined): SelectionRect {
+  let r = normalizeRect(range);
+  if (!merges?.length) return r;
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const merge of merges) {
+      if (!intersectRects(r, merge)) continue;
+      const grown = {
+        startRow: Math.min(r.startRow, merge.startRow),
+        startCol: Math.min(r.startCol, merge.startCol),
+        endRow: Math.max(r.endRow, merge.endRow),
+        endCol: Math.max(r.endCol, merge.endCol),
+      };
+      if (grown.startRow !== r.startRow || grown.startCol !== r.startCol ||
+          grown.endRow !== r.endRow || grown.endCol !== r.endCol) {
+        r = grown;
+        changed = true;
+      }
+    }
+  }
+
+  return r;
+}
+
+/**
+ * Snap a selection to merged regions: ranges take in every merge they touch
+ * and the active cell moves to the top-left of its merge
+ */
+export function snapSelectionToMerges(selection: Selection, merges: SelectionRect[] | undefined): Selection {
+  if (!merges?.length) return selection;
+
+  const merge = selection.active && findMerge(merges, selection.active.row, selection.active.col);
+  return {
+    ranges: selection.ranges.map(range => {
+      const expanded = expandToMerges(range, merges);
+      // Keep the direction the range was drawn in
+      const up = range.endRow < range.startRow;
+      const left = range.endCol < range.startCol;
+      return {
+        startRow: up ? expanded.endRow : expanded.startRow,
+        startCol: left ? expanded.endCol : expanded.startCol,
+        endRow: up ? expanded.startRow : expanded.endRow,
+        endCol: left ? expanded.startCol : expanded.endCol,
+      };
+    }),
+    active: merge ? { row: merge.startRow, col: merge.startCol } : selection.active,
+  };
+}
+
+/**
+ * Adjust merged regions for rows or columns inserted (count > 0) or
+ * deleted (count < 0) at index. Inserting inside a merge grows it; merges
+ * reduced to a single cell, or deleted entirely, are dropped.
+ */
+export function shiftMerges(
+  merges: SelectionRect[] | undefined,
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): SelectionRect[] | undefined {
+  if (!merges?.length || count === 0) return merges;
+
+  return shiftRects(merges, axis, index, count).filter(merge => !isSingleCell(merge));
+}
@@ -0,0 +1,164 @@
+import { NamedRange, SpreadsheetState, SelectionRect, parseKey } from '../types/spreadsheet';
+import { tokenizeFormula, joinTokens, ParsedReference, ReferencePart } from './formulaTokenizer';
+import { formatReference } from './formulaUtils';
+import { getSheets, getActiveSheet, findSheetByName } from './sheetUtils';
+
+export const MAX_NAME_LENGTH = 255;
+
+/**
+ * Check a name against Excel's rules: starts with a letter, underscore or
+ * backslash, contains no spaces, and can't be read as a cell reference.
+ */
+export function isValidRangeName(name: string): boolean {
+  if (!name || name.length > MAX_NAME_LENGTH) return false;
+  if (!/^[A-Za-z_\\][A-Za-z0-9_.\\]*$/.test(name)) return false;
+
+  // R and C are reserved for R1C1 notation
+  if (/^[RC]$/i.test(name) || /^R\d*C\d*$/i.test(name)) return false;
+
+  const tokens = tokenizeFormula(name);
+  return tokens.length === 1 && tokens[0].type === 'name';
+}
+
+export function findNamedRange(namedRanges: NamedRange[] | undefined, name: string): NamedRange | undefined {
+  const lowered = name.toLowerCase();
+  return namedRanges?.find(namedRange => namedRange.name.toLowerCase() === lowered);
+}
+
+/**
+ * Parse text such as "Sheet1!$A$1:$B$5" or "C:C" as a single reference
+ */
+export function parseRangeReference(text: string): ParsedReference | null {
+  const tokens = tokenizeFormula(text.trim().replace(/^=/, ''));
+  return tokens.length === 1 && tokens[0].type === 'reference' ? tokens[0].ref! : null;
+}
+
+/**
+ * Turn user input into the stored form of a name's reference: absolute and
+ * qualified with a sheet, as Excel's Name Manager does. Returns null when
+ * the input isn't a reference.
+ */
+export function normalizeRangeReference(text: string, defaultSheet: string): string | null {
+  const ref = parseRangeReference(text);
+  if (!ref) return null;
+
+  const absolute = (part: ReferencePart): ReferencePart => ({ ...part, absRow: true, absCol: true });
+  return formatReference({
+    ...ref,
+    sheet: ref.sheet ?? defaultSheet,
+    start: absolute(ref.start),
+    end: ref.end ? absolute(ref.end) : undefined,
+  });
+}
+
+export interface ResolvedRange {
+  sheetId: string;
+  sheetName: string;
+  rect: SelectionRect;
+}
+
+/**
+ * Resolve a defined name or a reference to the sheet and cells it covers.
+ * Unqualified references resolve against the active sheet.
+ */
+export function resolveRange(state: SpreadsheetState, nameOrReference: string): ResolvedRange | null {
+  const namedRange = findNamedRange(state.namedRanges, nameOrReference.trim());
+  const ref = parseRangeReference(namedRange ? namedRange.reference : nameOrReference);
+  if (!ref) return null;
+
+  const sheet = ref.sheet !== undefined ? findSheetByName(getSheets(state), ref.sheet) : getActiveSheet(state);
+  if (!sheet) return null;
+
+  const end = ref.end ?? ref.start;
+  const rows = [ref.start.row ?? 0, end.row ?? sheet.maxRows - 1];
+  const cols = [ref.start.col ?? 0, end.col ?? sheet.maxCols - 1];
+
+  return {
+    sheetId: sheet.id,
+    sheetName: sheet.name,
+    rect: {
+      startRow: Math.min(rows[0], rows[1]),
+      startCol: Math.min(cols[0], cols[1]),
+      endRow: Math.max(rows[0], rows[1]),
+      endCol: Math.max(cols[0], cols[1]),
+    },
+  };
+}
+
+/**
+ * Values of the non-empty cells in a name or range, in row-major order.
+ * Pass getComputedValue to read formula results on the active sheet.
+ */
+export function getRangeValues(
+  state: SpreadsheetState,
+  nameOrReference: string,
+  getComputedValue?: (row: number, col: number) => any
+): any[] {
+  const resolved = resolveRange(state, nameOrReference);
+  if (!resolved) return [];
+
+  const sheet = getSheets(state).find(s => s.id === resolved.sheetId)!;
+  const isActive = sheet.id === getActiveSheet(state).id;
+  const { rect } = resolved;
+  const cells: Array<{ row: number; col: number; value: any }> = [];
+
+  sheet.data.forEach((cellData, key) => {
+    const [row, col] = parseKey(key);
+    if (row < rect.startRow || row > rect.endRow || col < rect.startCol || col > rect.endCol) return;
+
+    const value = cellData.formula && isActive && getComputedValue
+      ? getComputedValue(row, col)
+      : cellData.value;
+    if (value !== undefined && value !== null && value !== '') {
+      cells.push({ row, col, value });
+    }
+  });
+
+  return cells
+    .sort((a, b) => a.row - b.row || a.col - b.col)
+    .map(cell => cell.value);
+}
+
+/**
+ * Apply a formula reference rewrite to every name, keeping the array when
+ * nothing changed
+ */
+export function rewriteNamedRanges(
+  namedRanges: NamedRange[] | undefined,
+  rewrite: (formula: string) => string
+): NamedRange[] | undefined {
+  if (!namedRanges) return namedRanges;
+
+  let changed = false;
+  const next = namedRanges.map(namedRange => {
+    const formula = `=${namedRange.reference}`;
+    const rewritten = rewrite(formula);
+    if (rewritten === formula) return namedRange;
+
+    changed = true;
+    return { ...namedRange, reference: rewritten.slice(1) };
+  });
+
+  return changed ? next : namedRanges;
+}
+
+/**
+ * Replace uses of a name in a formula; sheet-qualified names and text inside
+ * string literals are left alone
+ */
+export function renameNameReferences(formula: string, oldName: string, newName: string): string {
+  if (!formula.startsWith('=')) return formula;
+
+  const lowered = oldName.toLowerCase();
+  const tokens = tokenizeFormula(formula);
+  let changed = false;
+
+  tokens.forEach(token => {
+    if (token.type === 'name' && token.sheet === undefined && token.text.toLowerCase() === lowered) {
+      token.text = newName;
+      changed = true;
+    }
+  });
+
+  return changed ? joinTokens(tokens) : formula;
+}
@@ -0,0 +1,285 @@
+import {
+  CellData,
+  PivotAggregation,
+  PivotDateGrouping,
+  PivotTable,
+  PivotValueField,
+  SelectionRect,
+  Sheet,
+  SparseMatrix,
+  keyOf,
+} from '../types/spreadsheet';
+import { columnToLetter } from './columnUtils';
+import { parseTimestamp } from './dfirUtils';
+import { intersectRects, normalizeRect, shiftRects } from './selectionUtils';
+import { isBlankValue, toNumber } from './valueUtils';
+
+// The label records with an empty field are grouped under
+export const PIVOT_BLANK = '(blank)';
+
+export const AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: 'Sum',
+  count: 'Count',
+  countDistinct: 'Distinct count',
+  average: 'Average',
+  min: 'Min',
+  max: 'Max',
+};
+
+export function createPivotTableId(): string {
+  return `pivot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Name of a source column: its header, or e.g. "Column C" when the header
+ * is blank
+ */
+export function getPivotFieldName(data: SparseMatrix<CellData>, source: SelectionRect, column: number): string {
+  const r = normalizeRect(source);
+  const header = data.get(keyOf(r.startRow, r.startCol + column))?.value;
+  return isBlankValue(header) ? `Column ${columnToLetter(r.startCol + column)}` : String(header);
+}
+
+// e.g. "Count of host"
+export function getPivotValueLabel(data: SparseMatrix<CellData>, source: SelectionRect, field: PivotValueField): string {
+  return `${AGGREGATION_LABELS[field.aggregation]} of ${getPivotFieldName(data, source, field.column)}`;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatDay = (date: Date) => `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+/**
+ * The label a value is grouped under. Timestamps grouped by date become
+ * "2024-01-02 13:00", "2024-01-02" or "Week of 2024-01-01" (weeks start on
+ * Monday), in UTC; values that aren't timestamps keep their own label.
+ */
+export function getPivotGroupLabel(value: any, grouping?: PivotDateGrouping): string {
+  if (isBlankValue(value)) return PIVOT_BLANK;
+  const date = grouping ? parseTimestamp(value) : null;
+  if (!date) return String(value);
+
+  switch (grouping) {
+    case 'hour':
+      return `${formatDay(date)} ${pad(date.getUTCHours())}:00`;
+    case 'day':
+      return formatDay(date);
+    default: {
+      const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000);
+      return `Week of ${formatDay(monday)}`;
+    }
+  }
+}
+
+/**
+ * Summarize values. Counts include any non-blank value; the others use
+ * numbers only and are blank when there are none, except sum which is 0.
+ */
+export function aggregateValues(values: any[], aggregation: PivotAggregation): number | '' {
+  const present = values.filter(value => !isBlankValue(value));
+  if (aggregation === 'count') return present.length;
+  if (aggregation === 'countDistinct') return new Set(present.map(String)).size;
+
+  const numbers = present.map(toNumber).filter((n): n is number => n !== null);
+  const sum = numbers.reduce((total, n) => total + n, 0);
+  if (aggregation === 'sum') return sum;
+  if (numbers.length === 0) return '';
+
+  switch (aggregation) {
+    case 'average':
+      return sum / numbers.length;
+    case 'min':
+      return numbers.reduce((a, b) => Math.min(a, b));
+    default:
+      return numbers.reduce((a, b) => Math.max(a, b));
+  }
+}
+
+// Numbers in order, text ignoring case, blanks last
+const labelCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+function compareLabels(a: string[], b: string[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) continue;
+    if (a[i] === PIVOT_BLANK || b[i] === PIVOT_BLANK) return a[i] === PIVOT_BLANK ? 1 : -1;
+    const result = labelCollator.compare(a[i], b[i]);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+// Separates the labels of a multi-field key; totals use TOTAL as their key
+const SEPARATOR = '\u0000';
+const TOTAL = '\u0001';
+const bucketKey = (rowKey: string, colKey: string) => `${rowKey}\u0002${colKey}`;
+
+const header = (value: any): CellData => ({ value, format: { bold: true } });
+
+/**
+ * A pivot table's output as rows of cells, from the source sheet's data.
+ * Filter fields come first, then a header row, a row per combination of
+ * row field labels with a column per combination of column field labels
+ * and value field, and grand totals. Records are read through getValue
+ * when given, so formulas count by their results.
+ */
+export function buildPivotTable(
+  pivot: PivotTable,
+  data: SparseMatrix<CellData>,
+  getValue: (row: number, col: number) => any = (row, col) => data.get(keyOf(row, col))?.value
+): Array<Array<CellData | null>> {
+  const r = normalizeRect(pivot.source);
+  const width = r.endCol - r.startCol + 1;
+  const valueAt = (row: number, column: number) => getValue(row, r.startCol + column);
+  const fieldName = (column: number) => getPivotFieldName(data, r, column);
+
+  const rowKeys = new Map<string, string[]>();
+  const colKeys = new Map<string, string[]>();
+  // Values of each value field, by row key and column key
+  const buckets = new Map<string, any[][]>();
+  const add = (rowKey: string, colKey: string, values: any[]) => {
+    const key = bucketKey(rowKey, colKey);
+    const bucket = buckets.get(key) ?? pivot.values.map((): any[] => []);
+    values.forEach((value, i) => bucket[i].push(value));
+    buckets.set(key, bucket);
+  };
+
+  for (let row = r.startRow + 1; row <= r.endRow; row++) {
+    // Records with nothing in them are skipped
+    let empty = true;
+    for (let column = 0; column < width && empty; column++) {
+      empty = isBlankValue(valueAt(row, column));
+    }
+    if (empty) continue;
+
+    const included = pivot.filters.every(filter =>
+      filter.values.length === 0 || filter.values.includes(getPivotGroupLabel(valueAt(row, filter.column)))
+    );
+    if (!included) continue;
+
+    const rowLabels = pivot.rows.map(field => getPivotGroupLabel(valueAt(row, field.column), field.dateGrouping));
+    const colLabels = pivot.columns.map(field => getPivotGroupLabel(valueAt(row, field.column), field.dateGrouping));
+    const rowKey = rowLabels.join(SEPARATOR);
+    const colKey = colLabels.join(SEPARATOR);
+    rowKeys.set(rowKey, rowLabels);
+    colKeys.set(colKey, colLabels);
+
+    const values = pivot.values.map(field => valueAt(row, field.column));
+    add(rowKey, colKey, values);
+    add(rowKey, TOTAL, values);
+    add(TOTAL, colKey, values);
+    add(TOTAL, TOTAL, values);
+  }
+
+  const sortedRows = Array.from(rowKeys.entries()).sort((a, b) => compareLabels(a[1], b[1]));
+  const sortedCols = Array.from(colKeys.entries()).sort((a, b) => compareLabels(a[1], b[1]));
+  const valueLabels = pivot.values.map(field => getPivotValueLabel(data, r, field));
+
+  // Column keys of the value columns, with the grand total column when
+  // there are column fields
+  const columns: Array<{ key: string; label: string }> = [];
+  if (pivot.columns.length === 0) {
+    valueLabels.forEach(label => columns.push({ key: TOTAL, label }));
+  } else {
+    sortedCols.forEach(([key, labels]) => {
+      const colLabel = labels.join(' / ');
+      valueLabels.forEach(label => columns.push({ key, label: valueLabels.length > 1 ? `${colLabel} - ${label}` : colLabel }));
+    });
+    valueLabels.forEach(label => columns.push({ key: TOTAL, label: valueLabels.length > 1 ? `Total ${label}` : 'Grand Total' }));
+  }
+
+  const valueCells = (rowKey: string): Array<CellData | null> =>
+    columns.map((column, i) => {
+      const field = i % pivot.values.length;
+      // Combinations without records stay blank
+      const bucket = buckets.get(bucketKey(rowKey, column.key));
+      const value = bucket ? aggregateValues(bucket[field], pivot.values[field].aggregation) : '';
+      return value === '' ? null : { value };
+    });
+
+  const labelWidth = Math.max(pivot.rows.length, 1);
+  const output: Array<Array<CellData | null>> = [];
+
+  pivot.filters.forEach(filter => {
+    output.push([header(fieldName(filter.column)), { value: filter.values.length ? filter.values.join(', ') : '(All)' }]);
+  });
+  if (pivot.filters.length) output.push([]);
+
+  const labelHeaders = pivot.rows.length ? pivot.rows.map(field => header(fieldName(field.column))) : [null];
+  output.push([...labelHeaders, ...columns.map(column => header(column.label))]);
+
+  if (pivot.rows.length) {
+    sortedRows.forEach(([key, labels]) => {
+      output.push([...labels.map(label => ({ value: label })), ...valueCells(key)]);
+    });
+  }
+  const padding: null[] = Array(labelWidth - 1).fill(null);
+  output.push([header('Grand Total'), ...padding, ...valueCells(TOTAL).map(cell => cell && header(cell.value))]);
+
+  // Every row as wide as the widest
+  const outputWidth = Math.max(...output.map(row => row.length));
+  return output.map(row => [...row, ...Array(outputWidth - row.length).fill(null)]);
+}
+
+// The cells an output built by buildPivotTable covers at the pivot table's target
+export function getPivotOutputRect(pivot: PivotTable, cells: Array<Array<CellData | null>>): SelectionRect {
+  return {
+    startRow: pivot.target.row,
+    startCol: pivot.target.col,
+    endRow: pivot.target.row + cells.length - 1,
+    endCol: pivot.target.col + (cells[0]?.length ?? 1) - 1,
+  };
+}
+
+/**
+ * Why an output can't be written to a sheet, or null when it can: it must
+ * fit the sheet and stay clear of its source data and of other pivot tables
+ */
+export function getPivotPlacementError(
+  pivot: PivotTable,
+  output: SelectionRect,
+  sheet: Pick<Sheet, 'id' | 'maxRows' | 'maxCols' | 'pivotTables'>
+): string | null {
+  if (output.endRow >= sheet.maxRows || output.endCol >= sheet.maxCols) {
+    return 'The pivot table does not fit on the sheet';
+  }
+  if (pivot.sourceSheetId === sheet.id && intersectRects(output, normalizeRect(pivot.source))) {
+    return 'The pivot table would overwrite its source data';
+  }
+  const overlaps = sheet.pivotTables?.some(other =>
+    other.id !== pivot.id && other.output && intersectRects(output, normalizeRect(other.output))
+  );
+  return overlaps ? 'The pivot table would overlap another pivot table' : null;
+}
+
+// The pivot table whose output covers a cell
+export function findPivotTableAt(pivots: PivotTable[] | undefined, row: number, col: number): PivotTable | undefined {
+  return pivots?.find(pivot => {
+    if (!pivot.output) return false;
+    const r = normalizeRect(pivot.output);
+    return row >= r.startRow && row <= r.endRow && col >= r.startCol && col <= r.endCol;
+  });
+}
+
+/**
+ * Adjust a sheet's pivot tables for rows or columns inserted (count > 0)
+ * or deleted (count < 0) at index; sources on the same sheet move too.
+ * Pivot tables whose source or output was deleted entirely are dropped.
+ */
+export function shiftPivotTables(
+  pivots: PivotTable[] | undefined,
+  sheetId: string,
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): PivotTable[] | undefined {
+  if (!pivots?.length || count === 0) return pivots;
+
+  const shifted = pivots.flatMap(pivot => {
+    const source = pivot.sourceSheetId === sheetId ? shiftRects([pivot.source], axis, index, count)[0] : pivot.source;
+    const output = pivot.output && shiftRects([pivot.output], axis, index, count)[0];
+    if (!source || (pivot.output && !output)) return [];
+
+    const target = output ? { row: output.startRow, col: output.startCol } : pivot.target;
+    return [{ ...pivot, source, output, target }];
+  });
+  return shifted.length ? shifted : undefined;
+}
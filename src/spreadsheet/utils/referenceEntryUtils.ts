@@ -0,0 +1,104 @@
+import { SelectionRect } from '../types/spreadsheet';
+import { tokenizeFormula, ParsedReference } from './formulaTokenizer';
+import { cellRefToString, formatReference } from './formulaUtils';
+import { normalizeRect } from './selectionUtils';
+
+// Colors given to the references of a formula in turn, as in Excel
+export const REFERENCE_COLORS = ['#1a73e8', '#d93025', '#9334e6', '#188038', '#e37400', '#d01884', '#007b83'];
+
+export interface ReferenceHighlight {
+  rect: SelectionRect;
+  color: string;
+}
+
+// The cells a reference covers; whole columns and rows span the sheet
+const referenceRect = (ref: ParsedReference, maxRows: number, maxCols: number): SelectionRect => {
+  const end = ref.end ?? ref.start;
+  return normalizeRect({
+    startRow: ref.start.row ?? 0,
+    startCol: ref.start.col ?? 0,
+    endRow: end.row ?? maxRows - 1,
+    endCol: end.col ?? maxCols - 1,
+  });
+};
+
+/**
+ * The references of a formula on one sheet, to outline on the grid. The same
+ * reference written twice gets the same color.
+ */
+export function getReferenceHighlights(
+  formula: string,
+  sheetName: string,
+  maxRows: number,
+  maxCols: number
+): ReferenceHighlight[] {
+  if (!formula.startsWith('=')) return [];
+
+  const colors = new Map<string, string>();
+  const highlights: ReferenceHighlight[] = [];
+  tokenizeFormula(formula).forEach(token => {
+    if (token.type !== 'reference' || !token.ref) return;
+    const key = token.text.replace(/\$/g, '').toUpperCase();
+    if (!colors.has(key)) colors.set(key, REFERENCE_COLORS[colors.size % REFERENCE_COLORS.length]);
+    if (token.ref.sheet !== undefined && token.ref.sheet.toLowerCase() !== sheetName.toLowerCase()) return;
+    highlights.push({ rect: referenceRect(token.ref, maxRows, maxCols), color: colors.get(key)! });
+  });
+  return highlights;
+}
+
+// Tokens a reference can follow
+const REFERENCE_FOLLOWS = new Set(['=', '+', '-', '*', '/', '^', '&', '<', '>', '<=', '>=', '<>', '(', ',', ';']);
+
+// Whether a reference can be entered at the caret: after the "=", an operator,
+// an opening bracket or an argument separator, not against other text and
+// not inside an array constant
+export function canInsertReference(formula: string, caret: number): boolean {
+  if (!formula.startsWith('=') || caret < 1) return false;
+  if (/^[A-Za-z0-9_.$[]/.test(formula.slice(caret))) return false;
+
+  const tokens = tokenizeFormula(formula.slice(0, caret)).filter(token => token.type !== 'whitespace');
+  const openArrays = tokens.filter(t => t.text === '{').length - tokens.filter(t => t.text === '}').length;
+  const last = tokens[tokens.length - 1];
+  return openArrays <= 0 && !!last && REFERENCE_FOLLOWS.has(last.text);
+}
+
+// B2 for a single cell, B2:D10 for a range
+export function formatPointedReference(rect: SelectionRect): string {
+  const r = normalizeRect(rect);
+  const start = cellRefToString(r.startRow, r.startCol);
+  return r.startRow === r.endRow && r.startCol === r.endCol
+    ? start
+    : `${start}:${cellRefToString(r.endRow, r.endCol)}`;
+}
+
+/**
+ * F4: the reference at or just before the caret made absolute, then row
+ * absolute, column absolute and relative again ($A$1, A$1, $A1, A1). Both
+ * ends of a range take the same mode. Null when there is no reference there.
+ */
+export function cycleReferenceMode(formula: string, caret: number): { formula: string; caret: number } | null {
+  if (!formula.startsWith('=')) return null;
+
+  const token = tokenizeFormula(formula).find(t =>
+    t.type === 'reference' && t.position <= caret && caret <= t.position + t.text.length
+  );
+  const ref = token?.ref;
+  if (!token || !ref) return null;
+
+  const { absCol: col, absRow: row } = ref.start;
+  const [absCol, absRow] =
+    col && row ? [false, true]
+    : row ? [true, false]
+    : col ? [false, false]
+    : [true, true];
+
+  const text = formatReference({
+    ...ref,
+    start: { ...ref.start, absCol, absRow },
+    end: ref.end && { ...ref.end, absCol, absRow },
+  });
+  return {
+    formula: formula.slice(0, token.position) + text + formula.slice(token.position + token.text.length),
+    caret: token.position + text.length,
+  };
+}
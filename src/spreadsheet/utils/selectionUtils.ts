@@ -32,4 +32,84 @@ export const singleCellSelection = (
 ): Selection => ({
   ranges: [{ startRow: row, startCol: col, endRow: row, endCol: col }],
   active: { row, col },
-});
\ No newline at end of file
+});
+/**
+ * The part of a rectangle inside bounds, or null if they do not overlap
+ */
+export const intersectRects = (
+  rect: SelectionRect,
+  bounds: SelectionRect
+): SelectionRect | null => {
+  const r = normalizeRect(rect);
+  const b = normalizeRect(bounds);
+  const clipped = {
+    startRow: Math.max(r.startRow, b.startRow),
+    startCol: Math.max(r.startCol, b.startCol),
+    endRow: Math.min(r.endRow, b.endRow),
+    endCol: Math.min(r.endCol, b.endCol),
+  };
+  return clipped.startRow <= clipped.endRow && clipped.startCol <= clipped.endCol ? clipped : null;
+};
+
+/**
+ * Adjust rectangles for rows or columns inserted (count > 0) or deleted
+ * (count < 0) at index. Inserting inside a rectangle grows it; rectangles
+ * deleted entirely are dropped.
+ */
+export const shiftRects = (
+  rects: SelectionRect[],
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): SelectionRect[] => {
+  const startKey = axis === 'row' ? 'startRow' : 'startCol';
+  const endKey = axis === 'row' ? 'endRow' : 'endCol';
+  const removed = -count;
+
+  const shift = (position: number, isEnd: boolean): number => {
+    // A rectangle spanning the insertion point grows
+    if (count > 0) {
+      return position >= index ? position + count : position;
+    }
+    if (position < index) return position;
+    if (position >= index + removed) return position - removed;
+    // Inside the deleted block: ends move before it, starts after it
+    return isEnd ? index - 1 : index;
+  };
+
+  return rects
+    .map(rect => ({
+      ...rect,
+      [startKey]: shift(rect[startKey], false),
+      [endKey]: shift(rect[endKey], true),
+    }))
+    .filter(rect => rect[endKey] >= rect[startKey]);
+};
+
+/**
+ * Whether a rectangle lies wholly inside bounds
+ */
+export const containsRect = (bounds: SelectionRect, rect: SelectionRect): boolean => {
+  const r = normalizeRect(rect);
+  const b = normalizeRect(bounds);
+  return r.startRow >= b.startRow && r.endRow <= b.endRow && r.startCol >= b.startCol && r.endCol <= b.endCol;
+};
+
+/**
+ * Where a rectangle ends up when the cells in source move by the offsets:
+ * rectangles wholly inside source move with them, others stay put
+ */
+export const moveRect = (
+  rect: SelectionRect,
+  source: SelectionRect,
+  rowOffset: number,
+  colOffset: number
+): SelectionRect => {
+  if (!containsRect(source, rect)) return rect;
+  return {
+    startRow: rect.startRow + rowOffset,
+    startCol: rect.startCol + colOffset,
+    endRow: rect.endRow + rowOffset,
+    endCol: rect.endCol + colOffset,
+  };
+};
@@ -0,0 +1,199 @@
+import { Sheet, SpreadsheetState, CellData } from '../types/spreadsheet';
+import { createFilterViewId } from './filterUtils';
+import { createPivotTableId } from './pivotUtils';
+import { createChartId } from './chartUtils';
+
+export const DEFAULT_SHEET_ID = 'sheet_default';
+export const DEFAULT_SHEET_NAME = 'Sheet1';
+export const MAX_SHEET_NAME_LENGTH = 31;
+
+// Characters Excel does not allow in worksheet names
+const INVALID_SHEET_NAME_CHARS = /[:\\/?*[\]]/;
+
+export function createSheetId(): string {
+  return `sheet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Create an empty sheet with the default row heights and column widths
+ */
+export function createSheet(name: string, options: Partial<Omit<Sheet, 'name'>> = {}): Sheet {
+  const maxRows = options.maxRows ?? 1000;
+  const maxCols = options.maxCols ?? 100;
+
+  return {
+    id: options.id ?? createSheetId(),
+    name,
+    data: options.data ?? new Map(),
+    maxRows,
+    maxCols,
+    rowHeights: options.rowHeights ?? Array(maxRows).fill(28),
+    colWidths: options.colWidths ?? Array(maxCols).fill(100),
+    validation: options.validation ?? new Map(),
+    sheetFormatting: options.sheetFormatting,
+    filterState: options.filterState,
+    filterViews: options.filterViews,
+    merges: options.merges,
+    conditionalFormats: options.conditionalFormats,
+    pivotTables: options.pivotTables,
+    charts: options.charts,
+    tables: options.tables,
+  };
+}
+
+export function getActiveSheetId(state: SpreadsheetState): string {
+  return state.activeSheetId ?? state.sheets?.[0]?.id ?? DEFAULT_SHEET_ID;
+}
+
+/**
+ * Build the active sheet from the live top-level state fields
+ */
+export function sheetFromState(state: SpreadsheetState): Sheet {
+  const activeId = getActiveSheetId(state);
+  const existing = state.sheets?.find(sheet => sheet.id === activeId);
+
+  return {
+    id: activeId,
+    name: existing?.name ?? DEFAULT_SHEET_NAME,
+    data: state.data,
+    maxRows: state.maxRows,
+    maxCols: state.maxCols,
+    rowHeights: state.rowHeights,
+    colWidths: state.colWidths,
+    validation: state.validation,
+    sheetFormatting: state.sheetFormatting,
+    filterState: state.filterState,
+    filterViews: state.filterViews,
+    merges: state.merges,
+    conditionalFormats: state.conditionalFormats,
+    pivotTables: state.pivotTables,
+    charts: state.charts,
+    tables: state.tables,
+  };
+}
+
+/**
+ * All sheets of the workbook in tab order, with the active sheet refreshed
+ * from the live state. States created before workbooks existed are treated
+ * as a single-sheet workbook.
+ */
+export function getSheets(state: SpreadsheetState): Sheet[] {
+  if (!state.sheets || state.sheets.length === 0) {
+    return [sheetFromState(state)];
+  }
+
+  const activeId = getActiveSheetId(state);
+  return state.sheets.map(sheet => (sheet.id === activeId ? sheetFromState(state) : sheet));
+}
+
+export function getActiveSheet(state: SpreadsheetState): Sheet {
+  return sheetFromState(state);
+}
+
+export function findSheetByName(sheets: Sheet[], name: string): Sheet | undefined {
+  const lowered = name.toLowerCase();
+  return sheets.find(sheet => sheet.name.toLowerCase() === lowered);
+}
+
+/**
+ * Replace the workbook's sheets and load the active sheet into the live
+ * top-level fields. Switching to a different sheet resets the selection
+ * and closes any open filter view.
+ */
+export function applySheets(
+  state: SpreadsheetState,
+  sheets: Sheet[],
+  activeSheetId: string = getActiveSheetId(state)
+): SpreadsheetState {
+  const active = sheets.find(sheet => sheet.id === activeSheetId) ?? sheets[0];
+  const switched = active.id !== getActiveSheetId(state);
+
+  return {
+    ...state,
+    sheets,
+    activeSheetId: active.id,
+    data: active.data,
+    maxRows: active.maxRows,
+    maxCols: active.maxCols,
+    rowHeights: active.rowHeights,
+    colWidths: active.colWidths,
+    validation: active.validation,
+    sheetFormatting: active.sheetFormatting,
+    filterState: active.filterState,
+    filterViews: active.filterViews,
+    merges: active.merges,
+    conditionalFormats: active.conditionalFormats,
+    pivotTables: active.pivotTables,
+    charts: active.charts,
+    tables: active.tables,
+    ...(switched
+      ? { selection: { ranges: [], active: null }, editing: null, formulaInput: '', activeFilterView: undefined }
+      : {}),
+  };
+}
+
+/**
+ * Check a sheet name against Excel's naming rules
+ */
+export function isValidSheetName(name: string): boolean {
+  const trimmed = name.trim();
+  return (
+    trimmed.length > 0 &&
+    trimmed.length <= MAX_SHEET_NAME_LENGTH &&
+    !INVALID_SHEET_NAME_CHARS.test(trimmed) &&
+    !trimmed.startsWith("'") &&
+    !trimmed.endsWith("'")
+  );
+}
+
+/**
+ * Generate a name not used by any sheet, e.g. "Sheet3" or "Alerts (2)"
+ */
+export function getUniqueSheetName(sheets: Sheet[], baseName?: string): string {
+  if (!baseName) {
+    let index = 1;
+    while (findSheetByName(sheets, `Sheet${index}`)) index++;
+    return `Sheet${index}`;
+  }
+
+  if (!findSheetByName(sheets, baseName)) return baseName;
+
+  const stem = baseName.replace(/ \(\d+\)$/, '');
+  let copy = 2;
+  while (findSheetByName(sheets, `${stem} (${copy})`)) copy++;
+  return `${stem} (${copy})`;
+}
+
+/**
+ * Copy a sheet with its own cell, validation and layout containers
+ */
+export function duplicateSheet(sheet: Sheet, name: string): Sheet {
+  const data = new Map<string, CellData>();
+  sheet.data.forEach((cellData, key) => {
+    data.set(key, cellData.format ? { ...cellData, format: { ...cellData.format } } : { ...cellData });
+  });
+
+  return {
+    ...sheet,
+    id: createSheetId(),
+    name,
+    data,
+    rowHeights: sheet.rowHeights ? [...sheet.rowHeights] : undefined,
+    colWidths: sheet.colWidths ? [...sheet.colWidths] : undefined,
+    validation: sheet.validation ? new Map(sheet.validation) : undefined,
+    sheetFormatting: sheet.sheetFormatting ? { ...sheet.sheetFormatting } : undefined,
+    filterState: sheet.filterState
+      ? { ...sheet.filterState, hiddenRows: new Set(sheet.filterState.hiddenRows) }
+      : undefined,
+    filterViews: sheet.filterViews?.map(view => ({ ...view, id: createFilterViewId() })),
+    merges: sheet.merges?.map(merge => ({ ...merge })),
+    conditionalFormats: sheet.conditionalFormats?.map(rule => ({
+      ...rule,
+      ranges: rule.ranges.map(range => ({ ...range })),
+    })),
+    pivotTables: sheet.pivotTables?.map(pivot => ({ ...pivot, id: createPivotTableId() })),
+    charts: sheet.charts?.map(chart => ({ ...chart, id: createChartId() })),
+    // Table names are unique in the workbook, so the caller names the copies
+    tables: sheet.tables?.map(table => ({ ...table, range: { ...table.range } })),
+  };
+}
@@ -0,0 +1,202 @@
+import { CellData, SelectionRect, SortKey, SparseMatrix, SpreadsheetState, keyOf, parseKey } from '../types/spreadsheet';
+import { normalizeRect } from './selectionUtils';
+import { IOC_PATTERNS, SEVERITY_LEVELS, parseTimestamp } from './dfirUtils';
+import { isBlankValue, toNumber } from './valueUtils';
+
+// SEVERITY_LEVELS from most to least severe: CRITICAL, HIGH, MEDIUM, LOW, INFO
+export const SEVERITY_SORT_ORDER: string[] = Object.entries(SEVERITY_LEVELS)
+  .sort(([, a], [, b]) => b.level - a.level)
+  .map(([name]) => name);
+
+// Compares digit runs as numbers, so "web-2" sorts before "web-10"
+const naturalCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * An IPv4 or IPv6 address as numbers that compare in address order, IPv4
+ * addresses first: [4, ...octets] or [6, ...16-bit groups]. Null for
+ * anything else.
+ */
+export function parseIPAddress(value: string): number[] | null {
+  const text = value.trim();
+  if (IOC_PATTERNS.ipv4.test(text)) {
+    return [4, ...text.split('.').map(Number)];
+  }
+  if (!text.includes(':')) return null;
+
+  // "::" stands for one or more groups of zeros
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return [6, ...groups.map(group => parseInt(group, 16))];
+}
+
+// A value as a sort key's order reads it, or null when it can't
+function readValue(value: any, key: SortKey): any {
+  switch (key.order ?? 'auto') {
+    case 'natural':
+      return String(value);
+    case 'ip':
+      return parseIPAddress(String(value));
+    case 'timestamp': {
+      const date = parseTimestamp(value);
+      return date ? date.getTime() : null;
+    }
+    case 'custom': {
+      const text = String(value).toLowerCase();
+      const index = (key.customOrder ?? []).findIndex(entry => entry.toLowerCase() === text);
+      return index === -1 ? null : index;
+    }
+    default:
+      return value;
+  }
+}
+
+// Numbers before text, and text ignoring case
+function compareAuto(a: any, b: any): number {
+  const numericA = toNumber(a) !== null;
+  const numericB = toNumber(b) !== null;
+  if (numericA && numericB) return Number(a) - Number(b);
+  if (numericA !== numericB) return numericA ? -1 : 1;
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+}
+
+function compareRead(a: any, b: any, key: SortKey): number {
+  switch (key.order ?? 'auto') {
+    case 'natural':
+      return naturalCollator.compare(a, b);
+    case 'ip': {
+      const index = a.findIndex((part: number, i: number) => part !== b[i]);
+      return index === -1 ? 0 : a[index] - b[index];
+    }
+    case 'timestamp':
+    case 'custom':
+      return a - b;
+    default:
+      return compareAuto(a, b);
+  }
+}
+
+interface SortValue {
+  raw: any;
+  read: any;
+}
+
+/**
+ * Compare two cell values by a sort key. Blanks sort last, and so do values
+ * the key's order can't read (e.g. text when sorting by IP address), in
+ * either direction.
+ */
+function compareSortValues(a: SortValue, b: SortValue, key: SortKey): number {
+  const blankA = isBlankValue(a.raw);
+  const blankB = isBlankValue(b.raw);
+  if (blankA || blankB) return blankA === blankB ? 0 : blankA ? 1 : -1;
+
+  const direction = key.ascending ? 1 : -1;
+  if (a.read === null || b.read === null) {
+    if (a.read !== null) return -1;
+    if (b.read !== null) return 1;
+    return direction * compareAuto(a.raw, b.raw);
+  }
+  return direction * compareRead(a.read, b.read, key);
+}
+
+/**
+ * Rows in sorted order: by the first key, ties broken by the next and so
+ * on. Rows that tie on every key keep their order.
+ */
+export function sortRows(
+  rows: number[],
+  keys: SortKey[],
+  getValue: (row: number, col: number) => any
+): number[] {
+  // Each value is read once rather than per comparison
+  const entries = rows.map(row => ({
+    row,
+    values: keys.map(key => {
+      const raw = getValue(row, key.column);
+      return { raw, read: isBlankValue(raw) ? null : readValue(raw, key) };
+    }),
+  }));
+
+  entries.sort((a, b) => {
+    for (let i = 0; i < keys.length; i++) {
+      const result = compareSortValues(a.values[i], b.values[i], keys[i]);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+
+  return entries.map(entry => entry.row);
+}
+
+type ValueKind = 'blank' | 'number' | 'ip' | 'date' | 'text';
+
+// YYYY-MM-DD or M/D/YYYY, optionally followed by a time. Date.parse alone
+// accepts text such as "web-01".
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{4})/;
+
+function kindOf(value: any): ValueKind {
+  if (isBlankValue(value)) return 'blank';
+  if (toNumber(value) !== null) return 'number';
+  const text = String(value);
+  if (parseIPAddress(text)) return 'ip';
+  if (DATE_PATTERN.test(text) && !isNaN(Date.parse(text))) return 'date';
+  return 'text';
+}
+
+/**
+ * Whether the first row of a range looks like headers: every cell holds
+ * text, and either some of it is bold or a column's values below are not
+ * text (numbers, IP addresses, dates)
+ */
+export function detectHeaderRow(data: SparseMatrix<CellData>, range: SelectionRect): boolean {
+  const r = normalizeRect(range);
+  if (r.startRow === r.endRow) return false;
+
+  let bold = false;
+  for (let col = r.startCol; col <= r.endCol; col++) {
+    const cell = data.get(keyOf(r.startRow, col));
+    if (cell?.formula || kindOf(cell?.value) !== 'text') return false;
+    bold = bold || !!cell?.format?.bold;
+  }
+  if (bold) return true;
+
+  for (let col = r.startCol; col <= r.endCol; col++) {
+    for (let row = r.startRow + 1; row <= r.endRow; row++) {
+      const kind = kindOf(data.get(keyOf(row, col))?.value);
+      if (kind === 'blank') continue;
+      if (kind !== 'text') return true;
+      break;
+    }
+  }
+  return false;
+}
+
+/**
+ * The range a sort applies to: the selection, or the whole of the sheet's
+ * data when a single cell is selected. Null when there is nothing to sort.
+ */
+export function getSortRange(state: SpreadsheetState): SelectionRect | null {
+  const selected = state.selection.ranges[0];
+  if (selected) {
+    const r = normalizeRect(selected);
+    if (r.startRow !== r.endRow || r.startCol !== r.endCol) return r;
+  }
+
+  let endRow = -1;
+  let endCol = -1;
+  state.data.forEach((cell, key) => {
+    if (isBlankValue(cell.value) && !cell.formula) return;
+    const [row, col] = parseKey(key);
+    endRow = Math.max(endRow, row);
+    endCol = Math.max(endCol, col);
+  });
+
+  return endRow === -1 ? null : { startRow: 0, startCol: 0, endRow, endCol };
+}
@@ -0,0 +1,151 @@
+import { CellData, SparklineOptions, SparklineType } from '../types/spreadsheet';
+import { tokenizeFormula } from './formulaTokenizer';
+
+const SPARKLINE_TYPES: SparklineType[] = ['line', 'column', 'winloss'];
+
+export const DEFAULT_SPARKLINE_OPTIONS = {
+  type: 'line' as SparklineType,
+  color: '#4285f4',
+  negativeColor: '#ea4335',
+  lineWidth: 1.5,
+};
+
+// A sparkline ready to draw
+export interface ResolvedSparkline extends SparklineOptions {
+  type: SparklineType;
+  color: string;
+  negativeColor: string;
+  lineWidth: number;
+  // Null where a cell is blank or not a number
+  values: Array<number | null>;
+}
+
+/**
+ * The arguments of a formula that is a single SPARKLINE call, e.g.
+ * =SPARKLINE(B2:M2, {"charttype","column"}), or null for any other formula
+ */
+export function parseSparklineFormula(formula: string): { data: string; options?: string } | null {
+  const tokens = tokenizeFormula(formula);
+  const significant = tokens.filter(token => token.type !== 'whitespace');
+  if (
+    significant[0]?.text !== '='
+    || significant[1]?.type !== 'function'
+    || significant[1].text.toUpperCase() !== 'SPARKLINE'
+    || significant[2]?.text !== '('
+  ) {
+    return null;
+  }
+
+  // Split the arguments at top-level commas, up to the closing parenthesis
+  const args = [''];
+  let depth = 0;
+  let closed = false;
+  for (const token of tokens.slice(tokens.indexOf(significant[2]) + 1)) {
+    if (closed) {
+      if (token.type !== 'whitespace') return null;
+      continue;
+    }
+    if (token.text === '(' || token.text === '{') depth++;
+    if (token.text === ')' && depth === 0) {
+      closed = true;
+      continue;
+    }
+    if (token.text === ')' || token.text === '}') depth--;
+    if (token.text === ',' && depth === 0) {
+      args.push('');
+      continue;
+    }
+    args[args.length - 1] += token.text;
+  }
+
+  const [data, options, ...rest] = args.map(arg => arg.trim());
+  if (!closed || !data || rest.length) return null;
+  return options ? { data, options } : { data };
+}
+
+/**
+ * Options from SPARKLINE's second argument as the engine evaluates it: rows
+ * of names and values such as {"charttype","column";"ymin",0}, or just a
+ * chart type. Unknown names and invalid values are ignored.
+ */
+export function parseSparklineOptions(values: any[][]): SparklineOptions {
+  const pairs = values.length === 1 && values[0].length === 1 ? [['charttype', values[0][0]]] : values;
+  const options: SparklineOptions = {};
+
+  pairs.forEach(row => {
+    for (let i = 0; i + 1 < row.length; i += 2) {
+      const value = row[i + 1];
+      switch (String(row[i]).trim().toLowerCase()) {
+        case 'charttype': {
+          const type = String(value).toLowerCase() as SparklineType;
+          if (SPARKLINE_TYPES.includes(type)) options.type = type;
+          break;
+        }
+        case 'color':
+          options.color = String(value);
+          break;
+        case 'negcolor':
+          options.negativeColor = String(value);
+          break;
+        case 'ymin':
+          if (typeof value === 'number') options.min = value;
+          break;
+        case 'ymax':
+          if (typeof value === 'number') options.max = value;
+          break;
+        case 'linewidth':
+          if (typeof value === 'number' && value > 0) options.lineWidth = value;
+          break;
+      }
+    }
+  });
+  return options;
+}
+
+// Numbers of a range row by row
+const toValues = (rows: any[][]): Array<number | null> =>
+  rows.flatMap(row => row.map(value => (typeof value === 'number' && isFinite(value) ? value : null)));
+
+/**
+ * What a cell's sparkline draws: its SPARKLINE formula, else its sparkline,
+ * read through evaluate (a formula in, its values out). Null when the cell
+ * has neither.
+ */
+export function resolveSparkline(
+  cellData: CellData | undefined,
+  evaluate: (formula: string) => any[][]
+): ResolvedSparkline | null {
+  const formula = cellData?.formula ? parseSparklineFormula(cellData.formula) : null;
+  if (formula) {
+    return {
+      ...DEFAULT_SPARKLINE_OPTIONS,
+      ...(formula.options ? parseSparklineOptions(evaluate(`=${formula.options}`)) : {}),
+      values: toValues(evaluate(`=${formula.data}`)),
+    };
+  }
+  if (cellData?.sparkline) {
+    return {
+      ...DEFAULT_SPARKLINE_OPTIONS,
+      ...cellData.sparkline.options,
+      values: toValues(evaluate(`=${cellData.sparkline.data}`)),
+    };
+  }
+  return null;
+}
+
+/**
+ * The values at the bottom and top of a sparkline: the data's lowest and
+ * highest unless fixed, with columns always reaching zero. Null without data.
+ */
+export function getSparklineDomain(sparkline: ResolvedSparkline): [number, number] | null {
+  const values = sparkline.values.filter((value): value is number => value !== null);
+  if (values.length === 0) return null;
+
+  let low = values.reduce((a, b) => Math.min(a, b));
+  let high = values.reduce((a, b) => Math.max(a, b));
+  if (sparkline.type === 'column') {
+    low = Math.min(low, 0);
+    high = Math.max(high, 0);
+  }
+  return [sparkline.min ?? low, sparkline.max ?? high];
+}
@@ -0,0 +1,41 @@
+import { SelectionRect } from '../types/spreadsheet';
+
+/**
+ * Where the results of a sheet's array formulas spill, keyed by the cell
+ * holding each formula ("row:col"). Spilled values are computed by the
+ * formula engine and never stored in the sheet's cells.
+ */
+export type SpillRanges = Map<string, SelectionRect>;
+
+// The spill range covering a cell, its formula cell included
+export function getSpillAt(spills: SpillRanges | undefined, row: number, col: number): SelectionRect | undefined {
+  if (!spills) return undefined;
+  for (const range of spills.values()) {
+    if (row >= range.startRow && row <= range.endRow && col >= range.startCol && col <= range.endCol) {
+      return range;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a cell shows part of an array formula's result rather than its
+ * own content. Such cells are read-only; pasting over one blocks the spill.
+ */
+export function isSpilledCell(spills: SpillRanges | undefined, row: number, col: number): boolean {
+  const range = getSpillAt(spills, row, col);
+  return !!range && (range.startRow !== row || range.startCol !== col);
+}
+
+function sameRect(a: SelectionRect, b: SelectionRect | undefined): boolean {
+  return !!b && a.startRow === b.startRow && a.startCol === b.startCol && a.endRow === b.endRow && a.endCol === b.endCol;
+}
+
+// Whether two sets of spill ranges are the same
+export function sameSpills(a: SpillRanges, b: SpillRanges): boolean {
+  if (a.size !== b.size) return false;
+  for (const [key, range] of a) {
+    if (!sameRect(range, b.get(key))) return false;
+  }
+  return true;
+}
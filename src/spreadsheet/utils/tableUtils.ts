@@ -0,0 +1,635 @@
+import {
+  CellData,
+  CellFormat,
+  FilterRule,
+  NamedRange,
+  SelectionRect,
+  Sheet,
+  SparseMatrix,
+  SpreadsheetState,
+  Table,
+  TableTotalFunction,
+  keyOf,
+} from '../types/spreadsheet';
+import { tokenizeFormula, joinTokens } from './formulaTokenizer';
+import { formatReference } from './formulaUtils';
+import { containsRect, moveRect, normalizeRect, shiftRects } from './selectionUtils';
+import { getSheets } from './sheetUtils';
+import { applyFilters, shiftFilterRules } from './filterUtils';
+import { findNamedRange, isValidRangeName } from './namedRangeUtils';
+import { isBlankValue } from './valueUtils';
+
+// Labels and SUBTOTAL function numbers of the total row functions. The
+// 100s ignore rows hidden by filters.
+export const TABLE_TOTAL_FUNCTIONS: Record<TableTotalFunction, { label: string; code: number }> = {
+  sum: { label: 'Sum', code: 109 },
+  average: { label: 'Average', code: 101 },
+  count: { label: 'Count', code: 103 },
+  countNumbers: { label: 'Count Numbers', code: 102 },
+  min: { label: 'Min', code: 105 },
+  max: { label: 'Max', code: 104 },
+  stdDev: { label: 'StdDev', code: 107 },
+  var: { label: 'Var', code: 110 },
+};
+
+// Header, band and total row styles; a cell's own format draws over them
+export const TABLE_STYLES: Record<'header' | 'band' | 'total', CellFormat> = {
+  header: { backgroundColor: '#4472c4', color: '#ffffff', bold: true },
+  band: { backgroundColor: '#d9e1f2' },
+  total: { bold: true, borders: { top: { color: '#4472c4', style: 'solid', width: 2 } } },
+};
+
+export function createTableId(): string {
+  return `table_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Check a table name: the rules of defined names, e.g. no spaces and not
+ * readable as a cell reference
+ */
+export function isValidTableName(name: string): boolean {
+  return isValidRangeName(name);
+}
+
+// Every table in the workbook with the name of its sheet
+export function getWorkbookTables(state: SpreadsheetState): Array<{ table: Table; sheetId: string; sheetName: string }> {
+  return getSheets(state).flatMap(sheet =>
+    (sheet.tables ?? []).map(table => ({ table, sheetId: sheet.id, sheetName: sheet.name }))
+  );
+}
+
+/**
+ * Whether a name is free for a table: not used by another table or a
+ * defined name, ignoring case. exceptId is the table being renamed.
+ */
+export function isTableNameAvailable(state: SpreadsheetState, name: string, exceptId?: string): boolean {
+  const lowered = name.toLowerCase();
+  return !findNamedRange(state.namedRanges, name) && !getWorkbookTables(state).some(({ table }) =>
+    table.id !== exceptId && table.name.toLowerCase() === lowered
+  );
+}
+
+// e.g. Table1, or Alerts2 for a copy of Alerts
+export function getUniqueTableName(
+  tables: Array<Pick<Table, 'name'>>,
+  namedRanges?: NamedRange[],
+  baseName = 'Table'
+): string {
+  const stem = baseName.replace(/\d+$/, '') || 'Table';
+  const taken = new Set(tables.map(table => table.name.toLowerCase()));
+  let n = 1;
+  while (taken.has(`${stem}${n}`.toLowerCase()) || findNamedRange(namedRanges, `${stem}${n}`)) n++;
+  return `${stem}${n}`;
+}
+
+// The table a cell lies in, header and total rows included
+export function getTableAt(tables: Table[] | undefined, row: number, col: number): Table | undefined {
+  return tables?.find(table => {
+    const r = normalizeRect(table.range);
+    return row >= r.startRow && row <= r.endRow && col >= r.startCol && col <= r.endCol;
+  });
+}
+
+/**
+ * First and last data row of a table: below the header and above the total
+ * row. The last is before the first when the table has no data rows.
+ */
+export function getTableDataRows(table: Pick<Table, 'range' | 'showTotalRow'>): { start: number; end: number } {
+  const r = normalizeRect(table.range);
+  return { start: r.startRow + 1, end: table.showTotalRow ? r.endRow - 1 : r.endRow };
+}
+
+// Header text of each column of a table, left to right
+export function getTableColumns(table: Pick<Table, 'range'>, data: SparseMatrix<CellData>): string[] {
+  const r = normalizeRect(table.range);
+  const columns: string[] = [];
+  for (let col = r.startCol; col <= r.endCol; col++) {
+    const value = data.get(keyOf(r.startRow, col))?.value;
+    columns.push(isBlankValue(value) ? '' : String(value));
+  }
+  return columns;
+}
+
+/**
+ * Header cells to write so every column of a range has a unique name, as
+ * Excel does when a table is created: blank headers become Column1,
+ * Column2..., repeated ones get a number, e.g. Count2.
+ */
+export function getTableHeaderUpdates(
+  data: SparseMatrix<CellData>,
+  range: SelectionRect
+): Array<{ row: number; col: number; data: Partial<CellData> }> {
+  const r = normalizeRect(range);
+  const columns = getTableColumns({ range: r }, data);
+  const taken = new Set(columns.filter(Boolean).map(column => column.toLowerCase()));
+  const seen = new Set<string>();
+  const updates: Array<{ row: number; col: number; data: Partial<CellData> }> = [];
+
+  columns.forEach((column, i) => {
+    const lowered = column.toLowerCase();
+    if (column && !seen.has(lowered)) {
+      seen.add(lowered);
+      return;
+    }
+
+    const stem = column || 'Column';
+    let n = column ? 2 : i + 1;
+    while (taken.has(`${stem}${n}`.toLowerCase())) n++;
+    const name = `${stem}${n}`;
+    taken.add(name.toLowerCase());
+    seen.add(name.toLowerCase());
+    updates.push({ row: r.startRow, col: r.startCol + i, data: { value: name, formula: undefined } });
+  });
+  return updates;
+}
+
+// e.g. =SUBTOTAL(109,Alerts[Count])
+export function getTotalFormula(tableName: string, column: string, fn: TableTotalFunction): string {
+  return `=SUBTOTAL(${TABLE_TOTAL_FUNCTIONS[fn].code},${tableName}[${escapeColumnName(column)}])`;
+}
+
+/**
+ * The total function of a total row formula written by getTotalFormula, or
+ * null for any other content
+ */
+export function parseTotalFunction(formula: string | undefined): TableTotalFunction | null {
+  const match = formula?.match(/^=SUBTOTAL\((\d+),[^,]+\)$/i);
+  if (!match) return null;
+  const code = Number(match[1]);
+  const found = (Object.keys(TABLE_TOTAL_FUNCTIONS) as TableTotalFunction[])
+    .find(fn => TABLE_TOTAL_FUNCTIONS[fn].code === code);
+  return found ?? null;
+}
+
+/**
+ * Cells of a new total row: "Total" under the first column and a sum, or a
+ * count for text, under the last
+ */
+export function getDefaultTotalRow(
+  table: Pick<Table, 'name' | 'range'>,
+  data: SparseMatrix<CellData>
+): Array<{ row: number; col: number; data: Partial<CellData> }> {
+  const r = normalizeRect(table.range);
+  const columns = getTableColumns(table, data);
+  const totalRow = r.endRow + 1;
+  const updates: Array<{ row: number; col: number; data: Partial<CellData> }> = [];
+
+  if (r.endCol > r.startCol) {
+    updates.push({ row: totalRow, col: r.startCol, data: { value: 'Total', formula: undefined } });
+  }
+  const last = columns[columns.length - 1];
+  if (last) {
+    let numeric = false;
+    for (let row = r.startRow + 1; row <= r.endRow && !numeric; row++) {
+      numeric = typeof data.get(keyOf(row, r.endCol))?.value === 'number';
+    }
+    const formula = getTotalFormula(table.name, last, numeric ? 'sum' : 'count');
+    updates.push({ row: totalRow, col: r.endCol, data: { formula, value: formula } });
+  }
+  return updates;
+}
+
+/**
+ * How a cell of a table is styled: the header row, every other data row
+ * when rows are banded, and the total row. Undefined outside the table.
+ */
+export function getTableCellFormat(table: Table | undefined, row: number): CellFormat | undefined {
+  if (!table) return undefined;
+  const r = normalizeRect(table.range);
+  if (row === r.startRow) return TABLE_STYLES.header;
+  if (table.showTotalRow && row === r.endRow) return TABLE_STYLES.total;
+  return table.bandedRows && (row - r.startRow) % 2 === 1 ? TABLE_STYLES.band : undefined;
+}
+
+/**
+ * Rows a table's filters hide: data rows failing any of its rules, on
+ * getValue's values when given
+ */
+export function applyTableFilters(
+  data: SparseMatrix<CellData>,
+  table: Pick<Table, 'range' | 'showTotalRow'>,
+  rules: FilterRule[],
+  getRangeValues?: (reference: string) => any[],
+  getValue?: (row: number, col: number) => any
+): number[] {
+  const { start, end } = getTableDataRows(table);
+  const hidden = applyFilters(data, rules, end + 1, 0, getRangeValues, getValue);
+  return Array.from(hidden).filter(row => row >= start).sort((a, b) => a - b);
+}
+
+/**
+ * A sheet's tables after cells are written: a table without a total row
+ * takes in the row right below it when a cell there within its columns is
+ * filled, row after row for a block pasted below it. Unchanged tables keep
+ * the array.
+ */
+export function expandTables(
+  tables: Table[] | undefined,
+  cells: Array<{ row: number; col: number }>
+): Table[] | undefined {
+  if (!tables?.length || !cells.length) return tables;
+
+  // Cells of another table never join this one
+  const free = cells.filter(cell => !getTableAt(tables, cell.row, cell.col));
+  let changed = false;
+  const expanded = tables.map(table => {
+    if (table.showTotalRow) return table;
+
+    const r = normalizeRect(table.range);
+    const rows = new Set(free.filter(cell => cell.col >= r.startCol && cell.col <= r.endCol).map(cell => cell.row));
+    let endRow = r.endRow;
+    while (rows.has(endRow + 1)) endRow++;
+    if (endRow === r.endRow) return table;
+
+    changed = true;
+    return { ...table, range: { ...r, endRow } };
+  });
+  return changed ? expanded : tables;
+}
+
+/**
+ * Adjust a sheet's tables for rows or columns inserted (count > 0) or
+ * deleted (count < 0) at index. Ranges grow and shrink like merged cells;
+ * a table loses its header or all of its data rows is dropped. Filters
+ * follow their columns and rows.
+ */
+export function shiftTables(
+  tables: Table[] | undefined,
+  axis: 'row' | 'col',
+  index: number,
+  count: number
+): Table[] | undefined {
+  if (!tables?.length || count === 0) return tables;
+
+  const shifted = tables.flatMap<Table>(table => {
+    const before = normalizeRect(table.range);
+    const [range] = shiftRects([before], axis, index, count);
+    if (!range) return [];
+
+    if (axis === 'col') {
+      const filters = table.filters && shiftFilterRules(table.filters, index, count);
+      return [{ ...table, range, filters: filters?.length ? filters : undefined }];
+    }
+
+    const headerDeleted = count < 0 && before.startRow >= index && before.startRow < index - count;
+    if (headerDeleted || range.endRow - range.startRow < (table.showTotalRow ? 2 : 1)) return [];
+
+    const hiddenRows = table.hiddenRows?.flatMap(row => {
+      if (row < index) return [row];
+      if (count > 0) return [row + count];
+      return row >= index - count ? [row + count] : [];
+    });
+    return [{ ...table, range, hiddenRows }];
+  });
+  return shifted.length ? shifted : undefined;
+}
+
+/**
+ * Adjust a sheet's tables for the cells in source moving by the offsets.
+ * Tables wholly inside source move with their filters and hidden rows;
+ * the rest stay put.
+ */
+export function moveTables(
+  tables: Table[] | undefined,
+  source: SelectionRect,
+  rowOffset: number,
+  colOffset: number
+): Table[] | undefined {
+  if (!tables?.length) return tables;
+
+  return tables.map(table => {
+    if (!containsRect(source, table.range)) return table;
+    return {
+      ...table,
+      range: moveRect(table.range, source, rowOffset, colOffset),
+      filters: table.filters?.map(rule => ({ ...rule, column: rule.column + colOffset })),
+      hiddenRows: table.hiddenRows?.map(row => row + rowOffset),
+    };
+  });
+}
+
+/**
+ * A table as structured references see it: where it is and what its
+ * columns are called
+ */
+export interface TableReference {
+  name: string;
+  sheetName: string;
+  range: SelectionRect;
+  showTotalRow: boolean;
+  // Header text of each column, left to right
+  columns: string[];
+}
+
+// Every table of the workbook for resolving structured references
+export function getTableReferences(state: SpreadsheetState): TableReference[] {
+  return getSheetTableReferences(getSheets(state));
+}
+
+// The tables of the given sheets, as for export
+export function getSheetTableReferences(sheets: Array<Pick<Sheet, 'name' | 'data' | 'tables'>>): TableReference[] {
+  return sheets.flatMap(sheet => (sheet.tables ?? []).map(table => ({
+    name: table.name,
+    sheetName: sheet.name,
+    range: normalizeRect(table.range),
+    showTotalRow: table.showTotalRow,
+    columns: getTableColumns(table, sheet.data),
+  })));
+}
+
+/**
+ * A structured reference split into its parts, e.g. Alerts[[#This Row],[Count]]
+ */
+export interface StructuredReference {
+  // As written; empty for the formula's own table, e.g. [@Count]
+  table: string;
+  // Special items in lower case: #all, #data, #headers, #totals, #this row
+  items: string[];
+  // First and last column named, if any
+  columns: [string, string] | null;
+}
+
+const SPECIAL_ITEMS = ['#all', '#data', '#headers', '#totals', '#this row'];
+
+const ITEM_NAMES: Record<string, string> = {
+  '#all': '#All',
+  '#data': '#Data',
+  '#headers': '#Headers',
+  '#totals': '#Totals',
+  '#this row': '#This Row',
+};
+
+// A quote escapes the next character of a column name
+const unescapeColumnName = (text: string): string => text.replace(/'(.)/g, '$1');
+
+// Characters that must be escaped in a column name: ' [ ] #
+export function escapeColumnName(name: string): string {
+  return name.replace(/(['[\]#])/g, "'$1");
+}
+
+// Split at top-level commas, outside brackets and escapes
+function splitItems(text: string): string[] {
+  const parts = [''];
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "'") {
+      parts[parts.length - 1] += text.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (char === '[') depth++;
+    if (char === ']') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push('');
+      continue;
+    }
+    parts[parts.length - 1] += char;
+  }
+  return parts.map(part => part.trim());
+}
+
+// The contents of [A] or [A]:[B], or null for anything else
+function readBracketed(text: string): string[] | null {
+  const contents: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] !== '[') return null;
+    let end = i + 1;
+    while (end < text.length && text[end] !== ']') end += text[end] === "'" ? 2 : 1;
+    if (end >= text.length) return null;
+    contents.push(text.slice(i + 1, end));
+
+    i = end + 1;
+    while (text[i] === ' ') i++;
+    if (i < text.length) {
+      if (text[i] !== ':' || contents.length > 1) return null;
+      i++;
+      while (text[i] === ' ') i++;
+    }
+  }
+  return contents.length ? contents : null;
+}
+
+/**
+ * Parse the text of a structured reference token. Null when it is malformed,
+ * e.g. an unknown special item or two column specifiers.
+ */
+export function parseStructuredReference(text: string): StructuredReference | null {
+  const open = text.indexOf('[');
+  if (open === -1 || !text.endsWith(']')) return null;
+
+  const reference: StructuredReference = { table: text.slice(0, open), items: [], columns: null };
+  const addItem = (item: string): boolean => {
+    const trimmed = item.trim();
+    if (trimmed.startsWith('#')) {
+      const special = trimmed.toLowerCase().replace(/\s+/g, ' ');
+      if (!SPECIAL_ITEMS.includes(special)) return false;
+      reference.items.push(special);
+      return true;
+    }
+    if (reference.columns || !trimmed) return false;
+    const name = unescapeColumnName(trimmed);
+    reference.columns = [name, name];
+    return true;
+  };
+  const addColumns = (text: string): boolean => {
+    const contents = readBracketed(text);
+    if (!contents) return false;
+    if (contents.length === 1) return addItem(contents[0]);
+    if (reference.columns) return false;
+    reference.columns = [unescapeColumnName(contents[0].trim()), unescapeColumnName(contents[1].trim())];
+    return true;
+  };
+
+  const inner = text.slice(open + 1, -1).trim();
+  if (inner === '') return reference;
+
+  // [@Count], [@[Event Count]] and [@] are this row
+  if (inner.startsWith('@')) {
+    reference.items.push('#this row');
+    const rest = inner.slice(1).trim();
+    if (!rest) return reference;
+    return (rest.startsWith('[') ? addColumns(rest) : addItem(rest)) ? reference : null;
+  }
+
+  if (!inner.startsWith('[')) {
+    return addItem(inner) ? reference : null;
+  }
+  return splitItems(inner).every(addColumns) ? reference : null;
+}
+
+// The reference back as text, e.g. Alerts[[#This Row],[Count]]
+function formatStructuredReference(tableName: string, reference: StructuredReference): string {
+  const parts = reference.items.map(item => `[${ITEM_NAMES[item]}]`);
+  if (reference.columns) {
+    const [first, last] = reference.columns.map(escapeColumnName);
+    parts.push(first === last ? `[${first}]` : `[${first}]:[${last}]`);
+  }
+  if (parts.length === 0) return `${tableName}[#Data]`;
+  // A lone column needs no inner brackets, e.g. Alerts[Count]
+  const [first, last] = reference.columns ?? [];
+  if (reference.items.length === 0 && first === last) return `${tableName}${parts[0]}`;
+  return `${tableName}[${parts.join(',')}]`;
+}
+
+/**
+ * Rewrite the structured references of a formula. The callback gets each
+ * reference with the table it resolves to (by name, or the table holding
+ * the cell for one without a name) and returns the new text, or null to
+ * leave it. Unparseable references are passed with no table.
+ */
+function rewriteStructuredReferences(
+  formula: string,
+  tables: TableReference[],
+  sheetName: string,
+  cell: { row: number; col: number } | undefined,
+  rewrite: (reference: StructuredReference | null, table: TableReference | undefined) => string | null
+): string {
+  if (!formula.startsWith('=') || !formula.includes('[')) return formula;
+
+  const tokens = tokenizeFormula(formula);
+  let changed = false;
+  tokens.forEach(token => {
+    if (token.type !== 'structured') return;
+
+    const reference = parseStructuredReference(token.text);
+    const lowered = token.table!.toLowerCase();
+    const table = lowered
+      ? tables.find(t => t.name.toLowerCase() === lowered)
+      : cell && tables.find(t => {
+        const r = t.range;
+        return t.sheetName.toLowerCase() === sheetName.toLowerCase()
+          && cell.row >= r.startRow && cell.row <= r.endRow && cell.col >= r.startCol && cell.col <= r.endCol;
+      });
+
+    const next = rewrite(reference, table);
+    if (next !== null && next !== token.text) {
+      token.text = next;
+      changed = true;
+    }
+  });
+  return changed ? joinTokens(tokens) : formula;
+}
+
+/**
+ * The A1 reference a structured reference stands for, or an error:
+ * #VALUE! for this row outside the table's data rows, #REF! for anything
+ * else that doesn't resolve
+ */
+export function resolveStructuredReference(
+  reference: StructuredReference | null,
+  table: TableReference | undefined,
+  sheetName: string,
+  row?: number
+): string {
+  if (!reference || !table) return '#REF!';
+
+  const r = table.range;
+  const { start: dataStart, end: dataEnd } = getTableDataRows(table);
+  const items = new Set(reference.items);
+  let rows: [number, number];
+
+  if (items.has('#all')) {
+    rows = [r.startRow, r.endRow];
+  } else if (items.has('#this row')) {
+    if (row === undefined || row < dataStart || row > dataEnd) return '#VALUE!';
+    rows = [row, row];
+  } else {
+    const headers = items.has('#headers');
+    const totals = items.has('#totals');
+    const data = items.has('#data') || (!headers && !totals);
+    if (totals && !table.showTotalRow && !data) return '#REF!';
+    if (headers && totals && !data) return '#REF!';
+
+    const start = headers ? r.startRow : dataStart;
+    const end = totals && table.showTotalRow ? r.endRow : data ? dataEnd : r.startRow;
+    if (end < start) return '#REF!';
+    rows = [start, end];
+  }
+
+  let cols: [number, number] = [r.startCol, r.endCol];
+  if (reference.columns) {
+    const [first, last] = reference.columns.map(name =>
+      table.columns.findIndex(column => column.toLowerCase() === name.toLowerCase())
+    );
+    if (first === -1 || last === -1) return '#REF!';
+    cols = [r.startCol + Math.min(first, last), r.startCol + Math.max(first, last)];
+  }
+
+  const part = (row: number, col: number) => ({ row, col, absRow: true, absCol: true });
+  const single = rows[0] === rows[1] && cols[0] === cols[1];
+  return formatReference({
+    sheet: table.sheetName.toLowerCase() === sheetName.toLowerCase() ? undefined : table.sheetName,
+    kind: single ? 'cell' : 'range',
+    start: part(rows[0], cols[0]),
+    end: single ? undefined : part(rows[1], cols[1]),
+  });
+}
+
+/**
+ * Replace the structured references of a formula in a cell of sheetName
+ * with the A1 references they stand for, e.g. =SUM(Alerts[Count]) becomes
+ * =SUM($C$2:$C$40). Without a cell, this row references are #VALUE!.
+ */
+export function expandStructuredReferences(
+  formula: string,
+  tables: TableReference[],
+  sheetName: string,
+  cell?: { row: number; col: number }
+): string {
+  return rewriteStructuredReferences(formula, tables, sheetName, cell, (reference, table) =>
+    resolveStructuredReference(reference, table, sheetName, cell?.row)
+  );
+}
+
+/**
+ * Replace only the references to one table with A1 references, as when the
+ * table is converted back to a range
+ */
+export function expandTableReferences(
+  formula: string,
+  tables: TableReference[],
+  tableName: string,
+  sheetName: string,
+  cell: { row: number; col: number }
+): string {
+  const lowered = tableName.toLowerCase();
+  return rewriteStructuredReferences(formula, tables, sheetName, cell, (reference, table) =>
+    table?.name.toLowerCase() === lowered ? resolveStructuredReference(reference, table, sheetName, cell.row) : null
+  );
+}
+
+/**
+ * Spell out structured references the way Excel stores them: with the
+ * table's name, and [#This Row] for @, e.g. [@Count] in Alerts becomes
+ * Alerts[[#This Row],[Count]]
+ */
+export function qualifyStructuredReferences(
+  formula: string,
+  tables: TableReference[],
+  sheetName: string,
+  cell: { row: number; col: number }
+): string {
+  return rewriteStructuredReferences(formula, tables, sheetName, cell, (reference, table) =>
+    reference && table ? formatStructuredReference(table.name, reference) : null
+  );
+}
+
+/**
+ * Replace a table's name in structured references, ignoring case
+ */
+export function renameTableReferences(formula: string, oldName: string, newName: string): string {
+  if (!formula.startsWith('=') || !formula.includes('[')) return formula;
+
+  const lowered = oldName.toLowerCase();
+  const tokens = tokenizeFormula(formula);
+  let changed = false;
+  tokens.forEach(token => {
+    if (token.type === 'structured' && token.table!.toLowerCase() === lowered) {
+      token.text = newName + token.text.slice(token.table!.length);
+      changed = true;
+    }
+  });
+  return changed ? joinTokens(tokens) : formula;
+}
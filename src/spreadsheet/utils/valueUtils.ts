@@ -0,0 +1,18 @@
+// Reading cell values, stored or computed, for sorting, charts, pivots and tables
+
+// Nothing in the cell, or a formula whose result is empty
+export const isBlankValue = (value: any): boolean => value === null || value === undefined || value === '';
+
+/**
+ * A number from a number or numeric text; null for anything else. TRUE and
+ * FALSE are not numbers, as Excel leaves them out of SUM and AVERAGE over a
+ * range.
+ */
+export function toNumber(value: any): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return isFinite(number) ? number : null;
+  }
+  return null;
+}